@@ -29,6 +29,23 @@ export interface AppConfig {
   // Configurações de rate limiting
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+
+  // Configurações de persistência
+  STORAGE_DRIVER: 'json' | 'sqlite';
+  SQLITE_PATH: string;
+  INTEGRITY_CHECK: 'off' | 'report' | 'repair';
+  TRASH_RETENTION_DAYS: number;
+  TRUCK_CAPACITY_M3: number;
+
+  // Páginas e miniaturas de plantas
+  PLANT_RENDER_DPIS: number[];
+  PLANT_THUMBNAIL_WIDTH: number;
+
+  // Fila de jobs em segundo plano
+  JOB_CONCURRENCY: number;
+  JOB_MAX_ATTEMPTS: number;
+  JOB_RETRY_DELAY_MS: number;
+  JOB_RETENTION_DAYS: number;
 }
 
 // Validação das variáveis de ambiente obrigatórias
@@ -86,6 +103,26 @@ export const config: AppConfig = {
   // Configurações de rate limiting
   RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutos
   RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'),
+
+  // Configurações de persistência
+  STORAGE_DRIVER: (process.env.STORAGE_DRIVER || 'json') as AppConfig['STORAGE_DRIVER'],
+  SQLITE_PATH: process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'viaplan.db'),
+  INTEGRITY_CHECK: (process.env.INTEGRITY_CHECK || 'report') as AppConfig['INTEGRITY_CHECK'],
+  TRASH_RETENTION_DAYS: parseInt(process.env.TRASH_RETENTION_DAYS || '30'),
+  TRUCK_CAPACITY_M3: parseFloat(process.env.TRUCK_CAPACITY_M3 || '10'),
+
+  // Páginas e miniaturas de plantas
+  PLANT_RENDER_DPIS: (process.env.PLANT_RENDER_DPIS || '72,150')
+    .split(',')
+    .map(dpi => parseInt(dpi.trim()))
+    .filter(dpi => dpi > 0),
+  PLANT_THUMBNAIL_WIDTH: parseInt(process.env.PLANT_THUMBNAIL_WIDTH || '320'),
+
+  // Fila de jobs em segundo plano
+  JOB_CONCURRENCY: parseInt(process.env.JOB_CONCURRENCY || '1'),
+  JOB_MAX_ATTEMPTS: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'),
+  JOB_RETRY_DELAY_MS: parseInt(process.env.JOB_RETRY_DELAY_MS || '5000'),
+  JOB_RETENTION_DAYS: parseInt(process.env.JOB_RETENTION_DAYS || '7'),
 };
 
 // Configurações específicas por ambiente
@@ -170,6 +207,42 @@ export const validateConfig = (): void => {
   if (config.RATE_LIMIT_MAX_REQUESTS <= 0) {
     errors.push('RATE_LIMIT_MAX_REQUESTS deve ser maior que 0');
   }
+
+  if (!['json', 'sqlite'].includes(config.STORAGE_DRIVER)) {
+    errors.push('STORAGE_DRIVER deve ser "json" ou "sqlite"');
+  }
+
+  if (!['off', 'report', 'repair'].includes(config.INTEGRITY_CHECK)) {
+    errors.push('INTEGRITY_CHECK deve ser "off", "report" ou "repair"');
+  }
+
+  if (isNaN(config.TRASH_RETENTION_DAYS) || config.TRASH_RETENTION_DAYS < 0) {
+    errors.push('TRASH_RETENTION_DAYS deve ser um número maior ou igual a 0');
+  }
+
+  if (isNaN(config.TRUCK_CAPACITY_M3) || config.TRUCK_CAPACITY_M3 <= 0) {
+    errors.push('TRUCK_CAPACITY_M3 deve ser um número maior que 0');
+  }
+
+  if (config.PLANT_RENDER_DPIS.length === 0) {
+    errors.push('PLANT_RENDER_DPIS deve ter ao menos um DPI');
+  }
+
+  if (isNaN(config.JOB_CONCURRENCY) || config.JOB_CONCURRENCY < 1) {
+    errors.push('JOB_CONCURRENCY deve ser um número maior ou igual a 1');
+  }
+
+  if (isNaN(config.JOB_MAX_ATTEMPTS) || config.JOB_MAX_ATTEMPTS < 1) {
+    errors.push('JOB_MAX_ATTEMPTS deve ser um número maior ou igual a 1');
+  }
+
+  if (isNaN(config.JOB_RETRY_DELAY_MS) || config.JOB_RETRY_DELAY_MS < 0) {
+    errors.push('JOB_RETRY_DELAY_MS deve ser um número maior ou igual a 0');
+  }
+
+  if (isNaN(config.JOB_RETENTION_DAYS) || config.JOB_RETENTION_DAYS < 0) {
+    errors.push('JOB_RETENTION_DAYS deve ser um número maior ou igual a 0');
+  }
   
   if (errors.length > 0) {
     throw new Error(`Configuração inválida: ${errors.join(', ')}`);
@@ -11,6 +11,8 @@ dotenv.config();
 interface SecurityConfig {
   jwtSecret: string;
   jwtExpiration: string;
+  jwtRefreshExpiration: string;
+  jwtIssuer: string;
   corsOrigin: string | string[];
   rateLimitWindow: number;
   rateLimitMax: number;
@@ -34,6 +36,8 @@ export const getSecurityConfig = (): SecurityConfig => {
   const config: SecurityConfig = {
     jwtSecret: process.env.JWT_SECRET!,
     jwtExpiration: process.env.JWT_EXPIRATION || '24h',
+    jwtRefreshExpiration: process.env.JWT_REFRESH_EXPIRATION || '7d',
+    jwtIssuer: process.env.JWT_ISSUER || 'viaplan-backend',
     corsOrigin: process.env.CORS_ORIGIN || '*',
     rateLimitWindow: parseInt(process.env.RATE_LIMIT_WINDOW || '900000'), // 15 minutos
     rateLimitMax: parseInt(process.env.RATE_LIMIT_MAX || '100'),
@@ -130,6 +134,7 @@ export const setupSecureEnvironment = () => {
   // Log de configuração (sem informações sensíveis)
   console.log('🔒 Configurações de segurança carregadas:', {
     jwtExpiration: config.jwtExpiration,
+    jwtRefreshExpiration: config.jwtRefreshExpiration,
     corsOrigin: Array.isArray(config.corsOrigin) ? config.corsOrigin.length : config.corsOrigin,
     rateLimitWindow: config.rateLimitWindow,
     rateLimitMax: config.rateLimitMax,
@@ -0,0 +1,102 @@
+// ============================================================================
+// CONTROLLER PARA AUTENTICAÇÃO
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { authService } from '../services/auth-service';
+
+export class AuthController {
+  /**
+   * Login
+   * POST /api/v1/auth/login
+   */
+  login = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { email, password } = req.body;
+
+      const result = await authService.login(email, password);
+
+      if (!result) {
+        res.status(401).json({
+          success: false,
+          error: 'Credenciais inválidas',
+          message: 'Email ou senha incorretos'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Login realizado com sucesso',
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Erro no login:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Renovar tokens
+   * POST /api/v1/auth/refresh
+   */
+  refresh = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+
+      const result = await authService.refresh(refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Tokens renovados com sucesso',
+        data: result
+      });
+    } catch (error: any) {
+      res.status(401).json({
+        success: false,
+        error: 'Refresh token inválido',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Logout (revoga token de acesso e, opcionalmente, o de refresh)
+   * POST /api/v1/auth/logout
+   */
+  logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const accessToken = req.headers.authorization?.split(' ')[1] || '';
+      const { refreshToken } = req.body;
+
+      await authService.logout(accessToken, req.user!.userId, refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Logout realizado com sucesso'
+      });
+    } catch (error: any) {
+      console.error('Erro no logout:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.statusCode ? error.message : 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Usuário autenticado
+   * GET /api/v1/auth/me
+   */
+  me = async (req: Request, res: Response): Promise<void> => {
+    res.json({
+      success: true,
+      data: req.user
+    });
+  };
+}
@@ -0,0 +1,235 @@
+// ============================================================================
+// CONTROLLER PARA ORÇAMENTOS DE PROJETO
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { BudgetService } from '../services/budget-service';
+import { BudgetStatus } from '../types/budget';
+import { BudgetFilters } from '../types/unified';
+
+export class BudgetController {
+  private budgetService: BudgetService;
+
+  constructor() {
+    this.budgetService = new BudgetService();
+  }
+
+  /**
+   * Criar orçamento
+   * POST /api/v1/budgets
+   */
+  createBudget = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const budget = await this.budgetService.createBudget(req.body, req.user?.userId || 'system');
+
+      res.status(201).json({
+        success: true,
+        message: 'Orçamento criado com sucesso',
+        data: budget
+      });
+    } catch (error: any) {
+      console.error('Erro ao criar orçamento:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao criar orçamento',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Listar orçamentos
+   * GET /api/v1/budgets
+   */
+  listBudgets = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters = req.query as BudgetFilters;
+
+      const { budgets, total } = await this.budgetService.listBudgets(filters);
+
+      res.json({
+        success: true,
+        data: budgets,
+        total
+      });
+    } catch (error: any) {
+      console.error('Erro ao listar orçamentos:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Obter orçamento por ID
+   * GET /api/v1/budgets/:id
+   */
+  getBudget = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const budget = await this.budgetService.getBudgetById(req.params.id);
+
+      if (!budget) {
+        res.status(404).json({
+          success: false,
+          error: 'Orçamento não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: budget
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter orçamento:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Atualizar orçamento em rascunho
+   * PUT /api/v1/budgets/:id
+   */
+  updateBudget = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const budget = await this.budgetService.updateBudget(req.params.id, req.body);
+
+      if (!budget) {
+        res.status(404).json({
+          success: false,
+          error: 'Orçamento não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Orçamento atualizado com sucesso',
+        data: budget
+      });
+    } catch (error: any) {
+      console.error('Erro ao atualizar orçamento:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao atualizar orçamento',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Deletar orçamento
+   * DELETE /api/v1/budgets/:id
+   */
+  deleteBudget = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!(await this.budgetService.deleteBudget(req.params.id))) {
+        res.status(404).json({
+          success: false,
+          error: 'Orçamento não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Orçamento deletado com sucesso'
+      });
+    } catch (error: any) {
+      console.error('Erro ao deletar orçamento:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao deletar orçamento',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Enviar orçamento ao cliente
+   * POST /api/v1/budgets/:id/submit
+   */
+  submitBudget = async (req: Request, res: Response): Promise<void> => {
+    await this.changeStatus(req, res, 'submitted', 'Orçamento enviado para aprovação');
+  };
+
+  /**
+   * Aprovar orçamento enviado
+   * POST /api/v1/budgets/:id/approve
+   */
+  approveBudget = async (req: Request, res: Response): Promise<void> => {
+    await this.changeStatus(req, res, 'approved', 'Orçamento aprovado');
+  };
+
+  /**
+   * Devolver orçamento enviado para rascunho
+   * POST /api/v1/budgets/:id/reject
+   */
+  rejectBudget = async (req: Request, res: Response): Promise<void> => {
+    await this.changeStatus(req, res, 'draft', 'Orçamento devolvido para revisão');
+  };
+
+  /**
+   * Abrir nova revisão de orçamento enviado ou aprovado
+   * POST /api/v1/budgets/:id/revisions
+   */
+  createRevision = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const budget = await this.budgetService.createRevision(req.params.id, req.user?.userId || 'system', req.body.comment);
+
+      if (!budget) {
+        res.status(404).json({
+          success: false,
+          error: 'Orçamento não encontrado'
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: `Revisão ${budget.revision} aberta`,
+        data: budget
+      });
+    } catch (error: any) {
+      console.error('Erro ao abrir revisão do orçamento:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao abrir revisão do orçamento',
+        message: error.message
+      });
+    }
+  };
+
+  private async changeStatus(req: Request, res: Response, status: BudgetStatus, message: string): Promise<void> {
+    try {
+      const budget = await this.budgetService.changeStatus(req.params.id, status, req.user?.userId || 'system', req.body.comment);
+
+      if (!budget) {
+        res.status(404).json({
+          success: false,
+          error: 'Orçamento não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message,
+        data: budget
+      });
+    } catch (error: any) {
+      console.error('Erro ao mudar status do orçamento:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao mudar status do orçamento',
+        message: error.message
+      });
+    }
+  }
+}
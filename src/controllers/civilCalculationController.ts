@@ -0,0 +1,231 @@
+// ============================================================================
+// CONTROLLER PARA CÁLCULOS ESTRUTURAIS - ENGENHARIA CIVIL PREDIAL
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { CivilMeasurementService } from '../services/civil-measurement-service';
+import {
+  analyzeSimplySupportedBeam,
+  calculateConcreteElasticModulus,
+  calculateSectionMomentOfInertia,
+  checkSimplySupportedBeam,
+  getStructureBeamGeometry,
+  optimizeBeamDimensionsForMaxResistance,
+  optimizeBeamFromLog
+} from '../services/civil-measurement-calculations';
+import { BeamDeflectionLimit, StructuralSection, StructureMeasurement } from '../types/civil-measurement';
+
+/**
+ * Módulo de elasticidade (Pa) informado diretamente ou derivado do fck (MPa)
+ */
+function resolveElasticModulus(elasticModulus?: number, fck?: number): number | null {
+  if (elasticModulus) return elasticModulus;
+  if (fck) return calculateConcreteElasticModulus(fck);
+  return null;
+}
+
+/**
+ * Momento de inércia (m⁴) informado diretamente ou calculado pela seção
+ */
+function resolveMomentOfInertia(momentOfInertia?: number, section?: StructuralSection): number | null {
+  if (momentOfInertia) return momentOfInertia;
+  if (section) return calculateSectionMomentOfInertia(section);
+  return null;
+}
+
+export class CivilCalculationController {
+  private measurementService: CivilMeasurementService;
+
+  constructor() {
+    this.measurementService = new CivilMeasurementService();
+  }
+
+  /**
+   * Analisar viga simplesmente apoiada com carga pontual no centro
+   * POST /api/v1/civil-calculations/beam/analyze
+   * Body: { load, length, elasticModulus | fck, section | momentOfInertia }
+   */
+  analyzeBeam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { load, length, elasticModulus, fck, section, momentOfInertia } = req.body;
+      const E = resolveElasticModulus(elasticModulus, fck) as number;
+      const I = resolveMomentOfInertia(momentOfInertia, section) as number;
+
+      const result = analyzeSimplySupportedBeam(load, length, E, I);
+
+      res.json({
+        success: true,
+        data: {
+          ...result,
+          elasticModulus: E,
+          momentOfInertia: I,
+          units: { deflection: 'm', moment: 'N.m', shear: 'N', angle: 'rad' }
+        }
+      });
+    } catch (error: any) {
+      console.error('Erro ao analisar viga:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao analisar viga',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Verificar flecha da viga contra L/250 ou L/350
+   * POST /api/v1/civil-calculations/beam/check
+   * Body: { load, length, elasticModulus | fck, section | momentOfInertia, deflectionLimit? }
+   */
+  checkBeam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { load, length, elasticModulus, fck, section, momentOfInertia, deflectionLimit } = req.body;
+      const E = resolveElasticModulus(elasticModulus, fck) as number;
+      const I = resolveMomentOfInertia(momentOfInertia, section) as number;
+
+      const result = checkSimplySupportedBeam(load, length, E, I, deflectionLimit);
+
+      res.json({
+        success: true,
+        data: {
+          ...result,
+          elasticModulus: E,
+          momentOfInertia: I
+        }
+      });
+    } catch (error: any) {
+      console.error('Erro ao verificar viga:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao verificar viga',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Verificar flecha de uma viga medida (StructureMeasurement 'viga')
+   * GET /api/v1/civil-calculations/beam/measurements/:id/check?load=&fck=&deflectionLimit=
+   * Vão e seção vêm da medição; sem elasticModulus/fck, usa o fck da medição
+   */
+  checkMeasuredBeam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const measurement = await this.measurementService.getMeasurementById(req.params.id);
+
+      if (!measurement) {
+        res.status(404).json({
+          success: false,
+          error: 'Medição não encontrada'
+        });
+        return;
+      }
+
+      const data = measurement.data as StructureMeasurement;
+      if (measurement.type !== 'structure' || data.geometry?.element_type !== 'viga') {
+        res.status(400).json({
+          success: false,
+          error: 'A medição não é uma viga'
+        });
+        return;
+      }
+
+      const query = req.query as unknown as {
+        load: number;
+        elasticModulus?: number;
+        fck?: number;
+        momentOfInertia?: number;
+        deflectionLimit: BeamDeflectionLimit;
+      };
+      const geometry = getStructureBeamGeometry(data);
+      const E = resolveElasticModulus(query.elasticModulus, query.fck ?? data.attributes?.fck_mpa);
+      const I = query.momentOfInertia || geometry.moment_of_inertia_m4;
+
+      if (!E) {
+        res.status(400).json({
+          success: false,
+          error: 'Informe elasticModulus ou fck (a medição não possui fck_mpa)'
+        });
+        return;
+      }
+
+      if (!I || geometry.span_m <= 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Vão ou seção da viga indefinidos',
+          message: 'Seções custom exigem momentOfInertia'
+        });
+        return;
+      }
+
+      const result = checkSimplySupportedBeam(query.load, geometry.span_m, E, I, query.deflectionLimit);
+
+      res.json({
+        success: true,
+        data: {
+          measurement_id: measurement.id,
+          label: data.label,
+          span_m: geometry.span_m,
+          section: data.geometry.section,
+          elasticModulus: E,
+          momentOfInertia: I,
+          ...result
+        }
+      });
+    } catch (error: any) {
+      console.error('Erro ao verificar viga medida:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao verificar viga medida',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Seção retangular de máxima resistência inscrita no diâmetro disponível
+   * POST /api/v1/civil-calculations/beam/optimize
+   * Body: { diameter, constant? }
+   */
+  optimizeBeam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { diameter, constant } = req.body;
+
+      const result = optimizeBeamDimensionsForMaxResistance(diameter, constant);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Erro ao otimizar viga:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao otimizar viga',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Viga retangular de máximo módulo de resistência extraída de um tronco
+   * POST /api/v1/civil-calculations/beam/optimize-log
+   * Body: { diameter }
+   */
+  optimizeBeamFromLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = optimizeBeamFromLog(req.body.diameter);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Erro ao otimizar viga de tronco:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao otimizar viga de tronco',
+        message: error.message
+      });
+    }
+  };
+}
@@ -4,6 +4,7 @@
 
 import { Request, Response } from 'express';
 import { CivilMeasurementService } from '../services/civil-measurement-service';
+import { CostEstimationService } from '../services/cost-estimation-service';
 import {
   CreateCivilMeasurementRequest,
   UpdateCivilMeasurementRequest
@@ -11,9 +12,11 @@ import {
 
 export class CivilMeasurementController {
   private measurementService: CivilMeasurementService;
+  private costEstimationService: CostEstimationService;
 
   constructor() {
     this.measurementService = new CivilMeasurementService();
+    this.costEstimationService = new CostEstimationService();
   }
 
   /**
@@ -26,7 +29,9 @@ export class CivilMeasurementController {
         project_id: req.body.projectId || req.body.project_id,
         type: req.body.type,
         data: req.body.data,
-        label: req.body.label
+        label: req.body.label,
+        ...(req.body.plant_id && { plant_id: req.body.plant_id }),
+        ...(req.body.plant_version_id && { plant_version_id: req.body.plant_version_id })
       };
       
       const measurement = await this.measurementService.createMeasurement(request);
@@ -108,6 +113,50 @@ export class CivilMeasurementController {
     }
   };
 
+  /**
+   * Obter resumo das medições civis do projeto (totais por tipo)
+   * GET /api/v1/civil-measurements/summary/:projectId
+   */
+  getProjectSummary = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const summary = await this.measurementService.getProjectSummary(req.params.projectId);
+      
+      res.json({
+        success: true,
+        data: summary
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter resumo de medições civis:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.statusCode ? error.message : 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Orçar medição pela composição de referência ou pelos vínculos do catálogo
+   * GET /api/v1/civil-measurements/:id/cost
+   */
+  getMeasurementCost = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const estimate = await this.costEstimationService.estimateCivilMeasurement(req.params.id, req.query);
+
+      res.json({
+        success: true,
+        data: estimate
+      });
+    } catch (error: any) {
+      console.error('Erro ao orçar medição civil:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao orçar medição',
+        message: error.message
+      });
+    }
+  };
+
   /**
    * Atualizar medição
    * PUT /api/v1/civil-measurements/:id
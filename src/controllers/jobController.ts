@@ -0,0 +1,41 @@
+// ============================================================================
+// CONTROLLER PARA JOBS EM SEGUNDO PLANO
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { jobQueue } from '../services/job-queue-service';
+import { UserRole } from '../middleware/auth';
+
+export class JobController {
+  /**
+   * Status, progresso e resultado do job. Só quem criou o job (ou admin/gerente)
+   * o vê; para os demais o job não existe.
+   * GET /api/jobs/:id
+   */
+  getJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const job = await jobQueue.getJob(req.params.id);
+      const canSeeAll = req.user?.role === UserRole.ADMIN || req.user?.role === UserRole.MANAGER;
+
+      if (!job || (!canSeeAll && job.created_by !== req.user?.userId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Job não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter job:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao obter job',
+        message: error.message
+      });
+    }
+  };
+}
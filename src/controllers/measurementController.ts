@@ -4,15 +4,36 @@
 
 import { Request, Response } from 'express';
 import { MeasurementService } from '../services/measurement-service';
+import { MEASUREMENT_EXPORT_FORMATS } from '../services/measurement-export';
+import { calculateTruckLoads } from '../services/earthwork-service';
+import { designBorePlan } from '../services/hdd-bore-planner';
+import {
+  SOIL_EXPANSION_FACTORS,
+  SOIL_CONTRACTION_FACTORS,
+  calculateBackfill as calculateBackfillUtil,
+  calculateCutVolumeFromCompactedFill,
+  calculateLooseVolumeFromCut,
+  calculateSpoilVolume,
+  calculateTransportVolumeForCompactedFill
+} from '../services/measurement-calculations-viaplan';
+import { config } from '../config/app';
 import {
   CreateMeasurementRequest,
-  UpdateMeasurementRequest
+  UpdateMeasurementRequest,
+  MeasurementFilters,
+  MeasurementType,
+  MeasurementExportFormat,
+  MeasurementExportFile
 } from '../types/measurement';
 import {
   calculateDistance as calculateDistanceUtil,
   calculateArea as calculateAreaUtil,
   calculateVolumeByDepth as calculateVolumeByDepthUtil,
-  calculateSlope as calculateSlopeUtil
+  calculateVolumeByAxis as calculateVolumeByAxisUtil,
+  calculateSlope as calculateSlopeUtil,
+  calculateProfile as calculateProfileUtil,
+  calculateOffset as calculateOffsetUtil,
+  calculateOffsetArea as calculateOffsetAreaUtil
 } from '../services/measurement-calculations';
 
 export class MeasurementController {
@@ -95,11 +116,11 @@ export class MeasurementController {
 
   /**
    * Listar medições por projeto
-   * GET /api/v1/measurements?projectId=:projectId
+   * GET /api/v1/measurements?projectId=:projectId&plantId=&plantVersionId=
    */
   listMeasurements = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { projectId } = req.query;
+      const { projectId, plantId, plantVersionId } = req.query;
       
       if (!projectId || typeof projectId !== 'string') {
         res.status(400).json({
@@ -109,7 +130,11 @@ export class MeasurementController {
         return;
       }
       
-      const measurements = await this.measurementService.listMeasurements({ project_id: projectId });
+      const measurements = await this.measurementService.listMeasurements({
+        project_id: projectId,
+        ...(typeof plantId === 'string' && { plant_id: plantId }),
+        ...(typeof plantVersionId === 'string' && { plant_version_id: plantVersionId })
+      });
       
       res.json({
         success: true,
@@ -230,33 +255,84 @@ export class MeasurementController {
 
   /**
    * Exportar medição
-   * GET /api/v1/measurements/:id/export?format=json|csv
+   * GET /api/v1/measurements/:id/export?format=json|csv|xlsx
    */
   exportMeasurement = async (req: Request, res: Response): Promise<void> => {
+    const format = this.parseExportFormat(req, res);
+    if (!format) return;
+
     try {
-      const { id } = req.params;
-      const format = (req.query.format as 'json' | 'csv') || 'json';
-      
-      const exportData = await this.measurementService.exportMeasurement(id, format);
-      
-      if (format === 'json') {
-        res.setHeader('Content-Type', 'application/json');
-        res.setHeader('Content-Disposition', `attachment; filename="measurement-${id}.json"`);
-      } else {
-        res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', `attachment; filename="measurement-${id}.csv"`);
-      }
-      
-      res.send(exportData);
+      const file = await this.measurementService.exportMeasurement(req.params.id, format);
+      this.sendExportFile(res, file);
     } catch (error: any) {
       console.error('Erro ao exportar medição:', error);
-      res.status(404).json({
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.message || 'Erro ao exportar medição'
+      });
+    }
+  };
+
+  /**
+   * Exportar medições filtradas
+   * GET /api/v1/measurements/export?projectId=&type=&dateFrom=&dateTo=&format=json|csv|xlsx
+   */
+  exportMeasurements = async (req: Request, res: Response): Promise<void> => {
+    const { projectId, type, dateFrom, dateTo } = req.query;
+
+    if (!projectId || typeof projectId !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'projectId é obrigatório'
+      });
+      return;
+    }
+
+    const format = this.parseExportFormat(req, res);
+    if (!format) return;
+
+    try {
+      const filters: MeasurementFilters = {
+        project_id: projectId,
+        ...(typeof type === 'string' && { type: type as MeasurementType }),
+        ...(typeof dateFrom === 'string' && { date_from: dateFrom }),
+        ...(typeof dateTo === 'string' && { date_to: dateTo })
+      };
+
+      const file = await this.measurementService.exportMeasurements(filters, format);
+      this.sendExportFile(res, file);
+    } catch (error: any) {
+      console.error('Erro ao exportar medições:', error);
+      res.status(error.statusCode || 500).json({
         success: false,
-        error: error.message || 'Medição não encontrada'
+        error: error.message || 'Erro ao exportar medições'
       });
     }
   };
 
+  /**
+   * Ler ?format= (padrão json); responde 400 e retorna null se inválido
+   */
+  private parseExportFormat(req: Request, res: Response): MeasurementExportFormat | null {
+    const format = (req.query.format as string | undefined) || 'json';
+
+    if (!MEASUREMENT_EXPORT_FORMATS.includes(format as MeasurementExportFormat)) {
+      res.status(400).json({
+        success: false,
+        error: `Formato inválido. Use: ${MEASUREMENT_EXPORT_FORMATS.join(', ')}`
+      });
+      return null;
+    }
+
+    return format as MeasurementExportFormat;
+  }
+
+  private sendExportFile(res: Response, file: MeasurementExportFile): void {
+    res.setHeader('Content-Type', file.content_type);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  }
+
   /**
    * Calcular distância
    * POST /api/v1/calculations/distance
@@ -380,5 +456,354 @@ export class MeasurementController {
       });
     }
   };
+
+  /**
+   * Calcular volume ao longo de um eixo (comprimento × largura × profundidade)
+   * POST /api/v1/calculations/volume-by-axis
+   */
+  calculateVolumeByAxis = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { length, width, depth, unit } = req.body;
+      
+      const volume = calculateVolumeByAxisUtil(length, width, depth, unit || 'cubic_meters');
+      
+      res.json({
+        success: true,
+        data: { volume, unit: unit || 'cubic_meters' }
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular volume por eixo:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao calcular volume por eixo',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Calcular perfil longitudinal (elevações ordenadas ao longo da linha)
+   * POST /api/v1/calculations/profile
+   * Body: { line: [p1, p2], elevations: [{ distance, elevation }], scale, unit?, zoom? }
+   */
+  calculateProfile = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { line, elevations, scale, unit, zoom } = req.body;
+      
+      const result = calculateProfileUtil(
+        line,
+        elevations,
+        scale || '1:1',
+        unit || 'meters',
+        zoom
+      );
+      
+      res.json({
+        success: true,
+        data: { ...result, unit: unit || 'meters', zoom: zoom || 1.0 }
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular perfil:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao calcular perfil',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Gerar linhas paralelas (offset) à linha base, em coordenadas do canvas
+   * POST /api/v1/calculations/offset
+   * Body: { baseLine, offsetDistance (m), scale, side?, zoom? }
+   */
+  calculateOffset = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { baseLine, offsetDistance, scale, side, zoom } = req.body;
+      
+      const result = calculateOffsetUtil(
+        baseLine,
+        offsetDistance,
+        scale || '1:1',
+        side || 'both',
+        zoom
+      );
+      
+      res.json({
+        success: true,
+        data: { ...result, side: side || 'both', offsetDistance, zoom: zoom || 1.0 }
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular offset:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao calcular offset',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Calcular área do corredor gerado pelo offset
+   * POST /api/v1/calculations/offset-area
+   * Body: { baseLine, offsetDistance (m), scale, unit?, zoom? }
+   */
+  calculateOffsetArea = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { baseLine, offsetDistance, scale, unit, zoom } = req.body;
+      
+      const area = calculateOffsetAreaUtil(
+        baseLine,
+        offsetDistance,
+        scale || '1:1',
+        unit || 'square_meters',
+        zoom
+      );
+      
+      res.json({
+        success: true,
+        data: { area, unit: unit || 'square_meters', zoom: zoom || 1.0 }
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular área do offset:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao calcular área do offset',
+        message: error.message
+      });
+    }
+  };
+
+  // ==========================================================================
+  // TERRAPLENAGEM
+  // ==========================================================================
+
+  /**
+   * Fatores de empolamento e contração por tipo de solo
+   * GET /api/v1/calculations/earthwork/factors
+   */
+  getEarthworkFactors = async (_req: Request, res: Response): Promise<void> => {
+    res.json({
+      success: true,
+      data: {
+        expansion: SOIL_EXPANSION_FACTORS,
+        contraction: SOIL_CONTRACTION_FACTORS,
+        truck_capacity_m3: config.TRUCK_CAPACITY_M3
+      }
+    });
+  };
+
+  /**
+   * Volume solto (transporte) a partir do volume de corte
+   * POST /api/v1/calculations/earthwork/loose-volume
+   * Body: { cutVolume, soilType?, expansionRate?, truckCapacity? }
+   */
+  calculateLooseVolume = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { cutVolume, soilType, expansionRate, truckCapacity = config.TRUCK_CAPACITY_M3 } = req.body;
+      const rate = expansionRate ?? SOIL_EXPANSION_FACTORS[soilType || 'misturado'];
+      
+      const looseVolume = calculateLooseVolumeFromCut(cutVolume, rate);
+      
+      res.json({
+        success: true,
+        data: {
+          looseVolume,
+          expansionRate: rate,
+          truckCapacity,
+          truckLoads: calculateTruckLoads(looseVolume, truckCapacity),
+          unit: 'cubic_meters'
+        }
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular volume solto:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao calcular volume solto',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Volume de corte necessário para um aterro compactado
+   * POST /api/v1/calculations/earthwork/cut-from-fill
+   * Body: { compactedFillVolume, contractionType?, contractionRate? }
+   */
+  calculateCutFromFill = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { compactedFillVolume, contractionType, contractionRate } = req.body;
+      const rate = contractionRate ?? SOIL_CONTRACTION_FACTORS[contractionType || 'normal'];
+      
+      const cutVolume = calculateCutVolumeFromCompactedFill(compactedFillVolume, rate);
+      
+      res.json({
+        success: true,
+        data: { cutVolume, contractionRate: rate, unit: 'cubic_meters' }
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular volume de corte:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao calcular volume de corte',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Volume solto a transportar para executar um aterro compactado
+   * POST /api/v1/calculations/earthwork/transport
+   * Body: { compactedFillVolume, soilType?, contractionType?, truckCapacity? }
+   */
+  calculateTransport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const {
+        compactedFillVolume,
+        soilType = 'misturado',
+        contractionType = 'normal',
+        truckCapacity = config.TRUCK_CAPACITY_M3
+      } = req.body;
+      
+      const cutVolume = calculateCutVolumeFromCompactedFill(compactedFillVolume, SOIL_CONTRACTION_FACTORS[contractionType]);
+      const looseVolume = calculateTransportVolumeForCompactedFill(compactedFillVolume, soilType, contractionType);
+      
+      res.json({
+        success: true,
+        data: {
+          cutVolume,
+          looseVolume,
+          truckCapacity,
+          truckLoads: calculateTruckLoads(looseVolume, truckCapacity),
+          unit: 'cubic_meters'
+        }
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular transporte:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao calcular transporte',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Bota-fora: escavação menos o volume ocupado pelo tubo
+   * POST /api/v1/calculations/earthwork/spoil
+   * Body: { excavationVolume, pipeOuterDiameter, pipeLength, soilType?, applyExpansion?, truckCapacity? }
+   */
+  calculateSpoil = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const {
+        excavationVolume,
+        pipeOuterDiameter,
+        pipeLength,
+        soilType = 'misturado',
+        applyExpansion = true,
+        truckCapacity = config.TRUCK_CAPACITY_M3
+      } = req.body;
+      
+      const spoilVolume = calculateSpoilVolume(excavationVolume, pipeOuterDiameter, pipeLength, soilType, applyExpansion);
+      
+      res.json({
+        success: true,
+        data: {
+          spoilVolume,
+          loose: applyExpansion,
+          truckCapacity,
+          truckLoads: calculateTruckLoads(spoilVolume, truckCapacity),
+          unit: 'cubic_meters'
+        }
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular bota-fora:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao calcular bota-fora',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Volume de reaterro: escavação menos remoção de asfalto e concreto
+   * POST /api/v1/calculations/earthwork/backfill
+   * Body: { excavationVolume, asphaltVolume?, concreteVolume? }
+   */
+  calculateBackfill = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { excavationVolume, asphaltVolume, concreteVolume } = req.body;
+      
+      const backfillVolume = calculateBackfillUtil(0, 0, 0, excavationVolume, asphaltVolume, concreteVolume);
+      
+      res.json({
+        success: true,
+        data: { backfillVolume: Math.max(backfillVolume, 0), unit: 'cubic_meters' }
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular reaterro:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao calcular reaterro',
+        message: error.message
+      });
+    }
+  };
+
+  // ==========================================================================
+  // PERFURAÇÃO DIRECIONAL (HDD)
+  // ==========================================================================
+
+  /**
+   * Projetar perfil de perfuração a partir da entrada e saída
+   * POST /api/v1/calculations/bore-plan
+   * Body: { entry, exit, entryAngle, exitAngle, minDepth?, cover?, obstacles?, conduits?, minCurvatureRadius?, step? }
+   */
+  designBorePlan = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { entry, exit, entryAngle, exitAngle, minDepth, cover, obstacles, conduits, minCurvatureRadius, step } = req.body;
+
+      const plan = designBorePlan({
+        entry,
+        exit,
+        entry_angle_degrees: entryAngle,
+        exit_angle_degrees: exitAngle,
+        min_depth_m: minDepth,
+        cover_m: cover,
+        obstacles: (obstacles || []).map((obstacle: any) => ({
+          label: obstacle.label,
+          station_m: obstacle.station,
+          length_m: obstacle.length,
+          depth_m: obstacle.depth
+        })),
+        conduits,
+        min_curvature_radius_m: minCurvatureRadius,
+        step_m: step
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...plan,
+          // Dados prontos para criar a medição (POST /api/v1/measurements, type: 'bore-shot')
+          measurement: {
+            coordinates: plan.coordinates,
+            conduits: conduits || [],
+            entry_angle_degrees: entryAngle,
+            exit_angle_degrees: exitAngle,
+            min_depth_guaranteed_m: plan.depth_m
+          }
+        }
+      });
+    } catch (error: any) {
+      console.error('Erro ao projetar perfuração:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao projetar perfuração',
+        message: error.message
+      });
+    }
+  };
 }
 
@@ -0,0 +1,134 @@
+// ============================================================================
+// CONTROLLER PARA PÁGINAS DE PLANTAS
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { PlantPageService } from '../services/plant-page-service';
+import { PlantsUnifiedService } from '../services/plants-unified-service';
+
+export class PlantPageController {
+  private pageService: PlantPageService;
+  private plantsService: PlantsUnifiedService;
+
+  constructor() {
+    this.pageService = new PlantPageService();
+    this.plantsService = new PlantsUnifiedService();
+  }
+
+  /**
+   * Listar páginas da planta (tamanho, miniatura e imagens por DPI)
+   * GET /api/v1/plants/:plantId/pages
+   */
+  listPages = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const pages = await this.pageService.listPages(req.params.plantId);
+
+      res.json({
+        success: true,
+        data: pages
+      });
+    } catch (error: any) {
+      console.error('Erro ao listar páginas da planta:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao listar páginas da planta',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Reprocessar as páginas da planta em segundo plano (acompanhar em GET /api/jobs/:id)
+   * POST /api/v1/plants/:plantId/pages/process
+   */
+  processPages = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const plant = await this.plantsService.getPlantById(req.params.plantId);
+
+      if (!plant) {
+        res.status(404).json({
+          success: false,
+          error: 'Planta não encontrada'
+        });
+        return;
+      }
+
+      const job = await this.plantsService.schedulePages(plant.id, req.user?.userId);
+
+      if (!job) {
+        res.status(400).json({
+          success: false,
+          error: 'Planta não é um PDF',
+          message: 'Somente plantas em PDF são divididas em páginas'
+        });
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        message: 'Processamento das páginas enfileirado',
+        data: job
+      });
+    } catch (error: any) {
+      console.error('Erro ao processar páginas da planta:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao processar páginas da planta',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Obter página
+   * GET /api/v1/plants/:plantId/pages/:pageNumber
+   */
+  getPage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const page = await this.pageService.getPage(req.params.plantId, Number(req.params.pageNumber));
+
+      if (!page) {
+        res.status(404).json({
+          success: false,
+          error: 'Página não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: page
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter página da planta:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao obter página da planta',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Imagem PNG da página
+   * GET /api/v1/plants/:plantId/pages/:pageNumber/image?dpi=
+   */
+  getPageImage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const render = await this.pageService.getPageImage(
+        req.params.plantId,
+        Number(req.params.pageNumber),
+        req.query.dpi === undefined ? undefined : Number(req.query.dpi)
+      );
+
+      res.type('png').sendFile(render.file_path);
+    } catch (error: any) {
+      console.error('Erro ao obter imagem da página:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao obter imagem da página',
+        message: error.message
+      });
+    }
+  };
+}
@@ -0,0 +1,410 @@
+// ============================================================================
+// CONTROLLER PARA VERSÕES DE PLANTAS
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Request, Response } from 'express';
+import { PlantVersionService, VersionAuthor } from '../services/plant-version-service';
+import { PlantRebaselineService } from '../services/plant-rebaseline-service';
+import { VersionFilter, VersionStatus, VisualComparisonOptions } from '../types/plant';
+
+function visualOptions(req: Request): VisualComparisonOptions {
+  return {
+    page: Number(req.query.page),
+    dpi: Number(req.query.dpi),
+    threshold: Number(req.query.threshold)
+  };
+}
+
+function author(req: Request): VersionAuthor {
+  return {
+    id: req.user?.userId || 'system',
+    name: req.user?.username || req.user?.email || 'system'
+  };
+}
+
+export class PlantVersionController {
+  private versionService: PlantVersionService;
+  private rebaselineService: PlantRebaselineService;
+
+  constructor() {
+    this.versionService = new PlantVersionService();
+    this.rebaselineService = new PlantRebaselineService();
+  }
+
+  /**
+   * Enviar nova revisão do desenho
+   * POST /api/v1/plants/:plantId/versions
+   */
+  createVersion = async (req: Request, res: Response): Promise<void> => {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: 'Arquivo é obrigatório',
+        message: 'Envie o arquivo da revisão no campo "file"'
+      });
+      return;
+    }
+
+    const file = req.file;
+
+    try {
+      const { version_number, version_name, description, parent_id, is_current, tags } = req.body;
+
+      const version = await this.versionService.createVersion({
+        plant_id: req.params.plantId,
+        ...(version_number && { version_number }),
+        ...(version_name && { version_name }),
+        ...(description && { description }),
+        ...(parent_id && { parent_id }),
+        is_current,
+        ...(tags && { tags: (tags as string).split(',').map(tag => tag.trim()).filter(Boolean) }),
+        file_path: file.path,
+        file_size: file.size,
+        file_type: path.extname(file.originalname).substring(1).toLowerCase() || 'pdf'
+      }, author(req), { mime_type: file.mimetype, original_filename: file.originalname });
+
+      res.status(201).json({
+        success: true,
+        message: `Versão ${version.version_number} criada com sucesso`,
+        data: version
+      });
+    } catch (error: any) {
+      // Revisão recusada: o arquivo enviado não fica órfão em uploads/plants
+      if (fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+
+      console.error('Erro ao criar versão da planta:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao criar versão da planta',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Histórico de versões da planta
+   * GET /api/v1/plants/:plantId/versions
+   */
+  getHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const history = await this.versionService.getHistory(req.params.plantId, req.query as VersionFilter);
+
+      res.json({
+        success: true,
+        data: history
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter histórico de versões:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao obter histórico de versões',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Árvore de versões da planta
+   * GET /api/v1/plants/:plantId/versions/tree
+   */
+  getTree = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tree = await this.versionService.getTree(req.params.plantId);
+
+      res.json({
+        success: true,
+        data: tree
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter árvore de versões:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao obter árvore de versões',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Comparar duas versões
+   * GET /api/v1/plants/:plantId/versions/compare?v1=&v2=
+   */
+  compareVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const comparison = await this.versionService.compareVersions(
+        req.params.plantId,
+        req.query.v1 as string,
+        req.query.v2 as string,
+        (req.query.visual as unknown as boolean) ? visualOptions(req) : undefined
+      );
+
+      res.json({
+        success: true,
+        data: comparison
+      });
+    } catch (error: any) {
+      console.error('Erro ao comparar versões:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao comparar versões',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Imagem PNG da sobreposição entre duas versões
+   * GET /api/v1/plants/:plantId/versions/compare/overlay?v1=&v2=&page=
+   */
+  getOverlay = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const overlayPath = await this.versionService.getOverlayPath(
+        req.params.plantId,
+        req.query.v1 as string,
+        req.query.v2 as string,
+        visualOptions(req)
+      );
+
+      res.type('png').sendFile(overlayPath);
+    } catch (error: any) {
+      console.error('Erro ao gerar sobreposição de versões:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao gerar sobreposição de versões',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Estatísticas de versões
+   * GET /api/v1/plants/versions/analytics
+   */
+  getAnalytics = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const analytics = await this.versionService.getAnalytics(req.query.plant_id as string | undefined);
+
+      res.json({
+        success: true,
+        data: analytics
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter estatísticas de versões:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Obter versão
+   * GET /api/v1/plants/:plantId/versions/:versionId
+   */
+  getVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const version = await this.versionService.getVersion(req.params.plantId, req.params.versionId);
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          error: 'Versão não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: version
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter versão:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Baixar o arquivo da versão
+   * GET /api/v1/plants/:plantId/versions/:versionId/file
+   */
+  downloadVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const version = await this.versionService.getVersion(req.params.plantId, req.params.versionId);
+
+      if (!version || !fs.existsSync(version.file_path)) {
+        res.status(404).json({
+          success: false,
+          error: 'Arquivo da versão não encontrado'
+        });
+        return;
+      }
+
+      res.download(version.file_path, version.metadata?.original_filename || path.basename(version.file_path));
+    } catch (error: any) {
+      console.error('Erro ao baixar versão:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Atualizar nome, descrição, tags e metadata da versão
+   * PUT /api/v1/plants/:plantId/versions/:versionId
+   */
+  updateVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const version = await this.versionService.updateVersion(req.params.plantId, req.params.versionId, req.body, author(req));
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          error: 'Versão não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Versão atualizada com sucesso',
+        data: version
+      });
+    } catch (error: any) {
+      console.error('Erro ao atualizar versão:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao atualizar versão',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Tornar a versão a atual da planta
+   * POST /api/v1/plants/:plantId/versions/:versionId/current
+   */
+  setCurrentVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const version = await this.versionService.setCurrentVersion(req.params.plantId, req.params.versionId, author(req));
+
+      res.json({
+        success: true,
+        message: `Versão ${version.version_number} definida como atual`,
+        data: version
+      });
+    } catch (error: any) {
+      console.error('Erro ao definir versão atual:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao definir versão atual',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Levar as medições da versão anterior para esta versão
+   * POST /api/v1/plants/:plantId/versions/:versionId/rebaseline
+   */
+  rebaseline = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.rebaselineService.rebaseline(
+        req.params.plantId,
+        req.params.versionId,
+        req.body,
+        author(req)
+      );
+
+      res.json({
+        success: true,
+        message: result.outside_sheet.length > 0
+          ? `${result.carried} medição(ões) levada(s) para a versão; ${result.outside_sheet.length} fora da folha`
+          : `${result.carried} medição(ões) levada(s) para a versão`,
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Erro no re-baseline de medições:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro no re-baseline de medições',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Enviar versão para revisão
+   * POST /api/v1/plants/:plantId/versions/:versionId/submit
+   */
+  submitVersion = async (req: Request, res: Response): Promise<void> => {
+    await this.changeStatus(req, res, 'review', 'Versão enviada para revisão');
+  };
+
+  /**
+   * Aprovar versão em revisão
+   * POST /api/v1/plants/:plantId/versions/:versionId/approve
+   */
+  approveVersion = async (req: Request, res: Response): Promise<void> => {
+    await this.changeStatus(req, res, 'approved', 'Versão aprovada');
+  };
+
+  /**
+   * Devolver versão em revisão para rascunho
+   * POST /api/v1/plants/:plantId/versions/:versionId/reject
+   */
+  rejectVersion = async (req: Request, res: Response): Promise<void> => {
+    await this.changeStatus(req, res, 'draft', 'Versão devolvida para rascunho');
+  };
+
+  /**
+   * Arquivar versão
+   * POST /api/v1/plants/:plantId/versions/:versionId/archive
+   */
+  archiveVersion = async (req: Request, res: Response): Promise<void> => {
+    await this.changeStatus(req, res, 'archived', 'Versão arquivada');
+  };
+
+  private async changeStatus(req: Request, res: Response, status: VersionStatus, message: string): Promise<void> {
+    try {
+      const version = await this.versionService.changeStatus(
+        req.params.plantId,
+        req.params.versionId,
+        status,
+        author(req),
+        req.body.comment
+      );
+
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          error: 'Versão não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message,
+        data: version
+      });
+    } catch (error: any) {
+      console.error('Erro ao mudar status da versão:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao mudar status da versão',
+        message: error.message
+      });
+    }
+  }
+}
@@ -0,0 +1,345 @@
+// ============================================================================
+// CONTROLLER PARA CATÁLOGO DE PREÇOS
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { PriceCatalogService } from '../services/price-catalog-service';
+import { CompositionImportOptions, PriceCatalogFilters } from '../types/cost';
+
+export class PriceCatalogController {
+  private priceCatalogService: PriceCatalogService;
+
+  constructor() {
+    this.priceCatalogService = new PriceCatalogService();
+  }
+
+  // ============================================================================
+  // ITENS
+  // ============================================================================
+
+  /**
+   * Criar item do catálogo
+   * POST /api/v1/price-catalog/items
+   */
+  createItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const item = await this.priceCatalogService.createItem(req.body, req.user?.userId || 'system');
+
+      res.status(201).json({
+        success: true,
+        message: 'Item criado com sucesso',
+        data: item
+      });
+    } catch (error: any) {
+      console.error('Erro ao criar item do catálogo:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao criar item do catálogo',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Listar itens do catálogo
+   * GET /api/v1/price-catalog/items
+   */
+  listItems = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const items = await this.priceCatalogService.listItems(req.query as PriceCatalogFilters);
+
+      res.json({
+        success: true,
+        data: items,
+        total: items.length
+      });
+    } catch (error: any) {
+      console.error('Erro ao listar itens do catálogo:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Obter item do catálogo
+   * GET /api/v1/price-catalog/items/:id
+   */
+  getItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const item = await this.priceCatalogService.getItemById(req.params.id);
+
+      if (!item) {
+        res.status(404).json({
+          success: false,
+          error: 'Item não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: item
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter item do catálogo:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Atualizar item do catálogo
+   * PUT /api/v1/price-catalog/items/:id
+   */
+  updateItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const item = await this.priceCatalogService.updateItem(req.params.id, req.body);
+
+      if (!item) {
+        res.status(404).json({
+          success: false,
+          error: 'Item não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Item atualizado com sucesso',
+        data: item
+      });
+    } catch (error: any) {
+      console.error('Erro ao atualizar item do catálogo:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao atualizar item do catálogo',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Deletar item do catálogo
+   * DELETE /api/v1/price-catalog/items/:id
+   */
+  deleteItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!(await this.priceCatalogService.deleteItem(req.params.id))) {
+        res.status(404).json({
+          success: false,
+          error: 'Item não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Item deletado com sucesso'
+      });
+    } catch (error: any) {
+      console.error('Erro ao deletar item do catálogo:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  // ============================================================================
+  // TABELAS DE PREÇOS
+  // ============================================================================
+
+  /**
+   * Criar tabela de preços
+   * POST /api/v1/price-catalog/price-lists
+   */
+  createPriceList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const priceList = await this.priceCatalogService.createPriceList(req.body, req.user?.userId || 'system');
+
+      res.status(201).json({
+        success: true,
+        message: 'Tabela de preços criada com sucesso',
+        data: priceList
+      });
+    } catch (error: any) {
+      console.error('Erro ao criar tabela de preços:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao criar tabela de preços',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Listar tabelas de preços
+   * GET /api/v1/price-catalog/price-lists
+   */
+  listPriceLists = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const priceLists = await this.priceCatalogService.listPriceLists(req.query as PriceCatalogFilters);
+
+      res.json({
+        success: true,
+        data: priceLists,
+        total: priceLists.length
+      });
+    } catch (error: any) {
+      console.error('Erro ao listar tabelas de preços:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Obter tabela de preços
+   * GET /api/v1/price-catalog/price-lists/:id
+   */
+  getPriceList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const priceList = await this.priceCatalogService.getPriceListById(req.params.id);
+
+      if (!priceList) {
+        res.status(404).json({
+          success: false,
+          error: 'Tabela de preços não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: priceList
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter tabela de preços:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Atualizar tabela de preços
+   * PUT /api/v1/price-catalog/price-lists/:id
+   */
+  updatePriceList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const priceList = await this.priceCatalogService.updatePriceList(req.params.id, req.body);
+
+      if (!priceList) {
+        res.status(404).json({
+          success: false,
+          error: 'Tabela de preços não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Tabela de preços atualizada com sucesso',
+        data: priceList
+      });
+    } catch (error: any) {
+      console.error('Erro ao atualizar tabela de preços:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao atualizar tabela de preços',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Deletar tabela de preços
+   * DELETE /api/v1/price-catalog/price-lists/:id
+   */
+  deletePriceList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!(await this.priceCatalogService.deletePriceList(req.params.id))) {
+        res.status(404).json({
+          success: false,
+          error: 'Tabela de preços não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Tabela de preços deletada com sucesso'
+      });
+    } catch (error: any) {
+      console.error('Erro ao deletar tabela de preços:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  // ============================================================================
+  // COMPOSIÇÕES DE REFERÊNCIA
+  // ============================================================================
+
+  /**
+   * Importar composições SINAPI/TCPO (CSV de insumos e de composições)
+   * POST /api/v1/price-catalog/compositions/import
+   */
+  importCompositions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const files = (req.files || {}) as Record<string, Express.Multer.File[]>;
+      const inputsFile = files.inputs?.[0];
+      const compositionsFile = files.compositions?.[0];
+
+      if (!inputsFile || !compositionsFile) {
+        res.status(400).json({
+          success: false,
+          error: 'Envie os arquivos CSV de insumos (inputs) e de composições (compositions)'
+        });
+        return;
+      }
+
+      const options: CompositionImportOptions = {
+        source: req.body.source,
+        reference_date: req.body.reference_date,
+        ...(req.body.states && {
+          states: (req.body.states as string).split(',').map(state => state.trim())
+        })
+      };
+
+      const result = await this.priceCatalogService.importCompositions(
+        inputsFile.buffer.toString('utf-8'),
+        compositionsFile.buffer.toString('utf-8'),
+        options,
+        req.user?.userId || 'system'
+      );
+
+      res.status(201).json({
+        success: true,
+        message: `${result.compositions} composições importadas`,
+        data: result
+      });
+    } catch (error: any) {
+      console.error('Erro ao importar composições:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao importar composições',
+        message: error.message
+      });
+    }
+  };
+}
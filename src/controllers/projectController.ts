@@ -4,12 +4,38 @@
 
 import { Request, Response } from 'express';
 import { ProjectService } from '../services/project-service';
+import { ProjectTrashService } from '../services/project-trash-service';
+import { MeasurementService } from '../services/measurement-service';
+import { QuantityReportService } from '../services/quantity-report-service';
+import { EarthworkService } from '../services/earthwork-service';
+import { ClashDetectionService } from '../services/clash-detection-service';
+import { CostEstimationService } from '../services/cost-estimation-service';
+import { MEASUREMENT_EXPORT_FORMATS } from '../services/measurement-export';
+import { MeasurementExportFormat } from '../types/measurement';
+import { QuantityReportFormat } from '../types/report';
+import { UserService } from '../services/user-service';
+import { UserRole } from '../middleware/auth';
+import { config } from '../config/app';
 
 export class ProjectController {
   private projectService: ProjectService;
+  private trashService: ProjectTrashService;
+  private measurementService: MeasurementService;
+  private reportService: QuantityReportService;
+  private earthworkService: EarthworkService;
+  private clashDetectionService: ClashDetectionService;
+  private costEstimationService: CostEstimationService;
+  private userService: UserService;
 
   constructor() {
     this.projectService = new ProjectService();
+    this.trashService = new ProjectTrashService();
+    this.measurementService = new MeasurementService();
+    this.reportService = new QuantityReportService();
+    this.earthworkService = new EarthworkService();
+    this.clashDetectionService = new ClashDetectionService();
+    this.costEstimationService = new CostEstimationService();
+    this.userService = new UserService();
   }
 
   /**
@@ -34,7 +60,7 @@ export class ProjectController {
         pdfUrl,
         pdfId,
         scale
-      });
+      }, req.user?.userId);
       
       res.status(201).json({
         success: true,
@@ -66,6 +92,7 @@ export class ProjectController {
           success: false,
           error: 'Projeto não encontrado'
         });
+        return;
       }
       
       res.json({
@@ -83,12 +110,15 @@ export class ProjectController {
   };
 
   /**
-   * Listar projetos
+   * Listar projetos (admin/manager veem todos; demais, apenas projetos dos quais são membros)
    * GET /api/v1/projects
    */
-  listProjects = async (_req: Request, res: Response) => {
+  listProjects = async (req: Request, res: Response) => {
     try {
-      const projects = await this.projectService.listProjects();
+      const role = req.user?.role;
+      const projects = role === UserRole.ADMIN || role === UserRole.MANAGER
+        ? await this.projectService.listProjects()
+        : await this.projectService.listProjectsForUser(req.user?.userId || '');
       
       res.json({
         success: true,
@@ -146,16 +176,20 @@ export class ProjectController {
   };
 
   /**
-   * Deletar projeto
+   * Deletar projeto: move para a lixeira, ou remove em cascata com ?permanent=true
    * DELETE /api/v1/projects/:id
    */
   deleteProject = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
+      const permanent = req.query.permanent === 'true';
+      const userId = req.user?.userId || 'system';
       
-      const deleted = await this.projectService.deleteProject(id);
+      const summary = permanent
+        ? await this.trashService.purgeProject(id, userId)
+        : await this.trashService.trashProject(id, userId);
       
-      if (!deleted) {
+      if (!summary) {
         res.status(404).json({
           success: false,
           error: 'Projeto não encontrado'
@@ -165,7 +199,10 @@ export class ProjectController {
       
       res.json({
         success: true,
-        message: 'Projeto deletado com sucesso'
+        message: permanent
+          ? 'Projeto removido definitivamente'
+          : `Projeto movido para a lixeira (pode ser restaurado em até ${config.TRASH_RETENTION_DAYS} dias)`,
+        data: summary
       });
     } catch (error: any) {
       console.error('Erro ao deletar projeto:', error);
@@ -176,5 +213,318 @@ export class ProjectController {
       });
     }
   };
-}
 
+  /**
+   * Listar projetos na lixeira (admin/manager veem todos; demais, apenas os que possuem como owner)
+   * GET /api/v1/projects/trash
+   */
+  listTrash = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const role = req.user?.role;
+      const userId = req.user?.userId || '';
+      let projects = await this.trashService.listTrash();
+
+      if (role !== UserRole.ADMIN && role !== UserRole.MANAGER) {
+        projects = projects.filter(p => this.projectService.getMemberRole(p, userId) === 'owner');
+      }
+
+      res.json({
+        success: true,
+        data: {
+          projects,
+          total: projects.length,
+          retention_days: config.TRASH_RETENTION_DAYS
+        }
+      });
+    } catch (error: any) {
+      console.error('Erro ao listar lixeira de projetos:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Restaurar projeto da lixeira
+   * POST /api/v1/projects/:id/restore
+   */
+  restoreProject = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const summary = await this.trashService.restoreProject(id, req.user?.userId || 'system');
+
+      if (!summary) {
+        res.status(404).json({
+          success: false,
+          error: 'Projeto não encontrado na lixeira'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Projeto restaurado com sucesso',
+        data: summary
+      });
+    } catch (error: any) {
+      console.error('Erro ao restaurar projeto:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao restaurar projeto',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Exportar todas as medições do projeto (resumo + uma aba por tipo no XLSX)
+   * GET /api/v1/projects/:id/export?format=json|csv|xlsx
+   */
+  exportProject = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const format = (req.query.format as string | undefined) || 'json';
+
+      if (!MEASUREMENT_EXPORT_FORMATS.includes(format as MeasurementExportFormat)) {
+        res.status(400).json({
+          success: false,
+          error: `Formato inválido. Use: ${MEASUREMENT_EXPORT_FORMATS.join(', ')}`
+        });
+        return;
+      }
+
+      const file = await this.measurementService.exportProject(req.params.id, format as MeasurementExportFormat);
+
+      res.setHeader('Content-Type', file.content_type);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error: any) {
+      console.error('Erro ao exportar projeto:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao exportar projeto',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Relatório de quantitativos do projeto (planilha de quantidades)
+   * GET /api/v1/projects/:id/report?format=html|pdf|json
+   */
+  getReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const format = (req.query.format as string | undefined) || 'html';
+
+      if (!['html', 'pdf', 'json'].includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: 'Formato inválido. Use: html, pdf, json'
+        });
+        return;
+      }
+
+      const file = await this.reportService.generateReport(req.params.id, format as QuantityReportFormat);
+      const disposition = req.query.download === 'true' || format === 'json' ? 'attachment' : 'inline';
+
+      res.setHeader('Content-Type', file.content_type);
+      res.setHeader('Content-Disposition', `${disposition}; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error: any) {
+      console.error('Erro ao gerar relatório de quantitativos:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao gerar relatório de quantitativos',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Balanço de corte/aterro do projeto (trincheiras, câmaras e hidroescavações)
+   * GET /api/v1/projects/:id/earthwork?truckCapacity=
+   */
+  getEarthworkBalance = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const truckCapacity = req.query.truckCapacity !== undefined
+        ? parseFloat(req.query.truckCapacity as string)
+        : config.TRUCK_CAPACITY_M3;
+
+      if (isNaN(truckCapacity) || truckCapacity <= 0) {
+        res.status(400).json({
+          success: false,
+          error: 'truckCapacity deve ser um número maior que 0'
+        });
+        return;
+      }
+
+      const balance = await this.earthworkService.getProjectBalance(req.params.id, truckCapacity);
+
+      res.json({
+        success: true,
+        data: balance
+      });
+    } catch (error: any) {
+      console.error('Erro ao calcular balanço de terraplenagem:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao calcular balanço de terraplenagem',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Interferências entre trincheiras, perfurações, condutos e câmaras do projeto
+   * POST /api/v1/projects/:id/clashes
+   * Body: { scale?, zoom?, default_rule?, rules? }
+   */
+  getClashes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const report = await this.clashDetectionService.analyzeProject(req.params.id, req.body);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      console.error('Erro ao detectar interferências:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao detectar interferências',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Orçamento do projeto pelo catálogo de preços (medições e takeoffs)
+   * GET /api/v1/projects/:id/cost-estimate?price_list_id=|region=&date=
+   */
+  getCostEstimate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const estimate = await this.costEstimationService.estimateProject(req.params.id, req.query);
+
+      res.json({
+        success: true,
+        data: estimate
+      });
+    } catch (error: any) {
+      console.error('Erro ao orçar projeto:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: 'Erro ao orçar projeto',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Listar membros do projeto
+   * GET /api/v1/projects/:id/members
+   */
+  listMembers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const project = await this.projectService.getProjectById(id);
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Projeto não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: project.members
+      });
+    } catch (error: any) {
+      console.error('Erro ao listar membros do projeto:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Adicionar membro ao projeto ou alterar seu papel
+   * POST /api/v1/projects/:id/members
+   */
+  setMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { user_id, role } = req.body;
+
+      if (!(await this.userService.getUserById(user_id))) {
+        res.status(404).json({
+          success: false,
+          error: 'Usuário não encontrado'
+        });
+        return;
+      }
+
+      const project = await this.projectService.setMember(id, user_id, role);
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Projeto não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Membro do projeto atualizado com sucesso',
+        data: project.members
+      });
+    } catch (error: any) {
+      console.error('Erro ao atualizar membro do projeto:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao atualizar membro do projeto',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Remover membro do projeto
+   * DELETE /api/v1/projects/:id/members/:userId
+   */
+  removeMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, userId } = req.params;
+
+      const project = await this.projectService.removeMember(id, userId);
+
+      if (!project) {
+        res.status(404).json({
+          success: false,
+          error: 'Projeto não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Membro removido do projeto com sucesso',
+        data: project.members
+      });
+    } catch (error: any) {
+      console.error('Erro ao remover membro do projeto:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao remover membro do projeto',
+        message: error.message
+      });
+    }
+  };
+}
@@ -3,8 +3,7 @@
 // ============================================================================
 
 import { Request, Response } from 'express';
-import { quickTakeoffService } from '../services/quick-takeoff-service';
-import path from 'path';
+import { quickTakeoffService, takeoffFilePath } from '../services/quick-takeoff-service';
 import fs from 'fs';
 
 export class QuickTakeoffController {
@@ -35,8 +34,16 @@ export class QuickTakeoffController {
 
       console.log('🔧 Processando PDF existente para Quick Takeoff:', { projectId, fileName, scale });
 
-      // Verificar se o arquivo existe
-      const filePath = path.join(process.cwd(), 'uploads', 'takeoff', fileName);
+      // Verificar se o arquivo existe (apenas nomes simples, sem caminho)
+      const filePath = takeoffFilePath(fileName);
+      if (!filePath) {
+        res.status(400).json({
+          success: false,
+          message: 'Nome de arquivo inválido'
+        });
+        return;
+      }
+
       if (!fs.existsSync(filePath)) {
         res.status(404).json({
           success: false,
@@ -122,6 +129,74 @@ export class QuickTakeoffController {
     }
   }
 
+  /**
+   * Serve a imagem PNG de uma página do PDF do takeoff (?dpi=, padrão 150)
+   */
+  static async servePageImage(req: Request, res: Response): Promise<void> {
+    try {
+      const { takeoffId } = req.params;
+      const userId = req.user?.userId;
+      const pageNumber = Number(req.params.pageNumber);
+      const dpi = req.query.dpi === undefined ? undefined : Number(req.query.dpi);
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          message: 'Usuário não autenticado' 
+        });
+        return;
+      }
+
+      if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+        res.status(400).json({
+          success: false,
+          message: 'Número de página inválido'
+        });
+        return;
+      }
+
+      if (dpi !== undefined && (!Number.isInteger(dpi) || dpi < 36 || dpi > 300)) {
+        res.status(400).json({
+          success: false,
+          message: 'DPI deve ser um inteiro entre 36 e 300'
+        });
+        return;
+      }
+
+      const result = await quickTakeoffService.getPageImage(takeoffId, userId, pageNumber, dpi);
+
+      // Renderização na fila: o cliente acompanha em GET /api/jobs/:id e pede de novo
+      if (result.error === 'PENDING') {
+        res.status(202).json({
+          success: true,
+          message: result.message,
+          data: result.data
+        });
+        return;
+      }
+
+      if (!result.success) {
+        const status = result.error === 'NOT_FOUND' ? 404 : result.error === 'VALIDATION_ERROR' ? 400 : 500;
+        res.status(status).json({
+          success: false,
+          message: result.message,
+          error: result.error
+        });
+        return;
+      }
+
+      res.type('png').sendFile(result.data.filePath);
+
+    } catch (error) {
+      console.error('❌ Erro ao servir imagem da página:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Erro interno do servidor',
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      });
+    }
+  }
+
   /**
    * Lista takeoffs de um projeto
    */
@@ -4,9 +4,11 @@
 
 import { Request, Response } from 'express';
 import { TakeoffUnifiedService } from '../services/takeoff-unified-service';
+import { CostEstimationService } from '../services/cost-estimation-service';
 
 // Instanciar o serviço
 const takeoffService = new TakeoffUnifiedService();
+const costEstimationService = new CostEstimationService();
 
 // Tipos para o sistema de takeoff
 export interface TakeoffProject {
@@ -57,7 +59,8 @@ export class TakeoffController {
   // Criar nova medição
   static async createMeasurement(req: Request, res: Response): Promise<void> {
     try {
-      const { projectId } = req.params;
+      // Rota POST /measurements recebe o projeto no body
+      const projectId = req.params.projectId || req.body.projectId || req.body.project_id;
       const userId = (req as any).user?.id;
 
       if (!userId) {
@@ -266,6 +269,37 @@ export class TakeoffController {
     }
   }
 
+  // Orçar takeoff pelo catálogo de preços (grava itens, custo total e horas estimadas)
+  static async estimateCost(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as any).user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false,
+          message: 'Usuário não autenticado' 
+        });
+        return;
+      }
+
+      const estimate = await costEstimationService.estimateTakeoff(id, req.body, userId);
+
+      res.json({
+        success: true,
+        data: estimate,
+        message: 'Orçamento calculado com sucesso'
+      });
+    } catch (error: any) {
+      console.error('Erro ao orçar takeoff:', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: 'Erro ao orçar takeoff',
+        error: error.message
+      });
+    }
+  }
+
   // Obter estatísticas
   static async getMeasurementStats(req: Request, res: Response): Promise<void> {
     try {
@@ -469,8 +503,11 @@ export class TakeoffController {
         projectId
       });
 
+      // Dono do arquivo: /takeoff/file/:filename só responde a membros deste projeto
+      await takeoffService.registerFile(file.filename, projectId, file.originalname, file.size, userId);
+
       const baseUrl = `${req.protocol}://${req.get('host')}`;
-      const fileUrl = `${baseUrl}/uploads/takeoff/${file.filename}`;
+      const fileUrl = `${baseUrl}/api/takeoff/file/${file.filename}`;
 
       res.status(201).json({
         success: true,
@@ -478,8 +515,8 @@ export class TakeoffController {
           id: `drawing-${Date.now()}`,
           fileName: file.filename,
           originalName: file.originalname,
-          url: `/uploads/takeoff/${file.filename}`,
-          file_url: `/uploads/takeoff/${file.filename}`,
+          url: `/api/takeoff/file/${file.filename}`,
+          file_url: `/api/takeoff/file/${file.filename}`,
           fullUrl: fileUrl,
           size: file.size,
           uploaded_at: new Date().toISOString()
@@ -0,0 +1,249 @@
+// ============================================================================
+// CONTROLLER PARA EQUIPES
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { TeamService } from '../services/team-service';
+import { TeamFilters } from '../types/unified';
+
+export class TeamController {
+  private teamService: TeamService;
+
+  constructor() {
+    this.teamService = new TeamService();
+  }
+
+  /**
+   * Criar nova equipe
+   * POST /api/v1/teams
+   */
+  createTeam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const team = await this.teamService.createTeam(req.body, req.user?.userId || 'system');
+
+      res.status(201).json({
+        success: true,
+        message: 'Equipe criada com sucesso',
+        data: team
+      });
+    } catch (error: any) {
+      console.error('Erro ao criar equipe:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao criar equipe',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Listar equipes
+   * GET /api/v1/teams
+   */
+  listTeams = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters = req.query as TeamFilters;
+
+      const { teams, total } = await this.teamService.listTeams(filters);
+
+      res.json({
+        success: true,
+        data: teams,
+        total
+      });
+    } catch (error: any) {
+      console.error('Erro ao listar equipes:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Estatísticas de equipes
+   * GET /api/v1/teams/stats
+   */
+  getStats = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const stats = await this.teamService.getTeamStats();
+
+      res.json({
+        success: true,
+        data: stats
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter estatísticas de equipes:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Obter equipe por ID
+   * GET /api/v1/teams/:id
+   */
+  getTeam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const team = await this.teamService.getTeamById(id);
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          error: 'Equipe não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: team
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter equipe:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Atualizar equipe
+   * PUT /api/v1/teams/:id
+   */
+  updateTeam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const team = await this.teamService.updateTeam(id, req.body);
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          error: 'Equipe não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Equipe atualizada com sucesso',
+        data: team
+      });
+    } catch (error: any) {
+      console.error('Erro ao atualizar equipe:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao atualizar equipe',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Deletar equipe
+   * DELETE /api/v1/teams/:id
+   */
+  deleteTeam = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const deleted = await this.teamService.deleteTeam(id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Equipe não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Equipe deletada com sucesso'
+      });
+    } catch (error: any) {
+      console.error('Erro ao deletar equipe:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Adicionar membro à equipe
+   * POST /api/v1/teams/:id/members
+   */
+  addMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { user_id, role } = req.body;
+
+      const team = await this.teamService.addMember(id, user_id, role);
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          error: 'Equipe não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Membro adicionado com sucesso',
+        data: team
+      });
+    } catch (error: any) {
+      console.error('Erro ao adicionar membro:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao adicionar membro',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Remover membro da equipe
+   * DELETE /api/v1/teams/:id/members/:userId
+   */
+  removeMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, userId } = req.params;
+
+      const team = await this.teamService.removeMember(id, userId);
+
+      if (!team) {
+        res.status(404).json({
+          success: false,
+          error: 'Equipe não encontrada'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Membro removido com sucesso',
+        data: team
+      });
+    } catch (error: any) {
+      console.error('Erro ao remover membro:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+}
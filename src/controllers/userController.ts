@@ -0,0 +1,296 @@
+// ============================================================================
+// CONTROLLER PARA USUÁRIOS
+// ============================================================================
+
+import { Request, Response } from 'express';
+import { UserService } from '../services/user-service';
+import { TeamService } from '../services/team-service';
+import { UserRole } from '../middleware/auth';
+import { UserFilters } from '../types/unified';
+
+export class UserController {
+  private userService: UserService;
+  private teamService: TeamService;
+
+  constructor() {
+    this.userService = new UserService();
+    this.teamService = new TeamService();
+  }
+
+  /**
+   * Criar novo usuário
+   * POST /api/v1/users
+   */
+  createUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = await this.userService.createUser(req.body, req.user?.userId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Usuário criado com sucesso',
+        data: user
+      });
+    } catch (error: any) {
+      console.error('Erro ao criar usuário:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao criar usuário',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Listar usuários
+   * GET /api/v1/users
+   */
+  listUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filters = req.query as UserFilters;
+
+      const { users, total } = await this.userService.listUsers(filters);
+
+      res.json({
+        success: true,
+        data: users,
+        total
+      });
+    } catch (error: any) {
+      console.error('Erro ao listar usuários:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Estatísticas de usuários
+   * GET /api/v1/users/stats
+   */
+  getStats = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const stats = await this.userService.getUserStats();
+
+      res.json({
+        success: true,
+        data: stats
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter estatísticas de usuários:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Obter usuário por ID (o próprio usuário ou admin/gerente)
+   * GET /api/v1/users/:id
+   */
+  getUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!this.canAccessUser(req, id)) {
+        res.status(403).json({
+          success: false,
+          error: 'Acesso negado'
+        });
+        return;
+      }
+
+      const user = await this.userService.getUserById(id);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'Usuário não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: user
+      });
+    } catch (error: any) {
+      console.error('Erro ao obter usuário:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Listar equipes do usuário
+   * GET /api/v1/users/:id/teams
+   */
+  getUserTeams = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!this.canAccessUser(req, id)) {
+        res.status(403).json({
+          success: false,
+          error: 'Acesso negado'
+        });
+        return;
+      }
+
+      const teams = await this.teamService.getTeamsForUser(id);
+
+      res.json({
+        success: true,
+        data: teams
+      });
+    } catch (error: any) {
+      console.error('Erro ao listar equipes do usuário:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Atualizar usuário
+   * PUT /api/v1/users/:id
+   */
+  updateUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const user = await this.userService.updateUser(id, req.body);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'Usuário não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Usuário atualizado com sucesso',
+        data: user
+      });
+    } catch (error: any) {
+      console.error('Erro ao atualizar usuário:', error);
+      res.status(error.statusCode || 400).json({
+        success: false,
+        error: 'Erro ao atualizar usuário',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Alterar senha (o próprio usuário informa a senha atual; admin pode redefinir)
+   * PUT /api/v1/users/:id/password
+   */
+  changePassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { currentPassword, newPassword } = req.body;
+      const isSelf = req.user?.userId === id;
+      const isAdmin = req.user?.role === UserRole.ADMIN;
+
+      if (!isSelf && !isAdmin) {
+        res.status(403).json({
+          success: false,
+          error: 'Acesso negado'
+        });
+        return;
+      }
+
+      if (isSelf && !currentPassword) {
+        res.status(400).json({
+          success: false,
+          error: 'Senha atual é obrigatória'
+        });
+        return;
+      }
+
+      const changed = await this.userService.changePassword(
+        id,
+        newPassword,
+        isSelf ? currentPassword : undefined
+      );
+
+      if (!changed) {
+        res.status(404).json({
+          success: false,
+          error: 'Usuário não encontrado'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Senha alterada com sucesso'
+      });
+    } catch (error: any) {
+      console.error('Erro ao alterar senha:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Erro ao alterar senha',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * Deletar usuário (remove também das equipes)
+   * DELETE /api/v1/users/:id
+   */
+  deleteUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (req.user?.userId === id) {
+        res.status(400).json({
+          success: false,
+          error: 'Não é possível deletar o próprio usuário'
+        });
+        return;
+      }
+
+      const deleted = await this.userService.deleteUser(id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Usuário não encontrado'
+        });
+        return;
+      }
+
+      await this.teamService.removeUserFromAllTeams(id);
+
+      res.json({
+        success: true,
+        message: 'Usuário deletado com sucesso'
+      });
+    } catch (error: any) {
+      console.error('Erro ao deletar usuário:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  };
+
+  private canAccessUser(req: Request, id: string): boolean {
+    const role = req.user?.role;
+    return req.user?.userId === id || role === UserRole.ADMIN || role === UserRole.MANAGER;
+  }
+}
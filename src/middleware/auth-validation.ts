@@ -0,0 +1,28 @@
+// ============================================================================
+// VALIDAÇÕES PARA AUTENTICAÇÃO
+// ============================================================================
+
+import Joi from 'joi';
+
+export const loginSchema = Joi.object({
+  email: Joi.string().email().required()
+    .messages({
+      'string.email': 'Email inválido',
+      'any.required': 'Email é obrigatório'
+    }),
+  password: Joi.string().min(1).max(255).required()
+    .messages({
+      'any.required': 'Senha é obrigatória'
+    })
+});
+
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required()
+    .messages({
+      'any.required': 'refreshToken é obrigatório'
+    })
+});
+
+export const logoutSchema = Joi.object({
+  refreshToken: Joi.string().optional()
+});
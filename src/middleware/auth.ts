@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
-// import { JWTUtils } from '../utils/jwt'; // Arquivo vazio - funcionalidade removida
+import { JWTUtils } from '../utils/jwt';
+import { ProjectService } from '../services/project-service';
+import { ProjectMemberRole } from '../types/project';
 
 // Tipos simplificados para TAKEOFF e UPLOAD
 export enum UserRole {
@@ -20,7 +22,7 @@ export interface AuthUser {
 }
 
 /**
- * Middleware de autenticação JWT simplificado para TAKEOFF e UPLOAD
+ * Middleware de autenticação JWT (verifica token de acesso emitido por JWTUtils)
  */
 export const authenticate = (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -58,22 +60,20 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
       });
     }
 
-    // const _token = tokenParts[1]; // Token não usado - autenticação simplificada
+    const token = tokenParts[1];
 
     try {
-      // Verificar e decodificar o token
-      // JWTUtils removido - autenticação simplificada
-      // const decoded = JWTUtils.verifyAccessToken(token) as AuthUser;
-      const decoded = { id: 'anonymous', role: 'viewer' } as AuthUser; // Placeholder
+      // Verificar e decodificar o token (assinatura, expiração e revogação)
+      const decoded = JWTUtils.verifyAccessToken(token);
 
       // Adicionar informações do usuário à requisição
       req.user = {
-        id: decoded.userId || decoded.id,
-        userId: decoded.userId || decoded.id,
+        id: decoded.userId,
+        userId: decoded.userId,
         email: decoded.email,
         username: decoded.username,
-        role: decoded.role,
-        type: decoded.type || 'access'
+        role: decoded.role as UserRole,
+        type: decoded.type
       };
 
       next();
@@ -87,6 +87,12 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
             error: 'Token expirado',
             message: 'Token de acesso expirou. Faça login novamente.'
           });
+        } else if (jwtError.message.includes('revogado')) {
+          return res.status(401).json({
+            success: false,
+            error: 'Token revogado',
+            message: 'Sessão encerrada. Faça login novamente.'
+          });
         } else if (jwtError.message.includes('inválido')) {
           return res.status(401).json({
             success: false,
@@ -152,59 +158,121 @@ export const requireRole = (requiredRole: UserRole) => {
   };
 };
 
+const projectService = new ProjectService();
+
+// Hierarquia de papéis no projeto (owner > editor > viewer)
+const PROJECT_ROLE_RANK: Record<ProjectMemberRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3
+};
+
 /**
- * Middleware para verificar se o usuário pode acessar um projeto específico
+ * Função que extrai o(s) ID(s) de projeto da requisição.
+ * Pode lançar erro com statusCode (ex: NotFoundError) para encerrar a requisição.
  */
-export const requireProjectAccess = (req: Request, res: Response, next: NextFunction): void => {
-  try {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: 'Usuário não autenticado',
-        message: 'Autenticação é obrigatória para esta operação'
-      });
-      return;
-    }
+export type ProjectIdResolver = (req: Request) =>
+  string | string[] | null | undefined | Promise<string | string[] | null | undefined>;
 
-    const userRole = (req.user as AuthUser).role;
-    
-    // Admins e managers podem acessar qualquer projeto
-    if (userRole === UserRole.ADMIN || userRole === UserRole.MANAGER) {
-      return next();
-    }
+const defaultProjectIdResolver: ProjectIdResolver = (req) => req.params.projectId || req.params.id;
 
-    // Em uma implementação real, você verificaria se o usuário tem acesso ao projeto
-    // Por enquanto, permitimos que engenheiros e técnicos acessem qualquer projeto
-    if (userRole === UserRole.ENGINEER || userRole === UserRole.TECHNICIAN) {
-      return next();
-    }
+/**
+ * Middleware para verificar se o usuário pode acessar um projeto específico.
+ * Admins e managers acessam qualquer projeto; os demais precisam ser membros
+ * com papel suficiente (viewer para leitura, editor para escrita, por padrão).
+ * Projetos na lixeira só são encontrados com options.includeDeleted (restaurar/excluir definitivamente).
+ */
+export const requireProjectAccess = (
+  resolveProjectId: ProjectIdResolver = defaultProjectIdResolver,
+  requiredRole?: ProjectMemberRole,
+  options: { includeDeleted?: boolean } = {}
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Autenticação é obrigatória para esta operação'
+        });
+        return;
+      }
+
+      const userRole = (req.user as AuthUser).role;
+      const isRead = req.method === 'GET' || req.method === 'HEAD';
 
-    // Viewers têm acesso limitado
-    if (userRole === UserRole.VIEWER) {
-      // Verificar se é uma operação de leitura
-      if (req.method === 'GET') {
+      // Admins e managers podem acessar qualquer projeto
+      if (userRole === UserRole.ADMIN || userRole === UserRole.MANAGER) {
         return next();
       }
-      
-      res.status(403).json({
+
+      // Viewers têm acesso limitado, independente do papel no projeto
+      if (userRole === UserRole.VIEWER && !isRead) {
+        res.status(403).json({
+          success: false,
+          error: 'Acesso negado',
+          message: 'Viewers só podem visualizar projetos'
+        });
+        return;
+      }
+
+      const resolved = await resolveProjectId(req);
+      const projectIds = [...new Set((Array.isArray(resolved) ? resolved : [resolved]).filter(Boolean))] as string[];
+
+      if (projectIds.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Projeto não informado',
+          message: 'projectId é obrigatório para esta operação'
+        });
+        return;
+      }
+
+      const minimumRole = requiredRole || (isRead ? 'viewer' : 'editor');
+
+      for (const projectId of projectIds) {
+        const project = await projectService.getProjectById(projectId, options.includeDeleted);
+
+        if (!project) {
+          res.status(404).json({
+            success: false,
+            error: 'Projeto não encontrado'
+          });
+          return;
+        }
+
+        const memberRole = projectService.getMemberRole(project, (req.user as AuthUser).userId);
+
+        if (!memberRole || PROJECT_ROLE_RANK[memberRole] < PROJECT_ROLE_RANK[minimumRole]) {
+          res.status(403).json({
+            success: false,
+            error: 'Acesso negado',
+            message: `Papel ${minimumRole} no projeto é necessário para esta operação`
+          });
+          return;
+        }
+      }
+
+      next();
+
+    } catch (error: any) {
+      if (error.statusCode) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
+      console.error('Erro na verificação de acesso ao projeto:', error);
+      res.status(500).json({
         success: false,
-        error: 'Acesso negado',
-        message: 'Viewers só podem visualizar projetos'
+        error: 'Erro interno do servidor',
+        message: 'Falha na verificação de acesso ao projeto'
       });
       return;
     }
-
-    next();
-
-  } catch (error) {
-    console.error('Erro na verificação de acesso ao projeto:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Erro interno do servidor',
-      message: 'Falha na verificação de acesso ao projeto'
-    });
-    return;
-  }
+  };
 };
 
 export default {
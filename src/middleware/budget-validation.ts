@@ -0,0 +1,65 @@
+// ============================================================================
+// VALIDAÇÕES PARA ORÇAMENTOS DE PROJETO
+// ============================================================================
+
+import Joi from 'joi';
+
+const budgetLine = Joi.object({
+  description: Joi.string().min(1).max(500).required()
+    .messages({
+      'any.required': 'Descrição da linha é obrigatória'
+    }),
+  code: Joi.string().max(50).optional(),
+  category: Joi.string().max(100).optional(),
+  unit: Joi.string().min(1).max(20).required(),
+  quantity: Joi.number().min(0).required(),
+  unit_cost: Joi.number().min(0).required(),
+  labor_hours: Joi.number().min(0).optional(),
+  takeoff_id: Joi.string().optional(),
+  measurement_id: Joi.string().optional()
+});
+
+export const createBudgetSchema = Joi.object({
+  project_id: Joi.string().required()
+    .messages({
+      'any.required': 'ID do projeto é obrigatório'
+    }),
+  name: Joi.string().min(1).max(255).required()
+    .messages({
+      'any.required': 'Nome do orçamento é obrigatório'
+    }),
+  description: Joi.string().max(1000).optional(),
+  category: Joi.string().max(100).optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  lines: Joi.array().items(budgetLine).optional(),
+  takeoff_ids: Joi.array().items(Joi.string()).optional()
+});
+
+export const updateBudgetSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  description: Joi.string().max(1000).allow('').optional(),
+  category: Joi.string().max(100).allow('').optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  lines: Joi.array().items(budgetLine).optional(),
+  takeoff_ids: Joi.array().items(Joi.string()).min(1).optional()
+}).min(1);
+
+// Comentário opcional ao enviar, aprovar, devolver ou abrir revisão
+export const budgetTransitionSchema = Joi.object({
+  comment: Joi.string().max(1000).optional()
+});
+
+// Filtros de BudgetFilters
+export const listBudgetsQuerySchema = Joi.object({
+  project_id: Joi.string().optional(),
+  category: Joi.string().max(100).optional(),
+  status: Joi.string().valid('draft', 'submitted', 'approved').optional(),
+  minAmount: Joi.number().min(0).optional(),
+  maxAmount: Joi.number().min(0).optional(),
+  search: Joi.string().min(1).max(255).optional(),
+  limit: Joi.number().integer().min(1).max(200).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+  page: Joi.number().integer().min(1).optional(),
+  sortBy: Joi.string().valid('created_at', 'updated_at', 'name', 'total_amount').optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional()
+});
@@ -36,6 +36,9 @@ const scaleSchema = Joi.string().pattern(/^\d+:\d+$/).optional()
     'string.pattern.base': 'Escala deve estar no formato "1:100"'
   });
 
+// Código da composição de referência (ex: SINAPI) usada no orçamento
+const compositionCodeSchema = Joi.string().max(50).optional();
+
 // Schemas específicos para cada tipo de medição
 export const civilMeasurementSchemas = {
   // 1. PLANTA/LAYOUT
@@ -51,6 +54,7 @@ export const civilMeasurementSchemas = {
       axis: Joi.string().optional(),
       layer: Joi.string().optional()
     }).required(),
+    composition_code: compositionCodeSchema,
     label: Joi.string().max(255).required()
   }),
 
@@ -87,6 +91,7 @@ export const civilMeasurementSchemas = {
         yield_per_m2: Joi.number().positive().optional()
       }).optional()
     }).required(),
+    composition_code: compositionCodeSchema,
     label: Joi.string().max(255).required()
   }),
 
@@ -116,6 +121,7 @@ export const civilMeasurementSchemas = {
         otherwise: Joi.optional()
       })
     }).required(),
+    composition_code: compositionCodeSchema,
     label: Joi.string().max(255).required()
   }),
 
@@ -140,6 +146,7 @@ export const civilMeasurementSchemas = {
         otherwise: Joi.optional()
       })
     }).required(),
+    composition_code: compositionCodeSchema,
     label: Joi.string().max(255).required()
   }),
 
@@ -173,6 +180,7 @@ export const civilMeasurementSchemas = {
         otherwise: Joi.optional()
       })
     }).required(),
+    composition_code: compositionCodeSchema,
     label: Joi.string().max(255).required()
   }),
 
@@ -236,6 +244,7 @@ export const civilMeasurementSchemas = {
       ).optional(),
       custom_type: Joi.string().optional()
     }).optional(),
+    composition_code: compositionCodeSchema,
     label: Joi.string().max(255).required()
   }),
 
@@ -301,8 +310,16 @@ export const civilMeasurementSchemas = {
         then: Joi.required(),
         otherwise: Joi.optional()
       }),
-      concrete_strength_mpa: Joi.number().positive().optional()
+      fck_mpa: Joi.number().positive().optional(),
+      concrete_strength_mpa: Joi.number().positive().optional(),
+      loads: Joi.object({
+        point_load_n: Joi.number().min(0).required(),
+        elastic_modulus_pa: Joi.number().positive().optional(),
+        moment_of_inertia_m4: Joi.number().positive().optional(),
+        deflection_limit: Joi.number().valid(250, 350).optional()
+      }).optional()
     }).required(),
+    composition_code: compositionCodeSchema,
     label: Joi.string().max(255).required()
   }),
 
@@ -336,6 +353,7 @@ export const civilMeasurementSchemas = {
       standard_loss_percent: Joi.number().min(0).max(100).default(0),
       material_unit: Joi.string().optional()
     }).required(),
+    composition_code: compositionCodeSchema,
     label: Joi.string().max(255).required()
   }),
 
@@ -367,6 +385,7 @@ export const civilMeasurementSchemas = {
         otherwise: Joi.optional()
       })
     }).required(),
+    composition_code: compositionCodeSchema,
     label: Joi.string().max(255).required()
   }),
 
@@ -417,8 +436,10 @@ export const createCivilMeasurementSchema = Joi.object({
       { is: 'note', then: civilMeasurementSchemas.note }
     ]
   }),
-  label: Joi.string().max(255).required()
-});
+  label: Joi.string().max(255).required(),
+  plant_id: Joi.string().optional(),
+  plant_version_id: Joi.string().optional() // Padrão: versão atual da planta
+}).with('plant_version_id', 'plant_id');
 
 // Schema para atualizar medição
 export const updateCivilMeasurementSchema = Joi.object({
@@ -426,3 +447,49 @@ export const updateCivilMeasurementSchema = Joi.object({
   label: Joi.string().max(255).optional()
 });
 
+
+// ============================================================================
+// CÁLCULOS ESTRUTURAIS (VIGAS)
+// ============================================================================
+
+const beamSectionSchema = Joi.object({
+  type: Joi.string().valid('rectangular', 'circular').required(),
+  width_m: Joi.number().positive().when('type', { is: 'rectangular', then: Joi.required() }),
+  height_m: Joi.number().positive().when('type', { is: 'rectangular', then: Joi.required() }),
+  diameter_m: Joi.number().positive().when('type', { is: 'circular', then: Joi.required() })
+});
+
+const deflectionLimitSchema = Joi.number().valid(250, 350).default(250);
+
+// Carga pontual no centro (N), vão (m), módulo de elasticidade (Pa) ou fck do concreto (MPa)
+// e seção ou momento de inércia (m⁴)
+export const beamAnalysisSchema = Joi.object({
+  load: Joi.number().min(0).required(),
+  length: Joi.number().positive().required(),
+  elasticModulus: Joi.number().positive(),
+  fck: Joi.number().positive(),
+  section: beamSectionSchema,
+  momentOfInertia: Joi.number().positive()
+}).xor('elasticModulus', 'fck').xor('section', 'momentOfInertia');
+
+export const beamCheckSchema = beamAnalysisSchema.keys({
+  deflectionLimit: deflectionLimitSchema
+});
+
+// Verificação de viga medida: vão e seção vêm da medição
+export const beamMeasurementCheckSchema = Joi.object({
+  load: Joi.number().min(0).required(),
+  elasticModulus: Joi.number().positive(),
+  fck: Joi.number().positive(),
+  momentOfInertia: Joi.number().positive(), // Obrigatório para seções custom
+  deflectionLimit: deflectionLimitSchema
+}).oxor('elasticModulus', 'fck');
+
+export const beamOptimizeSchema = Joi.object({
+  diameter: Joi.number().positive().required(), // Diâmetro do material disponível (m)
+  constant: Joi.number().positive().default(1)
+});
+
+export const beamOptimizeLogSchema = Joi.object({
+  diameter: Joi.number().positive().required() // Diâmetro do tronco (m)
+});
@@ -0,0 +1,131 @@
+// ============================================================================
+// VALIDAÇÕES PARA CATÁLOGO DE PREÇOS E ORÇAMENTO
+// ============================================================================
+
+import Joi from 'joi';
+
+const isoDate = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/)
+  .messages({
+    'string.pattern.base': 'Data deve estar no formato YYYY-MM-DD'
+  });
+
+const costMapping = Joi.object({
+  source: Joi.string().valid('infrastructure', 'civil', 'takeoff').required()
+    .messages({
+      'any.only': 'Origem deve ser: infrastructure, civil ou takeoff'
+    }),
+  type: Joi.string().min(1).max(50).required(),
+  quantity: Joi.string().min(1).max(255).required()
+    .messages({
+      'any.required': 'quantity (descrição da quantidade no relatório) é obrigatória'
+    }),
+  factor: Joi.number().positive().optional()
+});
+
+const priceListEntry = Joi.object({
+  item_id: Joi.string().required(),
+  material_cost: Joi.number().min(0).default(0),
+  labor_rate: Joi.number().min(0).default(0),
+  equipment_rate: Joi.number().min(0).default(0)
+});
+
+const listFilters = {
+  search: Joi.string().min(1).max(255).optional(),
+  category: Joi.string().max(100).optional(),
+  region: Joi.string().max(100).optional()
+};
+
+// ============================================================================
+// ITENS DO CATÁLOGO
+// ============================================================================
+
+export const createPriceCatalogItemSchema = Joi.object({
+  code: Joi.string().min(1).max(50).required()
+    .messages({
+      'any.required': 'Código do item é obrigatório'
+    }),
+  description: Joi.string().min(1).max(255).required()
+    .messages({
+      'any.required': 'Descrição do item é obrigatória'
+    }),
+  unit: Joi.string().min(1).max(20).required()
+    .messages({
+      'any.required': 'Unidade do item é obrigatória'
+    }),
+  category: Joi.string().max(100).optional(),
+  labor_hours_per_unit: Joi.number().min(0).optional(),
+  equipment_hours_per_unit: Joi.number().min(0).optional(),
+  mappings: Joi.array().items(costMapping).optional()
+});
+
+export const updatePriceCatalogItemSchema = Joi.object({
+  code: Joi.string().min(1).max(50).optional(),
+  description: Joi.string().min(1).max(255).optional(),
+  unit: Joi.string().min(1).max(20).optional(),
+  category: Joi.string().max(100).optional(),
+  labor_hours_per_unit: Joi.number().min(0).optional(),
+  equipment_hours_per_unit: Joi.number().min(0).optional(),
+  mappings: Joi.array().items(costMapping).optional()
+}).min(1);
+
+// ============================================================================
+// TABELAS DE PREÇOS
+// ============================================================================
+
+export const createPriceListSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required()
+    .messages({
+      'any.required': 'Nome da tabela é obrigatório'
+    }),
+  region: Joi.string().min(1).max(100).required()
+    .messages({
+      'any.required': 'Região é obrigatória'
+    }),
+  effective_date: isoDate.required()
+    .messages({
+      'any.required': 'Data-base (effective_date) é obrigatória'
+    }),
+  currency: Joi.string().length(3).uppercase().optional(),
+  prices: Joi.array().items(priceListEntry).optional()
+});
+
+export const updatePriceListSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  region: Joi.string().min(1).max(100).optional(),
+  effective_date: isoDate.optional(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  prices: Joi.array().items(priceListEntry).optional()
+}).min(1);
+
+export const listPriceCatalogQuerySchema = Joi.object(listFilters);
+
+// ============================================================================
+// COMPOSIÇÕES DE REFERÊNCIA
+// ============================================================================
+
+// Campos do formulário multipart (arquivos "inputs" e "compositions" vêm pelo multer)
+export const importCompositionsSchema = Joi.object({
+  source: Joi.string().valid('SINAPI', 'TCPO').uppercase().default('SINAPI'),
+  reference_date: Joi.string().pattern(/^\d{4}-(0[1-9]|1[0-2])$/).required()
+    .messages({
+      'string.pattern.base': 'Data de referência deve estar no formato YYYY-MM',
+      'any.required': 'Data de referência (reference_date) é obrigatória'
+    }),
+  states: Joi.string().pattern(/^[A-Za-z]{2}(\s*,\s*[A-Za-z]{2})*$/).uppercase().optional()
+    .messages({
+      'string.pattern.base': 'UFs devem ser separadas por vírgula (ex: SP,RJ)'
+    })
+});
+
+// ============================================================================
+// ORÇAMENTO
+// ============================================================================
+
+export const costEstimateSchema = Joi.object({
+  price_list_id: Joi.string().optional(),
+  region: Joi.string().min(1).max(100).optional(),
+  date: isoDate.optional()
+}).or('price_list_id', 'region')
+  .messages({
+    'object.missing': 'Informe price_list_id ou region'
+  });
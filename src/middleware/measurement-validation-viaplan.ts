@@ -126,11 +126,23 @@ export const viaplanMeasurementSchemas = {
       nominal_diameter_mm: Joi.number().min(0).required(),
       outer_diameter_mm: Joi.number().min(0).required(),
       wall_thickness_mm: Joi.number().min(0).required(),
-      length_m: Joi.number().min(0).optional()
+      length_m: Joi.number().min(0).optional(),
+      cables: Joi.array().items(Joi.object({
+        label: Joi.string().max(255).optional(),
+        outer_diameter_mm: Joi.number().positive().required(),
+        count: Joi.number().integer().min(1).optional(),
+        weight_kg_m: Joi.number().min(0).optional(),
+        max_tension_n: Joi.number().positive().optional()
+      })).optional()
     })).optional(),
     connections: Joi.array().optional(),
     installation_method: Joi.string().valid('trench', 'hdd', 'direct_bury').optional(),
     compatibility_check: Joi.object().optional(),
+    cable_pulling: Joi.object({
+      friction_coefficient: Joi.number().min(0).max(2).optional(),
+      max_bend_degrees: Joi.number().positive().optional(),
+      max_tension_n: Joi.number().positive().optional()
+    }).optional(),
     scale: scaleSchema,
     zoom: zoomSchema
   }),
@@ -175,8 +175,10 @@ export const createMeasurementSchema = Joi.alternatives().try(
     data: Joi.object().required(),
     scale: scaleSchema,
     zoom: Joi.number().min(0.1).max(10).optional(),
-    label: Joi.string().max(255).optional()
-  })
+    label: Joi.string().max(255).optional(),
+    plant_id: Joi.string().optional(),
+    plant_version_id: Joi.string().optional() // Padrão: versão atual da planta
+  }).with('plant_version_id', 'plant_id')
 );
 
 // Schema para atualizar medição
@@ -229,3 +231,111 @@ export const calculateSlopeSchema = Joi.object({
   unit: unitSchema.default('meters'),
   zoom: Joi.number().min(0.1).max(10).optional()
 });
+
+export const calculateProfileSchema = Joi.object({
+  line: Joi.array().length(2).items(calculationPointSchema).required(),
+  elevations: Joi.array().items(Joi.object({
+    distance: Joi.number().min(0).required(),
+    elevation: Joi.number().required()
+  })).min(1).required(),
+  scale: scaleSchema.optional(),
+  unit: unitSchema.default('meters'),
+  zoom: Joi.number().min(0.1).max(10).optional()
+});
+
+export const calculateOffsetSchema = Joi.object({
+  baseLine: Joi.array().min(2).items(calculationPointSchema).required(),
+  offsetDistance: Joi.number().min(0).required(),
+  scale: scaleSchema.optional(),
+  side: Joi.string().valid('left', 'right', 'both').default('both'),
+  zoom: Joi.number().min(0.1).max(10).optional()
+});
+
+export const calculateOffsetAreaSchema = Joi.object({
+  baseLine: Joi.array().min(2).items(calculationPointSchema).required(),
+  offsetDistance: Joi.number().min(0).required(),
+  scale: scaleSchema.optional(),
+  unit: areaUnitSchema.default('square_meters'),
+  zoom: Joi.number().min(0.1).max(10).optional()
+});
+
+export const calculateVolumeByAxisSchema = Joi.object({
+  length: Joi.number().min(0).required(),
+  width: Joi.number().min(0).required(),
+  depth: Joi.number().min(0).required(),
+  unit: volumeUnitSchema.default('cubic_meters')
+});
+
+// Terraplenagem (empolamento/contração)
+const soilTypeSchema = Joi.string().valid('argila', 'areia', 'rocha', 'misturado').default('misturado');
+const contractionTypeSchema = Joi.string().valid('normal', 'alta').default('normal');
+const truckCapacitySchema = Joi.number().positive().optional();
+
+export const calculateLooseVolumeSchema = Joi.object({
+  cutVolume: Joi.number().min(0).required(),
+  soilType: soilTypeSchema,
+  expansionRate: Joi.number().min(0).max(2).optional(), // Sobrepõe o fator do solo
+  truckCapacity: truckCapacitySchema
+});
+
+export const calculateCutFromFillSchema = Joi.object({
+  compactedFillVolume: Joi.number().min(0).required(),
+  contractionType: contractionTypeSchema,
+  contractionRate: Joi.number().min(0).less(1).optional() // Sobrepõe o tipo de contração
+});
+
+export const calculateTransportSchema = Joi.object({
+  compactedFillVolume: Joi.number().min(0).required(),
+  soilType: soilTypeSchema,
+  contractionType: contractionTypeSchema,
+  truckCapacity: truckCapacitySchema
+});
+
+export const calculateSpoilSchema = Joi.object({
+  excavationVolume: Joi.number().min(0).required(),
+  pipeOuterDiameter: Joi.number().min(0).required(), // metros
+  pipeLength: Joi.number().min(0).required(), // metros
+  soilType: soilTypeSchema,
+  applyExpansion: Joi.boolean().default(true),
+  truckCapacity: truckCapacitySchema
+});
+
+export const calculateBackfillSchema = Joi.object({
+  excavationVolume: Joi.number().min(0).required(),
+  asphaltVolume: Joi.number().min(0).optional(),
+  concreteVolume: Joi.number().min(0).optional()
+});
+
+// Projeto de perfuração direcional (HDD) - coordenadas em metros, z = profundidade
+const borePointSchema = Joi.object({
+  x: Joi.number().required(),
+  y: Joi.number().required(),
+  z: Joi.number().min(0).default(0)
+});
+
+const boreAngleSchema = Joi.number().greater(0).less(90).required();
+
+export const designBorePlanSchema = Joi.object({
+  entry: borePointSchema.required(),
+  exit: borePointSchema.required(),
+  entryAngle: boreAngleSchema, // graus
+  exitAngle: boreAngleSchema, // graus
+  minDepth: Joi.number().min(0).optional(),
+  cover: Joi.number().min(0).when('obstacles', { is: Joi.array().min(1).required(), then: Joi.required() }),
+  obstacles: Joi.array().items(Joi.object({
+    label: Joi.string().max(255).optional(),
+    station: Joi.number().min(0).required(), // Distância horizontal a partir da entrada
+    length: Joi.number().min(0).default(0),
+    depth: Joi.number().min(0).required() // Profundidade da base do obstáculo
+  })).optional(),
+  conduits: Joi.array().items(Joi.object({
+    size_mm: Joi.string().required(),
+    count: Joi.number().integer().min(1).required(),
+    material: Joi.string().valid('PVC', 'HDPE', 'Steel', 'Aluminum', 'Fiber Optic', 'Copper', 'Other').required(),
+    sdr: Joi.string().optional(),
+    outer_diameter_mm: Joi.number().positive().required(),
+    min_curvature_radius_m: Joi.number().positive().max(2000).required()
+  })).optional(),
+  minCurvatureRadius: Joi.number().positive().max(2000).optional(),
+  step: Joi.number().min(0.5).optional() // metros entre pontos das curvas
+});
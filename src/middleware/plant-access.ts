@@ -0,0 +1,21 @@
+// ============================================================================
+// ACESSO A PLANTAS - PROJETO DA PLANTA PARA requireProjectAccess
+// ============================================================================
+
+import { Request } from 'express';
+import { PlantsUnifiedService } from '../services/plants-unified-service';
+import { NotFoundError } from './errorHandler';
+
+const plantsService = new PlantsUnifiedService();
+
+/**
+ * Projeto da planta indicada em :plantId. Plantas enviadas sem projeto só são
+ * acessíveis a admins e gerentes (requireProjectAccess responde 400 aos demais).
+ */
+export const plantProject = async (req: Request): Promise<string | undefined> => {
+  const plant = await plantsService.getPlantById(req.params.plantId);
+  if (!plant) {
+    throw new NotFoundError('Planta não encontrada');
+  }
+  return plant.project_id;
+};
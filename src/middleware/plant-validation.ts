@@ -0,0 +1,79 @@
+// ============================================================================
+// VALIDAÇÕES PARA VERSÕES DE PLANTAS
+// ============================================================================
+
+import Joi from 'joi';
+
+// Campos do formulário multipart que acompanham o arquivo da revisão
+export const createPlantVersionSchema = Joi.object({
+  version_number: Joi.string().max(50).optional(),
+  version_name: Joi.string().max(255).optional(),
+  description: Joi.string().max(1000).optional(),
+  parent_id: Joi.string().optional(),
+  is_current: Joi.boolean().default(true),
+  tags: Joi.string().max(500).optional() // Separadas por vírgula
+});
+
+export const updatePlantVersionSchema = Joi.object({
+  version_name: Joi.string().min(1).max(255).optional(),
+  description: Joi.string().max(1000).allow('').optional(),
+  tags: Joi.array().items(Joi.string().max(50)).optional(),
+  metadata: Joi.object().optional()
+}).min(1);
+
+// Comentário opcional ao enviar para revisão, aprovar, devolver ou arquivar
+export const plantVersionTransitionSchema = Joi.object({
+  comment: Joi.string().max(1000).optional()
+});
+
+// Filtros de VersionFilter
+export const plantVersionHistoryQuerySchema = Joi.object({
+  status: Joi.string().valid('draft', 'review', 'approved', 'archived', 'deprecated').optional(),
+  created_by: Joi.string().optional(),
+  date_from: Joi.string().isoDate().optional(),
+  date_to: Joi.string().isoDate().optional(),
+  is_current: Joi.boolean().optional()
+});
+
+// visual=true rasteriza a página nas duas versões e gera a sobreposição (page, dpi, threshold)
+export const plantVersionCompareQuerySchema = Joi.object({
+  v1: Joi.string().required(),
+  v2: Joi.string().required(),
+  visual: Joi.boolean().default(false),
+  page: Joi.number().integer().min(1).default(1),
+  dpi: Joi.number().integer().min(36).max(200).default(100),
+  threshold: Joi.number().integer().min(1).max(254).default(48)
+});
+
+export const plantVersionAnalyticsQuerySchema = Joi.object({
+  plant_id: Joi.string().optional()
+});
+
+const pointSchema = Joi.object({
+  x: Joi.number().required(),
+  y: Joi.number().required()
+});
+
+// Pontos de referência (2 ou 3) e folha da nova revisão para sinalizar medições fora dela
+export const plantVersionRebaselineSchema = Joi.object({
+  from_version_id: Joi.string().optional(),
+  mode: Joi.string().valid('copy', 'link').default('copy'),
+  reference_points: Joi.array().items(Joi.object({
+    from: pointSchema.required(),
+    to: pointSchema.required()
+  })).min(2).max(3).optional(),
+  sheet: Joi.object({
+    width: Joi.number().positive().required(),
+    height: Joi.number().positive().required()
+  }).optional()
+});
+
+export const plantPageParamsSchema = Joi.object({
+  plantId: Joi.string().required(),
+  pageNumber: Joi.number().integer().min(1).required()
+});
+
+// Sem dpi, a imagem do menor DPI renderizado
+export const plantPageImageQuerySchema = Joi.object({
+  dpi: Joi.number().integer().positive().optional()
+});
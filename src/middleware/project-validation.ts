@@ -0,0 +1,43 @@
+// ============================================================================
+// VALIDAÇÕES PARA PROJETOS
+// ============================================================================
+
+import Joi from 'joi';
+
+export const projectMemberSchema = Joi.object({
+  user_id: Joi.string().required()
+    .messages({
+      'any.required': 'user_id é obrigatório'
+    }),
+  role: Joi.string().valid('owner', 'editor', 'viewer').required()
+    .messages({
+      'any.only': 'Papel deve ser um dos seguintes: owner, editor, viewer',
+      'any.required': 'Papel é obrigatório'
+    })
+});
+
+const clashTypes = ['trench', 'bore-shot', 'conduit', 'vault'];
+
+export const clashAnalysisSchema = Joi.object({
+  scale: Joi.string().pattern(/^\d+:\d+$/).optional()
+    .messages({
+      'string.pattern.base': 'Escala deve estar no formato "1:100"'
+    }),
+  zoom: Joi.number().positive().optional(),
+  default_rule: Joi.object({
+    horizontal_m: Joi.number().min(0).required(),
+    vertical_m: Joi.number().min(0).required()
+  }).optional(),
+  rules: Joi.array().items(
+    Joi.object({
+      types: Joi.array().items(Joi.string().valid(...clashTypes)).length(2).required()
+        .messages({
+          'any.only': `Tipos devem ser: ${clashTypes.join(', ')}`
+        }),
+      horizontal_m: Joi.number().min(0).default(0),
+      vertical_m: Joi.number().min(0).default(0),
+      ignore: Joi.boolean().optional(),
+      ignore_linked: Joi.boolean().optional()
+    })
+  ).optional()
+});
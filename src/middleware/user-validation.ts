@@ -0,0 +1,117 @@
+// ============================================================================
+// VALIDAÇÕES PARA USUÁRIOS E EQUIPES
+// ============================================================================
+
+import Joi from 'joi';
+import { UserRole } from './auth';
+
+const roles = Object.values(UserRole);
+
+const password = Joi.string().min(8).max(255)
+  .messages({
+    'string.min': 'Senha deve ter pelo menos 8 caracteres',
+    'string.max': 'Senha deve ter no máximo 255 caracteres'
+  });
+
+const listFilters = {
+  search: Joi.string().min(1).max(255).optional(),
+  department: Joi.string().max(100).optional(),
+  role: Joi.string().max(50).optional(),
+  isActive: Joi.boolean().optional(),
+  limit: Joi.number().integer().min(1).max(200).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+  page: Joi.number().integer().min(1).optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional()
+};
+
+// ============================================================================
+// USUÁRIOS
+// ============================================================================
+
+export const createUserSchema = Joi.object({
+  email: Joi.string().email().required()
+    .messages({
+      'string.email': 'Email inválido',
+      'any.required': 'Email é obrigatório'
+    }),
+  username: Joi.string().min(2).max(100).required()
+    .messages({
+      'any.required': 'Nome de usuário é obrigatório'
+    }),
+  password: password.required()
+    .messages({
+      'any.required': 'Senha é obrigatória'
+    }),
+  full_name: Joi.string().max(255).optional(),
+  role: Joi.string().valid(...roles).optional()
+    .messages({
+      'any.only': `Papel deve ser um dos seguintes: ${roles.join(', ')}`
+    }),
+  department: Joi.string().max(100).optional()
+});
+
+export const updateUserSchema = Joi.object({
+  username: Joi.string().min(2).max(100).optional(),
+  full_name: Joi.string().max(255).optional(),
+  role: Joi.string().valid(...roles).optional()
+    .messages({
+      'any.only': `Papel deve ser um dos seguintes: ${roles.join(', ')}`
+    }),
+  department: Joi.string().max(100).optional(),
+  is_active: Joi.boolean().optional()
+}).min(1);
+
+export const changePasswordSchema = Joi.object({
+  currentPassword: Joi.string().max(255).optional(),
+  newPassword: password.required()
+    .messages({
+      'any.required': 'Nova senha é obrigatória'
+    })
+});
+
+export const listUsersQuerySchema = Joi.object({
+  ...listFilters,
+  createdAfter: Joi.string().isoDate().optional(),
+  createdBefore: Joi.string().isoDate().optional(),
+  sortBy: Joi.string().valid('created_at', 'updated_at', 'email', 'username', 'last_login_at').optional()
+});
+
+// ============================================================================
+// EQUIPES
+// ============================================================================
+
+const teamMemberRole = Joi.string().valid('leader', 'member');
+
+export const createTeamSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required()
+    .messages({
+      'any.required': 'Nome da equipe é obrigatório'
+    }),
+  description: Joi.string().max(1000).optional(),
+  department: Joi.string().max(100).optional(),
+  role: Joi.string().max(100).optional(),
+  members: Joi.array().items(Joi.object({
+    user_id: Joi.string().required(),
+    role: teamMemberRole.optional()
+  })).optional()
+});
+
+export const updateTeamSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  description: Joi.string().max(1000).optional(),
+  department: Joi.string().max(100).optional(),
+  role: Joi.string().max(100).optional(),
+  is_active: Joi.boolean().optional(),
+  total_hours: Joi.number().min(0).optional(),
+  efficiency: Joi.number().min(0).max(1).optional()
+}).min(1);
+
+export const teamMemberSchema = Joi.object({
+  user_id: Joi.string().required()
+    .messages({
+      'any.required': 'user_id é obrigatório'
+    }),
+  role: teamMemberRole.default('member')
+});
+
+export const listTeamsQuerySchema = Joi.object(listFilters);
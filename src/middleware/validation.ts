@@ -186,11 +186,11 @@ export const plantSchemas = {
 };
 
 // Middleware de validação genérico
-export const validateRequest = (schema: Joi.ObjectSchema | { body?: Joi.ObjectSchema, query?: Joi.ObjectSchema, params?: Joi.ObjectSchema }) => {
+export const validateRequest = (schema: Joi.Schema | { body?: Joi.ObjectSchema, query?: Joi.ObjectSchema, params?: Joi.ObjectSchema }) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     const errors: string[] = [];
 
-    // Se é um schema simples (ObjectSchema), valida apenas o body
+    // Se é um schema simples (ObjectSchema, Alternatives...), valida apenas o body
     if ('validate' in schema) {
       const { error, value } = schema.validate(req.body, {
         abortEarly: false,
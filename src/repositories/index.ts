@@ -0,0 +1,70 @@
+// ============================================================================
+// FÁBRICA DE REPOSITÓRIOS - DRIVER SELECIONADO POR STORAGE_DRIVER
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { config } from '../config/app';
+import { log } from '../utils/winstonLogger';
+import { CollectionOptions, Entity, Repository } from './repository';
+import { JsonFileRepository } from './json-file-repository';
+import { SqliteRepository } from './sqlite-repository';
+
+export * from './repository';
+
+// Uma instância por coleção: serviços diferentes compartilham o mesmo índice/conexão
+const repositories = new Map<string, Repository<any>>();
+let database: Database.Database | null = null;
+
+function getDatabase(): Database.Database {
+  if (!database) {
+    fs.mkdirSync(path.dirname(config.SQLITE_PATH), { recursive: true });
+    database = new Database(config.SQLITE_PATH);
+    database.pragma('journal_mode = WAL');
+    log.info('Banco SQLite aberto', { path: config.SQLITE_PATH });
+  }
+  return database;
+}
+
+/**
+ * Obter o repositório de uma coleção (ex: "projects", "measurements")
+ */
+export function getRepository<T extends Entity>(collection: string, options: CollectionOptions = {}): Repository<T> {
+  const existing = repositories.get(collection);
+  if (existing) {
+    return existing;
+  }
+
+  const dir = options.dir || path.join(process.cwd(), 'data', collection);
+  let repository: Repository<T>;
+
+  if (config.STORAGE_DRIVER === 'sqlite') {
+    const sqliteRepository = new SqliteRepository<T>(getDatabase(), collection, options.indexes);
+    sqliteRepository.importFromDirectory(dir);
+    repository = sqliteRepository;
+  } else {
+    repository = new JsonFileRepository<T>(collection, dir);
+  }
+
+  repositories.set(collection, repository);
+  return repository;
+}
+
+/**
+ * Repositórios já abertos pelos serviços
+ */
+export function listRepositories(): Repository<any>[] {
+  return Array.from(repositories.values());
+}
+
+/**
+ * Fechar conexão SQLite (usado no shutdown)
+ */
+export function closeRepositories(): void {
+  if (database) {
+    database.close();
+    database = null;
+  }
+  repositories.clear();
+}
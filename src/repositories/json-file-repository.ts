@@ -0,0 +1,198 @@
+// ============================================================================
+// DRIVER JSON - UM ARQUIVO POR ENTIDADE, COM ÍNDICE EM MEMÓRIA
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from '../utils/winstonLogger';
+import {
+  Entity,
+  FindOptions,
+  Repository,
+  StorageCheckResult,
+  WhereClause,
+  assertFieldName,
+  compactWhere
+} from './repository';
+
+export class JsonFileRepository<T extends Entity> implements Repository<T> {
+  readonly collection: string;
+  private dir: string;
+  // Carregado na primeira consulta; depois mantido em sincronia a cada escrita
+  private cache: Map<string, T> | null = null;
+
+  constructor(collection: string, dir: string) {
+    this.collection = collection;
+    this.dir = dir;
+
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      log.info(`Diretório criado: ${this.dir}`);
+    }
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const entity = this.load().get(id);
+    return entity ? clone(entity) : null;
+  }
+
+  async find(options: FindOptions = {}): Promise<T[]> {
+    let entities = this.filter(options.where);
+
+    if (options.orderBy) {
+      assertFieldName(options.orderBy);
+      const field = options.orderBy;
+      const direction = options.order === 'desc' ? -1 : 1;
+      entities.sort((a, b) => compareValues((a as any)[field], (b as any)[field]) * direction);
+    }
+
+    const offset = options.offset || 0;
+    entities = options.limit !== undefined
+      ? entities.slice(offset, offset + options.limit)
+      : entities.slice(offset);
+
+    return entities.map(clone);
+  }
+
+  async count(where?: WhereClause): Promise<number> {
+    return this.filter(where).length;
+  }
+
+  async save(entity: T): Promise<T> {
+    const stored = clone(entity);
+    writeFileAtomic(this.filePath(entity.id), JSON.stringify(stored, null, 2));
+    this.load().set(entity.id, stored);
+    return clone(stored);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const cache = this.load();
+    const filePath = this.filePath(id);
+    const existed = cache.delete(id);
+
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+      return true;
+    }
+
+    return existed;
+  }
+
+  async checkStorage(repair: boolean): Promise<StorageCheckResult> {
+    const result: StorageCheckResult = { corrupted: [], temporary: [] };
+
+    for (const file of fs.readdirSync(this.dir)) {
+      const filePath = path.join(this.dir, file);
+
+      if (TEMP_FILE_PATTERN.test(file)) {
+        result.temporary.push(filePath);
+        if (repair) {
+          fs.unlinkSync(filePath);
+        }
+        continue;
+      }
+
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const entity = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        if (entity && typeof entity.id === 'string') continue;
+      } catch {
+        // Tratado abaixo como arquivo corrompido
+      }
+
+      result.corrupted.push(filePath);
+      if (repair) {
+        // Mantido para recuperação manual, mas fora da coleção
+        fs.renameSync(filePath, `${filePath}.corrupted`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Ler todos os arquivos da coleção (apenas na primeira consulta)
+   */
+  private load(): Map<string, T> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    const cache = new Map<string, T>();
+
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const entity = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8'));
+        if (entity && typeof entity.id === 'string') {
+          cache.set(entity.id, entity);
+        }
+      } catch (error) {
+        log.warn(`Arquivo ignorado em ${this.collection}: ${file}`, error);
+      }
+    }
+
+    this.cache = cache;
+    log.info(`Coleção ${this.collection} carregada`, { total: cache.size });
+
+    return cache;
+  }
+
+  private filter(where?: WhereClause): T[] {
+    const conditions = compactWhere(where);
+    const entities = Array.from(this.load().values());
+
+    if (conditions.length === 0) {
+      return entities;
+    }
+
+    return entities.filter(entity =>
+      conditions.every(([field, value]) => ((entity as any)[field] ?? null) === value)
+    );
+  }
+
+  private filePath(id: string): string {
+    // Evitar path traversal via id
+    return path.join(this.dir, `${path.basename(id)}.json`);
+  }
+}
+
+// <id>.json.<pid>-<timestamp>.tmp
+const TEMP_FILE_PATTERN = /\.json\.\d+-\d+\.tmp$/;
+
+/**
+ * Gravar em arquivo temporário e renomear: uma queda no meio da escrita
+ * nunca deixa o arquivo final truncado
+ */
+function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+
+  try {
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    if (fs.existsSync(tempPath)) {
+      fs.unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  return (a as any) < (b as any) ? -1 : 1;
+}
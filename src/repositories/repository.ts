@@ -0,0 +1,73 @@
+// ============================================================================
+// INTERFACE COMUM DE PERSISTÊNCIA (REPOSITÓRIOS)
+// ============================================================================
+
+export type StorageDriver = 'json' | 'sqlite';
+
+// Toda entidade persistida é identificada por um id string
+export interface Entity {
+  id: string;
+}
+
+// Filtro por igualdade em campos de primeiro nível da entidade
+export type WhereClause = Record<string, string | number | boolean | null | undefined>;
+
+export interface FindOptions {
+  where?: WhereClause;
+  orderBy?: string;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+export interface CollectionOptions {
+  // Diretório usado pelo driver JSON (padrão: data/<coleção>)
+  dir?: string;
+  // Campos consultados com frequência (índices no driver SQLite)
+  indexes?: string[];
+}
+
+// Problemas de armazenamento encontrados na verificação de integridade
+export interface StorageCheckResult {
+  corrupted: string[]; // Arquivos ilegíveis (ex: JSON truncado)
+  temporary: string[]; // Arquivos temporários de escritas interrompidas
+}
+
+/**
+ * Repositório de uma coleção de entidades.
+ * As entidades são retornadas como JSON puro: campos Date voltam como string ISO.
+ */
+export interface Repository<T extends Entity> {
+  readonly collection: string;
+
+  findById(id: string): Promise<T | null>;
+  find(options?: FindOptions): Promise<T[]>;
+  count(where?: WhereClause): Promise<number>;
+  save(entity: T): Promise<T>;
+  delete(id: string): Promise<boolean>;
+  // Verificar o armazenamento físico; com repair, isola/remove o que estiver inválido
+  checkStorage(repair: boolean): Promise<StorageCheckResult>;
+}
+
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Validar nome de campo usado em filtros/ordenação
+ */
+export function assertFieldName(field: string): void {
+  if (!FIELD_PATTERN.test(field)) {
+    throw new Error(`Campo inválido para consulta: ${field}`);
+  }
+}
+
+/**
+ * Remover chaves com valor undefined do filtro
+ */
+export function compactWhere(where: WhereClause = {}): Array<[string, string | number | boolean | null]> {
+  return Object.entries(where)
+    .filter((entry): entry is [string, string | number | boolean | null] => entry[1] !== undefined)
+    .map(([field, value]) => {
+      assertFieldName(field);
+      return [field, value];
+    });
+}
@@ -0,0 +1,155 @@
+// ============================================================================
+// DRIVER SQLITE - ENTIDADES COMO JSON EM TABELAS (better-sqlite3)
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { log } from '../utils/winstonLogger';
+import {
+  Entity,
+  FindOptions,
+  Repository,
+  StorageCheckResult,
+  WhereClause,
+  assertFieldName,
+  compactWhere
+} from './repository';
+
+export class SqliteRepository<T extends Entity> implements Repository<T> {
+  readonly collection: string;
+  private db: Database.Database;
+  private table: string;
+
+  constructor(db: Database.Database, collection: string, indexes: string[] = []) {
+    this.db = db;
+    this.collection = collection;
+    this.table = `"${collection.replace(/[^A-Za-z0-9_]/g, '_')}"`;
+
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${this.table} (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL
+    )`);
+
+    for (const field of indexes) {
+      assertFieldName(field);
+      const indexName = `"idx_${collection.replace(/[^A-Za-z0-9_]/g, '_')}_${field}"`;
+      this.db.exec(
+        `CREATE INDEX IF NOT EXISTS ${indexName} ON ${this.table} (json_extract(data, '$.${field}'))`
+      );
+    }
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const row = this.db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id) as
+      { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async find(options: FindOptions = {}): Promise<T[]> {
+    const { clause, params } = this.buildWhere(options.where);
+    let sql = `SELECT data FROM ${this.table}${clause}`;
+
+    if (options.orderBy) {
+      assertFieldName(options.orderBy);
+      const direction = options.order === 'desc' ? 'DESC' : 'ASC';
+      sql += ` ORDER BY json_extract(data, '$.${options.orderBy}') ${direction}`;
+    }
+
+    if (options.limit !== undefined) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(options.limit, options.offset || 0);
+    } else if (options.offset) {
+      sql += ' LIMIT -1 OFFSET ?';
+      params.push(options.offset);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async count(where?: WhereClause): Promise<number> {
+    const { clause, params } = this.buildWhere(where);
+    const row = this.db.prepare(`SELECT COUNT(*) AS total FROM ${this.table}${clause}`).get(...params) as
+      { total: number };
+    return row.total;
+  }
+
+  async save(entity: T): Promise<T> {
+    const data = JSON.stringify(entity);
+    this.db.prepare(
+      `INSERT INTO ${this.table} (id, data) VALUES (?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data`
+    ).run(entity.id, data);
+    return JSON.parse(data);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+    return result.changes > 0;
+  }
+
+  async checkStorage(_repair: boolean): Promise<StorageCheckResult> {
+    // Escritas são transacionais no SQLite: não há arquivos parciais por entidade
+    const rows = this.db.prepare(`SELECT id FROM ${this.table} WHERE json_valid(data) = 0`).all() as
+      Array<{ id: string }>;
+    return { corrupted: rows.map(row => `${this.collection}/${row.id}`), temporary: [] };
+  }
+
+  /**
+   * Importar arquivos JSON existentes quando a tabela ainda está vazia
+   * (permite trocar de driver sem perder dados)
+   */
+  importFromDirectory(dir: string): number {
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM ${this.table}`).get() as { total: number };
+
+    if (total > 0 || !fs.existsSync(dir)) {
+      return 0;
+    }
+
+    const insert = this.db.prepare(`INSERT OR IGNORE INTO ${this.table} (id, data) VALUES (?, ?)`);
+    let imported = 0;
+
+    const importAll = this.db.transaction((files: string[]) => {
+      for (const file of files) {
+        try {
+          const entity = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+          if (entity && typeof entity.id === 'string') {
+            insert.run(entity.id, JSON.stringify(entity));
+            imported++;
+          }
+        } catch (error) {
+          log.warn(`Arquivo ignorado na importação de ${this.collection}: ${file}`, error);
+        }
+      }
+    });
+
+    importAll(fs.readdirSync(dir).filter(file => file.endsWith('.json')));
+
+    if (imported > 0) {
+      log.info(`Coleção ${this.collection} importada para SQLite`, { imported, dir });
+    }
+
+    return imported;
+  }
+
+  private buildWhere(where?: WhereClause): { clause: string; params: Array<string | number> } {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    for (const [field, value] of compactWhere(where)) {
+      if (value === null) {
+        conditions.push(`json_extract(data, '$.${field}') IS NULL`);
+      } else {
+        conditions.push(`json_extract(data, '$.${field}') = ?`);
+        // json_extract devolve booleanos JSON como 1/0
+        params.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+      }
+    }
+
+    return {
+      clause: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+}
@@ -0,0 +1,39 @@
+// ============================================================================
+// ROTAS PARA AUTENTICAÇÃO
+// ============================================================================
+
+import { Router } from 'express';
+import { AuthController } from '../controllers/authController';
+import { authenticate } from '../middleware/auth';
+import { authLimiter } from '../middleware/rateLimit';
+import { validateRequest } from '../middleware/validation';
+import { loginSchema, refreshTokenSchema, logoutSchema } from '../middleware/auth-validation';
+
+const router = Router();
+const controller = new AuthController();
+
+/**
+ * POST /api/v1/auth/login
+ * Autenticar e obter tokens de acesso e refresh
+ */
+router.post('/login', authLimiter, validateRequest(loginSchema), controller.login);
+
+/**
+ * POST /api/v1/auth/refresh
+ * Trocar refresh token por um novo par de tokens
+ */
+router.post('/refresh', authLimiter, validateRequest(refreshTokenSchema), controller.refresh);
+
+/**
+ * POST /api/v1/auth/logout
+ * Revogar tokens da sessão atual
+ */
+router.post('/logout', authenticate, validateRequest(logoutSchema), controller.logout);
+
+/**
+ * GET /api/v1/auth/me
+ * Obter usuário autenticado
+ */
+router.get('/me', authenticate, controller.me);
+
+export default router;
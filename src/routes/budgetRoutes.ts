@@ -0,0 +1,107 @@
+// ============================================================================
+// ROTAS PARA ORÇAMENTOS DE PROJETO
+// ============================================================================
+
+import { Router, Request } from 'express';
+import { BudgetController } from '../controllers/budgetController';
+import { BudgetService } from '../services/budget-service';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import {
+  createBudgetSchema,
+  updateBudgetSchema,
+  budgetTransitionSchema,
+  listBudgetsQuerySchema
+} from '../middleware/budget-validation';
+
+const router = Router();
+const controller = new BudgetController();
+const budgetService = new BudgetService();
+
+// Projeto do orçamento indicado em :id
+const budgetProject = async (req: Request): Promise<string> => {
+  const budget = await budgetService.getBudgetById(req.params.id);
+  if (!budget) {
+    throw new NotFoundError('Orçamento não encontrado');
+  }
+  return budget.project_id;
+};
+
+router.use(authenticate);
+
+/**
+ * POST /api/v1/budgets
+ * Criar orçamento em rascunho (linhas e/ou takeoffs orçados)
+ */
+router.post(
+  '/',
+  validateRequest(createBudgetSchema),
+  requireProjectAccess(req => req.body.project_id),
+  controller.createBudget
+);
+
+/**
+ * GET /api/v1/budgets
+ * Listar orçamentos (BudgetFilters); sem project_id, apenas admin/gerente
+ */
+router.get(
+  '/',
+  validateRequest({ query: listBudgetsQuerySchema }),
+  requireProjectAccess(req => req.query.project_id as string),
+  controller.listBudgets
+);
+
+/**
+ * GET /api/v1/budgets/:id
+ * Obter orçamento (com histórico de status e revisões anteriores)
+ */
+router.get('/:id', requireProjectAccess(budgetProject), controller.getBudget);
+
+/**
+ * PUT /api/v1/budgets/:id
+ * Atualizar orçamento em rascunho
+ */
+router.put('/:id', requireProjectAccess(budgetProject), validateRequest(updateBudgetSchema), controller.updateBudget);
+
+/**
+ * DELETE /api/v1/budgets/:id
+ * Deletar orçamento (exceto aprovado)
+ */
+router.delete('/:id', requireProjectAccess(budgetProject), controller.deleteBudget);
+
+/**
+ * POST /api/v1/budgets/:id/submit
+ * Enviar orçamento para aprovação
+ */
+router.post('/:id/submit', requireProjectAccess(budgetProject), validateRequest(budgetTransitionSchema), controller.submitBudget);
+
+/**
+ * POST /api/v1/budgets/:id/approve
+ * Aprovar orçamento enviado (dono do projeto ou admin/gerente)
+ */
+router.post(
+  '/:id/approve',
+  requireProjectAccess(budgetProject, 'owner'),
+  validateRequest(budgetTransitionSchema),
+  controller.approveBudget
+);
+
+/**
+ * POST /api/v1/budgets/:id/reject
+ * Devolver orçamento enviado para rascunho (dono do projeto ou admin/gerente)
+ */
+router.post(
+  '/:id/reject',
+  requireProjectAccess(budgetProject, 'owner'),
+  validateRequest(budgetTransitionSchema),
+  controller.rejectBudget
+);
+
+/**
+ * POST /api/v1/budgets/:id/revisions
+ * Abrir nova revisão (guarda a revisão atual e volta para rascunho)
+ */
+router.post('/:id/revisions', requireProjectAccess(budgetProject), validateRequest(budgetTransitionSchema), controller.createRevision);
+
+export default router;
@@ -9,7 +9,17 @@ import {
   calculateDistanceSchema,
   calculateAreaSchema,
   calculateVolumeSchema,
-  calculateSlopeSchema
+  calculateSlopeSchema,
+  calculateProfileSchema,
+  calculateOffsetSchema,
+  calculateOffsetAreaSchema,
+  calculateVolumeByAxisSchema,
+  calculateLooseVolumeSchema,
+  calculateCutFromFillSchema,
+  calculateTransportSchema,
+  calculateSpoilSchema,
+  calculateBackfillSchema,
+  designBorePlanSchema
 } from '../middleware/measurement-validation';
 
 const router = Router();
@@ -55,5 +65,119 @@ router.post(
   controller.calculateSlope
 );
 
+/**
+ * POST /api/v1/calculations/volume-by-axis
+ * Calcular volume ao longo de um eixo (largura constante)
+ */
+router.post(
+  '/volume-by-axis',
+  validateRequest(calculateVolumeByAxisSchema),
+  controller.calculateVolumeByAxis
+);
+
+/**
+ * POST /api/v1/calculations/profile
+ * Gerar perfil longitudinal de elevações
+ */
+router.post(
+  '/profile',
+  validateRequest(calculateProfileSchema),
+  controller.calculateProfile
+);
+
+/**
+ * POST /api/v1/calculations/offset
+ * Gerar linhas paralelas à linha base
+ */
+router.post(
+  '/offset',
+  validateRequest(calculateOffsetSchema),
+  controller.calculateOffset
+);
+
+/**
+ * POST /api/v1/calculations/offset-area
+ * Calcular área do corredor de offset
+ */
+router.post(
+  '/offset-area',
+  validateRequest(calculateOffsetAreaSchema),
+  controller.calculateOffsetArea
+);
+
+// ============================================================================
+// TERRAPLENAGEM (EMPOLAMENTO / CONTRAÇÃO)
+// ============================================================================
+
+/**
+ * GET /api/v1/calculations/earthwork/factors
+ * Fatores de empolamento e contração por tipo de solo
+ */
+router.get('/earthwork/factors', controller.getEarthworkFactors);
+
+/**
+ * POST /api/v1/calculations/earthwork/loose-volume
+ * Volume solto a partir do volume de corte
+ */
+router.post(
+  '/earthwork/loose-volume',
+  validateRequest(calculateLooseVolumeSchema),
+  controller.calculateLooseVolume
+);
+
+/**
+ * POST /api/v1/calculations/earthwork/cut-from-fill
+ * Volume de corte para um aterro compactado
+ */
+router.post(
+  '/earthwork/cut-from-fill',
+  validateRequest(calculateCutFromFillSchema),
+  controller.calculateCutFromFill
+);
+
+/**
+ * POST /api/v1/calculations/earthwork/transport
+ * Volume solto e viagens para executar um aterro compactado
+ */
+router.post(
+  '/earthwork/transport',
+  validateRequest(calculateTransportSchema),
+  controller.calculateTransport
+);
+
+/**
+ * POST /api/v1/calculations/earthwork/spoil
+ * Bota-fora (escavação menos volume do tubo)
+ */
+router.post(
+  '/earthwork/spoil',
+  validateRequest(calculateSpoilSchema),
+  controller.calculateSpoil
+);
+
+/**
+ * POST /api/v1/calculations/earthwork/backfill
+ * Volume de reaterro descontando remoções de pavimento
+ */
+router.post(
+  '/earthwork/backfill',
+  validateRequest(calculateBackfillSchema),
+  controller.calculateBackfill
+);
+
+// ============================================================================
+// PERFURAÇÃO DIRECIONAL (HDD)
+// ============================================================================
+
+/**
+ * POST /api/v1/calculations/bore-plan
+ * Gerar perfil 3D de perfuração a partir de entrada, saída, ângulos e coberturas
+ */
+router.post(
+  '/bore-plan',
+  validateRequest(designBorePlanSchema),
+  controller.designBorePlan
+);
+
 export default router;
 
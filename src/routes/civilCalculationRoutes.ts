@@ -0,0 +1,84 @@
+// ============================================================================
+// ROTAS PARA CÁLCULOS ESTRUTURAIS - ENGENHARIA CIVIL PREDIAL
+// ============================================================================
+
+import { Router, Request } from 'express';
+import { CivilCalculationController } from '../controllers/civilCalculationController';
+import { CivilMeasurementService } from '../services/civil-measurement-service';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import {
+  beamAnalysisSchema,
+  beamCheckSchema,
+  beamMeasurementCheckSchema,
+  beamOptimizeSchema,
+  beamOptimizeLogSchema
+} from '../middleware/civil-measurement-validation';
+
+const router = Router();
+const controller = new CivilCalculationController();
+const civilMeasurementService = new CivilMeasurementService();
+
+// Projeto da medição indicada em :id
+const measurementProject = async (req: Request): Promise<string> => {
+  const measurement = await civilMeasurementService.getMeasurementById(req.params.id);
+  if (!measurement) {
+    throw new NotFoundError('Medição não encontrada');
+  }
+  return measurement.project_id;
+};
+
+/**
+ * POST /api/v1/civil-calculations/beam/analyze
+ * Flecha, momento fletor, cortante e rotação de viga simplesmente apoiada
+ */
+router.post(
+  '/beam/analyze',
+  validateRequest(beamAnalysisSchema),
+  controller.analyzeBeam
+);
+
+/**
+ * POST /api/v1/civil-calculations/beam/check
+ * Verificar flecha contra L/250 ou L/350
+ */
+router.post(
+  '/beam/check',
+  validateRequest(beamCheckSchema),
+  controller.checkBeam
+);
+
+/**
+ * GET /api/v1/civil-calculations/beam/measurements/:id/check
+ * Verificar flecha de uma viga medida (vão e seção da medição)
+ */
+router.get(
+  '/beam/measurements/:id/check',
+  authenticate,
+  validateRequest({ query: beamMeasurementCheckSchema }),
+  requireProjectAccess(measurementProject),
+  controller.checkMeasuredBeam
+);
+
+/**
+ * POST /api/v1/civil-calculations/beam/optimize
+ * Seção retangular de máxima resistência para o diâmetro disponível
+ */
+router.post(
+  '/beam/optimize',
+  validateRequest(beamOptimizeSchema),
+  controller.optimizeBeam
+);
+
+/**
+ * POST /api/v1/civil-calculations/beam/optimize-log
+ * Viga extraída de tronco circular
+ */
+router.post(
+  '/beam/optimize-log',
+  validateRequest(beamOptimizeLogSchema),
+  controller.optimizeBeamFromLog
+);
+
+export default router;
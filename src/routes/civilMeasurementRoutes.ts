@@ -2,13 +2,29 @@
 // ROTAS PARA FERRAMENTAS DE MEDIÇÃO - ENGENHARIA CIVIL PREDIAL
 // ============================================================================
 
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { CivilMeasurementController } from '../controllers/civilMeasurementController';
+import { CivilMeasurementService } from '../services/civil-measurement-service';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
 import { createCivilMeasurementSchema, updateCivilMeasurementSchema } from '../middleware/civil-measurement-validation';
+import { costEstimateSchema } from '../middleware/cost-validation';
 import { validateRequest } from '../middleware/validation';
 
 const router = Router();
 const controller = new CivilMeasurementController();
+const civilMeasurementService = new CivilMeasurementService();
+
+// Projeto da medição indicada em :id
+const measurementProject = async (req: Request): Promise<string> => {
+  const measurement = await civilMeasurementService.getMeasurementById(req.params.id);
+  if (!measurement) {
+    throw new NotFoundError('Medição não encontrada');
+  }
+  return measurement.project_id;
+};
+
+router.use(authenticate);
 
 /**
  * @swagger
@@ -43,9 +59,32 @@ const controller = new CivilMeasurementController();
 router.post(
   '/',
   validateRequest(createCivilMeasurementSchema),
+  requireProjectAccess(req => req.body.projectId || req.body.project_id),
   controller.createMeasurement
 );
 
+/**
+ * @swagger
+ * /api/v1/civil-measurements/summary/{projectId}:
+ *   get:
+ *     summary: Resumo das medições civis do projeto
+ *     description: Totais por tipo (alvenaria, blocos e argamassa, concreto de lajes, fundações e estrutura, armadura, acabamentos com perdas, cobertura)
+ *     tags: [Civil Measurements]
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Resumo do projeto
+ *       404:
+ *         description: Projeto não encontrado
+ */
+router.get('/summary/:projectId', requireProjectAccess(), controller.getProjectSummary);
+
 /**
  * @swagger
  * /api/v1/civil-measurements/{id}:
@@ -65,7 +104,46 @@ router.post(
  *       404:
  *         description: Medição não encontrada
  */
-router.get('/:id', controller.getMeasurement);
+router.get('/:id', requireProjectAccess(measurementProject), controller.getMeasurement);
+
+/**
+ * @swagger
+ * /api/v1/civil-measurements/{id}/cost:
+ *   get:
+ *     summary: Orçar medição (composição de referência em composition_code ou vínculos do catálogo)
+ *     tags: [Civil Measurements]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: price_list_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: region
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Orçamento da medição
+ *       404:
+ *         description: Medição ou tabela de preços não encontrada
+ */
+router.get(
+  '/:id/cost',
+  requireProjectAccess(measurementProject),
+  validateRequest({ query: costEstimateSchema }),
+  controller.getMeasurementCost
+);
 
 /**
  * @swagger
@@ -76,6 +154,7 @@ router.get('/:id', controller.getMeasurement);
  *     parameters:
  *       - in: query
  *         name: projectId
+ *         description: Obrigatório exceto para admin/manager
  *         schema:
  *           type: string
  *           format: uuid
@@ -87,8 +166,10 @@ router.get('/:id', controller.getMeasurement);
  *     responses:
  *       200:
  *         description: Lista de medições
+ *       403:
+ *         description: Usuário sem acesso ao projeto
  */
-router.get('/', controller.listMeasurements);
+router.get('/', requireProjectAccess(req => req.query.projectId as string), controller.listMeasurements);
 
 /**
  * @swagger
@@ -122,6 +203,7 @@ router.get('/', controller.listMeasurements);
  */
 router.put(
   '/:id',
+  requireProjectAccess(measurementProject),
   validateRequest(updateCivilMeasurementSchema),
   controller.updateMeasurement
 );
@@ -145,7 +227,7 @@ router.put(
  *       404:
  *         description: Medição não encontrada
  */
-router.delete('/:id', controller.deleteMeasurement);
+router.delete('/:id', requireProjectAccess(measurementProject), controller.deleteMeasurement);
 
 export default router;
 
@@ -0,0 +1,20 @@
+// ============================================================================
+// ROTAS PARA JOBS EM SEGUNDO PLANO
+// ============================================================================
+
+import { Router } from 'express';
+import { JobController } from '../controllers/jobController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+const controller = new JobController();
+
+router.use(authenticate);
+
+/**
+ * GET /api/jobs/:id
+ * Status (queued, running, completed, failed), progresso, tentativas e resultado
+ */
+router.get('/:id', controller.getJob);
+
+export default router;
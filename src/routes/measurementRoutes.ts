@@ -2,8 +2,11 @@
 // ROTAS PARA FERRAMENTAS DE MEDIÇÃO VIAPLAN
 // ============================================================================
 
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { MeasurementController } from '../controllers/measurementController';
+import { MeasurementService } from '../services/measurement-service';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
 import { validateRequest } from '../middleware/validation';
 import {
   createMeasurementSchema,
@@ -12,6 +15,25 @@ import {
 
 const router = Router();
 const controller = new MeasurementController();
+const measurementService = new MeasurementService();
+
+// Projeto da medição indicada em :id
+const measurementProject = async (req: Request): Promise<string> => {
+  const measurement = await measurementService.getMeasurementById(req.params.id);
+  if (!measurement) {
+    throw new NotFoundError('Medição não encontrada');
+  }
+  return measurement.project_id;
+};
+
+// Projetos de todas as medições de um batch-delete
+const batchProjects = async (req: Request): Promise<string[]> => {
+  const ids: string[] = Array.isArray(req.body.ids) ? req.body.ids : [];
+  const measurements = await Promise.all(ids.map(id => measurementService.getMeasurementById(id)));
+  return measurements.flatMap(m => (m ? [m.project_id] : []));
+};
+
+router.use(authenticate);
 
 // ============================================================================
 // ENDPOINTS DE MEDIÇÕES
@@ -24,20 +46,27 @@ const controller = new MeasurementController();
 router.post(
   '/',
   validateRequest(createMeasurementSchema),
+  requireProjectAccess(req => req.body.project_id),
   controller.createMeasurement
 );
 
+/**
+ * GET /api/v1/measurements/export?projectId=&type=&dateFrom=&dateTo=&format=json|csv|xlsx
+ * Exportar medições filtradas de um projeto (antes de /:id)
+ */
+router.get('/export', requireProjectAccess(req => req.query.projectId as string), controller.exportMeasurements);
+
 /**
  * GET /api/v1/measurements/:id
  * Obter medição específica
  */
-router.get('/:id', controller.getMeasurement);
+router.get('/:id', requireProjectAccess(measurementProject), controller.getMeasurement);
 
 /**
- * GET /api/v1/measurements?projectId=:projectId
+ * GET /api/v1/measurements?projectId=:projectId&plantId=&plantVersionId=
  * Listar medições de um projeto
  */
-router.get('/', controller.listMeasurements);
+router.get('/', requireProjectAccess(req => req.query.projectId as string), controller.listMeasurements);
 
 /**
  * PUT /api/v1/measurements/:id
@@ -45,6 +74,7 @@ router.get('/', controller.listMeasurements);
  */
 router.put(
   '/:id',
+  requireProjectAccess(measurementProject),
   validateRequest(updateMeasurementSchema),
   controller.updateMeasurement
 );
@@ -53,19 +83,19 @@ router.put(
  * DELETE /api/v1/measurements/:id
  * Excluir medição
  */
-router.delete('/:id', controller.deleteMeasurement);
+router.delete('/:id', requireProjectAccess(measurementProject), controller.deleteMeasurement);
 
 /**
  * POST /api/v1/measurements/batch-delete
  * Deletar múltiplas medições (útil para undo)
  */
-router.post('/batch-delete', controller.deleteMultipleMeasurements);
+router.post('/batch-delete', requireProjectAccess(batchProjects), controller.deleteMultipleMeasurements);
 
 /**
- * GET /api/v1/measurements/:id/export?format=json|csv
+ * GET /api/v1/measurements/:id/export?format=json|csv|xlsx
  * Exportar medição
  */
-router.get('/:id/export', controller.exportMeasurement);
+router.get('/:id/export', requireProjectAccess(measurementProject), controller.exportMeasurement);
 
 export default router;
 
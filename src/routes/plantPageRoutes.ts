@@ -0,0 +1,50 @@
+// ============================================================================
+// ROTAS PARA PÁGINAS DE PLANTAS
+// ============================================================================
+
+import { Router } from 'express';
+import { PlantPageController } from '../controllers/plantPageController';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import { plantProject } from '../middleware/plant-access';
+import { validateRequest } from '../middleware/validation';
+import { plantPageParamsSchema, plantPageImageQuerySchema } from '../middleware/plant-validation';
+
+const router = Router();
+const controller = new PlantPageController();
+
+router.use(authenticate);
+
+// Páginas seguem o acesso ao projeto da planta: leitura como viewer, reprocessar como editor
+const canView = requireProjectAccess(plantProject, 'viewer');
+const canEdit = requireProjectAccess(plantProject, 'editor');
+
+/**
+ * GET /api/v1/plants/:plantId/pages
+ * Páginas geradas do PDF da planta
+ */
+router.get('/:plantId/pages', canView, controller.listPages);
+
+/**
+ * POST /api/v1/plants/:plantId/pages/process
+ * Dividir e renderizar novamente as páginas (segundo plano)
+ */
+router.post('/:plantId/pages/process', canEdit, controller.processPages);
+
+/**
+ * GET /api/v1/plants/:plantId/pages/:pageNumber
+ * Obter página
+ */
+router.get('/:plantId/pages/:pageNumber', canView, validateRequest({ params: plantPageParamsSchema }), controller.getPage);
+
+/**
+ * GET /api/v1/plants/:plantId/pages/:pageNumber/image?dpi=
+ * Imagem PNG da página (sem dpi, o menor DPI renderizado)
+ */
+router.get(
+  '/:plantId/pages/:pageNumber/image',
+  canView,
+  validateRequest({ params: plantPageParamsSchema, query: plantPageImageQuerySchema }),
+  controller.getPageImage
+);
+
+export default router;
@@ -0,0 +1,186 @@
+// ============================================================================
+// ROTAS PARA VERSÕES DE PLANTAS
+// ============================================================================
+
+import { Router, Request } from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import { PlantVersionController } from '../controllers/plantVersionController';
+import { PlantsUnifiedService } from '../services/plants-unified-service';
+import { authenticate, requireProjectAccess, requireRole, UserRole } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { plantProject } from '../middleware/plant-access';
+import {
+  createPlantVersionSchema,
+  updatePlantVersionSchema,
+  plantVersionTransitionSchema,
+  plantVersionHistoryQuerySchema,
+  plantVersionCompareQuerySchema,
+  plantVersionAnalyticsQuerySchema,
+  plantVersionRebaselineSchema
+} from '../middleware/plant-validation';
+
+const router = Router();
+const controller = new PlantVersionController();
+const plantsService = new PlantsUnifiedService();
+
+// Estatísticas de uma planta (?plant_id=); sem planta, só admins e gerentes (passam direto)
+const analyticsPlantProject = async (req: Request): Promise<string | undefined> => {
+  const plantId = req.query.plant_id as string | undefined;
+  if (!plantId) {
+    return undefined;
+  }
+  const plant = await plantsService.getPlantById(plantId);
+  if (!plant) {
+    throw new NotFoundError('Planta não encontrada');
+  }
+  return plant.project_id;
+};
+
+// Leitura exige viewer no projeto da planta; alterações, editor
+const canView = requireProjectAccess(plantProject, 'viewer');
+const canEdit = requireProjectAccess(plantProject, 'editor');
+
+// Revisões ficam junto das plantas, com prefixo próprio
+const storage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    const uploadDir = path.join(process.cwd(), 'uploads', 'plants');
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    cb(null, uploadDir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, `version-${req.params.plantId}-${uniqueSuffix}${path.extname(file.originalname)}`);
+  }
+});
+
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 200 * 1024 * 1024, // 200MB
+    files: 1
+  }
+});
+
+router.use(authenticate);
+
+/**
+ * GET /api/v1/plants/versions/analytics
+ * Estatísticas de versões (todas as plantas ou plant_id)
+ */
+router.get(
+  '/versions/analytics',
+  validateRequest({ query: plantVersionAnalyticsQuerySchema }),
+  requireProjectAccess(analyticsPlantProject, 'viewer'),
+  controller.getAnalytics
+);
+
+/**
+ * POST /api/v1/plants/:plantId/versions
+ * Enviar nova revisão (multipart: file, version_number, version_name, description, parent_id, is_current, tags)
+ */
+router.post('/:plantId/versions', canEdit, upload.single('file'), validateRequest(createPlantVersionSchema), controller.createVersion);
+
+/**
+ * GET /api/v1/plants/:plantId/versions
+ * Histórico de versões (filtros: status, created_by, date_from, date_to, is_current)
+ */
+router.get('/:plantId/versions', canView, validateRequest({ query: plantVersionHistoryQuerySchema }), controller.getHistory);
+
+/**
+ * GET /api/v1/plants/:plantId/versions/tree
+ * Árvore de versões
+ */
+router.get('/:plantId/versions/tree', canView, controller.getTree);
+
+/**
+ * GET /api/v1/plants/:plantId/versions/compare?v1=&v2=&visual=&page=&dpi=&threshold=
+ * Comparar duas versões (metadata e, com visual=true, sobreposição da página)
+ */
+router.get('/:plantId/versions/compare', canView, validateRequest({ query: plantVersionCompareQuerySchema }), controller.compareVersions);
+
+/**
+ * GET /api/v1/plants/:plantId/versions/compare/overlay?v1=&v2=&page=&dpi=&threshold=
+ * Imagem PNG da sobreposição (vermelho: removido, verde: adicionado)
+ */
+router.get('/:plantId/versions/compare/overlay', canView, validateRequest({ query: plantVersionCompareQuerySchema }), controller.getOverlay);
+
+/**
+ * GET /api/v1/plants/:plantId/versions/:versionId
+ * Obter versão
+ */
+router.get('/:plantId/versions/:versionId', canView, controller.getVersion);
+
+/**
+ * GET /api/v1/plants/:plantId/versions/:versionId/file
+ * Baixar arquivo da versão
+ */
+router.get('/:plantId/versions/:versionId/file', canView, controller.downloadVersion);
+
+/**
+ * PUT /api/v1/plants/:plantId/versions/:versionId
+ * Atualizar nome, descrição, tags e metadata
+ */
+router.put('/:plantId/versions/:versionId', canEdit, validateRequest(updatePlantVersionSchema), controller.updateVersion);
+
+/**
+ * POST /api/v1/plants/:plantId/versions/:versionId/current
+ * Tornar a versão a atual da planta
+ */
+router.post('/:plantId/versions/:versionId/current', canEdit, controller.setCurrentVersion);
+
+/**
+ * POST /api/v1/plants/:plantId/versions/:versionId/rebaseline
+ * Copiar (ou mover) as medições da versão anterior, com transformação opcional por pontos de referência
+ */
+router.post(
+  '/:plantId/versions/:versionId/rebaseline',
+  canEdit,
+  validateRequest(plantVersionRebaselineSchema),
+  controller.rebaseline
+);
+
+/**
+ * POST /api/v1/plants/:plantId/versions/:versionId/submit
+ * Enviar versão para revisão
+ */
+router.post('/:plantId/versions/:versionId/submit', canEdit, validateRequest(plantVersionTransitionSchema), controller.submitVersion);
+
+/**
+ * POST /api/v1/plants/:plantId/versions/:versionId/approve
+ * Aprovar versão em revisão (admin/gerente)
+ */
+router.post(
+  '/:plantId/versions/:versionId/approve',
+  requireRole(UserRole.MANAGER),
+  validateRequest(plantVersionTransitionSchema),
+  controller.approveVersion
+);
+
+/**
+ * POST /api/v1/plants/:plantId/versions/:versionId/reject
+ * Devolver versão em revisão para rascunho (admin/gerente)
+ */
+router.post(
+  '/:plantId/versions/:versionId/reject',
+  requireRole(UserRole.MANAGER),
+  validateRequest(plantVersionTransitionSchema),
+  controller.rejectVersion
+);
+
+/**
+ * POST /api/v1/plants/:plantId/versions/:versionId/archive
+ * Arquivar versão (admin/gerente)
+ */
+router.post(
+  '/:plantId/versions/:versionId/archive',
+  requireRole(UserRole.MANAGER),
+  validateRequest(plantVersionTransitionSchema),
+  controller.archiveVersion
+);
+
+export default router;
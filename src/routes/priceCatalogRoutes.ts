@@ -0,0 +1,128 @@
+// ============================================================================
+// ROTAS PARA CATÁLOGO DE PREÇOS
+// ============================================================================
+
+import { Router } from 'express';
+import multer from 'multer';
+import { PriceCatalogController } from '../controllers/priceCatalogController';
+import { authenticate, requireRole, UserRole } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  createPriceCatalogItemSchema,
+  updatePriceCatalogItemSchema,
+  createPriceListSchema,
+  updatePriceListSchema,
+  listPriceCatalogQuerySchema,
+  importCompositionsSchema
+} from '../middleware/cost-validation';
+
+const router = Router();
+const controller = new PriceCatalogController();
+
+// Arquivos CSV das composições ficam em memória: são lidos uma vez na importação
+const compositionUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB
+    files: 2
+  },
+  fileFilter: (_req, file, cb) => {
+    if (['text/csv', 'text/plain', 'application/vnd.ms-excel'].includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Apenas arquivos CSV são permitidos para importação de composições.'));
+    }
+  }
+});
+
+router.use(authenticate);
+
+// ============================================================================
+// ITENS
+// ============================================================================
+
+/**
+ * POST /api/v1/price-catalog/items
+ * Criar item do catálogo (admin/gerente)
+ */
+router.post('/items', requireRole(UserRole.MANAGER), validateRequest(createPriceCatalogItemSchema), controller.createItem);
+
+/**
+ * GET /api/v1/price-catalog/items
+ * Listar itens do catálogo
+ */
+router.get('/items', validateRequest({ query: listPriceCatalogQuerySchema }), controller.listItems);
+
+/**
+ * GET /api/v1/price-catalog/items/:id
+ * Obter item do catálogo
+ */
+router.get('/items/:id', controller.getItem);
+
+/**
+ * PUT /api/v1/price-catalog/items/:id
+ * Atualizar item do catálogo (admin/gerente)
+ */
+router.put('/items/:id', requireRole(UserRole.MANAGER), validateRequest(updatePriceCatalogItemSchema), controller.updateItem);
+
+/**
+ * DELETE /api/v1/price-catalog/items/:id
+ * Deletar item do catálogo (admin/gerente)
+ */
+router.delete('/items/:id', requireRole(UserRole.MANAGER), controller.deleteItem);
+
+// ============================================================================
+// TABELAS DE PREÇOS
+// ============================================================================
+
+/**
+ * POST /api/v1/price-catalog/price-lists
+ * Criar tabela de preços regional (admin/gerente)
+ */
+router.post('/price-lists', requireRole(UserRole.MANAGER), validateRequest(createPriceListSchema), controller.createPriceList);
+
+/**
+ * GET /api/v1/price-catalog/price-lists
+ * Listar tabelas de preços
+ */
+router.get('/price-lists', validateRequest({ query: listPriceCatalogQuerySchema }), controller.listPriceLists);
+
+/**
+ * GET /api/v1/price-catalog/price-lists/:id
+ * Obter tabela de preços
+ */
+router.get('/price-lists/:id', controller.getPriceList);
+
+/**
+ * PUT /api/v1/price-catalog/price-lists/:id
+ * Atualizar tabela de preços (admin/gerente)
+ */
+router.put('/price-lists/:id', requireRole(UserRole.MANAGER), validateRequest(updatePriceListSchema), controller.updatePriceList);
+
+/**
+ * DELETE /api/v1/price-catalog/price-lists/:id
+ * Deletar tabela de preços (admin/gerente)
+ */
+router.delete('/price-lists/:id', requireRole(UserRole.MANAGER), controller.deletePriceList);
+
+// ============================================================================
+// COMPOSIÇÕES DE REFERÊNCIA
+// ============================================================================
+
+/**
+ * POST /api/v1/price-catalog/compositions/import
+ * Importar composições SINAPI/TCPO (admin/gerente)
+ * multipart: inputs (CSV de insumos), compositions (CSV de composições), source, reference_date, states
+ */
+router.post(
+  '/compositions/import',
+  requireRole(UserRole.MANAGER),
+  compositionUpload.fields([
+    { name: 'inputs', maxCount: 1 },
+    { name: 'compositions', maxCount: 1 }
+  ]),
+  validateRequest(importCompositionsSchema),
+  controller.importCompositions
+);
+
+export default router;
@@ -4,25 +4,37 @@
 
 import { Router } from 'express';
 import { ProjectController } from '../controllers/projectController';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import { clashAnalysisSchema, projectMemberSchema } from '../middleware/project-validation';
+import { costEstimateSchema } from '../middleware/cost-validation';
 
 const router = Router();
 const controller = new ProjectController();
 
+router.use(authenticate);
+
 /**
  * POST /api/v1/projects
- * Criar novo projeto
+ * Criar novo projeto (o criador torna-se owner)
  */
 router.post('/', controller.createProject);
 
+/**
+ * GET /api/v1/projects/trash
+ * Listar projetos na lixeira (antes de /:id)
+ */
+router.get('/trash', controller.listTrash);
+
 /**
  * GET /api/v1/projects/:id
  * Obter projeto específico
  */
-router.get('/:id', controller.getProject);
+router.get('/:id', requireProjectAccess(), controller.getProject);
 
 /**
  * GET /api/v1/projects
- * Listar projetos
+ * Listar projetos acessíveis ao usuário
  */
 router.get('/', controller.listProjects);
 
@@ -30,13 +42,81 @@ router.get('/', controller.listProjects);
  * PUT /api/v1/projects/:id
  * Atualizar projeto
  */
-router.put('/:id', controller.updateProject);
+router.put('/:id', requireProjectAccess(), controller.updateProject);
 
 /**
  * DELETE /api/v1/projects/:id
- * Excluir projeto
+ * Mover projeto para a lixeira; ?permanent=true remove em cascata, inclusive da lixeira (owner)
  */
-router.delete('/:id', controller.deleteProject);
+router.delete('/:id', requireProjectAccess(undefined, 'owner', { includeDeleted: true }), controller.deleteProject);
 
-export default router;
+/**
+ * POST /api/v1/projects/:id/restore
+ * Restaurar projeto da lixeira (owner)
+ */
+router.post('/:id/restore', requireProjectAccess(undefined, 'owner', { includeDeleted: true }), controller.restoreProject);
+
+/**
+ * GET /api/v1/projects/:id/export?format=json|csv|xlsx
+ * Exportar todas as medições do projeto
+ */
+router.get('/:id/export', requireProjectAccess(), controller.exportProject);
+
+/**
+ * GET /api/v1/projects/:id/report?format=html|pdf|json
+ * Relatório de quantitativos (medições de infraestrutura e civis)
+ */
+router.get('/:id/report', requireProjectAccess(), controller.getReport);
+
+/**
+ * GET /api/v1/projects/:id/earthwork?truckCapacity=
+ * Balanço de corte/aterro, bota-fora/importação e viagens de caminhão
+ */
+router.get('/:id/earthwork', requireProjectAccess(), controller.getEarthworkBalance);
 
+/**
+ * POST /api/v1/projects/:id/clashes
+ * Interferências horizontais e verticais entre redes (afastamentos mínimos por par de tipos)
+ */
+router.post(
+  '/:id/clashes',
+  requireProjectAccess(undefined, 'viewer'),
+  validateRequest(clashAnalysisSchema),
+  controller.getClashes
+);
+
+/**
+ * GET /api/v1/projects/:id/cost-estimate?price_list_id=|region=&date=
+ * Orçamento das medições e takeoffs pelo catálogo de preços
+ */
+router.get(
+  '/:id/cost-estimate',
+  requireProjectAccess(),
+  validateRequest({ query: costEstimateSchema }),
+  controller.getCostEstimate
+);
+
+/**
+ * GET /api/v1/projects/:id/members
+ * Listar membros do projeto
+ */
+router.get('/:id/members', requireProjectAccess(), controller.listMembers);
+
+/**
+ * POST /api/v1/projects/:id/members
+ * Adicionar membro ou alterar seu papel (owner)
+ */
+router.post(
+  '/:id/members',
+  requireProjectAccess(undefined, 'owner'),
+  validateRequest(projectMemberSchema),
+  controller.setMember
+);
+
+/**
+ * DELETE /api/v1/projects/:id/members/:userId
+ * Remover membro do projeto (owner)
+ */
+router.delete('/:id/members/:userId', requireProjectAccess(undefined, 'owner'), controller.removeMember);
+
+export default router;
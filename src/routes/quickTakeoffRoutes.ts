@@ -1,8 +1,27 @@
-import express from 'express';
+import express, { Request } from 'express';
 import { QuickTakeoffController } from '../controllers/quickTakeoffController';
-import { authenticate } from '../middleware/auth';
+import { TakeoffUnifiedService } from '../services/takeoff-unified-service';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
 
 const router = express.Router();
+const takeoffService = new TakeoffUnifiedService();
+
+// Projeto do takeoff indicado em :takeoffId
+const takeoffProject = async (req: Request): Promise<string> => {
+  const result = await takeoffService.getTakeoffById(req.params.takeoffId, req.user?.userId || '');
+  if (!result.success || !result.data) {
+    throw new NotFoundError('Takeoff não encontrado');
+  }
+  return result.data.project_id;
+};
+
+// Projeto de destino (body) e o projeto dono do PDF enviado, quando registrado
+const processProjects = async (req: Request): Promise<string[]> => {
+  const { projectId, fileName } = req.body;
+  const fileProject = typeof fileName === 'string' ? await takeoffService.getFileProject(fileName) : null;
+  return [projectId, fileProject].filter(Boolean);
+};
 
 // Aplicar middleware de autenticação em todas as rotas
 router.use(authenticate);
@@ -12,13 +31,13 @@ router.use(authenticate);
 // ============================================================================
 
 // Processar PDF existente para Quick Takeoff
-router.post('/process-pdf', QuickTakeoffController.processExistingPDF);
+router.post('/process-pdf', requireProjectAccess(processProjects), QuickTakeoffController.processExistingPDF);
 
 // Buscar dados de um takeoff específico
-router.get('/:takeoffId', QuickTakeoffController.getTakeoffData);
+router.get('/:takeoffId', requireProjectAccess(takeoffProject, 'viewer'), QuickTakeoffController.getTakeoffData);
 
-// Servir imagem de uma página específica (não implementado)
-// router.get('/:takeoffId/page/:pageNumber/image', QuickTakeoffController.servePageImage);
+// Servir imagem de uma página específica (?dpi=; sem imagem guardada, 202 com o job de renderização)
+router.get('/:takeoffId/page/:pageNumber/image', requireProjectAccess(takeoffProject, 'viewer'), QuickTakeoffController.servePageImage);
 
 // ============================================================================
 // MEASUREMENTS - Medições com cálculo automático
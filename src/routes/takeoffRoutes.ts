@@ -1,11 +1,38 @@
-import express from 'express';
+import express, { Request } from 'express';
 import { TakeoffController } from '../controllers/takeoffController';
-import { authenticate } from '../middleware/auth';
+import { TakeoffUnifiedService } from '../services/takeoff-unified-service';
+import { authenticate, requireProjectAccess } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { costEstimateSchema } from '../middleware/cost-validation';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 
 const router = express.Router();
+const takeoffService = new TakeoffUnifiedService();
+
+// Projeto informado no body (rotas de criação)
+const bodyProject = (req: Request) => req.body.projectId || req.body.project_id;
+
+// Projeto do takeoff indicado em :id (e o projeto de destino, se o body tentar movê-lo)
+const takeoffProject = async (req: Request): Promise<string[]> => {
+  const result = await takeoffService.getTakeoffById(req.params.id, req.user?.userId || '');
+  if (!result.success || !result.data) {
+    throw new NotFoundError('Takeoff não encontrado');
+  }
+  return [result.data.project_id, req.body?.project_id];
+};
+
+// Projeto dono do arquivo enviado em :filename
+const fileProject = async (req: Request): Promise<string> => {
+  const { filename } = req.params;
+  const projectId = filename === path.basename(filename) ? await takeoffService.getFileProject(filename) : null;
+  if (!projectId) {
+    throw new NotFoundError('Arquivo não encontrado');
+  }
+  return projectId;
+};
 
 // Configuração do Multer para upload de arquivos
 const storage = multer.diskStorage({
@@ -56,24 +83,37 @@ router.use(authenticate);
 // ============================================================================
 // MEASUREMENTS - Medições de takeoff
 // ============================================================================
-router.get('/measurements/:projectId', TakeoffController.getMeasurements);
-router.post('/measurements', TakeoffController.createMeasurement);
-router.put('/measurements/:id', TakeoffController.updateMeasurement);
-router.delete('/measurements/:id', TakeoffController.deleteMeasurement);
+router.get('/measurements/:projectId', requireProjectAccess(), TakeoffController.getMeasurements);
+router.post('/measurements', requireProjectAccess(bodyProject), TakeoffController.createMeasurement);
+router.put('/measurements/:id', requireProjectAccess(takeoffProject), TakeoffController.updateMeasurement);
+router.delete('/measurements/:id', requireProjectAccess(takeoffProject), TakeoffController.deleteMeasurement);
 
 // ============================================================================
 // TAKEOFF DRAWINGS - Desenhos de takeoff
 // ============================================================================
-router.get('/drawings/:projectId', TakeoffController.getTakeoffDrawings);
-router.post('/drawings', TakeoffController.createTakeoffDrawing);
+router.get('/drawings/:projectId', requireProjectAccess(), TakeoffController.getTakeoffDrawings);
+router.post('/drawings', requireProjectAccess(bodyProject), TakeoffController.createTakeoffDrawing);
 
 // ============================================================================
 // FILE UPLOAD - Upload de arquivos
 // ============================================================================
-router.post('/upload/:projectId', upload.single('file'), TakeoffController.uploadTakeoffFile);
+router.post('/upload/:projectId', requireProjectAccess(), upload.single('file'), TakeoffController.uploadTakeoffFile);
+
+// Arquivo enviado (uploads/takeoff não é servido estaticamente)
+router.get('/file/:filename', requireProjectAccess(fileProject), (req, res) => {
+  const filePath = path.join(process.cwd(), 'uploads', 'takeoff', req.params.filename);
+  if (!fs.existsSync(filePath)) {
+    res.status(404).json({
+      success: false,
+      message: 'Arquivo não encontrado'
+    });
+    return;
+  }
+  res.sendFile(filePath);
+});
 
 // Endpoint para verificar se arquivo existe
-router.get('/file/:filename', (req, res) => {
+router.get('/file/:filename/info', requireProjectAccess(fileProject), (req, res) => {
   try {
     const { filename } = req.params;
     const filePath = path.join(process.cwd(), 'uploads', 'takeoff', filename);
@@ -87,7 +127,7 @@ router.get('/file/:filename', (req, res) => {
         size: stats.size,
         created: stats.birthtime,
         modified: stats.mtime,
-        url: `/uploads/takeoff/${filename}`
+        url: `/api/takeoff/file/${filename}`
       });
     } else {
       res.status(404).json({
@@ -109,37 +149,42 @@ router.get('/file/:filename', (req, res) => {
 // ============================================================================
 // TRENCHES - Valas/escavações
 // ============================================================================
-router.get('/trenches/:projectId', TakeoffController.getTrenches);
-router.post('/trenches', TakeoffController.createTrench);
+router.get('/trenches/:projectId', requireProjectAccess(), TakeoffController.getTrenches);
+router.post('/trenches', requireProjectAccess(bodyProject), TakeoffController.createTrench);
 
 // ============================================================================
 // CONDUITS - Tubulações
 // ============================================================================
-router.get('/conduits/:projectId', TakeoffController.getConduits);
-router.post('/conduits', TakeoffController.createConduit);
+router.get('/conduits/:projectId', requireProjectAccess(), TakeoffController.getConduits);
+router.post('/conduits', requireProjectAccess(bodyProject), TakeoffController.createConduit);
 
 // ============================================================================
 // VAULTS - Poços/caixas
 // ============================================================================
-router.get('/vaults/:projectId', TakeoffController.getVaults);
-router.post('/vaults', TakeoffController.createVault);
+router.get('/vaults/:projectId', requireProjectAccess(), TakeoffController.getVaults);
+router.post('/vaults', requireProjectAccess(bodyProject), TakeoffController.createVault);
 
 // ============================================================================
 // YARDAGES - Volumes
 // ============================================================================
-router.get('/yardages/:projectId', TakeoffController.getYardages);
-router.post('/yardages', TakeoffController.createYardage);
+router.get('/yardages/:projectId', requireProjectAccess(), TakeoffController.getYardages);
+router.post('/yardages', requireProjectAccess(bodyProject), TakeoffController.createYardage);
 
 // ============================================================================
 // NOTES - Anotações
 // ============================================================================
-router.get('/notes/:projectId', TakeoffController.getNotes);
-router.post('/notes', TakeoffController.createNote);
+router.get('/notes/:projectId', requireProjectAccess(), TakeoffController.getNotes);
+router.post('/notes', requireProjectAccess(bodyProject), TakeoffController.createNote);
 
 // ============================================================================
 // SUMMARIES AND EXPORTS - Resumos e exportações
 // ============================================================================
-router.get('/summary/:projectId', TakeoffController.getTakeoffSummary);
+router.get('/summary/:projectId', requireProjectAccess(), TakeoffController.getTakeoffSummary);
 // exportMeasurements e clearProjectMeasurements não implementados - usar endpoints de medições
 
+// ============================================================================
+// COST ESTIMATE - Orçamento pelo catálogo de preços
+// ============================================================================
+router.post('/:id/cost-estimate', requireProjectAccess(takeoffProject), validateRequest(costEstimateSchema), TakeoffController.estimateCost);
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,69 @@
+// ============================================================================
+// ROTAS PARA EQUIPES
+// ============================================================================
+
+import { Router } from 'express';
+import { TeamController } from '../controllers/teamController';
+import { authenticate, requireRole, UserRole } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  createTeamSchema,
+  updateTeamSchema,
+  teamMemberSchema,
+  listTeamsQuerySchema
+} from '../middleware/user-validation';
+
+const router = Router();
+const controller = new TeamController();
+
+router.use(authenticate);
+
+/**
+ * POST /api/v1/teams
+ * Criar equipe (admin/gerente)
+ */
+router.post('/', requireRole(UserRole.MANAGER), validateRequest(createTeamSchema), controller.createTeam);
+
+/**
+ * GET /api/v1/teams
+ * Listar equipes com filtros
+ */
+router.get('/', validateRequest({ query: listTeamsQuerySchema }), controller.listTeams);
+
+/**
+ * GET /api/v1/teams/stats
+ * Estatísticas de equipes
+ */
+router.get('/stats', controller.getStats);
+
+/**
+ * GET /api/v1/teams/:id
+ * Obter equipe
+ */
+router.get('/:id', controller.getTeam);
+
+/**
+ * PUT /api/v1/teams/:id
+ * Atualizar equipe (admin/gerente)
+ */
+router.put('/:id', requireRole(UserRole.MANAGER), validateRequest(updateTeamSchema), controller.updateTeam);
+
+/**
+ * DELETE /api/v1/teams/:id
+ * Deletar equipe (admin/gerente)
+ */
+router.delete('/:id', requireRole(UserRole.MANAGER), controller.deleteTeam);
+
+/**
+ * POST /api/v1/teams/:id/members
+ * Adicionar membro ou alterar seu papel na equipe (admin/gerente)
+ */
+router.post('/:id/members', requireRole(UserRole.MANAGER), validateRequest(teamMemberSchema), controller.addMember);
+
+/**
+ * DELETE /api/v1/teams/:id/members/:userId
+ * Remover membro da equipe (admin/gerente)
+ */
+router.delete('/:id/members/:userId', requireRole(UserRole.MANAGER), controller.removeMember);
+
+export default router;
@@ -104,6 +104,7 @@ router.post('/plants', upload.single('file'), async (req: Request, res: Response
           mime_type: plant.mime_type,
           original_filename: plant.original_filename,
           status: plant.status,
+          processing_job_id: plant.processing_job_id,
           created_at: plant.created_at
         }
       }
@@ -290,8 +291,8 @@ router.post('/takeoff/:projectId', upload.single('file'), async (req: Request, r
 
     // Construir URL do arquivo
     const baseUrl = `${req.protocol}://${req.get('host')}`;
-    const fileUrl = `${baseUrl}/uploads/takeoff/${req.file.filename}`;
-    const relativePath = `/uploads/takeoff/${req.file.filename}`;
+    const fileUrl = `${baseUrl}/api/takeoff/file/${req.file.filename}`;
+    const relativePath = `/api/takeoff/file/${req.file.filename}`;
 
     // Extrair escala do body ou usar padrão
     const scale = req.body.scale ? parseFloat(req.body.scale) : 1.0;
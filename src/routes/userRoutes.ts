@@ -0,0 +1,69 @@
+// ============================================================================
+// ROTAS PARA USUÁRIOS
+// ============================================================================
+
+import { Router } from 'express';
+import { UserController } from '../controllers/userController';
+import { authenticate, requireRole, UserRole } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+import {
+  createUserSchema,
+  updateUserSchema,
+  changePasswordSchema,
+  listUsersQuerySchema
+} from '../middleware/user-validation';
+
+const router = Router();
+const controller = new UserController();
+
+router.use(authenticate);
+
+/**
+ * POST /api/v1/users
+ * Criar usuário (admin)
+ */
+router.post('/', requireRole(UserRole.ADMIN), validateRequest(createUserSchema), controller.createUser);
+
+/**
+ * GET /api/v1/users
+ * Listar usuários com filtros (admin/gerente)
+ */
+router.get('/', requireRole(UserRole.MANAGER), validateRequest({ query: listUsersQuerySchema }), controller.listUsers);
+
+/**
+ * GET /api/v1/users/stats
+ * Estatísticas de usuários (admin/gerente)
+ */
+router.get('/stats', requireRole(UserRole.MANAGER), controller.getStats);
+
+/**
+ * GET /api/v1/users/:id
+ * Obter usuário (o próprio ou admin/gerente)
+ */
+router.get('/:id', controller.getUser);
+
+/**
+ * GET /api/v1/users/:id/teams
+ * Listar equipes do usuário
+ */
+router.get('/:id/teams', controller.getUserTeams);
+
+/**
+ * PUT /api/v1/users/:id
+ * Atualizar usuário (admin)
+ */
+router.put('/:id', requireRole(UserRole.ADMIN), validateRequest(updateUserSchema), controller.updateUser);
+
+/**
+ * PUT /api/v1/users/:id/password
+ * Alterar senha (o próprio usuário ou admin)
+ */
+router.put('/:id/password', validateRequest(changePasswordSchema), controller.changePassword);
+
+/**
+ * DELETE /api/v1/users/:id
+ * Deletar usuário (admin)
+ */
+router.delete('/:id', requireRole(UserRole.ADMIN), controller.deleteUser);
+
+export default router;
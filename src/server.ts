@@ -23,6 +23,22 @@ import measurementRoutes from './routes/measurementRoutes';
 import civilMeasurementRoutes from './routes/civilMeasurementRoutes';
 import projectRoutes from './routes/projectRoutes';
 import calculationRoutes from './routes/calculationRoutes';
+import civilCalculationRoutes from './routes/civilCalculationRoutes';
+import authRoutes from './routes/authRoutes';
+import userRoutes from './routes/userRoutes';
+import teamRoutes from './routes/teamRoutes';
+import priceCatalogRoutes from './routes/priceCatalogRoutes';
+import budgetRoutes from './routes/budgetRoutes';
+import plantVersionRoutes from './routes/plantVersionRoutes';
+import plantPageRoutes from './routes/plantPageRoutes';
+import jobRoutes from './routes/jobRoutes';
+import { UserService } from './services/user-service';
+import { ProjectService } from './services/project-service';
+import { ProjectTrashService } from './services/project-trash-service';
+import { StorageIntegrityService } from './services/storage-integrity-service';
+import { jobQueue } from './services/job-queue-service';
+import { registerJobHandlers } from './services/job-handlers';
+import { closeRepositories } from './repositories';
 
 const app = express();
 app.enable('trust proxy');
@@ -92,6 +108,10 @@ app.use(express.json({ limit: '200mb' }));
 app.use(express.urlencoded({ extended: true, limit: '200mb' }));
 
 // Static file serving para uploads, thumbnails e exports
+// PDFs de takeoff só via /api/takeoff/file/:filename (com verificação de projeto)
+app.use('/uploads/takeoff', (_req, res) => {
+  res.status(404).json({ success: false, message: 'Arquivo não encontrado' });
+});
 app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
 app.use('/thumbnails', express.static(path.join(process.cwd(), 'thumbnails')));
 app.use('/exports', express.static(path.join(process.cwd(), 'exports')));
@@ -153,7 +173,10 @@ const initializeRoutes = async () => {
   try {
     console.log('🛣️  Inicializando rotas...');
 
-    // Registrar rotas - TAKEOFF, UPLOAD e MEDIÇÕES
+    // Registrar rotas - AUTENTICAÇÃO, TAKEOFF, UPLOAD e MEDIÇÕES
+    registerRoute('/api/v1/auth', authRoutes);
+    registerRoute('/api/v1/users', userRoutes);
+    registerRoute('/api/v1/teams', teamRoutes);
     registerRoute('/api/takeoff', takeoffRoutes);
     registerRoute('/api/quick-takeoff', quickTakeoffRoutes);
     registerRoute('/api/upload', uploadRoutes);
@@ -161,6 +184,12 @@ const initializeRoutes = async () => {
     registerRoute('/api/v1/civil-measurements', civilMeasurementRoutes);
     registerRoute('/api/v1/projects', projectRoutes);
     registerRoute('/api/v1/calculations', calculationRoutes);
+    registerRoute('/api/v1/civil-calculations', civilCalculationRoutes);
+    registerRoute('/api/v1/price-catalog', priceCatalogRoutes);
+    registerRoute('/api/v1/budgets', budgetRoutes);
+    registerRoute('/api/v1/plants', plantVersionRoutes);
+    registerRoute('/api/v1/plants', plantPageRoutes);
+    registerRoute('/api/jobs', jobRoutes);
 
     console.log('✅ Rotas inicializadas com sucesso');
   } catch (error) {
@@ -185,7 +214,11 @@ const startServer = async () => {
       'exports/plants',
       'exports/takeoff',
       'data/measurements',
-      'data/projects'
+      'data/projects',
+      'data/auth',
+      'data/users',
+      'data/teams',
+      'data/jobs'
     ];
 
     dirs.forEach(dir => {
@@ -196,13 +229,44 @@ const startServer = async () => {
       }
     });
 
+    // Criar administrador inicial (AUTH_ADMIN_EMAIL/AUTH_ADMIN_PASSWORD) se não houver usuários
+    await new UserService().ensureBootstrapAdmin();
+
     // Inicializar rotas
     await initializeRoutes();
 
+    // Converter projetos gravados nos formatos antigos para o modelo único (src/types/project.ts)
+    await new ProjectService().migrateProjects();
+
+    // Verificar integridade do armazenamento (INTEGRITY_CHECK=off|report|repair)
+    if (config.INTEGRITY_CHECK !== 'off') {
+      await new StorageIntegrityService().run(config.INTEGRITY_CHECK === 'repair');
+    }
+
+    // Remover projetos cujo prazo na lixeira expirou (na inicialização e a cada hora)
+    const trashService = new ProjectTrashService();
+    await trashService.purgeExpired();
+    setInterval(() => {
+      trashService.purgeExpired().catch(error => log.error('Erro ao esvaziar lixeira de projetos', error));
+    }, 60 * 60 * 1000).unref();
+
+    // Fila de jobs: retoma os interrompidos e remove os antigos (JOB_RETENTION_DAYS)
+    registerJobHandlers();
+    await jobQueue.start();
+    await jobQueue.purgeFinished();
+    setInterval(() => {
+      jobQueue.purgeFinished().catch(error => log.error('Erro ao remover jobs antigos', error));
+    }, 60 * 60 * 1000).unref();
+
     // 404 handler - DEVE SER DEPOIS DAS ROTAS
     app.use('*', notFoundHandler);
 
     console.log('🛣️  Rotas disponíveis:');
+    console.log('   - POST /api/v1/auth/login (Login)');
+    console.log('   - POST /api/v1/auth/refresh (Renovar tokens)');
+    console.log('   - POST /api/v1/auth/logout (Logout)');
+    console.log('   - GET /api/v1/users (Listar usuários)');
+    console.log('   - GET /api/v1/teams (Listar equipes)');
     console.log('   - POST /api/upload/plants (Upload de plantas)');
     console.log('   - GET /api/upload/plants/:id/export (Exportar planta)');
     console.log('   - POST /api/upload/takeoff/:projectId (Upload de takeoff)');
@@ -212,6 +276,8 @@ const startServer = async () => {
     console.log('   - GET /api/v1/measurements (Listar medições)');
     console.log('   - POST /api/v1/projects (Criar projeto)');
     console.log('   - GET /api/v1/projects (Listar projetos)');
+    console.log('   - GET /api/v1/projects/trash (Lixeira de projetos)');
+    console.log('   - GET /api/jobs/:id (Status de job em segundo plano)');
 
     // Iniciar servidor
     const server = app.listen(PORT, () => {
@@ -241,6 +307,7 @@ const startServer = async () => {
           process.exit(1);
         }
         
+        closeRepositories();
         console.log('✅ Servidor fechado com sucesso');
         process.exit(0);
       });
@@ -0,0 +1,104 @@
+// ============================================================================
+// SERVIÇO DE AUTENTICAÇÃO - LOGIN, REFRESH E LOGOUT
+// ============================================================================
+
+import { JWTUtils, TokenPair, TokenSubject } from '../utils/jwt';
+import { log } from '../utils/winstonLogger';
+import { UserService } from './user-service';
+import { PublicUser } from '../types/user';
+import { CustomError, ValidationError } from '../middleware/errorHandler';
+
+export interface LoginResult {
+  user: TokenSubject;
+  tokens: TokenPair;
+}
+
+function toTokenSubject(user: PublicUser): TokenSubject {
+  return {
+    userId: user.id,
+    email: user.email,
+    username: user.username,
+    role: user.role
+  };
+}
+
+export class AuthService {
+  private userService: UserService;
+
+  constructor() {
+    this.userService = new UserService();
+  }
+
+  /**
+   * Autenticar com email e senha e emitir par de tokens
+   */
+  async login(email: string, password: string): Promise<LoginResult | null> {
+    const account = await this.userService.authenticate(email, password);
+
+    if (!account) {
+      log.security('Falha de login', { email });
+      return null;
+    }
+
+    const user = toTokenSubject(account);
+
+    const tokens = JWTUtils.generateTokenPair(user);
+    log.audit('login', user.userId, { email: user.email });
+
+    return { user, tokens };
+  }
+
+  /**
+   * Trocar refresh token por um novo par (o refresh antigo é revogado - rotação).
+   * Os dados do usuário são relidos para refletir mudanças de papel ou desativação.
+   */
+  async refresh(refreshToken: string): Promise<LoginResult> {
+    const payload = JWTUtils.verifyRefreshToken(refreshToken);
+    const account = await this.userService.getUserById(payload.userId);
+
+    if (!account || !account.is_active) {
+      JWTUtils.revokeToken(refreshToken);
+      throw new Error('Token inválido: usuário inexistente ou inativo');
+    }
+
+    const user = toTokenSubject(account);
+
+    JWTUtils.revokeToken(refreshToken);
+    const tokens = JWTUtils.generateTokenPair(user);
+
+    log.audit('token_refresh', user.userId);
+
+    return { user, tokens };
+  }
+
+  /**
+   * Encerrar sessão revogando o token de acesso e, se fornecido, o de refresh.
+   * O refresh só é aceito se for válido e do mesmo usuário do token de acesso.
+   */
+  async logout(accessToken: string, userId: string, refreshToken?: string): Promise<void> {
+    if (refreshToken) {
+      let payload;
+      try {
+        payload = JWTUtils.verifyRefreshToken(refreshToken);
+      } catch (error: any) {
+        throw new ValidationError(`Refresh token rejeitado: ${error.message}`);
+      }
+
+      if (payload.userId !== userId) {
+        log.security('Logout com refresh token de outro usuário', { userId, tokenUserId: payload.userId });
+        throw new CustomError('Refresh token pertence a outro usuário', 403);
+      }
+    }
+
+    JWTUtils.revokeToken(accessToken);
+
+    if (refreshToken) {
+      JWTUtils.revokeToken(refreshToken);
+    }
+
+    log.audit('logout', userId);
+  }
+}
+
+// Instância singleton
+export const authService = new AuthService();
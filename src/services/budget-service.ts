@@ -0,0 +1,438 @@
+// ============================================================================
+// SERVIÇO PARA ORÇAMENTOS DE PROJETO (LINHAS, FLUXO DE APROVAÇÃO E REVISÕES)
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { log } from '../utils/winstonLogger';
+import { getRepository, Repository } from '../repositories';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { BudgetFilters } from '../types/unified';
+import {
+  Budget,
+  BudgetLine,
+  BudgetLineInput,
+  BudgetStatus,
+  CreateBudgetRequest,
+  UpdateBudgetRequest
+} from '../types/budget';
+import { ProjectService } from './project-service';
+import { MeasurementService } from './measurement-service';
+import { CivilMeasurementService } from './civil-measurement-service';
+import { TakeoffUnifiedService } from './takeoff-unified-service';
+
+const DEFAULT_CURRENCY = 'BRL';
+
+// Transições permitidas no fluxo de aprovação
+const STATUS_TRANSITIONS: Record<BudgetStatus, BudgetStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['approved', 'draft'],
+  approved: []
+};
+
+const STATUS_LABELS: Record<BudgetStatus, string> = {
+  draft: 'em rascunho',
+  submitted: 'enviado',
+  approved: 'aprovado'
+};
+
+const SORT_FIELDS = ['created_at', 'updated_at', 'name', 'total_amount'] as const;
+
+function money(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function buildLine(input: BudgetLineInput): BudgetLine {
+  return {
+    id: uuidv4(),
+    ...input,
+    total_cost: money(input.quantity * input.unit_cost)
+  };
+}
+
+function sumLines(lines: BudgetLine[]): number {
+  return money(lines.reduce((sum, line) => sum + line.total_cost, 0));
+}
+
+export class BudgetService {
+  private budgets: Repository<Budget>;
+  private projectService: ProjectService;
+  private measurementService: MeasurementService;
+  private civilMeasurementService: CivilMeasurementService;
+  private takeoffService: TakeoffUnifiedService;
+
+  constructor() {
+    this.budgets = getRepository<Budget>('budgets', { indexes: ['project_id', 'status'] });
+    this.projectService = new ProjectService();
+    this.measurementService = new MeasurementService();
+    this.civilMeasurementService = new CivilMeasurementService();
+    this.takeoffService = new TakeoffUnifiedService();
+
+    log.info('BudgetService inicializado');
+  }
+
+  /**
+   * Criar orçamento em rascunho (linhas informadas + linhas dos takeoffs orçados)
+   */
+  async createBudget(data: CreateBudgetRequest, createdBy: string): Promise<Budget> {
+    if (!(await this.projectService.getProjectById(data.project_id))) {
+      throw new NotFoundError('Projeto não encontrado');
+    }
+
+    const lines = await this.buildLines(data.project_id, data.lines || []);
+    lines.push(...(await this.takeoffLines(data.project_id, data.takeoff_ids || [])));
+
+    const now = new Date().toISOString();
+    const budget: Budget = {
+      id: uuidv4(),
+      project_id: data.project_id,
+      name: data.name,
+      ...(data.description && { description: data.description }),
+      ...(data.category && { category: data.category }),
+      currency: data.currency || DEFAULT_CURRENCY,
+      status: 'draft',
+      revision: 1,
+      lines,
+      total_amount: sumLines(lines),
+      status_history: [],
+      revisions: [],
+      created_at: now,
+      updated_at: now,
+      created_by: createdBy
+    };
+
+    await this.budgets.save(budget);
+
+    log.info('Orçamento criado', { id: budget.id, projectId: budget.project_id, lines: lines.length });
+
+    return budget;
+  }
+
+  async getBudgetById(id: string): Promise<Budget | null> {
+    const budget = await this.budgets.findById(id);
+    return budget && !budget.deleted_at ? budget : null;
+  }
+
+  /**
+   * Listar orçamentos com filtros (projeto, categoria, status, faixa de valor) e paginação
+   */
+  async listBudgets(filters: BudgetFilters = {}): Promise<{ budgets: Budget[]; total: number }> {
+    let budgets = await this.budgets.find({
+      where: {
+        project_id: filters.project_id,
+        category: filters.category,
+        status: filters.status,
+        deleted_at: null
+      }
+    });
+
+    if (filters.minAmount !== undefined) {
+      const minAmount = filters.minAmount;
+      budgets = budgets.filter(b => b.total_amount >= minAmount);
+    }
+
+    if (filters.maxAmount !== undefined) {
+      const maxAmount = filters.maxAmount;
+      budgets = budgets.filter(b => b.total_amount <= maxAmount);
+    }
+
+    if (filters.search) {
+      const search = filters.search.toLowerCase();
+      budgets = budgets.filter(b =>
+        b.name.toLowerCase().includes(search) ||
+        (b.description && b.description.toLowerCase().includes(search))
+      );
+    }
+
+    const sortBy = SORT_FIELDS.find(field => field === filters.sortBy) || 'created_at';
+    const direction = filters.sortOrder === 'asc' ? 1 : -1;
+    budgets.sort((a, b) => {
+      const left = a[sortBy];
+      const right = b[sortBy];
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right), 'pt-BR');
+      return order * direction;
+    });
+
+    const total = budgets.length;
+    const limit = filters.limit || 50;
+    const offset = filters.offset ?? ((filters.page || 1) - 1) * limit;
+
+    return { budgets: budgets.slice(offset, offset + limit), total };
+  }
+
+  /**
+   * Atualizar orçamento (somente em rascunho)
+   */
+  async updateBudget(id: string, update: UpdateBudgetRequest): Promise<Budget | null> {
+    const budget = await this.getBudgetById(id);
+
+    if (!budget) {
+      return null;
+    }
+
+    this.assertDraft(budget);
+
+    if (update.name) budget.name = update.name;
+    if (update.description !== undefined) budget.description = update.description;
+    if (update.category !== undefined) budget.category = update.category;
+    if (update.currency) budget.currency = update.currency;
+
+    if (update.lines) {
+      budget.lines = await this.buildLines(budget.project_id, update.lines);
+    }
+
+    if (update.takeoff_ids) {
+      const refreshed = new Set(update.takeoff_ids);
+      budget.lines = budget.lines
+        .filter(line => !line.takeoff_id || !refreshed.has(line.takeoff_id))
+        .concat(await this.takeoffLines(budget.project_id, update.takeoff_ids));
+    }
+
+    budget.total_amount = sumLines(budget.lines);
+    budget.updated_at = new Date().toISOString();
+    await this.budgets.save(budget);
+
+    log.info('Orçamento atualizado', { id, lines: budget.lines.length });
+
+    return budget;
+  }
+
+  /**
+   * Deletar orçamento (aprovados são mantidos como registro do acordo)
+   */
+  async deleteBudget(id: string): Promise<boolean> {
+    const budget = await this.getBudgetById(id);
+
+    if (!budget) {
+      return false;
+    }
+
+    if (budget.status === 'approved') {
+      throw new ConflictError('Orçamento aprovado não pode ser deletado');
+    }
+
+    await this.budgets.delete(id);
+
+    log.info('Orçamento deletado', { id });
+
+    return true;
+  }
+
+  /**
+   * Mudar o status do orçamento seguindo o fluxo rascunho -> enviado -> aprovado;
+   * um orçamento enviado pode voltar para rascunho (devolvido com comentário)
+   */
+  async changeStatus(id: string, status: BudgetStatus, userId: string, comment?: string): Promise<Budget | null> {
+    const budget = await this.getBudgetById(id);
+
+    if (!budget) {
+      return null;
+    }
+
+    if (!STATUS_TRANSITIONS[budget.status].includes(status)) {
+      throw new ConflictError(`Orçamento ${STATUS_LABELS[budget.status]} não pode passar para ${STATUS_LABELS[status]}`);
+    }
+
+    if (status === 'submitted' && budget.lines.length === 0) {
+      throw new ValidationError('Orçamento sem linhas não pode ser enviado');
+    }
+
+    const now = new Date().toISOString();
+    budget.status_history.push({
+      from: budget.status,
+      to: status,
+      changed_at: now,
+      changed_by: userId,
+      ...(comment && { comment })
+    });
+    budget.status = status;
+
+    if (status === 'submitted') {
+      budget.submitted_at = now;
+    } else if (status === 'approved') {
+      budget.approved_at = now;
+      budget.approved_by = userId;
+    }
+
+    budget.updated_at = now;
+    await this.budgets.save(budget);
+
+    log.audit('budget_status', userId, { id, status, revision: budget.revision });
+
+    return budget;
+  }
+
+  /**
+   * Abrir nova revisão de um orçamento enviado ou aprovado: o estado atual é guardado
+   * em revisions e o orçamento volta a rascunho com as mesmas linhas
+   */
+  async createRevision(id: string, userId: string, note?: string): Promise<Budget | null> {
+    const budget = await this.getBudgetById(id);
+
+    if (!budget) {
+      return null;
+    }
+
+    if (budget.status === 'draft') {
+      throw new ConflictError('Orçamento em rascunho já pode ser alterado; envie-o antes de abrir uma revisão');
+    }
+
+    const now = new Date().toISOString();
+    budget.revisions.push({
+      revision: budget.revision,
+      status: budget.status,
+      lines: budget.lines,
+      total_amount: budget.total_amount,
+      closed_at: now,
+      closed_by: userId,
+      ...(note && { note })
+    });
+
+    budget.status_history.push({
+      from: budget.status,
+      to: 'draft',
+      changed_at: now,
+      changed_by: userId,
+      comment: note || `Revisão ${budget.revision + 1}`
+    });
+
+    budget.revision += 1;
+    budget.status = 'draft';
+    budget.lines = budget.lines.map(line => ({ ...line, id: uuidv4() }));
+    delete budget.submitted_at;
+    delete budget.approved_at;
+    delete budget.approved_by;
+    budget.updated_at = now;
+    await this.budgets.save(budget);
+
+    log.info('Revisão de orçamento aberta', { id, revision: budget.revision });
+
+    return budget;
+  }
+
+  // ============================================================================
+  // EXCLUSÃO EM CASCATA (LIXEIRA DO PROJETO)
+  // ============================================================================
+
+  /**
+   * Mover os orçamentos do projeto para a lixeira
+   */
+  async trashBudgetsByProject(projectId: string, deletedAt: string): Promise<number> {
+    const budgets = await this.budgets.find({ where: { project_id: projectId, deleted_at: null } });
+
+    for (const budget of budgets) {
+      await this.budgets.save({ ...budget, deleted_at: deletedAt });
+    }
+
+    return budgets.length;
+  }
+
+  /**
+   * Restaurar os orçamentos do projeto que estavam na lixeira
+   */
+  async restoreBudgetsByProject(projectId: string): Promise<number> {
+    const budgets = (await this.budgets.find({ where: { project_id: projectId } }))
+      .filter(b => b.deleted_at);
+
+    for (const budget of budgets) {
+      delete budget.deleted_at;
+      await this.budgets.save(budget);
+    }
+
+    return budgets.length;
+  }
+
+  /**
+   * Remover definitivamente os orçamentos do projeto
+   */
+  async deleteBudgetsByProject(projectId: string): Promise<number> {
+    const budgets = await this.budgets.find({ where: { project_id: projectId } });
+
+    for (const budget of budgets) {
+      await this.budgets.delete(budget.id);
+    }
+
+    return budgets.length;
+  }
+
+  // ============================================================================
+  // LINHAS
+  // ============================================================================
+
+  /**
+   * Linhas informadas: takeoff e medição de origem devem pertencer ao projeto do orçamento
+   */
+  private async buildLines(projectId: string, inputs: BudgetLineInput[]): Promise<BudgetLine[]> {
+    for (const input of inputs) {
+      if (input.takeoff_id) {
+        await this.assertTakeoffInProject(projectId, input.takeoff_id);
+      }
+      if (input.measurement_id) {
+        await this.assertMeasurementInProject(projectId, input.measurement_id);
+      }
+    }
+
+    return inputs.map(buildLine);
+  }
+
+  /**
+   * Linhas a partir dos itens gravados ao orçar cada takeoff
+   */
+  private async takeoffLines(projectId: string, takeoffIds: string[]): Promise<BudgetLine[]> {
+    const lines: BudgetLine[] = [];
+
+    for (const takeoffId of new Set(takeoffIds)) {
+      await this.assertTakeoffInProject(projectId, takeoffId);
+
+      const result = await this.takeoffService.listTakeoffItems(takeoffId);
+      if (!result.success) {
+        throw new Error(result.error || result.message);
+      }
+
+      const items = result.data || [];
+      if (items.length === 0) {
+        throw new ValidationError(`Takeoff ${takeoffId} sem itens orçados: orce o takeoff antes de incluí-lo`);
+      }
+
+      for (const item of items) {
+        lines.push(buildLine({
+          description: item.name,
+          ...(item.metadata?.code && { code: item.metadata.code }),
+          category: item.category,
+          unit: item.unit,
+          quantity: item.quantity,
+          unit_cost: item.unit_cost,
+          ...(item.labor_hours !== undefined && { labor_hours: item.labor_hours }),
+          takeoff_id: takeoffId
+        }));
+      }
+    }
+
+    return lines;
+  }
+
+  private async assertTakeoffInProject(projectId: string, takeoffId: string): Promise<void> {
+    const result = await this.takeoffService.getTakeoffById(takeoffId, 'system');
+
+    if (!result.success || !result.data || result.data.project_id !== projectId) {
+      throw new NotFoundError(`Takeoff ${takeoffId} não encontrado no projeto`);
+    }
+  }
+
+  private async assertMeasurementInProject(projectId: string, measurementId: string): Promise<void> {
+    const measurement =
+      (await this.measurementService.getMeasurementById(measurementId)) ||
+      (await this.civilMeasurementService.getMeasurementById(measurementId));
+
+    if (!measurement || measurement.project_id !== projectId) {
+      throw new NotFoundError(`Medição ${measurementId} não encontrada no projeto`);
+    }
+  }
+
+  private assertDraft(budget: Budget): void {
+    if (budget.status !== 'draft') {
+      throw new ConflictError(`Orçamento ${STATUS_LABELS[budget.status]} não pode ser alterado; abra uma nova revisão`);
+    }
+  }
+}
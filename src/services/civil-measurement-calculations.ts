@@ -6,7 +6,11 @@
 import {
   Coordinate,
   BlockParameters,
-  BrazilianPresets
+  BrazilianPresets,
+  BeamCheck,
+  BeamDeflectionLimit,
+  StructuralSection,
+  StructureMeasurement
 } from '../types/civil-measurement';
 
 const EPSILON = 1e-6;
@@ -231,6 +235,68 @@ export function optimizeBeamFromLog(
   };
 }
 
+/**
+ * Resultado da verificação de flecha de viga simplesmente apoiada
+ */
+export interface BeamCheckResult extends BeamResult {
+  deflectionLimit: BeamDeflectionLimit;
+  allowableDeflection: number; // Flecha admissível L/limite em metros
+  utilization: number;         // maxDeflection / allowableDeflection
+  passes: boolean;
+}
+
+/**
+ * Módulo de elasticidade secante do concreto (NBR 6118)
+ * Eci = 5600 × √fck (MPa, agregado granítico); Ecs = αi × Eci, αi = 0,8 + 0,2 × fck / 80 ≤ 1,0
+ * Retorna em Pascal
+ */
+export function calculateConcreteElasticModulus(fck_mpa: number): number {
+  if (fck_mpa <= 0) {
+    return 0;
+  }
+  const eci = 5600 * Math.sqrt(fck_mpa);
+  const alphaI = Math.min(0.8 + 0.2 * (fck_mpa / 80), 1);
+  return alphaI * eci * 1e6;
+}
+
+/**
+ * Momento de inércia de uma seção estrutural (retangular ou circular)
+ * Seções custom só informam a área, então retornam null
+ */
+export function calculateSectionMomentOfInertia(section: StructuralSection): number | null {
+  if (section.type === 'rectangular' && section.width_m && section.height_m) {
+    return calculateMomentOfInertiaRectangular(section.width_m, section.height_m);
+  }
+  if (section.type === 'circular' && section.diameter_m) {
+    return calculateMomentOfInertiaCircular(section.diameter_m);
+  }
+  return null;
+}
+
+/**
+ * Verificar flecha de viga simplesmente apoiada com carga pontual no centro
+ * contra a flecha admissível L/250 ou L/350
+ */
+export function checkSimplySupportedBeam(
+  P: number,
+  L: number,
+  E: number,
+  I: number,
+  deflectionLimit: BeamDeflectionLimit = 250
+): BeamCheckResult {
+  const analysis = analyzeSimplySupportedBeam(P, L, E, I);
+  const allowableDeflection = L / deflectionLimit;
+  const utilization = allowableDeflection > 0 ? analysis.maxDeflection / allowableDeflection : 0;
+
+  return {
+    ...analysis,
+    deflectionLimit,
+    allowableDeflection: round(allowableDeflection),
+    utilization: round(utilization, 4),
+    passes: analysis.maxDeflection <= allowableDeflection
+  };
+}
+
 /**
  * Otimizar dimensões de área retangular para mínimo perímetro com área fixa
  * Para área fixa A = x × y, encontrar x e y que minimizam P = 2x + y (3 lados)
@@ -949,6 +1015,69 @@ export function calculateStructureVolume(
   return result;
 }
 
+/**
+ * Vão e momento de inércia de uma viga medida (StructureMeasurement 'viga')
+ * O vão vem de length_m ou, na falta dele, do comprimento da polilinha na escala da medição
+ */
+export function getStructureBeamGeometry(data: StructureMeasurement): {
+  span_m: number;
+  moment_of_inertia_m4: number | null;
+} {
+  const geometry = data.geometry;
+  let span = geometry?.length_m || 0;
+  if (!span && geometry?.polyline) {
+    span = calculatePolylineLength(geometry.polyline, data.scale);
+  }
+
+  return {
+    span_m: span,
+    moment_of_inertia_m4: geometry?.section ? calculateSectionMomentOfInertia(geometry.section) : null
+  };
+}
+
+/**
+ * Verificação estrutural de viga medida com as cargas de attributes.loads
+ * Lança erro quando faltam dados para o cálculo (E ou momento de inércia)
+ */
+export function calculateStructureBeamCheck(data: StructureMeasurement): BeamCheck | undefined {
+  const loads = data.attributes?.loads;
+  if (!loads) {
+    return undefined;
+  }
+
+  const geometry = getStructureBeamGeometry(data);
+  const E = loads.elastic_modulus_pa
+    || (data.attributes.fck_mpa ? calculateConcreteElasticModulus(data.attributes.fck_mpa) : 0);
+  const I = loads.moment_of_inertia_m4 || geometry.moment_of_inertia_m4 || 0;
+
+  if (geometry.span_m <= 0) {
+    throw new Error('Viga sem vão definido (informe length_m ou polyline com escala)');
+  }
+  if (E <= 0) {
+    throw new Error('Informe fck_mpa ou loads.elastic_modulus_pa para verificar a viga');
+  }
+  if (I <= 0) {
+    throw new Error('Informe loads.moment_of_inertia_m4 para verificar viga de seção custom');
+  }
+
+  const check = checkSimplySupportedBeam(loads.point_load_n, geometry.span_m, E, I, loads.deflection_limit || 250);
+
+  return {
+    passed: check.passes,
+    span_m: round(geometry.span_m),
+    point_load_n: loads.point_load_n,
+    elastic_modulus_pa: E,
+    moment_of_inertia_m4: I,
+    max_moment_n_m: round(check.maxMoment),
+    max_shear_n: round(check.maxShear),
+    max_deflection_m: round(check.maxDeflection),
+    support_rotation_rad: round(check.angularDisp),
+    deflection_limit: check.deflectionLimit,
+    allowable_deflection_m: check.allowableDeflection,
+    utilization: check.utilization
+  };
+}
+
 // ============================================================================
 // 8. ACABAMENTOS
 // ============================================================================
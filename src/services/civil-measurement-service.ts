@@ -3,14 +3,18 @@
 // Especificação v1.0 - 2024-01-20
 // ============================================================================
 
-import * as fs from 'fs';
-import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { log } from '../utils/winstonLogger';
+import { getRepository, Repository } from '../repositories';
+import { NotFoundError } from '../middleware/errorHandler';
+import { RebaselineMode } from '../types/plant';
+import { ProjectService } from './project-service';
+import { PlantVersionService } from './plant-version-service';
 import {
   CivilMeasurement,
   CivilMeasurementData,
   CivilMeasurementType,
+  CivilMeasurementSummary,
   CreateCivilMeasurementRequest,
   UpdateCivilMeasurementRequest,
   LayoutMeasurement,
@@ -33,26 +37,32 @@ import {
   calculateSlabMeasurements,
   calculateFoundationVolume,
   calculateStructureVolume,
+  calculateStructureBeamCheck,
   calculateFinishingMeasurements,
   calculateRoofMeasurements,
   BRAZILIAN_PRESETS
 } from './civil-measurement-calculations';
 
+/**
+ * Converter strings de data (JSON armazenado) para Date objects
+ */
+function reviveDates(stored: CivilMeasurement): CivilMeasurement {
+  return {
+    ...stored,
+    created_at: new Date(stored.created_at),
+    updated_at: new Date(stored.updated_at)
+  };
+}
+
 export class CivilMeasurementService {
-  private measurementsDir: string;
-  private projectsDir: string;
+  private measurements: Repository<CivilMeasurement>;
+  private projectService: ProjectService;
+  private versionService: PlantVersionService;
 
   constructor() {
-    this.measurementsDir = path.join(process.cwd(), 'data', 'civil-measurements');
-    this.projectsDir = path.join(process.cwd(), 'data', 'projects');
-    
-    // Criar diretórios se não existirem
-    [this.measurementsDir, this.projectsDir].forEach(dir => {
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-        log.info(`Diretório criado: ${dir}`);
-      }
-    });
+    this.measurements = getRepository<CivilMeasurement>('civil-measurements', { indexes: ['project_id', 'type', 'plant_version_id'] });
+    this.projectService = new ProjectService();
+    this.versionService = new PlantVersionService();
     
     log.info('CivilMeasurementService inicializado');
   }
@@ -67,22 +77,37 @@ export class CivilMeasurementService {
       
       // Construir dados completos da medição com cálculos
       const fullData = await this.buildMeasurementData(request.type, request.data);
+      if (request.data.composition_code) {
+        fullData.composition_code = request.data.composition_code;
+      }
+      const plantLink = request.plant_id
+        ? await this.versionService.resolveMeasurementLink(request.project_id, request.plant_id, request.plant_version_id)
+        : undefined;
       
       const measurement: CivilMeasurement = {
         id: measurementId,
         project_id: request.project_id,
         type: request.type,
         data: fullData as CivilMeasurementData,
+        ...plantLink,
         created_at: new Date(now),
         updated_at: new Date(now)
       };
       
       // Salvar medição
-      const measurementPath = path.join(this.measurementsDir, `${measurementId}.json`);
-      fs.writeFileSync(measurementPath, JSON.stringify(measurement, null, 2));
-      
-      // Atualizar lista de medições do projeto
-      await this.addMeasurementToProject(request.project_id, measurementId);
+      await this.measurements.save(measurement);
+      
+      // Atualizar lista de medições do projeto (desfazer a gravação se falhar, evitando órfãos)
+      try {
+        await this.projectService.addMeasurement(request.project_id, measurementId, 'civil_measurements');
+      } catch (error) {
+        await this.measurements.delete(measurementId);
+        throw error;
+      }
+
+      if (plantLink) {
+        await this.versionService.syncMeasurementsCount(plantLink.plant_id, plantLink.plant_version_id);
+      }
       
       log.info('Medição civil criada', { measurementId, type: request.type });
       
@@ -332,7 +357,7 @@ export class CivilMeasurementService {
           data.scale
         );
         
-        return {
+        const structure = {
           id: '',
           type: 'structure',
           project_id: data.project_id || '',
@@ -351,12 +376,21 @@ export class CivilMeasurementService {
             material: data.attributes?.material || 'concreto_armado',
             custom_material: data.attributes?.custom_material,
             fck_mpa: data.attributes?.fck_mpa,
-            rebar_rate_kg_m3: data.attributes?.rebar_rate_kg_m3
+            rebar_rate_kg_m3: data.attributes?.rebar_rate_kg_m3,
+            loads: elementType === 'viga' ? data.attributes?.loads : undefined
           },
           calculations,
           created_at: now,
           updated_at: now
         } as StructureMeasurement;
+        
+        // Verificação da viga (momento, cortante e flecha) quando há cargas informadas
+        const beamCheck = calculateStructureBeamCheck(structure);
+        if (beamCheck) {
+          structure.calculations.beam_check = beamCheck;
+        }
+        
+        return structure;
       }
       
       case 'finishing': {
@@ -481,20 +515,8 @@ export class CivilMeasurementService {
    */
   async getMeasurementById(id: string): Promise<CivilMeasurement | null> {
     try {
-      const measurementPath = path.join(this.measurementsDir, `${id}.json`);
-      
-      if (!fs.existsSync(measurementPath)) {
-        return null;
-      }
-      
-      const content = fs.readFileSync(measurementPath, 'utf-8');
-      const parsed = JSON.parse(content);
-      
-      return {
-        ...parsed,
-        created_at: new Date(parsed.created_at),
-        updated_at: new Date(parsed.updated_at)
-      };
+      const stored = await this.measurements.findById(id);
+      return stored && !stored.deleted_at ? reviveDates(stored) : null;
     } catch (error) {
       log.error('Erro ao obter medição civil', error);
       return null;
@@ -506,45 +528,13 @@ export class CivilMeasurementService {
    */
   async listMeasurements(projectId?: string, type?: CivilMeasurementType): Promise<CivilMeasurement[]> {
     try {
-      let measurements: CivilMeasurement[] = [];
+      const stored = await this.measurements.find({
+        where: { project_id: projectId, type, deleted_at: null },
+        orderBy: 'created_at',
+        order: 'desc'
+      });
       
-      if (projectId) {
-        const projectPath = path.join(this.projectsDir, `${projectId}.json`);
-        if (fs.existsSync(projectPath)) {
-          const projectContent = fs.readFileSync(projectPath, 'utf-8');
-          const project = JSON.parse(projectContent);
-          
-          if (project.civil_measurements) {
-            for (const measurementId of project.civil_measurements) {
-              const measurement = await this.getMeasurementById(measurementId);
-              if (measurement) {
-                measurements.push(measurement);
-              }
-            }
-          }
-        }
-      } else {
-        const files = fs.readdirSync(this.measurementsDir);
-        for (const file of files) {
-          if (file.endsWith('.json')) {
-            const id = file.replace('.json', '');
-            const measurement = await this.getMeasurementById(id);
-            if (measurement) {
-              measurements.push(measurement);
-            }
-          }
-        }
-      }
-      
-      if (type) {
-        measurements = measurements.filter(m => m.type === type);
-      }
-      
-      measurements.sort((a, b) => 
-        b.created_at.getTime() - a.created_at.getTime()
-      );
-      
-      return measurements;
+      return stored.map(reviveDates);
     } catch (error) {
       log.error('Erro ao listar medições civis', error);
       return [];
@@ -564,10 +554,12 @@ export class CivilMeasurementService {
       
       if (update.data) {
         const currentData = measurement.data as any;
-        const updatedData = await this.buildMeasurementData(measurement.type, {
-          ...currentData,
-          ...update.data
-        } as Partial<CivilMeasurementData>);
+        const mergedData = { ...currentData, ...update.data } as Partial<CivilMeasurementData>;
+        const updatedData = await this.buildMeasurementData(measurement.type, mergedData);
+        // Composição de referência usada no orçamento ("" remove)
+        if (mergedData.composition_code) {
+          updatedData.composition_code = mergedData.composition_code;
+        }
         measurement.data = updatedData;
       }
       
@@ -577,8 +569,7 @@ export class CivilMeasurementService {
       
       measurement.updated_at = new Date();
       
-      const measurementPath = path.join(this.measurementsDir, `${id}.json`);
-      fs.writeFileSync(measurementPath, JSON.stringify(measurement, null, 2));
+      await this.measurements.save(measurement);
       
       log.info('Medição civil atualizada', { id });
       
@@ -600,12 +591,13 @@ export class CivilMeasurementService {
         return false;
       }
       
-      const measurementPath = path.join(this.measurementsDir, `${id}.json`);
-      if (fs.existsSync(measurementPath)) {
-        fs.unlinkSync(measurementPath);
-      }
+      await this.measurements.delete(id);
       
-      await this.removeMeasurementFromProject(measurement.project_id, id);
+      await this.projectService.removeMeasurement(measurement.project_id, id, 'civil_measurements');
+
+      if (measurement.plant_id && measurement.plant_version_id) {
+        await this.versionService.syncMeasurementsCount(measurement.plant_id, measurement.plant_version_id);
+      }
       
       log.info('Medição civil deletada', { id });
       
@@ -617,50 +609,209 @@ export class CivilMeasurementService {
   }
 
   /**
-   * Adicionar medição ao projeto
+   * Medições civis feitas em uma revisão da planta (mesmas regras de
+   * MeasurementService.listPlantVersionMeasurements)
    */
-  private async addMeasurementToProject(projectId: string, measurementId: string): Promise<void> {
-    const projectPath = path.join(this.projectsDir, `${projectId}.json`);
-    
-    let project: any;
-    if (fs.existsSync(projectPath)) {
-      const content = fs.readFileSync(projectPath, 'utf-8');
-      project = JSON.parse(content);
-    } else {
-      throw new Error(`Projeto ${projectId} não encontrado`);
+  async listPlantVersionMeasurements(plantId: string, versionId: string, unlinkedProjectIds: string[] = []): Promise<CivilMeasurement[]> {
+    const stored = await this.measurements.find({
+      where: { plant_id: plantId, plant_version_id: versionId, deleted_at: null },
+      orderBy: 'created_at'
+    });
+    for (const projectId of unlinkedProjectIds) {
+      stored.push(...await this.measurements.find({
+        where: { project_id: projectId, plant_id: null, deleted_at: null },
+        orderBy: 'created_at'
+      }));
     }
-    
-    if (!project.civil_measurements) {
-      project.civil_measurements = [];
+    return stored.map(reviveDates);
+  }
+
+  /**
+   * Levar uma medição civil para outra revisão da planta (mesmas regras de
+   * MeasurementService.carryMeasurement)
+   */
+  async carryMeasurement(
+    source: CivilMeasurement,
+    plantId: string,
+    versionId: string,
+    data: CivilMeasurementData,
+    outsideSheet: boolean,
+    mode: RebaselineMode
+  ): Promise<CivilMeasurement> {
+    const now = new Date();
+    const measurement: CivilMeasurement = mode === 'copy'
+      ? { ...source, id: uuidv4(), carried_from: source.id, created_at: now }
+      : { ...source };
+
+    measurement.plant_id = plantId;
+    measurement.plant_version_id = versionId;
+    measurement.data = data;
+    measurement.updated_at = now;
+    if (outsideSheet) {
+      measurement.outside_sheet = true;
+    } else {
+      delete measurement.outside_sheet;
     }
-    
-    if (!project.civil_measurements.includes(measurementId)) {
-      project.civil_measurements.push(measurementId);
+
+    await this.measurements.save(measurement);
+
+    if (mode === 'copy') {
+      try {
+        await this.projectService.addMeasurement(measurement.project_id, measurement.id, 'civil_measurements');
+      } catch (error) {
+        await this.measurements.delete(measurement.id);
+        throw error;
+      }
     }
-    
-    project.updated_at = new Date().toISOString();
-    fs.writeFileSync(projectPath, JSON.stringify(project, null, 2));
+
+    return measurement;
   }
 
   /**
-   * Remover medição do projeto
+   * Obter resumo das medições civis do projeto (totais por tipo)
    */
-  private async removeMeasurementFromProject(projectId: string, measurementId: string): Promise<void> {
-    const projectPath = path.join(this.projectsDir, `${projectId}.json`);
-    
-    if (!fs.existsSync(projectPath)) {
-      return;
+  async getProjectSummary(projectId: string): Promise<CivilMeasurementSummary> {
+    if (!(await this.projectService.getProjectById(projectId))) {
+      throw new NotFoundError('Projeto não encontrado');
     }
     
-    const content = fs.readFileSync(projectPath, 'utf-8');
-    const project = JSON.parse(content);
+    const measurements = await this.listMeasurements(projectId);
+    const totals: CivilMeasurementSummary['totals'] = {};
+    // Ignorar valores ausentes, NaN ou negativos
+    const value = (n: number | undefined): number => (n !== undefined && isFinite(n) && n >= 0 ? n : 0);
     
-    if (project.civil_measurements) {
-      project.civil_measurements = project.civil_measurements.filter((id: string) => id !== measurementId);
+    for (const measurement of measurements) {
+      switch (measurement.type) {
+        case 'layout': {
+          const data = measurement.data as LayoutMeasurement;
+          totals.layout = totals.layout || { count: 0, total_length_m: 0 };
+          totals.layout.count++;
+          totals.layout.total_length_m += value(data.output?.total_length_m);
+          break;
+        }
+        case 'wall': {
+          const data = measurement.data as WallMeasurement;
+          totals.wall = totals.wall || {
+            count: 0, total_length_m: 0, total_net_area_m2: 0, total_volume_m3: 0, total_blocks: 0, total_mortar_m3: 0
+          };
+          totals.wall.count++;
+          totals.wall.total_length_m += value(data.calculations?.length_m);
+          totals.wall.total_net_area_m2 += value(data.calculations?.net_area_m2);
+          totals.wall.total_volume_m3 += value(data.calculations?.volume_m3);
+          totals.wall.total_blocks += value(data.calculations?.estimated_blocks);
+          totals.wall.total_mortar_m3 += value(data.calculations?.estimated_mortar_m3);
+          break;
+        }
+        case 'area': {
+          const data = measurement.data as AreaMeasurement;
+          totals.area = totals.area || { count: 0, total_area_m2: 0 };
+          totals.area.count++;
+          totals.area.total_area_m2 += value(data.calculations?.total_area_m2);
+          break;
+        }
+        case 'opening': {
+          const data = measurement.data as OpeningMeasurement;
+          totals.opening = totals.opening || { count: 0, total_opening_area_m2: 0 };
+          // opening_area_m2 já considera a quantidade de vãos
+          totals.opening.count += data.calculations?.quantity || 1;
+          totals.opening.total_opening_area_m2 += value(data.calculations?.opening_area_m2);
+          break;
+        }
+        case 'slab': {
+          const data = measurement.data as SlabMeasurement;
+          totals.slab = totals.slab || { count: 0, total_area_m2: 0, total_volume_m3: 0 };
+          totals.slab.count++;
+          totals.slab.total_area_m2 += value(data.calculations?.area_m2);
+          totals.slab.total_volume_m3 += value(data.calculations?.volume_m3);
+          break;
+        }
+        case 'foundation': {
+          const data = measurement.data as FoundationMeasurement;
+          totals.foundation = totals.foundation || { count: 0, total_volume_m3: 0 };
+          totals.foundation.count += data.calculations?.quantity || 1;
+          totals.foundation.total_volume_m3 += value(data.calculations?.volume_m3);
+          break;
+        }
+        case 'structure': {
+          const data = measurement.data as StructureMeasurement;
+          totals.structure = totals.structure || { count: 0, total_volume_m3: 0, total_rebar_kg: 0 };
+          totals.structure.count++;
+          totals.structure.total_volume_m3 += value(data.calculations?.volume_m3);
+          totals.structure.total_rebar_kg += value(data.calculations?.estimated_rebar_kg);
+          break;
+        }
+        case 'finishing': {
+          const data = measurement.data as FinishingMeasurement;
+          totals.finishing = totals.finishing || { count: 0, total_net_area_m2: 0, total_area_with_losses_m2: 0 };
+          const netArea = value(data.calculations?.net_area_m2);
+          const lossPercent = value(data.attributes?.standard_loss_percent);
+          totals.finishing.count++;
+          totals.finishing.total_net_area_m2 += netArea;
+          totals.finishing.total_area_with_losses_m2 += netArea * (1 + lossPercent / 100);
+          break;
+        }
+        case 'roof': {
+          const data = measurement.data as RoofMeasurement;
+          totals.roof = totals.roof || { count: 0, total_real_area_m2: 0, total_projected_area_m2: 0 };
+          totals.roof.count++;
+          totals.roof.total_real_area_m2 += value(data.calculations?.real_area_m2);
+          totals.roof.total_projected_area_m2 += value(data.calculations?.projected_area_m2);
+          break;
+        }
+        case 'note': {
+          totals.note = totals.note || { count: 0 };
+          totals.note.count++;
+          break;
+        }
+      }
     }
     
-    project.updated_at = new Date().toISOString();
-    fs.writeFileSync(projectPath, JSON.stringify(project, null, 2));
+    return {
+      project_id: projectId,
+      totals,
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Mover para a lixeira as medições civis do projeto
+   */
+  async trashMeasurementsByProject(projectId: string, deletedAt: string): Promise<number> {
+    const measurements = await this.measurements.find({ where: { project_id: projectId, deleted_at: null } });
+
+    for (const measurement of measurements) {
+      await this.measurements.save({ ...measurement, deleted_at: deletedAt });
+    }
+
+    return measurements.length;
+  }
+
+  /**
+   * Restaurar as medições civis do projeto que estavam na lixeira
+   */
+  async restoreMeasurementsByProject(projectId: string): Promise<number> {
+    const measurements = (await this.measurements.find({ where: { project_id: projectId } }))
+      .filter(m => m.deleted_at);
+
+    for (const measurement of measurements) {
+      delete measurement.deleted_at;
+      await this.measurements.save(measurement);
+    }
+
+    return measurements.length;
+  }
+
+  /**
+   * Remover definitivamente as medições civis do projeto (inclusive as da lixeira)
+   */
+  async deleteMeasurementsByProject(projectId: string): Promise<number> {
+    const measurements = await this.measurements.find({ where: { project_id: projectId } });
+
+    for (const measurement of measurements) {
+      await this.measurements.delete(measurement.id);
+    }
+
+    return measurements.length;
   }
 }
 
@@ -0,0 +1,391 @@
+// ============================================================================
+// DETECÇÃO DE INTERFERÊNCIAS ENTRE REDES DO PROJETO
+// Trincheiras, perfurações e condutos (trajetos) e câmaras (pontos) no mesmo
+// espaço de coordenadas, com afastamentos mínimos por par de tipos
+// ============================================================================
+
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import {
+  BoreShotMeasurement,
+  ConduitMeasurement,
+  Coordinate,
+  Measurement,
+  TrenchMeasurement,
+  VaultMeasurement,
+  WidthDepth
+} from '../types/measurement';
+import {
+  Clash,
+  ClashAnalysisOptions,
+  ClashMeasurementRef,
+  ClashMeasurementType,
+  ClashReport,
+  ClashRule
+} from '../types/clash';
+import { convertPixelsToMeters } from './measurement-calculations-viaplan';
+import { MeasurementService } from './measurement-service';
+import { ProjectService } from './project-service';
+
+const EPSILON = 1e-9;
+const CLASH_TYPES: ClashMeasurementType[] = ['trench', 'bore-shot', 'conduit', 'vault'];
+const MERGE_DISTANCE_M = 0.5; // Pontos do mesmo par mais próximos que isso são a mesma interferência
+
+const DEFAULT_RULE = { horizontal_m: 0.3, vertical_m: 0.3 };
+
+// Condutos normalmente estão dentro da vala/perfuração e chegam às câmaras: nesses
+// pares só redes ligadas são ignoradas; cruzamentos com outras redes contam
+const LINKED_PAIRS: Array<[ClashMeasurementType, ClashMeasurementType]> = [
+  ['trench', 'conduit'],
+  ['bore-shot', 'conduit'],
+  ['conduit', 'vault']
+];
+
+// Ligação entre redes: folga em torno da vala/perfuração/câmara e passo de amostragem do conduto
+const LINK_TOLERANCE_M = 0.5;
+const LINK_SAMPLE_M = 0.25;
+// Um cruzamento percorre a vala só na largura dela; o mesmo trajeto a acompanha por mais que isso
+const LINK_MIN_SHARED_WIDTHS = 3;
+
+interface PlanPoint {
+  x: number;
+  y: number;
+}
+
+// Faixa ocupada em profundidade (topo e fundo, em metros)
+interface DepthRange {
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Trecho de uma rede em planta (metros): segmento com meia largura e faixa de profundidade
+ * no parâmetro t ∈ [0, 1]; null quando a profundidade é desconhecida
+ */
+interface ClashPiece {
+  p0: PlanPoint;
+  p1: PlanPoint;
+  halfWidth: number;
+  depth: (t: number) => DepthRange | null;
+}
+
+interface ClashElement {
+  ref: ClashMeasurementRef;
+  pieces: ClashPiece[];
+  factor: number; // Metros por unidade de coordenada da medição
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function ruleKey(a: ClashMeasurementType, b: ClashMeasurementType): string {
+  return [a, b].sort().join('|');
+}
+
+/**
+ * Metros por unidade de coordenada para a escala ("1:100") e o zoom; sem escala,
+ * as coordenadas já estão em metros
+ */
+function metersPerUnit(scale: string | undefined, zoom: number | undefined, source: string): number {
+  if (scale !== undefined) {
+    const match = /^(\d+):(\d+)$/.exec(scale);
+    if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+      throw new ValidationError(`Escala inválida (${source}): "${scale}". Use o formato "1:100"`);
+    }
+  }
+  return convertPixelsToMeters(1, scale, zoom);
+}
+
+function widthDepthAt(value: WidthDepth | undefined, index: number, fallback: number): number {
+  if (!value) return fallback;
+  if (value.type === 'variable') {
+    return value.values?.[index] ?? value.value ?? fallback;
+  }
+  return value.value ?? fallback;
+}
+
+/**
+ * Pontos mais próximos entre dois segmentos (parâmetros s e t e distância)
+ */
+function closestPoints(a0: PlanPoint, a1: PlanPoint, b0: PlanPoint, b1: PlanPoint): { s: number; t: number; distance: number } {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const d1 = { x: a1.x - a0.x, y: a1.y - a0.y };
+  const d2 = { x: b1.x - b0.x, y: b1.y - b0.y };
+  const r = { x: a0.x - b0.x, y: a0.y - b0.y };
+  const a = d1.x * d1.x + d1.y * d1.y;
+  const e = d2.x * d2.x + d2.y * d2.y;
+  const f = d2.x * r.x + d2.y * r.y;
+  let s = 0;
+  let t = 0;
+
+  if (a > EPSILON || e > EPSILON) {
+    if (a <= EPSILON) {
+      t = clamp(f / e);
+    } else {
+      const c = d1.x * r.x + d1.y * r.y;
+      if (e <= EPSILON) {
+        s = clamp(-c / a);
+      } else {
+        const b = d1.x * d2.x + d1.y * d2.y;
+        const denom = a * e - b * b;
+        s = denom > EPSILON ? clamp((b * f - c * e) / denom) : 0;
+        t = (b * s + f) / e;
+        if (t < 0) {
+          t = 0;
+          s = clamp(-c / a);
+        } else if (t > 1) {
+          t = 1;
+          s = clamp((b - c) / a);
+        }
+      }
+    }
+  }
+
+  const dx = a0.x + d1.x * s - (b0.x + d2.x * t);
+  const dy = a0.y + d1.y * s - (b0.y + d2.y * t);
+  return { s, t, distance: Math.sqrt(dx * dx + dy * dy) };
+}
+
+/**
+ * Trechos de um trajeto com eixo em profundidade z (perfurações e condutos)
+ */
+function pathPieces(coordinates: Coordinate[], factor: number, radius: number, knownDepth: boolean): ClashPiece[] {
+  const pieces: ClashPiece[] = [];
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const [c0, c1] = [coordinates[i], coordinates[i + 1]];
+    const [z0, z1] = [c0.z || 0, c1.z || 0];
+    pieces.push({
+      p0: { x: c0.x * factor, y: c0.y * factor },
+      p1: { x: c1.x * factor, y: c1.y * factor },
+      halfWidth: radius,
+      depth: t => {
+        if (!knownDepth) return null;
+        const z = z0 + (z1 - z0) * t;
+        return { top: z - radius, bottom: z + radius };
+      }
+    });
+  }
+  return pieces;
+}
+
+/**
+ * Converter uma medição da análise em trechos, em metros
+ */
+function clashElement(measurement: Measurement, factor: number): ClashElement {
+  const ref: ClashMeasurementRef = {
+    id: measurement.id,
+    type: measurement.type as ClashMeasurementType,
+    label: (measurement.data as any).label || ''
+  };
+  const coordinates: Coordinate[] = (measurement.data as any).coordinates || [];
+
+  switch (measurement.type) {
+    case 'trench': {
+      // Vala aberta: da superfície até o fundo, com largura por segmento
+      const data = measurement.data as TrenchMeasurement;
+      const pieces: ClashPiece[] = [];
+      for (let i = 0; i < coordinates.length - 1; i++) {
+        const depth = widthDepthAt(data.depth, i, 0.9);
+        pieces.push({
+          p0: { x: coordinates[i].x * factor, y: coordinates[i].y * factor },
+          p1: { x: coordinates[i + 1].x * factor, y: coordinates[i + 1].y * factor },
+          halfWidth: widthDepthAt(data.width, i, 0.6) / 2,
+          depth: () => ({ top: 0, bottom: depth })
+        });
+      }
+      return { ref, pieces, factor };
+    }
+    case 'bore-shot': {
+      const data = measurement.data as BoreShotMeasurement;
+      const radius = (data.backreamer_diameter_mm || data.drill_diameter_mm || 0) / 2000;
+      return { ref, pieces: pathPieces(coordinates, factor, radius, true), factor };
+    }
+    case 'conduit': {
+      // Sem z em todos os pontos a profundidade é desconhecida: vale só o afastamento em planta
+      const data = measurement.data as ConduitMeasurement;
+      const radius = Math.max(0, ...(data.conduits || []).map(conduit => conduit.outer_diameter_mm || 0)) / 2000;
+      const knownDepth = coordinates.every(coordinate => typeof coordinate.z === 'number');
+      return { ref, pieces: pathPieces(coordinates, factor, radius, knownDepth), factor };
+    }
+    default: {
+      // Câmara: cada ponto é uma unidade, envolvida por um círculo
+      const data = measurement.data as VaultMeasurement;
+      const dimensions = data.dimensions || { depth_m: 0 };
+      const halfWidth = data.shape === 'circular'
+        ? (dimensions.diameter_m || 0) / 2
+        : Math.hypot(dimensions.length_m || 0, dimensions.width_m || 0) / 2;
+      return {
+        ref,
+        pieces: coordinates.map(coordinate => {
+          const point = { x: coordinate.x * factor, y: coordinate.y * factor };
+          return { p0: point, p1: point, halfWidth, depth: () => ({ top: 0, bottom: dimensions.depth_m || 0 }) };
+        }),
+        factor
+      };
+    }
+  }
+}
+
+// Distância em planta do ponto até a faixa ocupada pelo trecho (negativa dentro dela)
+function distanceToPiece(point: PlanPoint, piece: ClashPiece): number {
+  return closestPoints(point, point, piece.p0, piece.p1).distance - piece.halfWidth;
+}
+
+/**
+ * Redes ligadas: o conduto acompanha a vala/perfuração (mesmo trajeto) ou termina
+ * na câmara. Só condutos se ligam a outras redes.
+ */
+function linked(a: ClashElement, b: ClashElement): boolean {
+  const [conduit, other] = a.ref.type === 'conduit' ? [a, b] : [b, a];
+  if (conduit.ref.type !== 'conduit' || other.ref.type === 'conduit') {
+    return false;
+  }
+
+  if (other.ref.type === 'vault') {
+    const first = conduit.pieces[0];
+    const last = conduit.pieces[conduit.pieces.length - 1];
+    return [first?.p0, last?.p1].some(end =>
+      end !== undefined && other.pieces.some(piece => distanceToPiece(end, piece) <= LINK_TOLERANCE_M)
+    );
+  }
+
+  // Comprimento do conduto dentro da vala/perfuração, amostrado ao longo do trajeto
+  let total = 0;
+  let shared = 0;
+  for (const piece of conduit.pieces) {
+    const length = Math.hypot(piece.p1.x - piece.p0.x, piece.p1.y - piece.p0.y);
+    const steps = Math.max(1, Math.ceil(length / LINK_SAMPLE_M));
+    for (let k = 0; k < steps; k++) {
+      const t = (k + 0.5) / steps;
+      const point = { x: piece.p0.x + (piece.p1.x - piece.p0.x) * t, y: piece.p0.y + (piece.p1.y - piece.p0.y) * t };
+      if (other.pieces.some(host => distanceToPiece(point, host) <= LINK_TOLERANCE_M)) {
+        shared += length / steps;
+      }
+    }
+    total += length;
+  }
+
+  const corridor = 2 * Math.max(...other.pieces.map(piece => piece.halfWidth)) + 2 * LINK_TOLERANCE_M;
+  return total > EPSILON && shared >= Math.min(LINK_MIN_SHARED_WIDTHS * corridor, 0.9 * total);
+}
+
+export class ClashDetectionService {
+  private projectService: ProjectService;
+  private measurementService: MeasurementService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+    this.measurementService = new MeasurementService();
+  }
+
+  /**
+   * Detectar interferências horizontais e verticais entre as redes do projeto.
+   * Há interferência quando o afastamento em planta é menor que o mínimo
+   * e o afastamento vertical também (ou a profundidade é desconhecida).
+   */
+  async analyzeProject(projectId: string, options: ClashAnalysisOptions = {}): Promise<ClashReport> {
+    const project = await this.projectService.getProjectById(projectId);
+
+    if (!project) {
+      throw new NotFoundError('Projeto não encontrado');
+    }
+
+    // Cada medição usa a própria escala e zoom; sem elas, a escala informada ou a do projeto
+    if (options.scale !== undefined) {
+      metersPerUnit(options.scale, options.zoom, 'scale informada');
+    }
+    const scale = options.scale || project.scale || undefined;
+    const scaleSource = options.scale ? 'scale informada' : 'escala do projeto';
+    const defaultRule = options.default_rule || DEFAULT_RULE;
+
+    const rules = new Map<string, ClashRule>();
+    const linkedRules: ClashRule[] = LINKED_PAIRS.map(types => ({ types, ...defaultRule, ignore_linked: true }));
+    for (const rule of [...linkedRules, ...(options.rules || [])]) {
+      rules.set(ruleKey(rule.types[0], rule.types[1]), rule);
+    }
+
+    const measurements = await this.measurementService.listMeasurements({ project_id: projectId, limit: Number.MAX_SAFE_INTEGER });
+    const elements = measurements
+      .filter(measurement => CLASH_TYPES.includes(measurement.type as ClashMeasurementType))
+      .map(measurement => {
+        const data = measurement.data as { scale?: string; zoom?: number; label?: string };
+        const factor = data.scale
+          ? metersPerUnit(data.scale, data.zoom, `medição ${data.label || measurement.id}`)
+          : metersPerUnit(scale, data.zoom ?? options.zoom, scaleSource);
+        return clashElement(measurement, factor);
+      })
+      .filter(element => element.pieces.length > 0);
+
+    const clashes: Clash[] = [];
+
+    for (let i = 0; i < elements.length; i++) {
+      for (let j = i + 1; j < elements.length; j++) {
+        const [a, b] = [elements[i], elements[j]];
+        const rule = rules.get(ruleKey(a.ref.type, b.ref.type)) || { ...defaultRule, types: [a.ref.type, b.ref.type] };
+        if (rule.ignore || (rule.ignore_linked && linked(a, b))) continue;
+
+        const found: Array<Clash & { plan: PlanPoint }> = [];
+
+        for (const pieceA of a.pieces) {
+          for (const pieceB of b.pieces) {
+            const closest = closestPoints(pieceA.p0, pieceA.p1, pieceB.p0, pieceB.p1);
+            const horizontal = closest.distance - pieceA.halfWidth - pieceB.halfWidth;
+            if (horizontal >= rule.horizontal_m) continue;
+
+            const rangeA = pieceA.depth(closest.s);
+            const rangeB = pieceB.depth(closest.t);
+            const vertical = rangeA && rangeB
+              ? Math.max(rangeB.top - rangeA.bottom, rangeA.top - rangeB.bottom)
+              : null;
+            if (vertical !== null && vertical >= rule.vertical_m) continue;
+
+            const plan = {
+              x: (pieceA.p0.x + (pieceA.p1.x - pieceA.p0.x) * closest.s + pieceB.p0.x + (pieceB.p1.x - pieceB.p0.x) * closest.t) / 2,
+              y: (pieceA.p0.y + (pieceA.p1.y - pieceA.p0.y) * closest.s + pieceB.p0.y + (pieceB.p1.y - pieceB.p0.y) * closest.t) / 2
+            };
+            const distance = vertical === null
+              ? Math.max(horizontal, 0)
+              : Math.hypot(Math.max(horizontal, 0), Math.max(vertical, 0));
+
+            const clash: Clash & { plan: PlanPoint } = {
+              kind: horizontal < 0 ? 'vertical' : 'horizontal',
+              measurement_a: a.ref,
+              measurement_b: b.ref,
+              point: { x: round(plan.x / a.factor), y: round(plan.y / a.factor) }, // No desenho da medição A
+              distance_m: round(distance),
+              horizontal_clearance_m: round(horizontal),
+              vertical_clearance_m: vertical === null ? null : round(vertical),
+              required_horizontal_m: rule.horizontal_m,
+              required_vertical_m: rule.vertical_m,
+              plan
+            };
+
+            // Segmentos vizinhos geram o mesmo ponto: manter o mais crítico
+            const duplicate = found.findIndex(other =>
+              Math.hypot(other.plan.x - plan.x, other.plan.y - plan.y) < MERGE_DISTANCE_M
+            );
+            if (duplicate === -1) {
+              found.push(clash);
+            } else if (clash.distance_m < found[duplicate].distance_m) {
+              found[duplicate] = clash;
+            }
+          }
+        }
+
+        clashes.push(...found.map(({ plan: _plan, ...clash }) => clash));
+      }
+    }
+
+    clashes.sort((x, y) => x.distance_m - y.distance_m || x.horizontal_clearance_m - y.horizontal_clearance_m);
+
+    return {
+      project_id: projectId,
+      scale: scale || null,
+      rules: Array.from(rules.values()),
+      default_rule: defaultRule,
+      checked_measurements: elements.length,
+      clashes,
+      generated_at: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,295 @@
+// ============================================================================
+// IMPORTAÇÃO DE COMPOSIÇÕES DE REFERÊNCIA (SINAPI/TCPO) A PARTIR DE CSV
+// Insumos com preço por UF e composições analíticas (itens e coeficientes)
+// ============================================================================
+
+import { ValidationError } from '../middleware/errorHandler';
+import {
+  CompositionInput,
+  CompositionInputType,
+  CompositionItem,
+  ReferenceComposition
+} from '../types/cost';
+
+const STATES = [
+  'AC', 'AL', 'AM', 'AP', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MG', 'MS', 'MT', 'PA',
+  'PB', 'PE', 'PI', 'PR', 'RJ', 'RN', 'RO', 'RR', 'RS', 'SC', 'SE', 'SP', 'TO'
+];
+
+// Unidades de insumo contadas como horas (mão de obra e equipamento: hora produtiva/improdutiva)
+const HOUR_UNITS = ['h', 'chp', 'chi'];
+
+// Custo de uma unidade da composição em uma UF, separado por tipo de insumo
+export interface CompositionCost {
+  material_cost: number;
+  labor_cost: number;
+  equipment_cost: number;
+  labor_hours: number;
+  equipment_hours: number;
+}
+
+/**
+ * Normalizar cabeçalho: minúsculas, sem acentos e sem "da/de/do", separadores viram "_"
+ * ("Código da Composição" -> "codigo_composicao")
+ */
+function normalizeHeader(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/_d[aeo]s?_/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+/**
+ * Número no formato brasileiro ("1.234,56") ou com ponto decimal ("1234.56")
+ */
+export function parseBrazilianNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const text = value.trim().replace(/^R\$\s*/, '');
+  if (!text) return null;
+
+  const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text;
+  const number = Number(normalized);
+  return isFinite(number) ? number : null;
+}
+
+/**
+ * Ler CSV (separador ";", "," ou tabulação, detectado pelo cabeçalho) com campos entre aspas
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const header = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = [';', '\t', ','].find(candidate => header.includes(candidate)) || ';';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Índice da primeira coluna cujo cabeçalho normalizado está entre os nomes aceitos
+ */
+function column(headers: string[], names: string[], file: string, required: boolean = true): number {
+  const index = headers.findIndex(header => names.includes(header));
+  if (index === -1 && required) {
+    throw new ValidationError(`Coluna ${names[0]} não encontrada no arquivo de ${file}`);
+  }
+  return index;
+}
+
+function inputType(value: string): CompositionInputType {
+  const type = normalizeHeader(value);
+  if (type.startsWith('mao')) return 'mao_de_obra';
+  if (type.startsWith('equip')) return 'equipamento';
+  return 'material';
+}
+
+/**
+ * Insumos: codigo; descricao; unidade; tipo; uma coluna de preço por UF (AC ... TO)
+ */
+export function parseInputsCsv(content: string): { inputs: Map<string, CompositionInput>; states: string[] } {
+  const [headerRow, ...rows] = parseCsv(content);
+  if (!headerRow) {
+    throw new ValidationError('Arquivo de insumos vazio');
+  }
+
+  const headers = headerRow.map(normalizeHeader);
+  const code = column(headers, ['codigo', 'codigo_insumo', 'cod_insumo'], 'insumos');
+  const description = column(headers, ['descricao', 'descricao_insumo'], 'insumos');
+  const unit = column(headers, ['unidade', 'unidade_medida', 'und'], 'insumos');
+  const type = column(headers, ['tipo', 'classificacao', 'tipo_insumo'], 'insumos', false);
+  const stateColumns = headerRow
+    .map((header, index) => ({ state: header.trim().toUpperCase(), index }))
+    .filter(({ state }) => STATES.includes(state));
+
+  if (stateColumns.length === 0) {
+    throw new ValidationError('Arquivo de insumos sem colunas de preço por UF (AC ... TO)');
+  }
+
+  const inputs = new Map<string, CompositionInput>();
+  for (const row of rows) {
+    const inputCode = row[code]?.trim();
+    if (!inputCode) continue;
+
+    const prices: Record<string, number> = {};
+    for (const { state, index } of stateColumns) {
+      const price = parseBrazilianNumber(row[index]);
+      if (price !== null) prices[state] = price;
+    }
+
+    inputs.set(inputCode, {
+      code: inputCode,
+      description: row[description]?.trim() || '',
+      unit: row[unit]?.trim() || '',
+      type: type === -1 ? 'material' : inputType(row[type] || ''),
+      prices
+    });
+  }
+
+  return { inputs, states: stateColumns.map(({ state }) => state) };
+}
+
+/**
+ * Composições analíticas: uma linha por item
+ * codigo_composicao; descricao; unidade; tipo_item (INSUMO/COMPOSICAO); codigo_item; coeficiente
+ */
+export function parseCompositionsCsv(content: string): Map<string, ReferenceComposition> {
+  const [headerRow, ...rows] = parseCsv(content);
+  if (!headerRow) {
+    throw new ValidationError('Arquivo de composições vazio');
+  }
+
+  const headers = headerRow.map(normalizeHeader);
+  const code = column(headers, ['codigo_composicao', 'cod_composicao', 'codigo'], 'composições');
+  const description = column(headers, ['descricao_composicao', 'descricao'], 'composições');
+  const unit = column(headers, ['unidade_composicao', 'unidade', 'und'], 'composições');
+  const itemType = column(headers, ['tipo_item'], 'composições');
+  const itemCode = column(headers, ['codigo_item', 'cod_item'], 'composições');
+  const coefficient = column(headers, ['coeficiente', 'coef'], 'composições');
+
+  const compositions = new Map<string, ReferenceComposition>();
+  for (const row of rows) {
+    const compositionCode = row[code]?.trim();
+    if (!compositionCode) continue;
+
+    // Descrição e unidade podem vir só na primeira linha da composição
+    const composition = compositions.get(compositionCode) || { code: compositionCode, description: '', unit: '', items: [] };
+    composition.description = composition.description || row[description]?.trim() || '';
+    composition.unit = composition.unit || row[unit]?.trim() || '';
+
+    const childCode = row[itemCode]?.trim();
+    const childCoefficient = parseBrazilianNumber(row[coefficient]);
+    if (childCode && childCoefficient !== null) {
+      const item: CompositionItem = {
+        kind: normalizeHeader(row[itemType] || '').startsWith('comp') ? 'composicao' : 'insumo',
+        code: childCode,
+        coefficient: childCoefficient
+      };
+      composition.items.push(item);
+    }
+
+    compositions.set(compositionCode, composition);
+  }
+
+  return compositions;
+}
+
+/**
+ * Custo unitário das composições em uma UF (composições auxiliares resolvidas recursivamente).
+ * Composições com insumo sem preço, item inexistente ou referência circular ficam de fora.
+ */
+export function calculateCompositionCosts(
+  compositions: Map<string, ReferenceComposition>,
+  inputs: Map<string, CompositionInput>,
+  state: string
+): { costs: Map<string, CompositionCost>; errors: Map<string, string> } {
+  const costs = new Map<string, CompositionCost>();
+  const errors = new Map<string, string>();
+  const visiting = new Set<string>();
+
+  const resolve = (code: string): CompositionCost | null => {
+    if (costs.has(code)) return costs.get(code) as CompositionCost;
+    if (errors.has(code)) return null;
+
+    const composition = compositions.get(code);
+    if (!composition) {
+      errors.set(code, `Composição ${code} não encontrada`);
+      return null;
+    }
+    if (visiting.has(code)) {
+      errors.set(code, `Referência circular na composição ${code}`);
+      return null;
+    }
+
+    visiting.add(code);
+    const cost: CompositionCost = { material_cost: 0, labor_cost: 0, equipment_cost: 0, labor_hours: 0, equipment_hours: 0 };
+    let error: string | null = null;
+
+    for (const item of composition.items) {
+      if (item.kind === 'composicao') {
+        const child = resolve(item.code);
+        if (!child) {
+          error = errors.get(item.code) || `Composição auxiliar ${item.code} sem custo`;
+          break;
+        }
+        cost.material_cost += child.material_cost * item.coefficient;
+        cost.labor_cost += child.labor_cost * item.coefficient;
+        cost.equipment_cost += child.equipment_cost * item.coefficient;
+        cost.labor_hours += child.labor_hours * item.coefficient;
+        cost.equipment_hours += child.equipment_hours * item.coefficient;
+        continue;
+      }
+
+      const input = inputs.get(item.code);
+      const price = input?.prices[state];
+      if (!input || price === undefined) {
+        error = input ? `Insumo ${item.code} sem preço em ${state}` : `Insumo ${item.code} não encontrado`;
+        break;
+      }
+
+      const value = price * item.coefficient;
+      const isHour = HOUR_UNITS.includes(input.unit.trim().toLowerCase());
+      if (input.type === 'mao_de_obra') {
+        cost.labor_cost += value;
+        if (isHour) cost.labor_hours += item.coefficient;
+      } else if (input.type === 'equipamento') {
+        cost.equipment_cost += value;
+        if (isHour) cost.equipment_hours += item.coefficient;
+      } else {
+        cost.material_cost += value;
+      }
+    }
+    visiting.delete(code);
+
+    if (error) {
+      errors.set(code, `Composição ${code}: ${error}`);
+      return null;
+    }
+
+    costs.set(code, cost);
+    return cost;
+  };
+
+  for (const code of compositions.keys()) {
+    resolve(code);
+  }
+
+  return { costs, errors };
+}
@@ -0,0 +1,402 @@
+// ============================================================================
+// ORÇAMENTO DE MEDIÇÕES E TAKEOFFS PELO CATÁLOGO DE PREÇOS
+// Quantidades (as mesmas do relatório de quantitativos) vinculadas a itens do
+// catálogo e valoradas por uma tabela regional com data-base
+// ============================================================================
+
+import { NotFoundError } from '../middleware/errorHandler';
+import { QuantityReportItem } from '../types/report';
+import {
+  CostEstimateOptions,
+  CostEstimatePriceList,
+  CostLine,
+  CostSource,
+  CostTotals,
+  MeasurementCostEstimate,
+  PriceCatalogItem,
+  PriceList,
+  PriceListEntry,
+  ProjectCostEstimate,
+  TakeoffCostEstimate,
+  UnmappedQuantity
+} from '../types/cost';
+import { CivilMeasurementService } from './civil-measurement-service';
+import { MeasurementService } from './measurement-service';
+import { PriceCatalogService } from './price-catalog-service';
+import { ProjectService } from './project-service';
+import { getMeasurementQuantities } from './quantity-report-service';
+import { Takeoff, TakeoffItem, TakeoffUnifiedService } from './takeoff-unified-service';
+
+export interface TakeoffCostResult extends TakeoffCostEstimate {
+  items: TakeoffItem[]; // Itens persistidos no takeoff
+}
+
+// Itens do catálogo vinculados a cada quantidade, preços da tabela e pendências
+interface PricingContext {
+  mappings: Map<string, Array<{ item: PriceCatalogItem; factor: number }>>;
+  prices: Map<string, PriceListEntry>;
+  items: Map<string, PriceCatalogItem>;
+  codes: Map<string, PriceCatalogItem>;
+  unmapped: Map<string, UnmappedQuantity>;
+  unpriced: Set<string>;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function money(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Unidade comparável: "M2", "m2" e "m²" são a mesma unidade
+ */
+function normalizeUnit(unit: string): string {
+  return unit.trim().toLowerCase().replace('²', '2').replace('³', '3');
+}
+
+function mappingKey(source: CostSource, type: string, description: string, unit: string): string {
+  return [source, type, description, normalizeUnit(unit)].join('\u0000');
+}
+
+function emptyTotals(): CostTotals {
+  return { material_cost: 0, labor_cost: 0, equipment_cost: 0, total_cost: 0, labor_hours: 0, equipment_hours: 0 };
+}
+
+function priceListSummary(priceList: PriceList): CostEstimatePriceList {
+  return {
+    id: priceList.id,
+    name: priceList.name,
+    region: priceList.region,
+    effective_date: priceList.effective_date,
+    currency: priceList.currency
+  };
+}
+
+/**
+ * Quantidades de um takeoff (totais do takeoff ou medidas gravadas no metadata)
+ */
+function takeoffQuantities(takeoff: Takeoff): QuantityReportItem[] {
+  const candidates: Array<[string, string, number | undefined]> = [
+    ['Comprimento', 'm', takeoff.total_length ?? takeoff.metadata?.length],
+    ['Área', 'm²', takeoff.total_area ?? takeoff.metadata?.area],
+    ['Volume', 'm³', takeoff.total_volume ?? takeoff.metadata?.volume]
+  ];
+
+  return candidates
+    .filter(([, , quantity]) => typeof quantity === 'number' && isFinite(quantity) && quantity > 0)
+    .map(([description, unit, quantity]) => ({ description, unit, quantity: quantity as number }));
+}
+
+/**
+ * Indexar os vínculos do catálogo; o vínculo só vale quando a unidade do item é a da quantidade
+ */
+function buildContext(items: PriceCatalogItem[], priceList: PriceList): PricingContext {
+  const mappings: PricingContext['mappings'] = new Map();
+
+  for (const item of items) {
+    for (const mapping of item.mappings) {
+      const key = mappingKey(mapping.source, mapping.type, mapping.quantity, item.unit);
+      const linked = mappings.get(key) || [];
+      linked.push({ item, factor: mapping.factor ?? 1 });
+      mappings.set(key, linked);
+    }
+  }
+
+  return {
+    mappings,
+    prices: new Map(priceList.prices.map(entry => [entry.item_id, entry])),
+    items: new Map(items.map(item => [item.id, item])),
+    codes: new Map(items.map(item => [item.code, item])),
+    unmapped: new Map(),
+    unpriced: new Set()
+  };
+}
+
+function addItemQuantity(context: PricingContext, target: Map<string, number>, item: PriceCatalogItem, quantity: number): void {
+  if (!context.prices.has(item.id)) {
+    context.unpriced.add(item.code);
+    return;
+  }
+  target.set(item.id, (target.get(item.id) || 0) + quantity);
+}
+
+/**
+ * Acumular, por item do catálogo, as quantidades medidas vinculadas.
+ * Com código de composição, a quantidade na unidade da composição vai direto para ela;
+ * composição desconhecida ou sem quantidade nessa unidade segue pelos vínculos do catálogo.
+ */
+function addQuantities(
+  context: PricingContext,
+  target: Map<string, number>,
+  source: CostSource,
+  type: string,
+  quantities: QuantityReportItem[],
+  compositionCode?: string
+): void {
+  if (compositionCode) {
+    const item = context.codes.get(compositionCode);
+    const quantity = item && quantities.find(candidate => normalizeUnit(candidate.unit) === normalizeUnit(item.unit));
+
+    if (item && quantity) {
+      addItemQuantity(context, target, item, quantity.quantity);
+      return;
+    }
+    if (!item) {
+      context.unpriced.add(compositionCode);
+    }
+  }
+
+  for (const quantity of quantities) {
+    const key = mappingKey(source, type, quantity.description, quantity.unit);
+    const linked = context.mappings.get(key);
+
+    if (!linked) {
+      const unmapped = context.unmapped.get(key) || { source, type, description: quantity.description, unit: quantity.unit, quantity: 0 };
+      unmapped.quantity = round(unmapped.quantity + quantity.quantity);
+      context.unmapped.set(key, unmapped);
+      continue;
+    }
+
+    for (const { item, factor } of linked) {
+      addItemQuantity(context, target, item, quantity.quantity * factor);
+    }
+  }
+}
+
+/**
+ * Valorar as quantidades por item: material por unidade, mão de obra e equipamento por hora
+ */
+function buildLines(context: PricingContext, quantities: Map<string, number>): CostLine[] {
+  const lines: CostLine[] = [];
+
+  for (const [itemId, quantity] of quantities) {
+    const item = context.items.get(itemId) as PriceCatalogItem;
+    const price = context.prices.get(itemId) as PriceListEntry;
+    const laborHours = quantity * item.labor_hours_per_unit;
+    const equipmentHours = quantity * item.equipment_hours_per_unit;
+    const materialCost = quantity * price.material_cost;
+    const laborCost = laborHours * price.labor_rate;
+    const equipmentCost = equipmentHours * price.equipment_rate;
+
+    lines.push({
+      item_id: item.id,
+      code: item.code,
+      description: item.description,
+      ...(item.category && { category: item.category }),
+      unit: item.unit,
+      quantity: round(quantity),
+      unit_cost: money(
+        price.material_cost +
+        item.labor_hours_per_unit * price.labor_rate +
+        item.equipment_hours_per_unit * price.equipment_rate
+      ),
+      material_cost: money(materialCost),
+      labor_cost: money(laborCost),
+      equipment_cost: money(equipmentCost),
+      total_cost: money(materialCost + laborCost + equipmentCost),
+      labor_hours: round(laborHours),
+      equipment_hours: round(equipmentHours)
+    });
+  }
+
+  return lines.sort((a, b) => a.code.localeCompare(b.code, 'pt-BR'));
+}
+
+function sumTotals(lines: CostLine[]): CostTotals {
+  const totals = emptyTotals();
+
+  for (const line of lines) {
+    totals.material_cost += line.material_cost;
+    totals.labor_cost += line.labor_cost;
+    totals.equipment_cost += line.equipment_cost;
+    totals.total_cost += line.total_cost;
+    totals.labor_hours += line.labor_hours;
+    totals.equipment_hours += line.equipment_hours;
+  }
+
+  return {
+    material_cost: money(totals.material_cost),
+    labor_cost: money(totals.labor_cost),
+    equipment_cost: money(totals.equipment_cost),
+    total_cost: money(totals.total_cost),
+    labor_hours: round(totals.labor_hours),
+    equipment_hours: round(totals.equipment_hours)
+  };
+}
+
+export class CostEstimationService {
+  private projectService: ProjectService;
+  private measurementService: MeasurementService;
+  private civilMeasurementService: CivilMeasurementService;
+  private takeoffService: TakeoffUnifiedService;
+  private priceCatalogService: PriceCatalogService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+    this.measurementService = new MeasurementService();
+    this.civilMeasurementService = new CivilMeasurementService();
+    this.takeoffService = new TakeoffUnifiedService();
+    this.priceCatalogService = new PriceCatalogService();
+  }
+
+  /**
+   * Orçar um takeoff e gravar o resultado: itens do takeoff (custo unitário, total,
+   * horas de mão de obra e equipamento), custo total e horas estimadas do takeoff
+   */
+  async estimateTakeoff(takeoffId: string, options: CostEstimateOptions, userId: string): Promise<TakeoffCostResult> {
+    const result = await this.takeoffService.getTakeoffById(takeoffId, userId);
+
+    if (!result.success || !result.data) {
+      throw new NotFoundError('Takeoff não encontrado');
+    }
+
+    const takeoff = result.data;
+    const priceList = await this.priceCatalogService.resolvePriceList(options);
+    const context = buildContext(await this.priceCatalogService.listItems(), priceList);
+
+    const quantities = new Map<string, number>();
+    addQuantities(context, quantities, 'takeoff', takeoff.type, takeoffQuantities(takeoff));
+    const lines = buildLines(context, quantities);
+    const totals = sumTotals(lines);
+
+    const saved = await this.takeoffService.replaceTakeoffItems(takeoffId, lines.map(line => ({
+      takeoff_id: takeoffId,
+      name: line.description,
+      category: line.category || 'geral',
+      unit: line.unit,
+      quantity: line.quantity,
+      unit_cost: line.unit_cost,
+      labor_hours: line.labor_hours,
+      equipment_hours: line.equipment_hours,
+      metadata: {
+        catalog_item_id: line.item_id,
+        code: line.code,
+        price_list_id: priceList.id,
+        material_cost: line.material_cost,
+        labor_cost: line.labor_cost,
+        equipment_cost: line.equipment_cost
+      }
+    })), userId);
+
+    if (!saved.success) {
+      throw new Error(saved.error || saved.message);
+    }
+
+    await this.takeoffService.updateTakeoff(takeoffId, {
+      id: takeoffId,
+      total_cost: totals.total_cost,
+      estimated_hours: totals.labor_hours
+    }, userId);
+
+    return {
+      takeoff_id: takeoffId,
+      project_id: takeoff.project_id,
+      price_list: priceListSummary(priceList),
+      lines,
+      totals,
+      unmapped: Array.from(context.unmapped.values()),
+      unpriced: Array.from(context.unpriced).sort(),
+      generated_at: new Date().toISOString(),
+      items: saved.data || []
+    };
+  }
+
+  /**
+   * Orçamento de uma medição civil (pela composição de referência ou pelos vínculos do catálogo)
+   */
+  async estimateCivilMeasurement(measurementId: string, options: CostEstimateOptions): Promise<MeasurementCostEstimate> {
+    const measurement = await this.civilMeasurementService.getMeasurementById(measurementId);
+
+    if (!measurement) {
+      throw new NotFoundError('Medição não encontrada');
+    }
+
+    const priceList = await this.priceCatalogService.resolvePriceList(options);
+    const context = buildContext(await this.priceCatalogService.listItems(), priceList);
+    const compositionCode = measurement.data.composition_code;
+
+    const quantities = new Map<string, number>();
+    addQuantities(context, quantities, 'civil', measurement.type, getMeasurementQuantities('civil', measurement.type, measurement.data), compositionCode);
+    const lines = buildLines(context, quantities);
+
+    return {
+      measurement_id: measurement.id,
+      project_id: measurement.project_id,
+      type: measurement.type,
+      label: measurement.data.label,
+      composition_code: compositionCode || null,
+      price_list: priceListSummary(priceList),
+      lines,
+      totals: sumTotals(lines),
+      unmapped: Array.from(context.unmapped.values()),
+      unpriced: Array.from(context.unpriced).sort(),
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Orçamento do projeto: medições de infraestrutura e civis e takeoffs, somados por item,
+   * por origem e por takeoff (sem gravar nada)
+   */
+  async estimateProject(projectId: string, options: CostEstimateOptions): Promise<ProjectCostEstimate> {
+    if (!(await this.projectService.getProjectById(projectId))) {
+      throw new NotFoundError('Projeto não encontrado');
+    }
+
+    const priceList = await this.priceCatalogService.resolvePriceList(options);
+    const context = buildContext(await this.priceCatalogService.listItems(), priceList);
+
+    const measurements = await this.measurementService.listMeasurements({ project_id: projectId, limit: Number.MAX_SAFE_INTEGER });
+    const civilMeasurements = await this.civilMeasurementService.listMeasurements(projectId);
+    const takeoffsResult = await this.takeoffService.listTakeoffs({ project_id: projectId, limit: Number.MAX_SAFE_INTEGER }, '');
+    const takeoffs = takeoffsResult.data?.data || [];
+
+    const projectQuantities = new Map<string, number>();
+    const bySource: Partial<Record<CostSource, Map<string, number>>> = {};
+    const addTo = (source: CostSource, type: string, quantities: QuantityReportItem[], compositionCode?: string): Map<string, number> => {
+      const sourceQuantities = bySource[source] || new Map<string, number>();
+      const own = new Map<string, number>();
+      addQuantities(context, own, source, type, quantities, compositionCode);
+
+      for (const [itemId, quantity] of own) {
+        sourceQuantities.set(itemId, (sourceQuantities.get(itemId) || 0) + quantity);
+        projectQuantities.set(itemId, (projectQuantities.get(itemId) || 0) + quantity);
+      }
+      bySource[source] = sourceQuantities;
+      return own;
+    };
+
+    for (const measurement of measurements) {
+      addTo('infrastructure', measurement.type, getMeasurementQuantities('infrastructure', measurement.type, measurement.data));
+    }
+    for (const measurement of civilMeasurements) {
+      addTo('civil', measurement.type, getMeasurementQuantities('civil', measurement.type, measurement.data), measurement.data.composition_code);
+    }
+    const takeoffCosts = takeoffs.map(takeoff => ({
+      takeoff_id: takeoff.id,
+      name: takeoff.name,
+      type: takeoff.type,
+      totals: sumTotals(buildLines(context, addTo('takeoff', takeoff.type, takeoffQuantities(takeoff))))
+    }));
+
+    const lines = buildLines(context, projectQuantities);
+    const sourceTotals: ProjectCostEstimate['by_source'] = {};
+    for (const [source, quantities] of Object.entries(bySource) as Array<[CostSource, Map<string, number>]>) {
+      sourceTotals[source] = sumTotals(buildLines(context, quantities));
+    }
+
+    return {
+      project_id: projectId,
+      price_list: priceListSummary(priceList),
+      lines,
+      by_source: sourceTotals,
+      takeoffs: takeoffCosts,
+      totals: sumTotals(lines),
+      unmapped: Array.from(context.unmapped.values()),
+      unpriced: Array.from(context.unpriced).sort(),
+      generated_at: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,213 @@
+// ============================================================================
+// BALANÇO DE TERRAPLENAGEM (CORTE/ATERRO) DO PROJETO
+// Soma trincheiras, câmaras e hidroescavações aplicando empolamento e contração
+// ============================================================================
+
+import { config } from '../config/app';
+import { NotFoundError } from '../middleware/errorHandler';
+import {
+  EarthworkBalance,
+  EarthworkBalanceItem,
+  EarthworkMeasurementType,
+  HydroExcavationMeasurement,
+  Measurement,
+  SoilType,
+  TrenchMeasurement,
+  VaultMeasurement
+} from '../types/measurement';
+import {
+  SOIL_EXPANSION_FACTORS,
+  SOIL_CONTRACTION_FACTORS,
+  calculateCutVolumeFromCompactedFill,
+  calculateLooseVolumeFromCut,
+  calculateTransportVolumeForCompactedFill
+} from './measurement-calculations-viaplan';
+import { MeasurementService } from './measurement-service';
+import { ProjectService } from './project-service';
+
+const EARTHWORK_TYPES: EarthworkMeasurementType[] = ['trench', 'vault', 'hydro-excavation'];
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function valid(value: number | undefined): number {
+  return value !== undefined && isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Número de viagens para transportar o volume solto
+ */
+export function calculateTruckLoads(looseVolume: number, truckCapacity: number): number {
+  if (truckCapacity <= 0) {
+    throw new Error('Capacidade do caminhão deve ser maior que zero');
+  }
+  // Tolerância para não contar uma viagem extra por arredondamento
+  return looseVolume > 0 ? Math.ceil(looseVolume / truckCapacity - 1e-9) : 0;
+}
+
+/**
+ * Converter volume de corte (positivo: sobra, negativo: falta) para volume solto
+ */
+function toLoose(bankVolume: number, expansionRate: number): number {
+  const loose = calculateLooseVolumeFromCut(Math.abs(bankVolume), expansionRate);
+  return bankVolume < 0 ? -loose : loose;
+}
+
+/**
+ * Volumes de uma medição no balanço (null para tipos sem movimentação de terra)
+ */
+function earthworkItem(measurement: Measurement): EarthworkBalanceItem | null {
+  let soilType: SoilType = 'misturado';
+  let expansionRate: number | undefined;
+  let contractionRate: number | undefined;
+  let cut = 0;
+  let nativeFill = 0;
+  let importedFill = 0;
+
+  switch (measurement.type) {
+    case 'trench': {
+      const data = measurement.data as TrenchMeasurement;
+      const soilConfig = data.soil_expansion_config;
+      soilType = soilConfig?.soil_type || data.soil_type || 'misturado';
+      expansionRate = soilConfig?.expansion_rate;
+      contractionRate = soilConfig?.contraction_rate
+        || SOIL_CONTRACTION_FACTORS[soilConfig?.contraction_type || 'normal'];
+      cut = valid(data.volume_m3);
+      // Sem reaterro informado, todo o corte vai para bota-fora
+      if (data.backfill) {
+        if (data.backfill.type === 'solo_nativo') {
+          nativeFill = valid(data.backfill.volume_m3);
+        } else {
+          importedFill = valid(data.backfill.volume_m3);
+        }
+      }
+      break;
+    }
+    case 'vault': {
+      const data = measurement.data as VaultMeasurement;
+      // Volumes da câmara são por unidade
+      const quantity = data.quantity || 1;
+      cut = valid(data.volumes?.excavation_m3) * quantity;
+      const backfill = valid(data.volumes?.backfill_m3) * quantity;
+      if ((data.volumes?.backfill_type || 'solo_nativo') === 'solo_nativo') {
+        nativeFill = backfill;
+      } else {
+        importedFill = backfill;
+      }
+      break;
+    }
+    case 'hydro-excavation': {
+      const data = measurement.data as HydroExcavationMeasurement;
+      cut = valid(data.volume_removed_m3);
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const expansion = expansionRate || SOIL_EXPANSION_FACTORS[soilType] || 0.25;
+  const contraction = contractionRate || 0.10;
+  // Corte consumido pelo reaterro nativo (compactado) e o que sobra ou falta
+  const cutForFill = calculateCutVolumeFromCompactedFill(nativeFill, contraction);
+
+  return {
+    measurement_id: measurement.id,
+    type: measurement.type as EarthworkMeasurementType,
+    label: (measurement.data as any).label || '',
+    soil_type: soilType,
+    expansion_rate: expansion,
+    contraction_rate: contraction,
+    cut_m3: round(cut),
+    native_fill_m3: round(nativeFill),
+    imported_fill_m3: round(importedFill),
+    surplus_loose_m3: round(toLoose(cut - cutForFill, expansion))
+  };
+}
+
+export class EarthworkService {
+  private projectService: ProjectService;
+  private measurementService: MeasurementService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+    this.measurementService = new MeasurementService();
+  }
+
+  /**
+   * Balanço de corte/aterro do projeto com bota-fora, importação e viagens de caminhão.
+   * Sobras e faltas de solo nativo se compensam entre as medições do projeto;
+   * o material importado (reaterro diferente de solo nativo) sempre entra como importação.
+   */
+  async getProjectBalance(projectId: string, truckCapacity: number = config.TRUCK_CAPACITY_M3): Promise<EarthworkBalance> {
+    if (!(await this.projectService.getProjectById(projectId))) {
+      throw new NotFoundError('Projeto não encontrado');
+    }
+
+    const measurements = await this.measurementService.listMeasurements({ project_id: projectId, limit: Number.MAX_SAFE_INTEGER });
+    const items = measurements
+      .filter(m => EARTHWORK_TYPES.includes(m.type as EarthworkMeasurementType))
+      .map(earthworkItem)
+      .filter((item): item is EarthworkBalanceItem => item !== null);
+
+    const totals: EarthworkBalance['totals'] = {
+      count: 0,
+      cut_m3: 0,
+      native_fill_m3: 0,
+      imported_fill_m3: 0,
+      cut_for_native_fill_m3: 0
+    };
+    const byType: EarthworkBalance['by_type'] = {};
+    let nativeSurplusLoose = 0;
+    let importedLoose = 0;
+
+    for (const item of items) {
+      totals.count++;
+      totals.cut_m3 += item.cut_m3;
+      totals.native_fill_m3 += item.native_fill_m3;
+      totals.imported_fill_m3 += item.imported_fill_m3;
+      totals.cut_for_native_fill_m3 += calculateCutVolumeFromCompactedFill(item.native_fill_m3, item.contraction_rate);
+
+      const group = byType[item.type] || { count: 0, cut_m3: 0, native_fill_m3: 0, imported_fill_m3: 0, surplus_loose_m3: 0 };
+      group.count++;
+      group.cut_m3 = round(group.cut_m3 + item.cut_m3);
+      group.native_fill_m3 = round(group.native_fill_m3 + item.native_fill_m3);
+      group.imported_fill_m3 = round(group.imported_fill_m3 + item.imported_fill_m3);
+      group.surplus_loose_m3 = round(group.surplus_loose_m3 + item.surplus_loose_m3);
+      byType[item.type] = group;
+
+      nativeSurplusLoose += item.surplus_loose_m3;
+      if (item.imported_fill_m3 > 0) {
+        importedLoose += calculateTransportVolumeForCompactedFill(item.imported_fill_m3);
+      }
+    }
+
+    const exportLoose = round(Math.max(nativeSurplusLoose, 0));
+    const importLoose = round(Math.max(-nativeSurplusLoose, 0) + importedLoose);
+    const exportLoads = calculateTruckLoads(exportLoose, truckCapacity);
+    const importLoads = calculateTruckLoads(importLoose, truckCapacity);
+
+    return {
+      project_id: projectId,
+      truck_capacity_m3: truckCapacity,
+      totals: {
+        count: totals.count,
+        cut_m3: round(totals.cut_m3),
+        native_fill_m3: round(totals.native_fill_m3),
+        imported_fill_m3: round(totals.imported_fill_m3),
+        cut_for_native_fill_m3: round(totals.cut_for_native_fill_m3)
+      },
+      by_type: byType,
+      export_loose_m3: exportLoose,
+      import_loose_m3: importLoose,
+      net_loose_m3: round(exportLoose - importLoose),
+      truck_loads: {
+        export: exportLoads,
+        import: importLoads,
+        total: exportLoads + importLoads
+      },
+      items,
+      generated_at: new Date().toISOString()
+    };
+  }
+}
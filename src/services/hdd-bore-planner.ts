@@ -0,0 +1,268 @@
+// ============================================================================
+// PROJETO DE PERFURAÇÃO DIRECIONAL (HDD)
+// Gera o perfil 3D (tangente, curva, trecho horizontal, curva, tangente)
+// a partir dos pontos de entrada/saída, ângulos, cobertura e raio mínimo
+// ============================================================================
+
+import {
+  BoreObstacleCheck,
+  BorePlan,
+  BorePlanOptions,
+  BorePlanSegment,
+  Coordinate
+} from '../types/measurement';
+import { calculateBoreShotLength, validateBoreShotRadius } from './measurement-calculations-viaplan';
+import { ValidationError } from '../middleware/errorHandler';
+
+const EPSILON = 1e-6;
+const DEFAULT_MIN_DEPTH_M = 2.44; // 8 ft
+const DEFAULT_MIN_RADIUS_M = 45.72; // 150 ft
+const DEFAULT_STEP_M = 3;
+
+// Limites da discretização: a rota de cálculo é pública
+const MIN_STEP_M = 0.5;
+const MAX_CURVATURE_RADIUS_M = 2000;
+const MAX_ARC_SEGMENTS = 2000; // Soma das duas curvas
+
+// Folga no raio de projeto para absorver o arredondamento das coordenadas
+const RADIUS_MARGIN = 1.005;
+
+// Erro máximo do arredondamento das coordenadas (4 casas decimais)
+const ROUNDING_ERROR_M = 0.00005;
+
+/**
+ * Trecho de entrada ou saída: tangente inclinada seguida de curva até a horizontal.
+ * As distâncias são medidas a partir da respectiva extremidade.
+ */
+interface BoreSide {
+  angle: number; // Radianos
+  startDepth: number;
+  radius: number; // Raio de projeto da curva
+  arcSegments: number;
+  tangentLength: number;
+  tangentRun: number; // Projeção horizontal da tangente
+  arcRun: number; // Projeção horizontal da curva
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Raio de projeto da curva discretizada em n cordas (de comprimento step, ou maiores
+ * quando o raio exige).
+ * A validação mede o raio como corda / deflexão, que subestima o raio do arco;
+ * o raio de projeto compensa isso para que cada tripla de pontos respeite o mínimo.
+ */
+function buildSide(angleDegrees: number, startDepth: number, minRadius: number, step: number): Omit<BoreSide, 'tangentLength' | 'tangentRun' | 'arcRun'> {
+  const angle = angleDegrees * Math.PI / 180;
+  // Cordas curtas demais tornam o raio medido sensível ao arredondamento: o erro relativo
+  // é ~ 4 * erro * R / corda², que precisa caber (com folga de 2x) na margem do raio
+  const minChord = Math.sqrt((8 * ROUNDING_ERROR_M * minRadius) / (RADIUS_MARGIN - 1));
+  const arcSegments = Math.max(1, Math.ceil((minRadius * angle) / Math.max(step, minChord)));
+  const halfDeflection = angle / arcSegments / 2;
+  const radius = minRadius * (halfDeflection / Math.sin(halfDeflection)) * RADIUS_MARGIN;
+
+  return { angle, startDepth, radius, arcSegments };
+}
+
+/**
+ * Profundidade atingida ao fim da curva quando não há tangente
+ */
+function arcDrop(side: Pick<BoreSide, 'angle' | 'radius'>): number {
+  return side.radius * (1 - Math.cos(side.angle));
+}
+
+function completeSide(side: Omit<BoreSide, 'tangentLength' | 'tangentRun' | 'arcRun'>, depth: number): BoreSide {
+  const tangentLength = Math.max(depth - side.startDepth - arcDrop(side), 0) / Math.sin(side.angle);
+
+  return {
+    ...side,
+    tangentLength,
+    tangentRun: tangentLength * Math.cos(side.angle),
+    arcRun: side.radius * Math.sin(side.angle)
+  };
+}
+
+/**
+ * Pontos (distância horizontal a partir da extremidade, profundidade) do trecho
+ */
+function sidePoints(side: BoreSide): Array<[number, number]> {
+  const points: Array<[number, number]> = [[0, side.startDepth]];
+  const tangentDepth = side.startDepth + side.tangentLength * Math.sin(side.angle);
+
+  if (side.tangentLength > EPSILON) {
+    points.push([side.tangentRun, tangentDepth]);
+  }
+
+  for (let k = 1; k <= side.arcSegments; k++) {
+    const phi = side.angle * (1 - k / side.arcSegments);
+    points.push([
+      side.tangentRun + side.radius * (Math.sin(side.angle) - Math.sin(phi)),
+      tangentDepth + side.radius * (Math.cos(phi) - Math.cos(side.angle))
+    ]);
+  }
+
+  return points;
+}
+
+/**
+ * Profundidade do furo a uma distância horizontal da extremidade
+ */
+function sideDepthAt(side: BoreSide, distance: number, depth: number): number {
+  if (distance <= side.tangentRun) {
+    return side.startDepth + distance * Math.tan(side.angle);
+  }
+  if (distance <= side.tangentRun + side.arcRun) {
+    const tangentDepth = side.startDepth + side.tangentLength * Math.sin(side.angle);
+    const phi = Math.asin(Math.max(Math.sin(side.angle) - (distance - side.tangentRun) / side.radius, 0));
+    return tangentDepth + side.radius * (Math.cos(phi) - Math.cos(side.angle));
+  }
+  return depth;
+}
+
+/**
+ * Raio mínimo de curvatura exigido: valor informado ou o maior entre os condutos
+ */
+export function getBoreMinCurvatureRadius(options: Pick<BorePlanOptions, 'conduits' | 'min_curvature_radius_m'>): number {
+  if (options.min_curvature_radius_m) {
+    return options.min_curvature_radius_m;
+  }
+  const radii = (options.conduits || [])
+    .map(conduit => conduit.min_curvature_radius_m)
+    .filter(radius => radius > 0);
+  return radii.length > 0 ? Math.max(...radii) : DEFAULT_MIN_RADIUS_M;
+}
+
+/**
+ * Gerar perfil de perfuração que respeita ângulos, raio mínimo e coberturas.
+ * Coordenadas em metros; z é a profundidade (positiva para baixo), como em BoreShotMeasurement.
+ */
+export function designBorePlan(options: BorePlanOptions): BorePlan {
+  const { entry, exit, entry_angle_degrees, exit_angle_degrees } = options;
+  const horizontalDistance = Math.hypot(exit.x - entry.x, exit.y - entry.y);
+
+  if (horizontalDistance < EPSILON) {
+    throw new Error('Entrada e saída devem estar em posições diferentes');
+  }
+
+  const minRadius = getBoreMinCurvatureRadius(options);
+  const step = options.step_m || DEFAULT_STEP_M;
+  if (step < MIN_STEP_M) {
+    throw new ValidationError(`Passo (step) deve ser de pelo menos ${MIN_STEP_M} m`);
+  }
+  if (minRadius > MAX_CURVATURE_RADIUS_M) {
+    throw new ValidationError(`Raio mínimo de curvatura acima do limite de ${MAX_CURVATURE_RADIUS_M} m`);
+  }
+  const cover = options.cover_m || 0;
+  const obstacles = options.obstacles || [];
+
+  const entrySide = buildSide(entry_angle_degrees, entry.z || 0, minRadius, step);
+  const exitSide = buildSide(exit_angle_degrees, exit.z || 0, minRadius, step);
+
+  if (entrySide.arcSegments + exitSide.arcSegments > MAX_ARC_SEGMENTS) {
+    throw new ValidationError(
+      `As curvas exigiriam ${entrySide.arcSegments + exitSide.arcSegments} segmentos (máximo ${MAX_ARC_SEGMENTS}); aumente o passo (step)`
+    );
+  }
+
+  // Profundidade do trecho horizontal: mínima, obstáculos + cobertura, ou a imposta pelas curvas
+  const depth = Math.max(
+    options.min_depth_m ?? DEFAULT_MIN_DEPTH_M,
+    ...obstacles.map(obstacle => obstacle.depth_m + cover),
+    entrySide.startDepth + arcDrop(entrySide),
+    exitSide.startDepth + arcDrop(exitSide)
+  );
+
+  const entryPath = completeSide(entrySide, depth);
+  const exitPath = completeSide(exitSide, depth);
+  const entryRun = entryPath.tangentRun + entryPath.arcRun;
+  const exitRun = exitPath.tangentRun + exitPath.arcRun;
+  const horizontalRun = horizontalDistance - entryRun - exitRun;
+
+  if (horizontalRun < -EPSILON) {
+    throw new Error(
+      `Distância insuficiente: entrada e saída exigem ${round(entryRun + exitRun)} m em planta ` +
+      `para atingir ${round(depth)} m com raio mínimo de ${minRadius} m, mas a distância é ${round(horizontalDistance)} m`
+    );
+  }
+
+  const depthAt = (station: number): number => {
+    if (station < entryRun) return sideDepthAt(entryPath, station, depth);
+    if (station > horizontalDistance - exitRun) return sideDepthAt(exitPath, horizontalDistance - station, depth);
+    return depth;
+  };
+
+  // O perfil desce, segue na horizontal e sobe: a menor profundidade sob o obstáculo está nas bordas
+  const obstacleChecks: BoreObstacleCheck[] = obstacles.map(obstacle => {
+    const start = Math.min(Math.max(obstacle.station_m, 0), horizontalDistance);
+    const end = Math.min(Math.max(obstacle.station_m + (obstacle.length_m || 0), 0), horizontalDistance);
+    const boreDepth = Math.min(depthAt(start), depthAt(end));
+    const requiredDepth = obstacle.depth_m + cover;
+
+    return {
+      ...obstacle,
+      required_depth_m: round(requiredDepth),
+      bore_depth_m: round(boreDepth),
+      passed: boreDepth >= requiredDepth - EPSILON
+    };
+  });
+
+  const failed = obstacleChecks.filter(check => !check.passed);
+  if (failed.length > 0) {
+    const names = failed.map(check => check.label || `estaca ${check.station_m} m`).join(', ');
+    throw new Error(
+      `Cobertura insuficiente sob ${names}: o obstáculo fica no trecho de entrada ou saída. ` +
+      'Aumente os ângulos ou afaste os pontos de entrada e saída do obstáculo'
+    );
+  }
+
+  // Perfil em (estaca, profundidade): entrada, trecho horizontal e saída espelhada
+  const profile: Array<[number, number]> = [
+    ...sidePoints(entryPath),
+    ...sidePoints(exitPath).reverse().map(([distance, z]) => [horizontalDistance - distance, z] as [number, number])
+  ].filter((point, index, points) => index === 0 || point[0] - points[index - 1][0] > EPSILON);
+
+  const coordinates: Coordinate[] = profile.map(([station, z]) => {
+    const t = station / horizontalDistance;
+    return {
+      x: round(entry.x + (exit.x - entry.x) * t),
+      y: round(entry.y + (exit.y - entry.y) * t),
+      z: round(z)
+    };
+  });
+
+  const segments: BorePlanSegment[] = [];
+  const addSegment = (type: BorePlanSegment['type'], start: number, run: number, length: number): void => {
+    if (length > EPSILON) {
+      segments.push({ type, start_station_m: round(start), end_station_m: round(start + run), length_m: round(length) });
+    }
+  };
+  addSegment('tangent', 0, entryPath.tangentRun, entryPath.tangentLength);
+  addSegment('arc', entryPath.tangentRun, entryPath.arcRun, entryPath.radius * entryPath.angle);
+  addSegment('horizontal', entryRun, Math.max(horizontalRun, 0), Math.max(horizontalRun, 0));
+  addSegment('arc', horizontalDistance - exitRun, exitPath.arcRun, exitPath.radius * exitPath.angle);
+  addSegment('tangent', horizontalDistance - exitPath.tangentRun, exitPath.tangentRun, exitPath.tangentLength);
+
+  // O arredondamento das coordenadas pode quebrar o raio em cordas muito curtas
+  const radiusCheck = validateBoreShotRadius(coordinates, minRadius);
+  if (!radiusCheck.passed) {
+    throw new ValidationError(
+      `O perfil gerado não respeita o raio mínimo de ${minRadius} m ` +
+      `(menor raio: ${round(radiusCheck.min_radius_actual_m)} m); aumente o passo (step)`
+    );
+  }
+
+  return {
+    coordinates,
+    length_m: round(calculateBoreShotLength(coordinates)),
+    horizontal_distance_m: round(horizontalDistance),
+    depth_m: round(depth),
+    min_curvature_radius_m: minRadius,
+    entry_angle_degrees,
+    exit_angle_degrees,
+    segments,
+    obstacle_checks: obstacleChecks,
+    radius_check: radiusCheck
+  };
+}
@@ -0,0 +1,37 @@
+// ============================================================================
+// HANDLERS DA FILA DE JOBS
+// Liga cada tipo de job ao serviço que faz o trabalho
+// ============================================================================
+
+import { PlantPagesJobPayload, QuickTakeoffPagesJobPayload } from '../types/job';
+import { jobQueue } from './job-queue-service';
+import { PlantPageService } from './plant-page-service';
+import { PlantsUnifiedService } from './plants-unified-service';
+import { quickTakeoffService } from './quick-takeoff-service';
+
+/**
+ * Registrar os handlers antes de iniciar a fila
+ */
+export function registerJobHandlers(): void {
+  const plantsService = new PlantsUnifiedService();
+  const pageService = new PlantPageService();
+
+  // Páginas, imagens e miniaturas da planta; ao terminar, a planta volta ao status de antes do processamento
+  jobQueue.registerHandler<PlantPagesJobPayload, { pages: number }>(
+    'plant-pages',
+    async (job, progress) => {
+      const pages = await pageService.processPlant(job.payload.plant_id, progress);
+      await plantsService.finishPages(job.payload.plant_id, job.id, false);
+      return { pages: pages.length };
+    },
+    async job => {
+      await plantsService.finishPages(job.payload.plant_id, job.id, true);
+    }
+  );
+
+  // Imagens das páginas do PDF do quick takeoff (cache de /page/:pageNumber/image)
+  jobQueue.registerHandler<QuickTakeoffPagesJobPayload, { pages: number; dpi: number }>(
+    'quick-takeoff-pages',
+    (job, progress) => quickTakeoffService.renderPageImages(job.payload.takeoff_id, job.payload.file_name, progress, job.payload.dpi)
+  );
+}
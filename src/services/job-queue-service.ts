@@ -0,0 +1,275 @@
+// ============================================================================
+// FILA DE JOBS EM SEGUNDO PLANO
+// Trabalho pesado (renderização de PDFs, OCR, exportações) sai do ciclo da
+// requisição: a rota grava o job e responde; a fila executa no próprio processo,
+// com tentativas, progresso e registros duráveis em data/jobs
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/app';
+import { log } from '../utils/winstonLogger';
+import { getRepository, Repository } from '../repositories';
+import { EnqueueJobOptions, Job, JobType } from '../types/job';
+
+/**
+ * Executa o job; progress recebe o percentual concluído (0-100)
+ */
+export type JobHandler<P = any, R = any> = (job: Job<P, R>, progress: (percent: number) => Promise<void>) => Promise<R>;
+
+/**
+ * Chamado quando o job falha de vez (sem tentativas restantes)
+ */
+export type JobFailureHandler<P = any> = (job: Job<P>, error: Error) => Promise<void>;
+
+interface RegisteredHandler {
+  run: JobHandler;
+  onFailure?: JobFailureHandler;
+}
+
+export class JobQueueService {
+  private jobs: Repository<Job>;
+  private handlers = new Map<JobType, RegisteredHandler>();
+  private started = false;
+  private running = 0;
+  private draining = false;
+  private drainAgain = false;
+
+  constructor() {
+    this.jobs = getRepository<Job>('jobs', { indexes: ['status', 'type'] });
+  }
+
+  /**
+   * Registrar quem executa um tipo de job
+   */
+  registerHandler<P, R>(type: JobType, run: JobHandler<P, R>, onFailure?: JobFailureHandler<P>): void {
+    this.handlers.set(type, { run: run as JobHandler, ...(onFailure && { onFailure: onFailure as JobFailureHandler }) });
+  }
+
+  /**
+   * Começar a executar jobs. Jobs interrompidos por uma parada do servidor
+   * ("running" no disco) voltam para a fila.
+   */
+  async start(): Promise<void> {
+    const interrupted = await this.jobs.find({ where: { status: 'running' } });
+
+    for (const job of interrupted) {
+      job.status = 'queued';
+      job.error = 'Interrompido pela parada do servidor';
+      job.updated_at = new Date().toISOString();
+      await this.jobs.save(job);
+    }
+
+    this.started = true;
+    log.info('Fila de jobs iniciada', {
+      concurrency: config.JOB_CONCURRENCY,
+      handlers: Array.from(this.handlers.keys()),
+      requeued: interrupted.length
+    });
+
+    this.scheduleDrain(0);
+  }
+
+  /**
+   * Colocar um job na fila
+   */
+  async enqueue<P>(type: JobType, payload: P, options: EnqueueJobOptions = {}): Promise<Job<P>> {
+    const now = new Date().toISOString();
+    const job: Job<P> = {
+      id: uuidv4(),
+      type,
+      status: 'queued',
+      payload,
+      progress: 0,
+      attempts: 0,
+      max_attempts: options.max_attempts || config.JOB_MAX_ATTEMPTS,
+      ...(options.created_by && { created_by: options.created_by }),
+      run_after: now,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.jobs.save(job);
+    log.info('Job enfileirado', { jobId: job.id, type });
+
+    this.scheduleDrain(0);
+
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<Job | null> {
+    return this.jobs.findById(jobId);
+  }
+
+  /**
+   * Job do tipo ainda na fila ou em execução cujo payload satisfaz o filtro
+   * (evita enfileirar o mesmo trabalho duas vezes). Com createdBy, só jobs desse
+   * usuário: o status de um job (GET /api/jobs/:id) só é visível para quem o criou.
+   */
+  async findPending<P>(type: JobType, match: (payload: P) => boolean, createdBy?: string): Promise<Job<P> | null> {
+    for (const status of ['running', 'queued'] as const) {
+      const job = (await this.jobs.find({ where: { status, type, created_by: createdBy } })).find(candidate => match(candidate.payload));
+      if (job) {
+        return job;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Remover jobs concluídos ou falhos há mais de JOB_RETENTION_DAYS dias
+   */
+  async purgeFinished(): Promise<number> {
+    const cutoff = Date.now() - config.JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    let purged = 0;
+
+    for (const status of ['completed', 'failed'] as const) {
+      for (const job of await this.jobs.find({ where: { status } })) {
+        if (job.finished_at && Date.parse(job.finished_at) < cutoff) {
+          await this.jobs.delete(job.id);
+          purged++;
+        }
+      }
+    }
+
+    if (purged > 0) {
+      log.info('Jobs antigos removidos', { purged });
+    }
+
+    return purged;
+  }
+
+  // ==========================================================================
+  // EXECUÇÃO
+  // ==========================================================================
+
+  private scheduleDrain(delayMs: number): void {
+    setTimeout(() => {
+      this.drain().catch(error => log.error('Erro ao processar fila de jobs', error));
+    }, delayMs).unref();
+  }
+
+  /**
+   * Iniciar jobs prontos enquanto houver vaga. Chamadas durante uma drenagem
+   * em andamento pedem uma nova passada em vez de rodar em paralelo.
+   */
+  private async drain(): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+    if (this.draining) {
+      this.drainAgain = true;
+      return;
+    }
+
+    this.draining = true;
+    try {
+      do {
+        this.drainAgain = false;
+
+        while (this.running < config.JOB_CONCURRENCY) {
+          const job = await this.nextReadyJob();
+          if (!job) break;
+
+          job.status = 'running';
+          job.attempts++;
+          job.started_at = new Date().toISOString();
+          job.updated_at = job.started_at;
+          await this.jobs.save(job);
+
+          this.running++;
+          this.execute(job)
+            .catch(error => log.error('Erro ao registrar resultado do job', { jobId: job.id, type: job.type, error: error.message }))
+            .finally(() => {
+              this.running--;
+              this.scheduleDrain(0);
+            });
+        }
+      } while (this.drainAgain);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Job mais antigo na fila cuja espera entre tentativas já passou
+   */
+  private async nextReadyJob(): Promise<Job | null> {
+    const now = new Date().toISOString();
+    const queued = await this.jobs.find({ where: { status: 'queued' }, orderBy: 'created_at' });
+    return queued.find(job => job.run_after <= now) || null;
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+
+    try {
+      if (!handler) {
+        throw Object.assign(new Error(`Tipo de job desconhecido: ${job.type}`), { statusCode: 400 });
+      }
+
+      const result = await handler.run(job, percent => this.reportProgress(job, percent));
+      const now = new Date().toISOString();
+
+      job.status = 'completed';
+      job.progress = 100;
+      job.result = result;
+      delete job.error;
+      job.finished_at = now;
+      job.updated_at = now;
+      await this.jobs.save(job);
+
+      log.info('Job concluído', { jobId: job.id, type: job.type, attempts: job.attempts });
+    } catch (error: any) {
+      await this.handleFailure(job, handler, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async reportProgress(job: Job, percent: number): Promise<void> {
+    const progress = Math.max(0, Math.min(100, Math.round(percent)));
+
+    if (progress !== job.progress) {
+      job.progress = progress;
+      job.updated_at = new Date().toISOString();
+      await this.jobs.save(job);
+    }
+  }
+
+  /**
+   * Nova tentativa com espera exponencial, exceto para erros de dados (4xx),
+   * que falhariam de novo
+   */
+  private async handleFailure(job: Job, handler: RegisteredHandler | undefined, error: Error & { statusCode?: number }): Promise<void> {
+    const retryable = !(error.statusCode && error.statusCode < 500);
+    const now = new Date();
+
+    job.error = error.message;
+    job.updated_at = now.toISOString();
+
+    if (retryable && job.attempts < job.max_attempts) {
+      const delay = config.JOB_RETRY_DELAY_MS * 2 ** (job.attempts - 1);
+      job.status = 'queued';
+      job.progress = 0;
+      job.run_after = new Date(now.getTime() + delay).toISOString();
+      await this.jobs.save(job);
+
+      log.error('Job falhou; nova tentativa agendada', { jobId: job.id, type: job.type, attempt: job.attempts, delayMs: delay, error: error.message });
+      this.scheduleDrain(delay);
+      return;
+    }
+
+    job.status = 'failed';
+    job.finished_at = job.updated_at;
+    await this.jobs.save(job);
+
+    log.error('Job falhou', { jobId: job.id, type: job.type, attempts: job.attempts, error: error.message });
+
+    if (handler?.onFailure) {
+      await handler.onFailure(job, error).catch(hookError =>
+        log.error('Erro ao tratar falha do job', { jobId: job.id, error: hookError.message })
+      );
+    }
+  }
+}
+
+// Instância única: handlers e execução são do processo todo
+export const jobQueue = new JobQueueService();
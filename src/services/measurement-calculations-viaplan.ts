@@ -6,7 +6,12 @@
 import {
   Coordinate,
   RadiusCheck,
-  DepthCheck
+  DepthCheck,
+  CableCheck,
+  ConduitBend,
+  ConduitCable,
+  ConduitCableCheck,
+  ConduitMeasurement
 } from '../types/measurement';
 
 // ============================================================================
@@ -41,7 +46,7 @@ function distance3D(p1: Coordinate, p2: Coordinate): number {
 /**
  * Converter coordenadas de pixels para metros usando escala
  */
-function convertPixelsToMeters(distancePixels: number, scale?: string, zoom?: number): number {
+export function convertPixelsToMeters(distancePixels: number, scale?: string, zoom?: number): number {
   if (!scale) {
     // Se não há escala, assumir que coordenadas já estão em metros
     return distancePixels;
@@ -664,6 +669,192 @@ export function estimateConduitWeight(
   return volumeCubicMeters * density;
 }
 
+// Ocupação máxima do duto por número de cabos (NEC cap. 9, tabela 1 / NBR 5410)
+const CONDUIT_FILL_LIMITS = { single: 53, two: 31, multiple: 40 };
+const DEFAULT_FRICTION_COEFFICIENT = 0.5;
+const DEFAULT_MAX_BEND_DEGREES = 360;
+const DEFAULT_ELBOW_DEGREES = 90;
+const BEND_TOLERANCE_DEGREES = 1; // Deflexões menores são ruído do desenho
+const ELBOW_MATCH_DISTANCE_M = 1; // Cotovelo a até 1 m de um vértice substitui a curva do traçado
+const GRAVITY = 9.81;
+
+/**
+ * Ocupação máxima permitida (%) para a quantidade de cabos
+ */
+export function getConduitFillLimit(cableCount: number): number {
+  if (cableCount <= 1) return CONDUIT_FILL_LIMITS.single;
+  if (cableCount === 2) return CONDUIT_FILL_LIMITS.two;
+  return CONDUIT_FILL_LIMITS.multiple;
+}
+
+/**
+ * Taxa de ocupação do duto: soma das seções dos cabos / seção interna do duto
+ */
+export function calculateConduitFill(
+  innerDiameterMm: number,
+  cables: ConduitCable[]
+): { cable_count: number; fill_percent: number; max_fill_percent: number; passed: boolean } {
+  const cableCount = cables.reduce((sum, cable) => sum + (cable.count || 1), 0);
+  const cableArea = cables.reduce((sum, cable) => sum + (cable.count || 1) * Math.pow(cable.outer_diameter_mm, 2), 0);
+  const fillPercent = innerDiameterMm > 0 ? (cableArea / Math.pow(innerDiameterMm, 2)) * 100 : Infinity;
+  const maxFillPercent = getConduitFillLimit(cableCount);
+
+  return {
+    cable_count: cableCount,
+    fill_percent: fillPercent,
+    max_fill_percent: maxFillPercent,
+    passed: fillPercent <= maxFillPercent
+  };
+}
+
+/**
+ * Curvas ao longo do conduto: deflexões nos vértices do traçado mais os cotovelos
+ * declarados em connections (specifications.angle_degrees, padrão 90°)
+ */
+export function calculateConduitBends(
+  coordinates: Coordinate[],
+  connections: ConduitMeasurement['connections'] = [],
+  scale?: string,
+  zoom?: number
+): ConduitBend[] {
+  // X e Y do canvas convertidos para metros; Z já está em metros
+  const factor = convertPixelsToMeters(1, scale, zoom);
+  const bends: ConduitBend[] = [];
+  let position = 0;
+
+  for (let i = 1; i < coordinates.length - 1; i++) {
+    const [p1, p2, p3] = [coordinates[i - 1], coordinates[i], coordinates[i + 1]];
+    position += calculatePolylineLength3D([p1, p2], scale, zoom);
+
+    const u = { x: (p2.x - p1.x) * factor, y: (p2.y - p1.y) * factor, z: (p2.z || 0) - (p1.z || 0) };
+    const v = { x: (p3.x - p2.x) * factor, y: (p3.y - p2.y) * factor, z: (p3.z || 0) - (p2.z || 0) };
+    const magU = Math.sqrt(u.x ** 2 + u.y ** 2 + u.z ** 2);
+    const magV = Math.sqrt(v.x ** 2 + v.y ** 2 + v.z ** 2);
+    if (magU < EPSILON || magV < EPSILON) continue;
+
+    const cosTheta = Math.min(1, Math.max(-1, (u.x * v.x + u.y * v.y + u.z * v.z) / (magU * magV)));
+    const angle = Math.acos(cosTheta) * 180 / Math.PI;
+    if (angle >= BEND_TOLERANCE_DEGREES) {
+      bends.push({ position_m: position, angle_degrees: angle, source: 'path' });
+    }
+  }
+
+  for (const connection of connections.filter(c => c.type === 'elbow')) {
+    const declared = Number(connection.specifications?.angle_degrees);
+    const angle = declared > 0 ? declared : DEFAULT_ELBOW_DEGREES;
+    const match = bends.find(bend =>
+      bend.source === 'path' && Math.abs(bend.position_m - connection.position_m) <= ELBOW_MATCH_DISTANCE_M
+    );
+
+    if (match) {
+      match.angle_degrees = angle;
+      match.source = 'elbow';
+    } else {
+      bends.push({ position_m: connection.position_m, angle_degrees: angle, source: 'elbow' });
+    }
+  }
+
+  return bends.sort((a, b) => a.position_m - b.position_m);
+}
+
+/**
+ * Estimar tração de puxamento ao fim do conduto
+ * Trecho reto: T = T0 + W × μ × L; curva: T = T0 × e^(μ × θ)
+ * 
+ * @param lengthM Comprimento total do conduto
+ * @param bends Curvas ordenadas pela posição
+ * @param weightNPerM Peso dos cabos puxados juntos (N/m)
+ * @param friction Coeficiente de atrito
+ */
+export function estimateCablePullTension(
+  lengthM: number,
+  bends: ConduitBend[],
+  weightNPerM: number,
+  friction: number = DEFAULT_FRICTION_COEFFICIENT
+): number {
+  let tension = 0;
+  let previous = 0;
+
+  for (const bend of bends) {
+    const position = Math.min(Math.max(bend.position_m, previous), lengthM);
+    tension += weightNPerM * friction * (position - previous);
+    tension *= Math.exp(friction * bend.angle_degrees * Math.PI / 180);
+    previous = position;
+  }
+
+  return tension + weightNPerM * friction * (lengthM - previous);
+}
+
+/**
+ * Verificar ocupação, soma de curvas e tração dos condutos com cabos
+ * Retorna undefined quando nenhum conduto informa cabos
+ */
+export function checkConduitCables(
+  data: Pick<ConduitMeasurement, 'coordinates' | 'conduits' | 'connections' | 'cable_pulling'>,
+  lengthM: number,
+  scale?: string,
+  zoom?: number
+): CableCheck | undefined {
+  const withCables = (data.conduits || [])
+    .map((conduit, index) => ({ conduit, index }))
+    .filter(({ conduit }) => conduit.cables && conduit.cables.length > 0);
+
+  if (withCables.length === 0) {
+    return undefined;
+  }
+
+  const pulling = data.cable_pulling || {};
+  const friction = pulling.friction_coefficient ?? DEFAULT_FRICTION_COEFFICIENT;
+  const maxBendDegrees = pulling.max_bend_degrees || DEFAULT_MAX_BEND_DEGREES;
+  const bends = calculateConduitBends(data.coordinates, data.connections, scale, zoom);
+  const totalBendDegrees = bends.reduce((sum, bend) => sum + bend.angle_degrees, 0);
+
+  const conduits: ConduitCableCheck[] = withCables.map(({ conduit, index }) => {
+    const cables = conduit.cables as ConduitCable[];
+    const innerDiameter = conduit.wall_thickness_mm > 0
+      ? conduit.outer_diameter_mm - 2 * conduit.wall_thickness_mm
+      : conduit.nominal_diameter_mm;
+    const fill = calculateConduitFill(innerDiameter, cables);
+
+    // Cabos do mesmo duto são puxados juntos
+    const weight = cables.reduce((sum, cable) => sum + (cable.count || 1) * (cable.weight_kg_m || 0), 0) * GRAVITY;
+    const tension = estimateCablePullTension(lengthM, bends, weight, friction);
+    const maxTension = pulling.max_tension_n ?? (cables.every(cable => cable.max_tension_n)
+      ? cables.reduce((sum, cable) => sum + (cable.count || 1) * (cable.max_tension_n as number), 0)
+      : undefined);
+
+    const check: ConduitCableCheck = {
+      conduit_index: index,
+      cable_count: fill.cable_count,
+      inner_diameter_mm: innerDiameter,
+      fill_percent: Math.round(fill.fill_percent * 100) / 100,
+      max_fill_percent: fill.max_fill_percent,
+      fill_passed: fill.passed,
+      estimated_tension_n: Math.round(tension * 100) / 100,
+      // Sem limite conhecido não há o que violar
+      tension_passed: maxTension === undefined || tension <= maxTension
+    };
+    if (maxTension !== undefined) {
+      check.max_tension_n = maxTension;
+    }
+    return check;
+  });
+
+  return {
+    fill: conduits.every(check => check.fill_passed),
+    bends: totalBendDegrees <= maxBendDegrees,
+    tension: conduits.every(check => check.tension_passed),
+    total_bend_degrees: Math.round(totalBendDegrees * 100) / 100,
+    max_bend_degrees: maxBendDegrees,
+    bends_detail: bends.map(bend => ({
+      ...bend,
+      position_m: Math.round(bend.position_m * 100) / 100,
+      angle_degrees: Math.round(bend.angle_degrees * 100) / 100
+    })),
+    conduits
+  };
+}
+
 // ============================================================================
 // 6. CÂMARA / BURACO DE MÃO
 // ============================================================================
@@ -0,0 +1,409 @@
+// ============================================================================
+// EXPORTAÇÃO DE MEDIÇÕES VIAPLAN (CSV E XLSX)
+// Colunas específicas por tipo, com todas as grandezas calculadas
+// ============================================================================
+
+import ExcelJS from 'exceljs';
+import {
+  Measurement,
+  MeasurementType,
+  MeasurementSummary,
+  MeasurementExportFormat,
+  SelectMeasurement,
+  TrenchMeasurement,
+  BoreShotMeasurement,
+  HydroExcavationMeasurement,
+  ConduitMeasurement,
+  VaultMeasurement,
+  AreaMeasurement,
+  NoteMeasurement,
+  WidthDepth
+} from '../types/measurement';
+import { Project } from '../types/project';
+
+type CellValue = string | number | null;
+
+interface ExportColumn {
+  key: string;
+  header: string;
+  value: (measurement: Measurement) => CellValue;
+}
+
+// Formatos aceitos em ?format= pelas rotas de exportação
+export const MEASUREMENT_EXPORT_FORMATS: MeasurementExportFormat[] = ['json', 'csv', 'xlsx'];
+
+// Ordem das abas/colunas na exportação
+const TYPE_ORDER: MeasurementType[] = [
+  'trench',
+  'bore-shot',
+  'hydro-excavation',
+  'conduit',
+  'vault',
+  'area',
+  'note',
+  'select'
+];
+
+const TYPE_LABELS: Record<MeasurementType, string> = {
+  trench: 'Trincheira',
+  'bore-shot': 'Perfuração HDD',
+  'hydro-excavation': 'Hidroescavação',
+  conduit: 'Conduto',
+  vault: 'Câmara',
+  area: 'Área',
+  note: 'Nota',
+  select: 'Seleção'
+};
+
+// ============================================================================
+// FORMATAÇÃO DE VALORES
+// ============================================================================
+
+function num(value: number | undefined | null, decimals: number = 3): number | null {
+  if (value === undefined || value === null || !isFinite(value)) {
+    return null;
+  }
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function yesNo(value: boolean | undefined): string | null {
+  return value === undefined ? null : (value ? 'Sim' : 'Não');
+}
+
+function widthDepth(value: WidthDepth | undefined): string | number | null {
+  if (!value) return null;
+  if (value.type === 'constant') return num(value.value);
+  return (value.values || []).map(v => num(v)).join(';');
+}
+
+function conduitList(conduits: Array<{ size_mm: string; count: number; material: string; sdr?: string }> | undefined): string | null {
+  if (!conduits || conduits.length === 0) return null;
+  return conduits
+    .map(c => `${c.count}x ${c.size_mm}mm ${c.material}${c.sdr ? ` SDR ${c.sdr}` : ''}`)
+    .join(' | ');
+}
+
+function isoDate(value: Date | string | undefined): string | null {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Criar colunas tipadas para os dados de um tipo de medição
+ */
+function columns<T>(prefix: string, defs: Array<[string, string, (data: T) => CellValue]>): ExportColumn[] {
+  return defs.map(([key, header, value]) => ({
+    key: `${prefix}.${key}`,
+    header,
+    value: (measurement: Measurement) => value(measurement.data as unknown as T)
+  }));
+}
+
+// ============================================================================
+// ESQUEMAS DE COLUNAS
+// ============================================================================
+
+const COMMON_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'ID', value: m => m.id },
+  { key: 'project_id', header: 'Projeto', value: m => m.project_id },
+  { key: 'type', header: 'Tipo', value: m => TYPE_LABELS[m.type] || m.type },
+  { key: 'label', header: 'Label', value: m => (m.data as any).label || null },
+  { key: 'created_at', header: 'Criado em', value: m => isoDate(m.created_at) },
+  { key: 'updated_at', header: 'Atualizado em', value: m => isoDate(m.updated_at) }
+];
+
+const TYPE_COLUMNS: Record<MeasurementType, ExportColumn[]> = {
+  trench: columns<TrenchMeasurement>('trench', [
+    ['points', 'Pontos', d => d.coordinates?.length ?? null],
+    ['length', 'Comprimento (m)', d => num(d.length)],
+    ['width', 'Largura (m)', d => widthDepth(d.width)],
+    ['depth', 'Profundidade (m)', d => widthDepth(d.depth)],
+    ['soil_type', 'Tipo de solo', d => d.soil_type || null],
+    ['expansion_rate', 'Empolamento', d => num(d.soil_expansion_config?.expansion_rate, 4)],
+    ['contraction_rate', 'Contração', d => num(d.soil_expansion_config?.contraction_rate, 4)],
+    ['volume', 'Volume de corte (m³)', d => num(d.volume_m3)],
+    ['volume_loose', 'Volume solto (m³)', d => num(d.volume_loose_m3)],
+    ['volume_compacted', 'Volume compactado (m³)', d => num(d.volume_compacted_m3)],
+    ['asphalt_removal', 'Remoção de asfalto (m³)', d => num(d.asphalt_removal?.volume_m3)],
+    ['concrete_removal', 'Remoção de concreto (m³)', d => num(d.concrete_removal?.volume_m3)],
+    ['backfill_type', 'Tipo de reaterro', d => d.backfill ? (d.backfill.custom_type || d.backfill.type) : null],
+    ['backfill_volume', 'Reaterro (m³)', d => num(d.backfill?.volume_m3)],
+    ['cross_sections', 'Seções transversais', d => d.cross_sections?.length ?? null]
+  ]),
+
+  'bore-shot': columns<BoreShotMeasurement>('bore_shot', [
+    ['points', 'Pontos', d => d.coordinates?.length ?? null],
+    ['length', 'Comprimento perfurado (m)', d => num(d.length_m)],
+    ['entry_angle', 'Ângulo de entrada (°)', d => num(d.entry_angle_degrees, 2)],
+    ['exit_angle', 'Ângulo de saída (°)', d => num(d.exit_angle_degrees, 2)],
+    ['min_depth', 'Profundidade mínima garantida (m)', d => num(d.min_depth_guaranteed_m)],
+    ['drill_diameter', 'Diâmetro da broca (mm)', d => num(d.drill_diameter_mm, 2)],
+    ['backreamer_diameter', 'Diâmetro do alargador (mm)', d => num(d.backreamer_diameter_mm, 2)],
+    ['conduits', 'Condutos', d => conduitList(d.conduits)],
+    ['radius_passed', 'Raio aprovado', d => yesNo(d.validation?.radius_check?.passed)],
+    ['radius_required', 'Raio mínimo exigido (m)', d => num(d.validation?.radius_check?.min_radius_required_m)],
+    ['radius_actual', 'Raio mínimo real (m)', d => num(d.validation?.radius_check?.min_radius_actual_m)],
+    ['radius_violations', 'Violações de raio', d => d.validation?.radius_check?.violations?.length ?? null],
+    ['depth_passed', 'Profundidade aprovada', d => yesNo(d.validation?.depth_check?.passed)],
+    ['depth_required', 'Profundidade mínima exigida (m)', d => num(d.validation?.depth_check?.min_depth_required_m)],
+    ['depth_actual', 'Profundidade mínima real (m)', d => num(d.validation?.depth_check?.min_depth_actual_m)],
+    ['depth_violations', 'Violações de profundidade', d => d.validation?.depth_check?.violations?.length ?? null]
+  ]),
+
+  'hydro-excavation': columns<HydroExcavationMeasurement>('hydro', [
+    ['subtype', 'Subtipo', d => d.subtype || null],
+    ['points', 'Pontos', d => d.coordinates?.length ?? null],
+    ['shape', 'Seção', d => d.section?.shape || null],
+    ['diameter', 'Diâmetro (m)', d => num(d.section?.diameter_m)],
+    ['width', 'Largura (m)', d => num(d.section?.width_m)],
+    ['length', 'Comprimento (m)', d => num(d.section?.length_m)],
+    ['depth', 'Profundidade (m)', d => num(d.depth_m)],
+    ['volume', 'Volume removido (m³)', d => num(d.volume_removed_m3)],
+    ['efficiency', 'Eficiência', d => num(d.efficiency_ratio, 4)],
+    ['surface', 'Superfície', d => d.surface_type || null],
+    ['restoration', 'Inclui restauração', d => yesNo(d.include_restoration)],
+    ['conduits', 'Condutos', d => conduitList(d.conduits)]
+  ]),
+
+  conduit: columns<ConduitMeasurement>('conduit', [
+    ['points', 'Pontos', d => d.coordinates?.length ?? null],
+    ['length', 'Comprimento total (m)', d => num(d.total_length_m)],
+    ['conduits', 'Condutos', d => conduitList(d.conduits)],
+    ['internal_volume', 'Volume interno (m³)', d => num(d.internal_volume_m3, 4)],
+    ['weight', 'Peso estimado (kg)', d => num(d.estimated_weight_kg, 2)],
+    ['installation', 'Método de instalação', d => d.installation_method || null],
+    ['connections', 'Conexões', d => d.connections?.length ?? null],
+    ['compat_trench', 'Compatível com vala', d => yesNo(d.compatibility_check?.trench)],
+    ['compat_hdd', 'Compatível com HDD', d => yesNo(d.compatibility_check?.hdd)],
+    ['compat_direct_bury', 'Compatível com enterramento direto', d => yesNo(d.compatibility_check?.direct_bury)],
+    ['cable_fill', 'Ocupação de cabos OK', d => yesNo(d.cable_check?.fill)],
+    ['cable_bends', 'Soma de curvas (°)', d => num(d.cable_check?.total_bend_degrees, 2)],
+    ['cable_bends_ok', 'Curvas OK', d => yesNo(d.cable_check?.bends)],
+    ['cable_tension_ok', 'Tração de puxamento OK', d => yesNo(d.cable_check?.tension)]
+  ]),
+
+  vault: columns<VaultMeasurement>('vault', [
+    ['vault_type', 'Tipo de câmara', d => d.vault_type || null],
+    ['shape', 'Formato', d => d.shape || null],
+    ['length', 'Comprimento (m)', d => num(d.dimensions?.length_m)],
+    ['width', 'Largura (m)', d => num(d.dimensions?.width_m)],
+    ['diameter', 'Diâmetro (m)', d => num(d.dimensions?.diameter_m)],
+    ['depth', 'Profundidade (m)', d => num(d.dimensions?.depth_m)],
+    ['quantity', 'Quantidade', d => d.quantity ?? null],
+    ['material', 'Material', d => d.material || null],
+    ['class', 'Classe', d => d.class || null],
+    ['traffic_rated', 'Resistente a tráfego', d => yesNo(d.traffic_rated)],
+    ['excavation', 'Escavação (m³)', d => num(d.volumes?.excavation_m3)],
+    ['asphalt_removal', 'Remoção de asfalto (m³)', d => num(d.volumes?.asphalt_removal_m3)],
+    ['concrete_removal', 'Remoção de concreto (m³)', d => num(d.volumes?.concrete_removal_m3)],
+    ['asphalt_restoration', 'Restauração de asfalto (m³)', d => num(d.volumes?.asphalt_restoration_m3)],
+    ['concrete_restoration', 'Restauração de concreto (m³)', d => num(d.volumes?.concrete_restoration_m3)],
+    ['backfill', 'Reaterro (m³)', d => num(d.volumes?.backfill_m3)],
+    ['backfill_type', 'Tipo de reaterro', d => d.volumes?.backfill_type || null],
+    ['hole_size', 'Cava C x L x P (m)', d => d.hole_size
+      ? `${num(d.hole_size.length_m)} x ${num(d.hole_size.width_m)} x ${num(d.hole_size.depth_m)}`
+      : null]
+  ]),
+
+  area: columns<AreaMeasurement>('area', [
+    ['points', 'Pontos', d => d.coordinates?.length ?? null],
+    ['area', 'Área (m²)', d => num(d.area_m2)],
+    ['perimeter', 'Perímetro (m)', d => num(d.perimeter_m)],
+    ['depth', 'Profundidade (m)', d => num(d.depth_m)],
+    ['volume', 'Volume (m³)', d => num(d.volume_m3)]
+  ]),
+
+  note: columns<NoteMeasurement>('note', [
+    ['text', 'Texto', d => d.text || null],
+    ['author', 'Autor', d => d.author || null],
+    ['date', 'Data', d => d.date || null],
+    ['linked', 'Medição vinculada', d => d.linked_measurement_id || null]
+  ]),
+
+  select: columns<SelectMeasurement>('select', [
+    ['count', 'Medições selecionadas', d => d.selected_measurements?.length ?? 0],
+    ['ids', 'IDs selecionados', d => (d.selected_measurements || []).join(';') || null]
+  ])
+};
+
+/**
+ * Tipos presentes na lista, na ordem de exportação
+ */
+function presentTypes(measurements: Measurement[]): MeasurementType[] {
+  const types = new Set(measurements.map(m => m.type));
+  return TYPE_ORDER.filter(type => types.has(type));
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvCell(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Gerar CSV das medições.
+ * Um único tipo usa apenas as colunas desse tipo; tipos misturados usam a união
+ * das colunas, com o nome do tipo no cabeçalho e células vazias nos demais tipos.
+ */
+export function measurementsToCsv(measurements: Measurement[]): string {
+  const types = presentTypes(measurements);
+  const mixed = types.length > 1;
+
+  const typeColumns = types.flatMap(type =>
+    TYPE_COLUMNS[type].map(column => ({
+      type,
+      column,
+      header: mixed ? `${TYPE_LABELS[type]}: ${column.header}` : column.header
+    }))
+  );
+
+  const lines: string[] = [];
+  lines.push([...COMMON_COLUMNS.map(c => c.header), ...typeColumns.map(c => c.header)].map(csvCell).join(','));
+
+  for (const measurement of measurements) {
+    const cells: CellValue[] = [
+      ...COMMON_COLUMNS.map(c => c.value(measurement)),
+      ...typeColumns.map(c => (c.type === measurement.type ? c.column.value(measurement) : null))
+    ];
+    lines.push(cells.map(csvCell).join(','));
+  }
+
+  // BOM para o Excel reconhecer UTF-8 (acentos nos cabeçalhos)
+  return '\uFEFF' + lines.join('\n');
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+function addTableSheet(workbook: ExcelJS.Workbook, name: string, cols: ExportColumn[], rows: Measurement[]): void {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.columns = cols.map(column => ({
+    header: column.header,
+    key: column.key,
+    width: Math.max(12, column.header.length + 2)
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  for (const measurement of rows) {
+    const row: Record<string, CellValue> = {};
+    for (const column of cols) {
+      row[column.key] = column.value(measurement);
+    }
+    sheet.addRow(row);
+  }
+}
+
+function addConduitSheet(workbook: ExcelJS.Workbook, measurements: Measurement[]): void {
+  const rows: Array<Record<string, CellValue>> = [];
+
+  for (const measurement of measurements) {
+    const conduits = (measurement.data as any).conduits as Array<Record<string, any>> | undefined;
+    if (!Array.isArray(conduits)) continue;
+
+    for (const conduit of conduits) {
+      rows.push({
+        measurement_id: measurement.id,
+        type: TYPE_LABELS[measurement.type],
+        label: (measurement.data as any).label || null,
+        size_mm: conduit.size_mm ?? null,
+        count: conduit.count ?? null,
+        material: conduit.material ?? null,
+        sdr: conduit.sdr ?? null,
+        outer_diameter_mm: num(conduit.outer_diameter_mm, 2),
+        wall_thickness_mm: num(conduit.wall_thickness_mm, 2),
+        length_m: num(conduit.length_m),
+        min_curvature_radius_m: num(conduit.min_curvature_radius_m)
+      });
+    }
+  }
+
+  if (rows.length === 0) return;
+
+  const sheet = workbook.addWorksheet('Condutos', { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = [
+    { header: 'Medição', key: 'measurement_id', width: 38 },
+    { header: 'Tipo', key: 'type', width: 16 },
+    { header: 'Label', key: 'label', width: 20 },
+    { header: 'Tamanho (mm)', key: 'size_mm', width: 14 },
+    { header: 'Quantidade', key: 'count', width: 12 },
+    { header: 'Material', key: 'material', width: 14 },
+    { header: 'SDR', key: 'sdr', width: 8 },
+    { header: 'Diâmetro externo (mm)', key: 'outer_diameter_mm', width: 22 },
+    { header: 'Espessura da parede (mm)', key: 'wall_thickness_mm', width: 24 },
+    { header: 'Comprimento (m)', key: 'length_m', width: 16 },
+    { header: 'Raio mínimo de curvatura (m)', key: 'min_curvature_radius_m', width: 28 }
+  ];
+  sheet.getRow(1).font = { bold: true };
+  rows.forEach(row => sheet.addRow(row));
+}
+
+function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  measurements: Measurement[],
+  project?: Project,
+  summary?: MeasurementSummary
+): void {
+  const sheet = workbook.addWorksheet('Resumo');
+  sheet.columns = [{ width: 32 }, { width: 20 }, { width: 20 }, { width: 20 }];
+
+  if (project) {
+    sheet.addRow(['Projeto', project.name]).font = { bold: true };
+    sheet.addRow(['ID', project.id]);
+    if (project.description) sheet.addRow(['Descrição', project.description]);
+    sheet.addRow(['Escala', project.scale]);
+    sheet.addRow(['Criado em', project.created_at]);
+    sheet.addRow([]);
+  }
+
+  sheet.addRow(['Tipo', 'Quantidade', 'Comprimento (m)', 'Volume / Área']).font = { bold: true };
+
+  for (const type of presentTypes(measurements)) {
+    const count = measurements.filter(m => m.type === type).length;
+    const totals = summary?.totals[type as keyof MeasurementSummary['totals']] as Record<string, number> | undefined;
+    const amount = totals?.total_volume_m3 !== undefined
+      ? `${num(totals.total_volume_m3)} m³`
+      : totals?.total_area_m2 !== undefined ? `${num(totals.total_area_m2)} m²` : null;
+
+    sheet.addRow([TYPE_LABELS[type], count, num(totals?.total_length_m), amount]);
+  }
+
+  sheet.addRow([]);
+  sheet.addRow(['Total de medições', measurements.length]);
+  sheet.addRow(['Gerado em', summary?.generated_at || new Date().toISOString()]);
+}
+
+/**
+ * Gerar planilha XLSX: aba de resumo, uma aba por tipo de medição
+ * e uma aba de condutos (quando houver especificações)
+ */
+export async function measurementsToXlsx(
+  measurements: Measurement[],
+  options: { project?: Project; summary?: MeasurementSummary } = {}
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'ViaPlan';
+  workbook.created = new Date();
+
+  addSummarySheet(workbook, measurements, options.project, options.summary);
+
+  for (const type of presentTypes(measurements)) {
+    addTableSheet(
+      workbook,
+      TYPE_LABELS[type],
+      [...COMMON_COLUMNS, ...TYPE_COLUMNS[type]],
+      measurements.filter(m => m.type === type)
+    );
+  }
+
+  addConduitSheet(workbook, measurements);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
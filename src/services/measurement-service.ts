@@ -3,10 +3,15 @@
 // Especificação v1.0 - 2024-01-15
 // ============================================================================
 
-import * as fs from 'fs';
-import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { log } from '../utils/winstonLogger';
+import { getRepository, Repository } from '../repositories';
+import { NotFoundError } from '../middleware/errorHandler';
+import { Project } from '../types/project';
+import { RebaselineMode } from '../types/plant';
+import { ProjectService } from './project-service';
+import { PlantVersionService } from './plant-version-service';
+import { measurementsToCsv, measurementsToXlsx } from './measurement-export';
 import {
   Measurement,
   MeasurementData,
@@ -15,6 +20,8 @@ import {
   UpdateMeasurementRequest,
   MeasurementFilters,
   MeasurementSummary,
+  MeasurementExportFormat,
+  MeasurementExportFile,
   TrenchMeasurement,
   BoreShotMeasurement,
   HydroExcavationMeasurement,
@@ -34,6 +41,7 @@ import {
   calculateConduitLength,
   calculateConduitInternalVolume,
   estimateConduitWeight,
+  checkConduitCables,
   calculateVaultExcavationVolume,
   calculatePolygonArea,
   calculatePolygonPerimeter,
@@ -45,31 +53,34 @@ import {
   SOIL_CONTRACTION_FACTORS
 } from './measurement-calculations-viaplan';
 
-// Interface simples para projeto (armazenamento)
-interface ProjectStorage {
-  id: string;
-  name: string;
-  description?: string;
-  measurements: string[]; // IDs das medições
-  created_at: string;
-  updated_at: string;
+/**
+ * Converter strings de data (JSON armazenado) para Date objects
+ */
+function reviveDates(stored: Measurement): Measurement {
+  return {
+    ...stored,
+    created_at: new Date(stored.created_at),
+    updated_at: new Date(stored.updated_at)
+  };
+}
+
+/**
+ * Guardar na medição a escala e o zoom usados nos cálculos; recálculos e a
+ * detecção de interferências convertem as coordenadas com eles
+ */
+function withDrawingScale(data: MeasurementData, scale?: string, zoom?: number): MeasurementData {
+  return { ...data, ...(scale && { scale }), ...(zoom && { zoom }) };
 }
 
 export class MeasurementService {
-  private measurementsDir: string;
-  private projectsDir: string;
+  private measurements: Repository<Measurement>;
+  private projectService: ProjectService;
+  private versionService: PlantVersionService;
 
   constructor() {
-    this.measurementsDir = path.join(process.cwd(), 'data', 'measurements');
-    this.projectsDir = path.join(process.cwd(), 'data', 'projects');
-    
-    // Criar diretórios se não existirem
-    [this.measurementsDir, this.projectsDir].forEach(dir => {
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-        log.info(`Diretório criado: ${dir}`);
-      }
-    });
+    this.measurements = getRepository<Measurement>('measurements', { indexes: ['project_id', 'type', 'plant_version_id'] });
+    this.projectService = new ProjectService();
+    this.versionService = new PlantVersionService();
     
     log.info('MeasurementService inicializado');
   }
@@ -94,23 +105,35 @@ export class MeasurementService {
       };
       
       // Construir dados completos da medição
-      const fullData = await this.buildMeasurementData(request.type, dataWithScale);
+      const fullData = withDrawingScale(await this.buildMeasurementData(request.type, dataWithScale), scale, zoom);
+      const plantLink = request.plant_id
+        ? await this.versionService.resolveMeasurementLink(request.project_id, request.plant_id, request.plant_version_id)
+        : undefined;
       
       const measurement: Measurement = {
         id: measurementId,
         project_id: request.project_id,
         type: request.type,
         data: fullData as MeasurementData,
+        ...plantLink,
         created_at: new Date(now),
         updated_at: new Date(now)
       };
       
       // Salvar medição
-      const measurementPath = path.join(this.measurementsDir, `${measurementId}.json`);
-      fs.writeFileSync(measurementPath, JSON.stringify(measurement, null, 2));
+      await this.measurements.save(measurement);
       
-      // Atualizar lista de medições do projeto
-      await this.addMeasurementToProject(request.project_id, measurementId);
+      // Atualizar lista de medições do projeto (desfazer a gravação se falhar, evitando órfãos)
+      try {
+        await this.projectService.addMeasurement(request.project_id, measurementId, 'measurements');
+      } catch (error) {
+        await this.measurements.delete(measurementId);
+        throw error;
+      }
+
+      if (plantLink) {
+        await this.versionService.syncMeasurementsCount(plantLink.plant_id, plantLink.plant_version_id);
+      }
       
       log.info('Medição criada', { measurementId, type: request.type });
       
@@ -342,6 +365,8 @@ export class MeasurementService {
           estimated_weight_kg: estimatedWeight,
           installation_method: data.installation_method,
           compatibility_check: data.compatibility_check,
+          cable_pulling: data.cable_pulling,
+          cable_check: checkConduitCables(data as ConduitMeasurement, length, measurementScale, measurementZoom),
           created_at: now,
           updated_at: now
         } as ConduitMeasurement;
@@ -459,21 +484,8 @@ export class MeasurementService {
    */
   async getMeasurementById(id: string): Promise<Measurement | null> {
     try {
-      const measurementPath = path.join(this.measurementsDir, `${id}.json`);
-      
-      if (!fs.existsSync(measurementPath)) {
-        return null;
-      }
-      
-      const content = fs.readFileSync(measurementPath, 'utf-8');
-      const parsed = JSON.parse(content);
-      
-      // Converter strings de data para Date objects
-      return {
-        ...parsed,
-        created_at: new Date(parsed.created_at),
-        updated_at: new Date(parsed.updated_at)
-      };
+      const stored = await this.measurements.findById(id);
+      return stored && !stored.deleted_at ? reviveDates(stored) : null;
     } catch (error) {
       log.error('Erro ao obter medição', error);
       return null;
@@ -485,42 +497,15 @@ export class MeasurementService {
    */
   async listMeasurements(filters: MeasurementFilters = {}): Promise<Measurement[]> {
     try {
-      const { project_id, type, date_from, date_to, limit = 100, offset = 0 } = filters;
-      
-      let measurements: Measurement[] = [];
-      
-      // Se project_id fornecido, buscar do projeto
-      if (project_id) {
-        const projectPath = path.join(this.projectsDir, `${project_id}.json`);
-        if (fs.existsSync(projectPath)) {
-          const projectContent = fs.readFileSync(projectPath, 'utf-8');
-          const project: ProjectStorage = JSON.parse(projectContent);
-          
-          for (const measurementId of project.measurements) {
-            const measurement = await this.getMeasurementById(measurementId);
-            if (measurement) {
-              measurements.push(measurement);
-            }
-          }
-        }
-      } else {
-        // Listar todas as medições
-        const files = fs.readdirSync(this.measurementsDir);
-        for (const file of files) {
-          if (file.endsWith('.json')) {
-            const id = file.replace('.json', '');
-            const measurement = await this.getMeasurementById(id);
-            if (measurement) {
-              measurements.push(measurement);
-            }
-          }
-        }
-      }
+      const { project_id, type, plant_id, plant_version_id, date_from, date_to, limit = 100, offset = 0 } = filters;
       
-      // Aplicar filtros
-      if (type) {
-        measurements = measurements.filter(m => m.type === type);
-      }
+      // Filtros por projeto, tipo e planta são resolvidos pelo repositório
+      const stored = await this.measurements.find({
+        where: { project_id, type, plant_id, plant_version_id, deleted_at: null },
+        orderBy: 'created_at',
+        order: 'desc'
+      });
+      let measurements = stored.map(reviveDates);
       
       if (date_from) {
         const fromDate = new Date(date_from);
@@ -532,11 +517,6 @@ export class MeasurementService {
         measurements = measurements.filter(m => m.created_at <= toDate);
       }
       
-      // Ordenar por data de criação (mais recente primeiro)
-      measurements.sort((a, b) => 
-        b.created_at.getTime() - a.created_at.getTime()
-      );
-      
       // Aplicar paginação
       return measurements.slice(offset, offset + limit);
     } catch (error) {
@@ -558,19 +538,15 @@ export class MeasurementService {
       
       // Reconstruir dados se necessário
       if (update.data) {
-        const currentData = measurement.data as any;
-        const updatedData = await this.buildMeasurementData(measurement.type, {
-          ...currentData,
-          ...update.data
-        } as Partial<MeasurementData>);
-        measurement.data = updatedData;
+        const mergedData = { ...measurement.data, ...update.data } as any;
+        const updatedData = await this.buildMeasurementData(measurement.type, mergedData);
+        measurement.data = withDrawingScale(updatedData, mergedData.scale, mergedData.zoom);
       }
       
       measurement.updated_at = new Date();
       
       // Salvar
-      const measurementPath = path.join(this.measurementsDir, `${id}.json`);
-      fs.writeFileSync(measurementPath, JSON.stringify(measurement, null, 2));
+      await this.measurements.save(measurement);
       
       log.info('Medição atualizada', { id });
       
@@ -592,14 +568,15 @@ export class MeasurementService {
         return false;
       }
       
-      // Remover arquivo
-      const measurementPath = path.join(this.measurementsDir, `${id}.json`);
-      if (fs.existsSync(measurementPath)) {
-        fs.unlinkSync(measurementPath);
-      }
+      // Remover medição
+      await this.measurements.delete(id);
       
       // Remover do projeto
-      await this.removeMeasurementFromProject(measurement.project_id, id);
+      await this.projectService.removeMeasurement(measurement.project_id, id, 'measurements');
+
+      if (measurement.plant_id && measurement.plant_version_id) {
+        await this.versionService.syncMeasurementsCount(measurement.plant_id, measurement.plant_version_id);
+      }
       
       log.info('Medição deletada', { id });
       
@@ -642,58 +619,115 @@ export class MeasurementService {
     return result;
   }
 
+
   /**
-   * Adicionar medição ao projeto
+   * Medições feitas em uma revisão da planta. As sem plant_id dos projetos em
+   * unlinkedProjectIds (anteriores ao vínculo com revisões) entram como desta revisão.
    */
-  private async addMeasurementToProject(projectId: string, measurementId: string): Promise<void> {
-    const projectPath = path.join(this.projectsDir, `${projectId}.json`);
-    
-    let project: ProjectStorage;
-    if (fs.existsSync(projectPath)) {
-      const content = fs.readFileSync(projectPath, 'utf-8');
-      project = JSON.parse(content);
+  async listPlantVersionMeasurements(plantId: string, versionId: string, unlinkedProjectIds: string[] = []): Promise<Measurement[]> {
+    const stored = await this.measurements.find({
+      where: { plant_id: plantId, plant_version_id: versionId, deleted_at: null },
+      orderBy: 'created_at'
+    });
+    for (const projectId of unlinkedProjectIds) {
+      stored.push(...await this.measurements.find({
+        where: { project_id: projectId, plant_id: null, deleted_at: null },
+        orderBy: 'created_at'
+      }));
+    }
+    return stored.map(reviveDates);
+  }
+
+  /**
+   * Levar uma medição para outra revisão da planta. Em "copy" a cópia aponta para a
+   * original (carried_from); em "link" a própria medição muda de revisão. Medições
+   * ainda sem planta passam a ser da planta do re-baseline.
+   * As quantidades calculadas são mantidas; o re-baseline ajusta a escala à
+   * transformação, e um recálculo posterior chega aos mesmos valores.
+   */
+  async carryMeasurement(
+    source: Measurement,
+    plantId: string,
+    versionId: string,
+    data: MeasurementData,
+    outsideSheet: boolean,
+    mode: RebaselineMode
+  ): Promise<Measurement> {
+    const now = new Date();
+    const measurement: Measurement = mode === 'copy'
+      ? { ...source, id: uuidv4(), carried_from: source.id, created_at: now }
+      : { ...source };
+
+    measurement.plant_id = plantId;
+    measurement.plant_version_id = versionId;
+    measurement.data = data;
+    measurement.updated_at = now;
+    if (outsideSheet) {
+      measurement.outside_sheet = true;
     } else {
-      throw new Error(`Projeto ${projectId} não encontrado`);
+      delete measurement.outside_sheet;
     }
-    
-    if (!project.measurements) {
-      project.measurements = [];
+
+    await this.measurements.save(measurement);
+
+    if (mode === 'copy') {
+      try {
+        await this.projectService.addMeasurement(measurement.project_id, measurement.id, 'measurements');
+      } catch (error) {
+        await this.measurements.delete(measurement.id);
+        throw error;
+      }
     }
-    
-    if (!project.measurements.includes(measurementId)) {
-      project.measurements.push(measurementId);
+
+    return measurement;
+  }
+
+  /**
+   * Mover para a lixeira as medições do projeto
+   */
+  async trashMeasurementsByProject(projectId: string, deletedAt: string): Promise<number> {
+    const measurements = await this.measurements.find({ where: { project_id: projectId, deleted_at: null } });
+
+    for (const measurement of measurements) {
+      await this.measurements.save({ ...measurement, deleted_at: deletedAt });
     }
-    
-    project.updated_at = new Date().toISOString();
-    fs.writeFileSync(projectPath, JSON.stringify(project, null, 2));
+
+    return measurements.length;
   }
 
   /**
-   * Remover medição do projeto
+   * Restaurar as medições do projeto que estavam na lixeira
    */
-  private async removeMeasurementFromProject(projectId: string, measurementId: string): Promise<void> {
-    const projectPath = path.join(this.projectsDir, `${projectId}.json`);
-    
-    if (!fs.existsSync(projectPath)) {
-      return;
+  async restoreMeasurementsByProject(projectId: string): Promise<number> {
+    const measurements = (await this.measurements.find({ where: { project_id: projectId } }))
+      .filter(m => m.deleted_at);
+
+    for (const measurement of measurements) {
+      delete measurement.deleted_at;
+      await this.measurements.save(measurement);
     }
-    
-    const content = fs.readFileSync(projectPath, 'utf-8');
-    const project: ProjectStorage = JSON.parse(content);
-    
-    if (project.measurements) {
-      project.measurements = project.measurements.filter(id => id !== measurementId);
+
+    return measurements.length;
+  }
+
+  /**
+   * Remover definitivamente as medições do projeto (inclusive as da lixeira)
+   */
+  async deleteMeasurementsByProject(projectId: string): Promise<number> {
+    const measurements = await this.measurements.find({ where: { project_id: projectId } });
+
+    for (const measurement of measurements) {
+      await this.measurements.delete(measurement.id);
     }
-    
-    project.updated_at = new Date().toISOString();
-    fs.writeFileSync(projectPath, JSON.stringify(project, null, 2));
+
+    return measurements.length;
   }
 
   /**
    * Obter resumo de medições do projeto
    */
   async getProjectSummary(projectId: string): Promise<MeasurementSummary> {
-    const measurements = await this.listMeasurements({ project_id: projectId });
+    const measurements = await this.listMeasurements({ project_id: projectId, limit: Number.MAX_SAFE_INTEGER });
     
     const totals: MeasurementSummary['totals'] = {};
     
@@ -759,24 +793,70 @@ export class MeasurementService {
   }
 
   /**
-   * Exportar medição
+   * Exportar medição (JSON, CSV com colunas do tipo ou XLSX)
    */
-  async exportMeasurement(id: string, format: 'json' | 'csv' = 'json'): Promise<string> {
+  async exportMeasurement(id: string, format: MeasurementExportFormat = 'json'): Promise<MeasurementExportFile> {
     const measurement = await this.getMeasurementById(id);
     
     if (!measurement) {
-      throw new Error('Medição não encontrada');
+      throw new NotFoundError('Medição não encontrada');
     }
     
-    if (format === 'json') {
-      return JSON.stringify(measurement, null, 2);
+    return this.buildExportFile(`measurement-${id}`, format, [measurement], measurement);
+  }
+
+  /**
+   * Exportar lista filtrada de medições (sem limite de paginação, salvo se informado)
+   */
+  async exportMeasurements(filters: MeasurementFilters, format: MeasurementExportFormat = 'json'): Promise<MeasurementExportFile> {
+    const measurements = await this.listMeasurements({ limit: Number.MAX_SAFE_INTEGER, ...filters });
+    const basename = `measurements-${filters.project_id || 'all'}${filters.type ? `-${filters.type}` : ''}`;
+    
+    return this.buildExportFile(basename, format, measurements, measurements);
+  }
+
+  /**
+   * Exportar todas as medições do projeto, com resumo e dados do projeto
+   */
+  async exportProject(projectId: string, format: MeasurementExportFormat = 'json'): Promise<MeasurementExportFile> {
+    const project = await this.projectService.getProjectById(projectId);
+    
+    if (!project) {
+      throw new NotFoundError('Projeto não encontrado');
     }
     
-    // CSV básico
-    const lines: string[] = [];
-    lines.push('Tipo,ID,Projeto,Label,Criado em');
-    lines.push(`${measurement.type},${measurement.id},${measurement.project_id},${(measurement.data as any).label || ''},${measurement.created_at.toISOString()}`);
+    const measurements = await this.listMeasurements({ project_id: projectId, limit: Number.MAX_SAFE_INTEGER });
+    const summary = await this.getProjectSummary(projectId);
     
-    return lines.join('\n');
+    return this.buildExportFile(`project-${projectId}`, format, measurements, { project, summary, measurements }, { project, summary });
+  }
+
+  private async buildExportFile(
+    basename: string,
+    format: MeasurementExportFormat,
+    measurements: Measurement[],
+    jsonPayload: unknown,
+    context: { project?: Project; summary?: MeasurementSummary } = {}
+  ): Promise<MeasurementExportFile> {
+    switch (format) {
+      case 'csv':
+        return {
+          filename: `${basename}.csv`,
+          content_type: 'text/csv; charset=utf-8',
+          content: measurementsToCsv(measurements)
+        };
+      case 'xlsx':
+        return {
+          filename: `${basename}.xlsx`,
+          content_type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          content: await measurementsToXlsx(measurements, context)
+        };
+      default:
+        return {
+          filename: `${basename}.json`,
+          content_type: 'application/json',
+          content: JSON.stringify(jsonPayload, null, 2)
+        };
+    }
   }
 }
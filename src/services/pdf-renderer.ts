@@ -0,0 +1,231 @@
+// ============================================================================
+// RENDERIZAÇÃO E DIVISÃO DE PDFs
+// pdf.js interpreta o PDF e desenha em um canvas do @napi-rs/canvas (binário
+// pré-compilado, sem dependências do sistema); pdf-lib separa as páginas
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as canvas from '@napi-rs/canvas';
+import { PDFDocument } from 'pdf-lib';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { ValidationError } from '../middleware/errorHandler';
+
+// PDF mede em pontos (1/72 de polegada)
+const POINTS_PER_INCH = 72;
+
+// Limite de pixels por imagem (RGBA: 4 bytes por pixel); acima dele o DPI é reduzido
+const MAX_RENDER_PIXELS = 40000000;
+
+export interface RenderedPage {
+  png: Buffer;
+  width: number;
+  height: number;
+  dpi: number; // DPI efetivo (menor que o pedido quando a página estoura MAX_RENDER_PIXELS)
+}
+
+// Página em tons de cinza (1 byte por pixel, 255 = branco)
+export interface GrayPage {
+  width: number;
+  height: number;
+  pixels: Buffer;
+  dpi: number; // DPI efetivo, como em RenderedPage
+}
+
+// Tamanho da página em pontos
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjs: PdfJs | undefined;
+
+/**
+ * Carregar o pdf.js (build legada, CommonJS). Ele usa DOMMatrix, Path2D e
+ * ImageData do navegador, que no Node vêm do @napi-rs/canvas.
+ */
+function loadPdfjs(): PdfJs {
+  if (!pdfjs) {
+    Object.assign(globalThis, {
+      DOMMatrix: canvas.DOMMatrix,
+      Path2D: canvas.Path2D,
+      ImageData: canvas.ImageData
+    });
+    pdfjs = require('pdfjs-dist/legacy/build/pdf.js') as PdfJs;
+  }
+  return pdfjs;
+}
+
+interface CanvasAndContext {
+  canvas: canvas.Canvas | null;
+  context: canvas.SKRSContext2D | null;
+}
+
+// Fábrica de canvas usada pelo pdf.js para padrões, máscaras e grupos
+class NapiCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const surface = canvas.createCanvas(Math.max(1, Math.ceil(width)), Math.max(1, Math.ceil(height)));
+    return { canvas: surface, context: surface.getContext('2d') };
+  }
+
+  reset(target: CanvasAndContext, width: number, height: number): void {
+    if (target.canvas) {
+      target.canvas.width = Math.max(1, Math.ceil(width));
+      target.canvas.height = Math.max(1, Math.ceil(height));
+    }
+  }
+
+  destroy(target: CanvasAndContext): void {
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+const PDFJS_DIR = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+/**
+ * Documento PDF aberto para renderização página a página
+ */
+export class PdfRenderer {
+  private document: PDFDocumentProxy;
+
+  private constructor(document: PDFDocumentProxy) {
+    this.document = document;
+  }
+
+  /**
+   * Abrir o PDF do disco
+   */
+  static async open(filePath: string): Promise<PdfRenderer> {
+    const { getDocument } = loadPdfjs();
+
+    try {
+      const document = await getDocument({
+        data: new Uint8Array(fs.readFileSync(filePath)),
+        canvasFactory: new NapiCanvasFactory(),
+        standardFontDataUrl: path.join(PDFJS_DIR, 'standard_fonts') + path.sep,
+        cMapUrl: path.join(PDFJS_DIR, 'cmaps') + path.sep,
+        cMapPacked: true,
+        isEvalSupported: false,
+        verbosity: 0
+      }).promise;
+
+      return new PdfRenderer(document);
+    } catch (error: any) {
+      throw new ValidationError(`PDF inválido ou corrompido: ${error.message}`);
+    }
+  }
+
+  get pageCount(): number {
+    return this.document.numPages;
+  }
+
+  async pageSize(pageNumber: number): Promise<PdfPageSize> {
+    const page = await this.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    return { width: viewport.width, height: viewport.height };
+  }
+
+  /**
+   * Renderizar a página como PNG no DPI indicado (fundo branco)
+   */
+  async render(pageNumber: number, dpi: number): Promise<RenderedPage> {
+    const { surface, scale } = await this.draw(pageNumber, dpi);
+
+    return {
+      png: await surface.encode('png'),
+      width: surface.width,
+      height: surface.height,
+      dpi: Math.round(scale * POINTS_PER_INCH * 100) / 100
+    };
+  }
+
+  /**
+   * Renderizar a página em tons de cinza, 1 byte por pixel (comparação de imagens)
+   */
+  async renderGray(pageNumber: number, dpi: number): Promise<GrayPage> {
+    const { surface, scale } = await this.draw(pageNumber, dpi);
+    const rgba = (surface.getContext('2d') as canvas.SKRSContext2D).getImageData(0, 0, surface.width, surface.height).data;
+    const pixels = Buffer.alloc(surface.width * surface.height);
+
+    // Luminância (ITU-R BT.601); o fundo branco deixa todos os pixels opacos
+    for (let i = 0, j = 0; j < pixels.length; i += 4, j++) {
+      pixels[j] = Math.round(0.299 * (rgba[i] as number) + 0.587 * (rgba[i + 1] as number) + 0.114 * (rgba[i + 2] as number));
+    }
+
+    return {
+      width: surface.width,
+      height: surface.height,
+      pixels,
+      dpi: Math.round(scale * POINTS_PER_INCH * 100) / 100
+    };
+  }
+
+  /**
+   * Renderizar a página com a largura indicada (miniaturas)
+   */
+  async renderToWidth(pageNumber: number, width: number): Promise<RenderedPage> {
+    const size = await this.pageSize(pageNumber);
+    return this.render(pageNumber, (width / size.width) * POINTS_PER_INCH);
+  }
+
+  async close(): Promise<void> {
+    await this.document.destroy();
+  }
+
+  /**
+   * Desenhar a página em um canvas de fundo branco; páginas acima de
+   * MAX_RENDER_PIXELS são desenhadas em escala menor
+   */
+  private async draw(pageNumber: number, dpi: number): Promise<{ surface: canvas.Canvas; scale: number }> {
+    const page = await this.getPage(pageNumber);
+    const size = page.getViewport({ scale: 1 });
+
+    let scale = dpi / POINTS_PER_INCH;
+    const pixels = size.width * scale * size.height * scale;
+    if (pixels > MAX_RENDER_PIXELS) {
+      scale *= Math.sqrt(MAX_RENDER_PIXELS / pixels);
+    }
+
+    const viewport = page.getViewport({ scale });
+    const factory = new NapiCanvasFactory();
+    const target = factory.create(viewport.width, viewport.height);
+    const surface = target.canvas as canvas.Canvas;
+    const context = target.context as canvas.SKRSContext2D;
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, surface.width, surface.height);
+
+    // Os tipos do pdf.js esperam o canvas do DOM
+    await page.render({ canvasContext: context, viewport, canvasFactory: factory } as any).promise;
+    page.cleanup();
+
+    return { surface, scale };
+  }
+
+  private async getPage(pageNumber: number): Promise<PDFPageProxy> {
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > this.document.numPages) {
+      throw new ValidationError(`Página ${pageNumber} não existe (o PDF tem ${this.document.numPages})`);
+    }
+    return this.document.getPage(pageNumber);
+  }
+}
+
+/**
+ * Separar o PDF em um arquivo por página
+ */
+export async function splitPdf(filePath: string): Promise<Buffer[]> {
+  const source = await PDFDocument.load(fs.readFileSync(filePath), { ignoreEncryption: true });
+  const pages: Buffer[] = [];
+
+  for (const index of source.getPageIndices()) {
+    const single = await PDFDocument.create();
+    const [page] = await single.copyPages(source, [index]);
+    single.addPage(page);
+    pages.push(Buffer.from(await single.save()));
+  }
+
+  return pages;
+}
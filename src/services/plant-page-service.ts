@@ -0,0 +1,157 @@
+// ============================================================================
+// PÁGINAS DE PLANTAS
+// Divide o PDF da planta em uma página por arquivo, renderiza cada página nos
+// DPIs configurados e gera miniaturas. Executado pela fila de jobs ("plant-pages")
+// após o upload e a cada troca da versão atual, uma planta por vez.
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/app';
+import { log } from '../utils/winstonLogger';
+import { KeyedMutex } from '../utils/keyed-mutex';
+import { getRepository, Repository } from '../repositories';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { PlantPage, PlantPageRender } from '../types/plant';
+import { PlantsUnifiedService } from './plants-unified-service';
+import { PdfRenderer, splitPdf } from './pdf-renderer';
+
+// Renderização usa muita CPU e memória: uma planta por vez em todo o processo
+const renderQueue = new KeyedMutex();
+const RENDER_QUEUE_KEY = 'plant-pages';
+
+// URL pública de um arquivo sob uploads/ ou thumbnails/ (servidos estaticamente)
+function publicUrl(filePath: string): string {
+  return '/' + path.relative(process.cwd(), filePath).split(path.sep).join('/');
+}
+
+export class PlantPageService {
+  private pages: Repository<PlantPage>;
+  private plantsService: PlantsUnifiedService;
+
+  constructor() {
+    this.pages = getRepository<PlantPage>('plant_pages', { indexes: ['plant_id'] });
+    this.plantsService = new PlantsUnifiedService();
+  }
+
+  /**
+   * Dividir, renderizar e gerar miniaturas de todas as páginas (substitui as anteriores).
+   * onProgress recebe o percentual de páginas concluídas.
+   */
+  async processPlant(plantId: string, onProgress?: (percent: number) => Promise<void>): Promise<PlantPage[]> {
+    return renderQueue.runExclusive(RENDER_QUEUE_KEY, async () => {
+      // Relido dentro da fila: a versão atual pode ter mudado enquanto esperava
+      const plant = await this.plantsService.getPlantById(plantId);
+      if (!plant) {
+        throw new NotFoundError('Planta não encontrada');
+      }
+
+      await this.plantsService.deletePages(plantId);
+
+      const startedAt = Date.now();
+      const dpis = [...new Set(config.PLANT_RENDER_DPIS)].sort((a, b) => a - b);
+      const renderer = await PdfRenderer.open(plant.file_path);
+      const pages: PlantPage[] = [];
+
+      const pagesDir = path.join(process.cwd(), 'uploads', 'plant-pages', plantId);
+      const thumbnailsDir = path.join(process.cwd(), 'thumbnails', 'plants', plantId);
+      fs.mkdirSync(pagesDir, { recursive: true });
+      fs.mkdirSync(thumbnailsDir, { recursive: true });
+
+      try {
+        // PDF de uma página não é duplicado: a página aponta para o arquivo da planta
+        const pageFiles = renderer.pageCount > 1 ? await splitPdf(plant.file_path) : [];
+
+        for (let pageNumber = 1; pageNumber <= renderer.pageCount; pageNumber++) {
+          let filePath = plant.file_path;
+          const pageFile = pageFiles[pageNumber - 1];
+          if (pageFile) {
+            filePath = path.join(pagesDir, `page-${pageNumber}.pdf`);
+            fs.writeFileSync(filePath, pageFile);
+          }
+
+          const renders: PlantPageRender[] = [];
+          for (const dpi of dpis) {
+            const image = await renderer.render(pageNumber, dpi);
+            const imagePath = path.join(pagesDir, `page-${pageNumber}@${dpi}dpi.png`);
+            fs.writeFileSync(imagePath, image.png);
+            renders.push({ dpi, file_path: imagePath, file_url: publicUrl(imagePath), width: image.width, height: image.height });
+          }
+
+          const thumbnail = await renderer.renderToWidth(pageNumber, config.PLANT_THUMBNAIL_WIDTH);
+          const thumbnailPath = path.join(thumbnailsDir, `page-${pageNumber}.png`);
+          fs.writeFileSync(thumbnailPath, thumbnail.png);
+
+          const size = await renderer.pageSize(pageNumber);
+          const now = new Date().toISOString();
+          const page: PlantPage = {
+            id: uuidv4(),
+            plant_id: plantId,
+            page_number: pageNumber,
+            file_path: filePath,
+            file_url: publicUrl(filePath),
+            thumbnail_path: thumbnailPath,
+            thumbnail_url: publicUrl(thumbnailPath),
+            width: Math.round(size.width * 100) / 100,
+            height: Math.round(size.height * 100) / 100,
+            renders,
+            ...(plant.current_version_id && { version_id: plant.current_version_id }),
+            created_at: now,
+            updated_at: now
+          };
+
+          await this.pages.save(page);
+          pages.push(page);
+
+          if (onProgress) {
+            await onProgress((pageNumber / renderer.pageCount) * 100);
+          }
+        }
+      } finally {
+        await renderer.close();
+      }
+
+      log.info('Páginas da planta processadas', {
+        plantId,
+        pages: pages.length,
+        dpis,
+        durationMs: Date.now() - startedAt
+      });
+
+      return pages;
+    });
+  }
+
+  /**
+   * Páginas da planta em ordem
+   */
+  async listPages(plantId: string): Promise<PlantPage[]> {
+    return this.pages.find({ where: { plant_id: plantId }, orderBy: 'page_number' });
+  }
+
+  async getPage(plantId: string, pageNumber: number): Promise<PlantPage | null> {
+    const [page] = await this.pages.find({ where: { plant_id: plantId, page_number: pageNumber } });
+    return page || null;
+  }
+
+  /**
+   * Imagem da página no DPI pedido (padrão: o menor DPI renderizado)
+   */
+  async getPageImage(plantId: string, pageNumber: number, dpi?: number): Promise<PlantPageRender> {
+    const page = await this.getPage(plantId, pageNumber);
+
+    if (!page) {
+      throw new NotFoundError(`Página ${pageNumber} não encontrada (a planta pode estar em processamento)`);
+    }
+
+    const renders = page.renders || [];
+    const render = dpi === undefined ? renders[0] : renders.find(r => r.dpi === dpi);
+
+    if (!render) {
+      throw new ValidationError(`Página não renderizada em ${dpi} DPI; disponíveis: ${renders.map(r => r.dpi).join(', ')}`);
+    }
+
+    return render;
+  }
+}
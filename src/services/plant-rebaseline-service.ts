@@ -0,0 +1,340 @@
+// ============================================================================
+// RE-BASELINE DE MEDIÇÕES ENTRE REVISÕES DE PLANTAS
+// Quando o desenho é reemitido, as medições da revisão anterior são copiadas
+// (ou movidas) para a nova, opcionalmente reposicionadas por uma transformação
+// afim calculada a partir de pontos de referência
+// ============================================================================
+
+import { log } from '../utils/winstonLogger';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { Coordinate, Measurement, MeasurementData } from '../types/measurement';
+import { CivilMeasurement, CivilMeasurementData } from '../types/civil-measurement';
+import {
+  AffineTransform,
+  RebaselineRequest,
+  RebaselineResult,
+  ReferencePoint
+} from '../types/plant';
+import { MeasurementService } from './measurement-service';
+import { CivilMeasurementService } from './civil-measurement-service';
+import { PlantVersionService, VersionAuthor } from './plant-version-service';
+import { PlantsUnifiedService } from './plants-unified-service';
+import { ProjectService } from './project-service';
+
+// Abaixo disso os pontos de referência são considerados coincidentes/colineares
+const EPSILON = 1e-9;
+
+// Casas decimais mantidas ao reescrever a escala ("1:100" -> "10000:1000000", depois reduzida)
+const SCALE_PRECISION = 10000;
+
+/**
+ * Transformação a partir de pontos de referência: com 2 pontos, similaridade
+ * (translação, rotação e escala uniforme); com 3 pontos, afim completa
+ */
+export function affineFromReferencePoints(points: ReferencePoint[]): AffineTransform {
+  if (points.length === 2) {
+    const [p1, p2] = points as [ReferencePoint, ReferencePoint];
+    const sx = p2.from.x - p1.from.x;
+    const sy = p2.from.y - p1.from.y;
+    const tx = p2.to.x - p1.to.x;
+    const ty = p2.to.y - p1.to.y;
+    const norm = sx * sx + sy * sy;
+
+    if (norm < EPSILON) {
+      throw new ValidationError('Os pontos de referência de origem não podem coincidir');
+    }
+
+    // Rotação com escala como número complexo: (tx + i·ty) / (sx + i·sy)
+    const cos = (tx * sx + ty * sy) / norm;
+    const sin = (ty * sx - tx * sy) / norm;
+
+    return {
+      a: cos,
+      b: -sin,
+      c: p1.to.x - (cos * p1.from.x - sin * p1.from.y),
+      d: sin,
+      e: cos,
+      f: p1.to.y - (sin * p1.from.x + cos * p1.from.y)
+    };
+  }
+
+  if (points.length === 3) {
+    const [p1, p2, p3] = points as [ReferencePoint, ReferencePoint, ReferencePoint];
+    const det = p1.from.x * (p2.from.y - p3.from.y)
+      + p2.from.x * (p3.from.y - p1.from.y)
+      + p3.from.x * (p1.from.y - p2.from.y);
+
+    if (Math.abs(det) < EPSILON) {
+      throw new ValidationError('Os três pontos de referência de origem não podem ser colineares');
+    }
+
+    // Regra de Cramer para [x y 1]·[a b c] = x' (e o mesmo para y')
+    const solve = (v1: number, v2: number, v3: number): [number, number, number] => [
+      (v1 * (p2.from.y - p3.from.y) + v2 * (p3.from.y - p1.from.y) + v3 * (p1.from.y - p2.from.y)) / det,
+      (p1.from.x * (v2 - v3) + p2.from.x * (v3 - v1) + p3.from.x * (v1 - v2)) / det,
+      (p1.from.x * (p2.from.y * v3 - p3.from.y * v2)
+        + p2.from.x * (p3.from.y * v1 - p1.from.y * v3)
+        + p3.from.x * (p1.from.y * v2 - p2.from.y * v1)) / det
+    ];
+
+    const [a, b, c] = solve(p1.to.x, p2.to.x, p3.to.x);
+    const [d, e, f] = solve(p1.to.y, p2.to.y, p3.to.y);
+    return { a, b, c, d, e, f };
+  }
+
+  throw new ValidationError('Informe 2 ou 3 pontos de referência');
+}
+
+/**
+ * Aplicar a transformação a um ponto (z, página e demais campos são mantidos)
+ */
+export function transformCoordinate(point: Coordinate, transform: AffineTransform): Coordinate {
+  return {
+    ...point,
+    x: transform.a * point.x + transform.b * point.y + transform.c,
+    y: transform.d * point.x + transform.e * point.y + transform.f
+  };
+}
+
+/**
+ * Fator de escala linear da transformação (raiz do determinante; 1 em translação e rotação)
+ */
+export function transformScale(transform: AffineTransform): number {
+  return Math.sqrt(Math.abs(transform.a * transform.e - transform.b * transform.d));
+}
+
+/**
+ * Escala do desenho que mantém as medidas reais depois de multiplicar as
+ * coordenadas por factor; sem escala, as coordenadas estavam em metros ("1:1")
+ */
+export function rescaleDrawingScale(scale: string | undefined, factor: number): string {
+  const match = /^(\d+):(\d+)$/.exec(scale || '1:1');
+  if (!match) {
+    return scale as string; // Escala fora do formato: mantida
+  }
+
+  const gcd = (x: number, y: number): number => (y === 0 ? x : gcd(y, x % y));
+  const numerator = Number(match[1]) * SCALE_PRECISION;
+  const denominator = Math.max(1, Math.round((Number(match[2]) * SCALE_PRECISION) / factor));
+  const divisor = gcd(numerator, denominator);
+  return `${numerator / divisor}:${denominator / divisor}`;
+}
+
+function isCoordinate(value: unknown): value is Coordinate {
+  return typeof value === 'object' && value !== null
+    && typeof (value as Coordinate).x === 'number' && typeof (value as Coordinate).y === 'number';
+}
+
+/**
+ * Aplicar fn a todos os pontos de listas de coordenadas, em qualquer nível
+ * (polilinhas, polígonos e planos das medições civis)
+ */
+function mapPoints<T>(value: T, fn: (point: Coordinate) => Coordinate): T {
+  if (Array.isArray(value)) {
+    return value.map(item => (isCoordinate(item) ? fn(item) : mapPoints(item, fn))) as unknown as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapPoints(item, fn)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Reposicionar os pontos da medição: coordinates (redes), geometry (civis) e
+ * output.coordinates (cópia dos pontos no layout). points traz cada ponto uma vez.
+ */
+function repositionMeasurement<T extends object>(data: T, transform: AffineTransform | null): { data: T; points: Coordinate[] } {
+  const points: Coordinate[] = [];
+  const fields = data as { coordinates?: Coordinate[]; geometry?: object; output?: { coordinates?: Coordinate[] } };
+  const move = (point: Coordinate): Coordinate => (transform ? transformCoordinate(point, transform) : point);
+  const collect = (point: Coordinate): Coordinate => {
+    const moved = move(point);
+    points.push(moved);
+    return moved;
+  };
+
+  const repositioned = { ...data } as typeof fields;
+  if (fields.coordinates) {
+    repositioned.coordinates = mapPoints(fields.coordinates, collect);
+  }
+  if (fields.geometry) {
+    repositioned.geometry = mapPoints(fields.geometry, collect);
+  }
+  if (transform && fields.output?.coordinates) {
+    repositioned.output = { ...fields.output, coordinates: mapPoints(fields.output.coordinates, move) };
+  }
+
+  // Coordenadas multiplicadas por um fator: a escala compensa, e recálculos chegam às mesmas quantidades
+  const factor = transform ? transformScale(transform) : 1;
+  if (Math.abs(factor - 1) > 1e-6) {
+    (repositioned as { scale?: string }).scale = rescaleDrawingScale((data as { scale?: string }).scale, factor);
+  }
+
+  return { data: repositioned as T, points };
+}
+
+export class PlantRebaselineService {
+  private versionService: PlantVersionService;
+  private measurementService: MeasurementService;
+  private civilService: CivilMeasurementService;
+  private plantsService: PlantsUnifiedService;
+  private projectService: ProjectService;
+
+  constructor() {
+    this.versionService = new PlantVersionService();
+    this.measurementService = new MeasurementService();
+    this.civilService = new CivilMeasurementService();
+    this.plantsService = new PlantsUnifiedService();
+    this.projectService = new ProjectService();
+  }
+
+  /**
+   * Levar as medições da revisão de origem para a revisão indicada
+   */
+  async rebaseline(
+    plantId: string,
+    versionId: string,
+    request: RebaselineRequest,
+    author: VersionAuthor
+  ): Promise<RebaselineResult> {
+    const target = await this.versionService.getVersion(plantId, versionId);
+    if (!target) {
+      throw new NotFoundError('Versão não encontrada');
+    }
+
+    const sourceId = request.from_version_id || target.parent_id;
+    if (!sourceId) {
+      throw new ValidationError(`Versão ${target.version_number} não tem versão anterior: informe from_version_id`);
+    }
+    if (sourceId === target.id) {
+      throw new ValidationError('A versão de origem deve ser diferente da versão de destino');
+    }
+
+    const source = await this.versionService.getVersion(plantId, sourceId);
+    if (!source) {
+      throw new NotFoundError(`Versão de origem ${sourceId} não encontrada na planta`);
+    }
+
+    // Medições anteriores ao vínculo com revisões (sem plant_id) contam como da versão 1
+    const baseline = await this.versionService.getBaselineVersion(plantId);
+    const unlinkedProjectIds = baseline.id === source.id ? await this.unlinkedMeasurementProjects(plantId) : [];
+
+    const sourceMeasurements = await this.measurementService.listPlantVersionMeasurements(plantId, source.id, unlinkedProjectIds);
+    const sourceCivilMeasurements = await this.civilService.listPlantVersionMeasurements(plantId, source.id, unlinkedProjectIds);
+
+    // Copiar de novo duplicaria as medições (e as quantidades do projeto)
+    if (request.mode === 'copy') {
+      const sourceIds = new Set([...sourceMeasurements, ...sourceCivilMeasurements].map(m => m.id));
+      const targetMeasurements = [
+        ...await this.measurementService.listPlantVersionMeasurements(plantId, target.id),
+        ...await this.civilService.listPlantVersionMeasurements(plantId, target.id)
+      ];
+      const copies = targetMeasurements.filter(m => m.carried_from && sourceIds.has(m.carried_from)).length;
+      if (copies > 0) {
+        throw new ConflictError(
+          `A versão ${target.version_number} já tem ${copies} cópia(s) de medições da versão ${source.version_number}`
+        );
+      }
+    }
+
+    const transform = request.reference_points ? affineFromReferencePoints(request.reference_points) : null;
+    const dimensions = target.metadata?.dimensions;
+    const sheet = request.sheet || (dimensions ? { width: dimensions.width, height: dimensions.height } : null);
+
+    const result: RebaselineResult = {
+      plant_id: plantId,
+      from_version_id: source.id,
+      to_version_id: target.id,
+      mode: request.mode,
+      transform,
+      sheet,
+      carried: 0,
+      measurement_ids: [],
+      civil_measurement_ids: [],
+      outside_sheet: []
+    };
+
+    // Medições de redes e civis seguem o mesmo caminho; cada serviço grava na sua coleção
+    const carriers: Array<{
+      measurement: Measurement | CivilMeasurement;
+      collection: 'measurements' | 'civil_measurements';
+      carry: (data: object, outsideSheet: boolean) => Promise<{ id: string }>;
+    }> = [
+      ...sourceMeasurements.map(measurement => ({
+        measurement,
+        collection: 'measurements' as const,
+        carry: (data: object, outsideSheet: boolean) => this.measurementService.carryMeasurement(
+          measurement, plantId, target.id, data as MeasurementData, outsideSheet, request.mode
+        )
+      })),
+      ...sourceCivilMeasurements.map(measurement => ({
+        measurement,
+        collection: 'civil_measurements' as const,
+        carry: (data: object, outsideSheet: boolean) => this.civilService.carryMeasurement(
+          measurement, plantId, target.id, data as CivilMeasurementData, outsideSheet, request.mode
+        )
+      }))
+    ];
+
+    for (const { measurement, collection, carry } of carriers) {
+      const { data, points } = repositionMeasurement(measurement.data as object, transform);
+
+      const pointsOutside = sheet
+        ? points.filter(p => p.x < 0 || p.y < 0 || p.x > sheet.width || p.y > sheet.height).length
+        : 0;
+
+      const carried = await carry(data, pointsOutside > 0);
+
+      result.carried++;
+      (collection === 'measurements' ? result.measurement_ids : result.civil_measurement_ids).push(carried.id);
+      if (pointsOutside > 0) {
+        result.outside_sheet.push({
+          measurement_id: carried.id,
+          collection,
+          label: (measurement.data as { label?: string }).label || '',
+          type: measurement.type,
+          points_outside: pointsOutside
+        });
+      }
+    }
+
+    await this.versionService.syncMeasurementsCount(plantId, target.id);
+    if (request.mode === 'link') {
+      await this.versionService.syncMeasurementsCount(plantId, source.id);
+    }
+
+    await this.versionService.recordChange(
+      plantId,
+      target.id,
+      `${result.carried} medição(ões) ${request.mode === 'copy' ? 'copiada(s)' : 'movida(s)'} da versão ${source.version_number}`,
+      author,
+      [source.id],
+      { mode: request.mode, transform, outside_sheet: result.outside_sheet.length }
+    );
+
+    log.info('Re-baseline de medições concluído', {
+      plantId,
+      fromVersionId: source.id,
+      toVersionId: target.id,
+      mode: request.mode,
+      carried: result.carried,
+      outsideSheet: result.outside_sheet.length
+    });
+
+    return result;
+  }
+
+  /**
+   * Projetos cujas medições sem plant_id foram feitas sobre a planta: o do upload
+   * (project_id) e os que a usam como PDF (pdfId)
+   */
+  private async unlinkedMeasurementProjects(plantId: string): Promise<string[]> {
+    const plant = await this.plantsService.getPlantById(plantId);
+    const projects = await this.projectService.listProjects();
+
+    return [...new Set([
+      ...(plant?.project_id ? [plant.project_id] : []),
+      ...projects.filter(project => project.pdfId === plantId).map(project => project.id)
+    ])];
+  }
+}
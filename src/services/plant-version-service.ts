@@ -0,0 +1,727 @@
+// ============================================================================
+// VERSIONAMENTO DE PLANTAS (REVISÕES DO DESENHO EM ÁRVORE)
+// Cada revisão enviada vira uma versão com checksum; a versão atual define o
+// arquivo da planta em PlantsUnifiedService
+// ============================================================================
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { log } from '../utils/winstonLogger';
+import { plantLock } from '../utils/keyed-mutex';
+import { getRepository, Repository } from '../repositories';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import {
+  CreateVersionRequest,
+  PlantVersion,
+  UpdateVersionRequest,
+  VersionAnalytics,
+  VersionChange,
+  VersionComparison,
+  VersionFilter,
+  VersionHistory,
+  VersionNode,
+  VersionStatus,
+  VisualComparison,
+  VisualComparisonOptions
+} from '../types/plant';
+import { Measurement } from '../types/measurement';
+import { CivilMeasurement } from '../types/civil-measurement';
+import { Plant, PlantsUnifiedService } from './plants-unified-service';
+import { diffRasters, encodeOverlayPng, rasterizePages } from './plant-visual-diff';
+
+// Transições permitidas: revisão devolvida volta para rascunho; arquivada é final
+const STATUS_TRANSITIONS: Record<VersionStatus, VersionStatus[]> = {
+  draft: ['review', 'archived'],
+  review: ['approved', 'draft'],
+  approved: ['archived'],
+  archived: [],
+  deprecated: ['archived']
+};
+
+const STATUS_LABELS: Record<VersionStatus, string> = {
+  draft: 'em rascunho',
+  review: 'em revisão',
+  approved: 'aprovada',
+  archived: 'arquivada',
+  deprecated: 'obsoleta'
+};
+
+// Campos comparados entre duas versões (metadata é comparado chave a chave)
+const COMPARED_FIELDS: Array<keyof PlantVersion> = [
+  'version_number', 'version_name', 'description', 'file_size', 'file_type',
+  'checksum', 'status', 'is_current', 'tags'
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Autor registrado no change_log
+export interface VersionAuthor {
+  id: string;
+  name: string;
+}
+
+/**
+ * SHA-256 do arquivo (lido em stream: plantas podem ter centenas de MB)
+ */
+export function fileChecksum(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+function fileType(filePath: string): string {
+  return path.extname(filePath).substring(1).toLowerCase() || 'pdf';
+}
+
+function change(
+  type: VersionChange['type'],
+  description: string,
+  author: VersionAuthor,
+  relatedVersions: string[] = [],
+  metadata?: any
+): VersionChange {
+  return {
+    id: uuidv4(),
+    type,
+    description,
+    author_id: author.id,
+    author_name: author.name,
+    timestamp: new Date().toISOString(),
+    related_versions: relatedVersions,
+    ...(metadata && { metadata })
+  };
+}
+
+function sameValue(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export class PlantVersionService {
+  private versions: Repository<PlantVersion>;
+  private measurements: Repository<Measurement>;
+  private civilMeasurements: Repository<CivilMeasurement>;
+  private plantsService: PlantsUnifiedService;
+
+  constructor() {
+    this.versions = getRepository<PlantVersion>('plant_versions', { indexes: ['plant_id'] });
+    // Só para contar as medições ligadas a cada versão (metadata.measurements_count)
+    this.measurements = getRepository<Measurement>('measurements', { indexes: ['project_id', 'type', 'plant_version_id'] });
+    this.civilMeasurements = getRepository<CivilMeasurement>('civil-measurements', { indexes: ['project_id', 'type', 'plant_version_id'] });
+    this.plantsService = new PlantsUnifiedService();
+
+    log.info('PlantVersionService inicializado');
+  }
+
+  /**
+   * Registrar uma nova revisão do desenho.
+   * Na primeira revisão, o arquivo original da planta vira a versão 1 (raiz da árvore).
+   * Arquivo idêntico (mesmo checksum) a uma versão existente é recusado.
+   * Leitura das versões, verificações, gravação e troca da atual rodam no lock da
+   * planta: envios simultâneos não repetem número nem checksum nem criam duas atuais.
+   */
+  async createVersion(
+    request: CreateVersionRequest,
+    author: VersionAuthor,
+    file?: { mime_type: string; original_filename: string }
+  ): Promise<PlantVersion> {
+    const plant = await this.getPlant(request.plant_id);
+    const checksum = request.checksum || await fileChecksum(request.file_path);
+
+    return plantLock.runExclusive(plant.id, () => this.addVersion(plant, request, checksum, author, file));
+  }
+
+  private async addVersion(
+    plant: Plant,
+    request: CreateVersionRequest,
+    checksum: string,
+    author: VersionAuthor,
+    file?: { mime_type: string; original_filename: string }
+  ): Promise<PlantVersion> {
+    // Já no lock: registra a versão 1 se preciso e relê as versões
+    const versions = await this.createBaseline(plant, author);
+
+    const duplicate = versions.find(v => v.checksum === checksum);
+    if (duplicate) {
+      throw new ConflictError(`Arquivo idêntico à versão ${duplicate.version_number} da planta`);
+    }
+
+    const parentId = request.parent_id || versions.find(v => v.is_current)?.id;
+    const parent = versions.find(v => v.id === parentId);
+    if (request.parent_id && !parent) {
+      throw new NotFoundError(`Versão ${request.parent_id} não encontrada na planta`);
+    }
+
+    const versionNumber = request.version_number || this.nextVersionNumber(versions);
+    if (versions.some(v => v.version_number === versionNumber)) {
+      throw new ConflictError(`Versão ${versionNumber} já existe na planta`);
+    }
+
+    const now = new Date().toISOString();
+    const version: PlantVersion = {
+      id: uuidv4(),
+      plant_id: plant.id,
+      version_number: versionNumber,
+      version_name: request.version_name || `Revisão ${versionNumber}`,
+      ...(request.description && { description: request.description }),
+      file_path: request.file_path,
+      ...(request.thumbnail_path && { thumbnail_path: request.thumbnail_path }),
+      file_size: request.file_size,
+      file_type: request.file_type,
+      checksum,
+      status: 'draft',
+      created_by: author.id,
+      ...(parent && { parent_id: parent.id }),
+      depth: parent ? parent.depth + 1 : 0,
+      is_current: false,
+      created_at: now,
+      updated_at: now,
+      ...(request.tags && { tags: request.tags }),
+      metadata: {
+        ...request.metadata,
+        ...(file && { mime_type: file.mime_type, original_filename: file.original_filename })
+      },
+      change_log: [
+        change('create', `Versão ${versionNumber} criada`, author, parent ? [parent.id] : [])
+      ]
+    };
+
+    await this.versions.save(version);
+
+    log.info('Versão de planta criada', { plantId: plant.id, versionId: version.id, versionNumber });
+
+    if (request.is_current !== false) {
+      return this.switchCurrentVersion(plant.id, version.id, author);
+    }
+
+    return version;
+  }
+
+  async getVersion(plantId: string, versionId: string): Promise<PlantVersion | null> {
+    const version = await this.versions.findById(versionId);
+    return version && version.plant_id === plantId ? version : null;
+  }
+
+  /**
+   * Versão atual da planta (registra a versão 1 se a planta ainda não tem versões)
+   */
+  async getCurrentVersion(plantId: string): Promise<PlantVersion> {
+    const plant = await this.getPlant(plantId);
+    const versions = await this.ensureBaseline(plant);
+    return versions.find(v => v.is_current) as PlantVersion;
+  }
+
+  /**
+   * Versão 1 da planta (a mais antiga): recebe as medições feitas antes do vínculo com revisões
+   */
+  async getBaselineVersion(plantId: string): Promise<PlantVersion> {
+    const plant = await this.getPlant(plantId);
+    const [baseline] = await this.ensureBaseline(plant);
+    return baseline as PlantVersion;
+  }
+
+  /**
+   * Gravar em metadata.measurements_count quantas medições (de redes e civis) estão na versão
+   */
+  async syncMeasurementsCount(plantId: string, versionId: string): Promise<number> {
+    const where = { plant_id: plantId, plant_version_id: versionId, deleted_at: null };
+    const count = await this.measurements.count(where) + await this.civilMeasurements.count(where);
+    const version = await this.getVersion(plantId, versionId);
+
+    if (version) {
+      version.metadata = { ...version.metadata, measurements_count: count };
+      await this.versions.save(version);
+    }
+
+    return count;
+  }
+
+  /**
+   * Planta e revisão de uma nova medição: a planta deve ter sido enviada para o
+   * mesmo projeto e a revisão padrão é a atual
+   */
+  async resolveMeasurementLink(
+    projectId: string,
+    plantId: string,
+    versionId?: string
+  ): Promise<{ plant_id: string; plant_version_id: string }> {
+    const plant = await this.plantsService.getPlantById(plantId);
+
+    if (!plant || plant.project_id !== projectId) {
+      throw new ValidationError(`Planta ${plantId} não encontrada no projeto`);
+    }
+
+    const version = versionId
+      ? await this.getVersion(plantId, versionId)
+      : await this.getCurrentVersion(plantId);
+
+    if (!version) {
+      throw new ValidationError(`Versão ${versionId} não encontrada na planta`);
+    }
+
+    return { plant_id: plantId, plant_version_id: version.id };
+  }
+
+  /**
+   * Registrar no change_log da versão uma alteração feita fora deste serviço (ex.: re-baseline)
+   */
+  async recordChange(
+    plantId: string,
+    versionId: string,
+    description: string,
+    author: VersionAuthor,
+    relatedVersions: string[] = [],
+    metadata?: any
+  ): Promise<void> {
+    const version = await this.getVersion(plantId, versionId);
+
+    if (version) {
+      version.change_log.push(change('update', description, author, relatedVersions, metadata));
+      version.updated_at = new Date().toISOString();
+      await this.versions.save(version);
+    }
+  }
+
+  /**
+   * Histórico de versões da planta (mais recentes primeiro), com filtros de VersionFilter
+   */
+  async getHistory(plantId: string, filters: VersionFilter = {}): Promise<VersionHistory> {
+    const plant = await this.getPlant(plantId);
+    const versions = await this.ensureBaseline(plant);
+    const current = versions.find(v => v.is_current) as PlantVersion;
+
+    const filtered = versions
+      .filter(v => !filters.status || v.status === filters.status)
+      .filter(v => !filters.created_by || v.created_by === filters.created_by)
+      .filter(v => !filters.date_from || v.created_at >= filters.date_from)
+      .filter(v => !filters.date_to || v.created_at <= filters.date_to)
+      .filter(v => filters.is_current === undefined || v.is_current === filters.is_current)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return {
+      plant_id: plantId,
+      versions: filtered,
+      current_version: current,
+      total_versions: versions.length
+    };
+  }
+
+  /**
+   * Árvore de versões (raízes: versões sem pai)
+   */
+  async getTree(plantId: string): Promise<VersionNode[]> {
+    const plant = await this.getPlant(plantId);
+    const versions = (await this.ensureBaseline(plant))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    const nodes = new Map<string, VersionNode>(versions.map(v => [v.id, {
+      id: v.id,
+      version_number: v.version_number,
+      version_name: v.version_name,
+      status: v.status,
+      created_at: v.created_at,
+      parent_id: v.parent_id || null,
+      children: [],
+      depth: v.depth,
+      is_current: v.is_current
+    }]));
+
+    const roots: VersionNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Tornar uma versão a atual: as demais deixam de ser e a planta passa a usar seu arquivo
+   */
+  async setCurrentVersion(plantId: string, versionId: string, author: VersionAuthor): Promise<PlantVersion> {
+    return plantLock.runExclusive(plantId, () => this.switchCurrentVersion(plantId, versionId, author));
+  }
+
+  private async switchCurrentVersion(plantId: string, versionId: string, author: VersionAuthor): Promise<PlantVersion> {
+    const version = await this.getVersion(plantId, versionId);
+
+    if (!version) {
+      throw new NotFoundError('Versão não encontrada');
+    }
+
+    if (version.status === 'archived' || version.status === 'deprecated') {
+      throw new ConflictError('Versão arquivada não pode ser a atual');
+    }
+
+    const wasCurrent = version.is_current;
+    const now = new Date().toISOString();
+    for (const other of await this.versions.find({ where: { plant_id: plantId, is_current: true } })) {
+      if (other.id === version.id) continue;
+      other.is_current = false;
+      other.updated_at = now;
+      await this.versions.save(other);
+    }
+
+    if (!version.is_current) {
+      version.is_current = true;
+      version.updated_at = now;
+      version.change_log.push(change('update', 'Definida como versão atual', author));
+      await this.versions.save(version);
+    }
+
+    await this.plantsService.setCurrentFile(plantId, version);
+
+    // Páginas e imagens passam a refletir o arquivo da nova versão atual
+    if (!wasCurrent) {
+      await this.plantsService.schedulePages(plantId, author.id);
+    }
+
+    log.info('Versão atual da planta alterada', { plantId, versionId });
+
+    return version;
+  }
+
+  /**
+   * Atualizar dados descritivos da versão (nome, descrição, tags, metadata)
+   */
+  async updateVersion(plantId: string, versionId: string, update: UpdateVersionRequest, author: VersionAuthor): Promise<PlantVersion | null> {
+    const version = await this.getVersion(plantId, versionId);
+
+    if (!version) {
+      return null;
+    }
+
+    const changed: string[] = [];
+    if (update.version_name !== undefined && update.version_name !== version.version_name) {
+      version.version_name = update.version_name;
+      changed.push('version_name');
+    }
+    if (update.description !== undefined && update.description !== version.description) {
+      version.description = update.description;
+      changed.push('description');
+    }
+    if (update.tags !== undefined) {
+      version.tags = update.tags;
+      changed.push('tags');
+    }
+    if (update.metadata !== undefined) {
+      version.metadata = { ...version.metadata, ...update.metadata };
+      changed.push('metadata');
+    }
+
+    if (changed.length > 0) {
+      version.change_log.push(change('update', `Alterado: ${changed.join(', ')}`, author));
+      version.updated_at = new Date().toISOString();
+      await this.versions.save(version);
+    }
+
+    return version;
+  }
+
+  /**
+   * Mudar o status da versão seguindo o fluxo rascunho -> revisão -> aprovada -> arquivada
+   */
+  async changeStatus(plantId: string, versionId: string, status: VersionStatus, author: VersionAuthor, comment?: string): Promise<PlantVersion | null> {
+    // No lock da planta: arquivar não pode cruzar com a troca da versão atual
+    return plantLock.runExclusive(plantId, () => this.applyStatus(plantId, versionId, status, author, comment));
+  }
+
+  private async applyStatus(plantId: string, versionId: string, status: VersionStatus, author: VersionAuthor, comment?: string): Promise<PlantVersion | null> {
+    const version = await this.getVersion(plantId, versionId);
+
+    if (!version) {
+      return null;
+    }
+
+    if (!STATUS_TRANSITIONS[version.status].includes(status)) {
+      throw new ConflictError(`Versão ${STATUS_LABELS[version.status]} não pode passar para ${STATUS_LABELS[status]}`);
+    }
+
+    if (status === 'archived' && version.is_current) {
+      throw new ConflictError('A versão atual não pode ser arquivada; defina outra versão como atual');
+    }
+
+    const now = new Date().toISOString();
+    const type: VersionChange['type'] =
+      status === 'approved' ? 'approve' : version.status === 'review' && status === 'draft' ? 'reject' : 'update';
+
+    version.change_log.push(change(type, comment || `Status: ${version.status} -> ${status}`, author, [], { from: version.status, to: status }));
+    version.status = status;
+
+    if (status === 'approved') {
+      version.approved_by = author.id;
+      version.approved_at = now;
+      version.approval_info = { approver_name: author.name, ...(comment && { comment }) };
+    }
+
+    version.updated_at = now;
+    await this.versions.save(version);
+
+    log.audit('plant_version_status', author.id, { plantId, versionId, status });
+
+    return version;
+  }
+
+  /**
+   * Comparar duas versões da mesma planta: campos, metadata (escala, dimensões e
+   * camadas detalhadas) e, se pedido, a sobreposição visual de uma página
+   */
+  async compareVersions(
+    plantId: string,
+    versionId1: string,
+    versionId2: string,
+    visual?: VisualComparisonOptions
+  ): Promise<VersionComparison> {
+    const version1 = await this.getVersion(plantId, versionId1);
+    const version2 = await this.getVersion(plantId, versionId2);
+
+    if (!version1 || !version2) {
+      throw new NotFoundError('Versão não encontrada');
+    }
+
+    const differences: VersionComparison['differences'] = [];
+    const compare = (field: string, oldValue: any, newValue: any) => {
+      if (sameValue(oldValue, newValue)) return;
+      differences.push({
+        field,
+        old_value: oldValue,
+        new_value: newValue,
+        type: oldValue === undefined ? 'added' : newValue === undefined ? 'removed' : 'modified'
+      });
+    };
+
+    for (const field of COMPARED_FIELDS) {
+      compare(field, version1[field], version2[field]);
+    }
+
+    const metadata1 = version1.metadata || {};
+    const metadata2 = version2.metadata || {};
+    for (const key of new Set([...Object.keys(metadata1), ...Object.keys(metadata2)])) {
+      if (key === 'layers') {
+        // Uma diferença por camada que entrou ou saiu do desenho
+        const layers1: string[] = metadata1.layers || [];
+        const layers2: string[] = metadata2.layers || [];
+        layers1.filter(layer => !layers2.includes(layer)).forEach(layer => compare('metadata.layers', layer, undefined));
+        layers2.filter(layer => !layers1.includes(layer)).forEach(layer => compare('metadata.layers', undefined, layer));
+      } else if (key === 'dimensions') {
+        for (const dimension of ['width', 'height', 'unit'] as const) {
+          compare(`metadata.dimensions.${dimension}`, metadata1.dimensions?.[dimension], metadata2.dimensions?.[dimension]);
+        }
+      } else {
+        compare(`metadata.${key}`, metadata1[key], metadata2[key]);
+      }
+    }
+
+    return {
+      version1,
+      version2,
+      differences,
+      ...(visual && { visual: await this.visualComparison(version1, version2, visual) })
+    };
+  }
+
+  /**
+   * Arquivo PNG da sobreposição entre duas versões (gerado se ainda não existir)
+   */
+  async getOverlayPath(
+    plantId: string,
+    versionId1: string,
+    versionId2: string,
+    options: VisualComparisonOptions
+  ): Promise<string> {
+    const version1 = await this.getVersion(plantId, versionId1);
+    const version2 = await this.getVersion(plantId, versionId2);
+
+    if (!version1 || !version2) {
+      throw new NotFoundError('Versão não encontrada');
+    }
+
+    await this.visualComparison(version1, version2, options);
+    return this.overlayFile(version1, version2, options) + '.png';
+  }
+
+  /**
+   * Estatísticas de versões (todas as plantas ou uma planta)
+   */
+  async getAnalytics(plantId?: string): Promise<VersionAnalytics> {
+    const versions = await this.versions.find({ where: { plant_id: plantId } });
+
+    const byStatus: Record<string, number> = {};
+    const byUser: Record<string, number> = {};
+    const byPlant = new Map<string, number>();
+    let approvalHours = 0;
+    let approved = 0;
+
+    for (const version of versions) {
+      byStatus[version.status] = (byStatus[version.status] || 0) + 1;
+      byUser[version.created_by] = (byUser[version.created_by] || 0) + 1;
+      byPlant.set(version.plant_id, (byPlant.get(version.plant_id) || 0) + 1);
+
+      if (version.approved_at) {
+        approvalHours += (new Date(version.approved_at).getTime() - new Date(version.created_at).getTime()) / HOUR_MS;
+        approved++;
+      }
+    }
+
+    const mostActive = Array.from(byPlant.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10);
+
+    const mostActivePlants: VersionAnalytics['most_active_plants'] = [];
+    for (const [id, count] of mostActive) {
+      const plant = await this.plantsService.getPlantById(id);
+      mostActivePlants.push({ plant_id: id, plant_name: plant?.name || id, version_count: count });
+    }
+
+    return {
+      total_versions: versions.length,
+      versions_by_status: byStatus,
+      versions_by_user: byUser,
+      average_approval_time: approved > 0 ? Math.round((approvalHours / approved) * 100) / 100 : 0,
+      most_active_plants: mostActivePlants
+    };
+  }
+
+  /**
+   * Rasterizar a página nas duas versões e gerar a sobreposição. Os arquivos das
+   * versões não mudam (checksum), então o resultado fica em cache em exports/plants/overlays.
+   */
+  private async visualComparison(
+    version1: PlantVersion,
+    version2: PlantVersion,
+    options: VisualComparisonOptions
+  ): Promise<VisualComparison> {
+    const file = this.overlayFile(version1, version2, options);
+
+    if (fs.existsSync(`${file}.json`) && fs.existsSync(`${file}.png`)) {
+      return JSON.parse(fs.readFileSync(`${file}.json`, 'utf-8'));
+    }
+
+    for (const version of [version1, version2]) {
+      if (version.file_type !== 'pdf') {
+        throw new ValidationError(`Comparação visual disponível apenas para PDF (versão ${version.version_number} é ${version.file_type})`);
+      }
+      if (!fs.existsSync(version.file_path)) {
+        throw new NotFoundError(`Arquivo da versão ${version.version_number} não encontrado`);
+      }
+    }
+
+    const { rasters: [before, after], dpi } = await rasterizePages([version1.file_path, version2.file_path], options.page, options.dpi);
+    const diff = diffRasters(before, after, options.threshold);
+
+    const query = `v1=${version1.id}&v2=${version2.id}&page=${options.page}&dpi=${options.dpi}&threshold=${options.threshold}`;
+    const comparison: VisualComparison = {
+      ...options,
+      rendered_dpi: dpi,
+      width: diff.width,
+      height: diff.height,
+      changed_pixels: diff.changed_pixels,
+      added_pixels: diff.added_pixels,
+      removed_pixels: diff.removed_pixels,
+      changed_percentage: Math.round((diff.changed_pixels / (diff.width * diff.height)) * 1000000) / 10000,
+      bounding_box: diff.bounding_box,
+      overlay_url: `/api/v1/plants/${version1.plant_id}/versions/compare/overlay?${query}`
+    };
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(`${file}.png`, await encodeOverlayPng(diff));
+    fs.writeFileSync(`${file}.json`, JSON.stringify(comparison, null, 2));
+
+    log.info('Comparação visual de versões gerada', {
+      plantId: version1.plant_id,
+      version1: version1.id,
+      version2: version2.id,
+      page: options.page,
+      changedPixels: diff.changed_pixels
+    });
+
+    return comparison;
+  }
+
+  // Caminho (sem extensão) da sobreposição: exports/plants/overlays/<planta>/<v1>-<v2>-p<página>-<dpi>-t<limiar>
+  private overlayFile(version1: PlantVersion, version2: PlantVersion, options: VisualComparisonOptions): string {
+    return path.join(
+      process.cwd(), 'exports', 'plants', 'overlays', version1.plant_id,
+      `${version1.id}-${version2.id}-p${options.page}-${options.dpi}-t${options.threshold}`
+    );
+  }
+
+  private async getPlant(plantId: string): Promise<Plant> {
+    const plant = await this.plantsService.getPlantById(plantId);
+
+    if (!plant) {
+      throw new NotFoundError('Planta não encontrada');
+    }
+
+    return plant;
+  }
+
+  /**
+   * Versões da planta; plantas enviadas antes do versionamento ganham a versão 1
+   * com o arquivo original (atual). A verificação é refeita dentro do lock da
+   * planta para que leituras simultâneas não criem duas versões 1.
+   */
+  private async ensureBaseline(plant: Plant, author?: VersionAuthor): Promise<PlantVersion[]> {
+    const versions = await this.versions.find({ where: { plant_id: plant.id }, orderBy: 'created_at' });
+
+    if (versions.length > 0) {
+      return versions;
+    }
+
+    return plantLock.runExclusive(plant.id, () => this.createBaseline(plant, author));
+  }
+
+  private async createBaseline(plant: Plant, author?: VersionAuthor): Promise<PlantVersion[]> {
+    const versions = await this.versions.find({ where: { plant_id: plant.id }, orderBy: 'created_at' });
+
+    if (versions.length > 0) {
+      return versions;
+    }
+
+    const checksum = fs.existsSync(plant.file_path) ? await fileChecksum(plant.file_path) : undefined;
+    const system = author || { id: 'system', name: 'system' };
+    const baseline: PlantVersion = {
+      id: uuidv4(),
+      plant_id: plant.id,
+      version_number: '1',
+      version_name: 'Versão original',
+      file_path: plant.file_path,
+      file_size: plant.file_size,
+      file_type: fileType(plant.original_filename || plant.file_path),
+      ...(checksum && { checksum }),
+      status: 'draft',
+      created_by: system.id,
+      depth: 0,
+      is_current: true,
+      created_at: plant.created_at,
+      updated_at: new Date().toISOString(),
+      metadata: { mime_type: plant.mime_type, original_filename: plant.original_filename },
+      change_log: [change('create', 'Versão 1 registrada a partir do arquivo original da planta', system)]
+    };
+
+    await this.versions.save(baseline);
+    await this.plantsService.setCurrentFile(plant.id, baseline);
+
+    return [baseline];
+  }
+
+  /**
+   * Próximo número inteiro ainda não usado pela planta
+   */
+  private nextVersionNumber(versions: PlantVersion[]): string {
+    let next = versions.length + 1;
+    while (versions.some(v => v.version_number === String(next))) {
+      next++;
+    }
+    return String(next);
+  }
+}
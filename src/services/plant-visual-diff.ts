@@ -0,0 +1,149 @@
+// ============================================================================
+// COMPARAÇÃO VISUAL DE REVISÕES DE PLANTAS
+// Rasteriza a mesma página de dois PDFs (PdfRenderer), compara pixel a pixel
+// e gera um PNG de sobreposição com o que entrou e saiu do desenho
+// ============================================================================
+
+import * as canvas from '@napi-rs/canvas';
+import { PdfPageSize, PdfRenderer } from './pdf-renderer';
+
+// A comparação roda no processo da API: acima deste total de pixels o DPI é reduzido
+export const MAX_DIFF_PIXELS = 6000000;
+
+// PDF mede em pontos (1/72 de polegada)
+const POINTS_PER_INCH = 72;
+
+// Cores da sobreposição: removido da versão 1 em vermelho, adicionado na versão 2 em verde
+const REMOVED_COLOR = [220, 38, 38];
+const ADDED_COLOR = [22, 163, 74];
+// Trechos sem alteração aparecem esmaecidos (fração da tinta original)
+const UNCHANGED_INK = 0.25;
+
+// Página rasterizada em tons de cinza (1 byte por pixel, 255 = branco)
+export interface GrayRaster {
+  width: number;
+  height: number;
+  pixels: Buffer;
+}
+
+export interface RasterDiff {
+  width: number;
+  height: number;
+  changed_pixels: number;
+  added_pixels: number;
+  removed_pixels: number;
+  bounding_box: { x: number; y: number; width: number; height: number } | null;
+  overlay: Uint8ClampedArray; // RGBA, 4 bytes por pixel
+}
+
+/**
+ * Maior DPI (até o pedido) em que a área comparada, do tamanho da maior das
+ * duas páginas, cabe em MAX_DIFF_PIXELS
+ */
+export function diffDpi(sizes: PdfPageSize[], dpi: number): number {
+  const width = Math.max(...sizes.map(size => size.width));
+  const height = Math.max(...sizes.map(size => size.height));
+  const limit = Math.floor(POINTS_PER_INCH * Math.sqrt(MAX_DIFF_PIXELS / (width * height)));
+  return Math.max(1, Math.min(dpi, limit));
+}
+
+/**
+ * Rasterizar a mesma página de dois PDFs no mesmo DPI (limitado por diffDpi)
+ */
+export async function rasterizePages(
+  pdfPaths: [string, string],
+  page: number,
+  dpi: number
+): Promise<{ rasters: [GrayRaster, GrayRaster]; dpi: number }> {
+  const renderers: PdfRenderer[] = [];
+
+  try {
+    for (const pdfPath of pdfPaths) {
+      renderers.push(await PdfRenderer.open(pdfPath));
+    }
+
+    const sizes = await Promise.all(renderers.map(renderer => renderer.pageSize(page)));
+    const effectiveDpi = diffDpi(sizes, dpi);
+    const before = await (renderers[0] as PdfRenderer).renderGray(page, effectiveDpi);
+    const after = await (renderers[1] as PdfRenderer).renderGray(page, effectiveDpi);
+
+    return { rasters: [before, after], dpi: effectiveDpi };
+  } finally {
+    for (const renderer of renderers) {
+      await renderer.close();
+    }
+  }
+}
+
+/**
+ * Comparar duas páginas rasterizadas. Páginas de tamanhos diferentes são alinhadas
+ * no canto superior esquerdo e a área faltante conta como papel em branco.
+ * Um pixel mudou quando a diferença de tom passa do limiar (0-255).
+ */
+export function diffRasters(before: GrayRaster, after: GrayRaster, threshold: number): RasterDiff {
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const overlay = new Uint8ClampedArray(width * height * 4);
+
+  let added = 0;
+  let removed = 0;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  const tone = (raster: GrayRaster, x: number, y: number): number =>
+    x < raster.width && y < raster.height ? raster.pixels[y * raster.width + x] as number : 255;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const oldTone = tone(before, x, y);
+      const newTone = tone(after, x, y);
+      const target = (y * width + x) * 4;
+      let color: number[];
+
+      if (oldTone - newTone > threshold) {
+        // Mais escuro na versão 2: traço adicionado
+        color = ADDED_COLOR;
+        added++;
+      } else if (newTone - oldTone > threshold) {
+        // Mais claro na versão 2: traço removido
+        color = REMOVED_COLOR;
+        removed++;
+      } else {
+        const faded = Math.round(255 - (255 - Math.min(oldTone, newTone)) * UNCHANGED_INK);
+        overlay[target] = overlay[target + 1] = overlay[target + 2] = faded;
+        overlay[target + 3] = 255;
+        continue;
+      }
+
+      overlay[target] = color[0] as number;
+      overlay[target + 1] = color[1] as number;
+      overlay[target + 2] = color[2] as number;
+      overlay[target + 3] = 255;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  return {
+    width,
+    height,
+    changed_pixels: added + removed,
+    added_pixels: added,
+    removed_pixels: removed,
+    bounding_box: maxX >= 0 ? { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } : null,
+    overlay
+  };
+}
+
+/**
+ * Codificar a sobreposição como PNG
+ */
+export async function encodeOverlayPng(diff: RasterDiff): Promise<Buffer> {
+  const surface = canvas.createCanvas(diff.width, diff.height);
+  surface.getContext('2d').putImageData(new canvas.ImageData(diff.overlay, diff.width, diff.height), 0, 0);
+  return surface.encode('png');
+}
@@ -1,22 +1,31 @@
 // ============================================================================
-// PLANTS UNIFIED SERVICE - SERVICE LAYER PARA PLANTAS (SEM BANCO DE DADOS)
+// PLANTS UNIFIED SERVICE - SERVICE LAYER PARA PLANTAS
 // ============================================================================
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { log } from '../utils/winstonLogger';
+import { getRepository, Repository } from '../repositories';
+import { PlantPage, PlantVersion } from '../types/plant';
+import { Job, PlantPagesJobPayload } from '../types/job';
+import { jobQueue } from './job-queue-service';
 
 export interface Plant {
   id: string;
   name: string;
   code: string;
   description?: string;
+  project_id?: string;
   file_path: string;
   file_size: number;
   mime_type: string;
   original_filename: string;
   status: 'active' | 'archived' | 'processing' | 'completed' | 'error';
+  current_version_id?: string; // Versão cujo arquivo está em file_path
+  processing_job_id?: string; // Último job de geração das páginas (GET /api/jobs/:id)
+  status_before_processing?: 'active' | 'archived' | 'completed'; // Restaurado quando o último job terminar
+  version_number?: string;
   created_at: string;
   updated_at: string;
 }
@@ -42,10 +51,17 @@ export interface ApiResponse<T> {
 export class PlantsUnifiedService {
   private uploadDir: string;
   private exportsDir: string;
+  private plants: Repository<Plant>;
+  private versions: Repository<PlantVersion>;
+  private pages: Repository<PlantPage>;
 
   constructor() {
     this.uploadDir = path.join(process.cwd(), 'uploads', 'plants');
     this.exportsDir = path.join(process.cwd(), 'exports', 'plants');
+    // Metadados ficam junto dos arquivos enviados (driver JSON)
+    this.plants = getRepository<Plant>('plants', { dir: this.uploadDir });
+    this.versions = getRepository<PlantVersion>('plant_versions', { indexes: ['plant_id'] });
+    this.pages = getRepository<PlantPage>('plant_pages', { indexes: ['plant_id'] });
     
     // Criar diretórios se não existirem
     [this.uploadDir, this.exportsDir].forEach(dir => {
@@ -55,11 +71,11 @@ export class PlantsUnifiedService {
       }
     });
     
-    log.info('PlantsUnifiedService inicializado (modo arquivo)');
+    log.info('PlantsUnifiedService inicializado');
   }
 
   /**
-   * Criar uma nova planta (apenas salvar arquivo)
+   * Criar uma nova planta (salva o arquivo; as páginas são geradas por um job)
    */
   async createPlant(plantData: PlantCreationAttributes, file: Express.Multer.File): Promise<Plant> {
     try {
@@ -72,6 +88,7 @@ export class PlantsUnifiedService {
         name: plantData.name,
         code: plantData.code,
         ...(plantData.description && { description: plantData.description }),
+        ...(plantData.project_id && { project_id: plantData.project_id }),
         file_path: file.path,
         file_size: file.size,
         mime_type: file.mimetype,
@@ -81,13 +98,14 @@ export class PlantsUnifiedService {
         updated_at: timestamp
       };
 
-      // Salvar metadados em arquivo JSON (opcional, para referência)
-      const metadataPath = path.join(this.uploadDir, `${plantId}.json`);
-      fs.writeFileSync(metadataPath, JSON.stringify(plant, null, 2));
+      // Salvar metadados
+      await this.plants.save(plant);
 
       log.info('Planta criada com sucesso', { plantId: plant.id, name: plant.name });
+
+      await this.schedulePages(plant.id, plantData.created_by);
       
-      return plant;
+      return (await this.getPlantById(plant.id)) || plant;
     } catch (error) {
       log.error('Erro ao criar planta', error);
       throw error;
@@ -95,18 +113,18 @@ export class PlantsUnifiedService {
   }
 
   /**
-   * Obter planta por ID (lê do arquivo de metadados)
+   * Plantas vinculadas ao projeto (inclusive as de arquivo ausente)
+   */
+  async listPlantsByProject(projectId: string): Promise<Plant[]> {
+    return this.plants.find({ where: { project_id: projectId } });
+  }
+
+  /**
+   * Obter planta por ID
    */
   async getPlantById(plantId: string): Promise<Plant | null> {
     try {
-      const metadataPath = path.join(this.uploadDir, `${plantId}.json`);
-      
-      if (!fs.existsSync(metadataPath)) {
-        return null;
-      }
-
-      const metadata = fs.readFileSync(metadataPath, 'utf-8');
-      return JSON.parse(metadata);
+      return await this.plants.findById(plantId);
     } catch (error) {
       log.error('Erro ao obter planta', error);
       return null;
@@ -114,39 +132,43 @@ export class PlantsUnifiedService {
   }
 
   /**
-   * Listar todas as plantas (lê todos os arquivos de metadados)
+   * Listar todas as plantas (mais recentes primeiro)
    */
   async listPlants(): Promise<Plant[]> {
     try {
-      const files = fs.readdirSync(this.uploadDir);
-      const plants: Plant[] = [];
-
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          try {
-            const metadataPath = path.join(this.uploadDir, file);
-            const metadata = fs.readFileSync(metadataPath, 'utf-8');
-            const plant = JSON.parse(metadata);
-            
-            // Verificar se o arquivo ainda existe
-            if (fs.existsSync(plant.file_path)) {
-              plants.push(plant);
-            }
-          } catch (error) {
-            log.warn(`Erro ao ler metadados de ${file}`, error);
-          }
-        }
-      }
+      const plants = await this.plants.find({ orderBy: 'created_at', order: 'desc' });
 
-      return plants.sort((a, b) => 
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
+      // Verificar se o arquivo ainda existe
+      return plants.filter(plant => fs.existsSync(plant.file_path));
     } catch (error) {
       log.error('Erro ao listar plantas', error);
       return [];
     }
   }
 
+  /**
+   * Apontar a planta para o arquivo da versão atual
+   */
+  async setCurrentFile(plantId: string, version: PlantVersion): Promise<Plant | null> {
+    const plant = await this.getPlantById(plantId);
+
+    if (!plant) {
+      return null;
+    }
+
+    plant.file_path = version.file_path;
+    plant.file_size = version.file_size;
+    plant.mime_type = version.metadata?.mime_type || plant.mime_type;
+    plant.original_filename = version.metadata?.original_filename || plant.original_filename;
+    plant.current_version_id = version.id;
+    plant.version_number = version.version_number;
+    plant.updated_at = new Date().toISOString();
+
+    await this.plants.save(plant);
+
+    return plant;
+  }
+
   /**
    * Exportar planta (copia arquivo para pasta de exportação)
    */
@@ -188,7 +210,76 @@ export class PlantsUnifiedService {
   }
 
   /**
-   * Deletar planta
+   * Enfileirar a divisão do PDF em páginas, imagens e miniaturas. A planta fica
+   * "processing" até o job terminar. Arquivos que não são PDF não têm páginas:
+   * as de um arquivo anterior são removidas e nenhum job é criado.
+   */
+  async schedulePages(plantId: string, createdBy?: string): Promise<Job<PlantPagesJobPayload> | null> {
+    const plant = await this.getPlantById(plantId);
+
+    if (!plant) {
+      return null;
+    }
+
+    const isPdf = plant.mime_type === 'application/pdf' || path.extname(plant.file_path).toLowerCase() === '.pdf';
+    if (!isPdf) {
+      await this.deletePages(plantId);
+      return null;
+    }
+
+    const job = await jobQueue.enqueue<PlantPagesJobPayload>('plant-pages', {
+      plant_id: plantId
+    }, { ...(createdBy && { created_by: createdBy }) });
+
+    // Um job anterior ainda pendente já guardou o status de antes do processamento
+    if (plant.status !== 'processing') {
+      plant.status_before_processing = plant.status === 'error' ? 'active' : plant.status;
+    }
+    plant.status = 'processing';
+    plant.processing_job_id = job.id;
+    plant.updated_at = new Date().toISOString();
+    await this.plants.save(plant);
+
+    return job;
+  }
+
+  /**
+   * Encerrar o processamento de páginas. Só o último job agendado decide o
+   * status, lido agora (não no agendamento): jobs substituídos não mexem na
+   * planta, e um status alterado durante o processamento é mantido.
+   */
+  async finishPages(plantId: string, jobId: string, failed: boolean): Promise<void> {
+    const plant = await this.getPlantById(plantId);
+
+    if (!plant || plant.processing_job_id !== jobId) {
+      return;
+    }
+
+    if (plant.status === 'processing') {
+      plant.status = failed ? 'error' : plant.status_before_processing || 'active';
+    }
+    delete plant.status_before_processing;
+    plant.updated_at = new Date().toISOString();
+    await this.plants.save(plant);
+  }
+
+  /**
+   * Remover as páginas geradas da planta (registros, PDFs por página, imagens e miniaturas)
+   */
+  async deletePages(plantId: string): Promise<number> {
+    const pages = await this.pages.find({ where: { plant_id: plantId } });
+
+    for (const page of pages) {
+      await this.pages.delete(page.id);
+    }
+    fs.rmSync(path.join(process.cwd(), 'uploads', 'plant-pages', plantId), { recursive: true, force: true });
+    fs.rmSync(path.join(process.cwd(), 'thumbnails', 'plants', plantId), { recursive: true, force: true });
+
+    return pages.length;
+  }
+
+  /**
+   * Deletar planta (com as versões, páginas e seus arquivos)
    */
   async deletePlant(plantId: string): Promise<boolean> {
     try {
@@ -203,11 +294,17 @@ export class PlantsUnifiedService {
         fs.unlinkSync(plant.file_path);
       }
 
-      // Deletar metadados
-      const metadataPath = path.join(this.uploadDir, `${plantId}.json`);
-      if (fs.existsSync(metadataPath)) {
-        fs.unlinkSync(metadataPath);
+      for (const version of await this.versions.find({ where: { plant_id: plantId } })) {
+        if (fs.existsSync(version.file_path)) {
+          fs.unlinkSync(version.file_path);
+        }
+        await this.versions.delete(version.id);
       }
+      fs.rmSync(path.join(this.exportsDir, 'overlays', plantId), { recursive: true, force: true });
+      await this.deletePages(plantId);
+
+      // Deletar metadados
+      await this.plants.delete(plantId);
 
       log.info('Planta deletada com sucesso', { plantId });
       return true;
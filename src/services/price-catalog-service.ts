@@ -0,0 +1,427 @@
+// ============================================================================
+// SERVIÇO PARA CATÁLOGO DE PREÇOS (ITENS E TABELAS REGIONAIS)
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { log } from '../utils/winstonLogger';
+import { getRepository, Repository } from '../repositories';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import {
+  CompositionImportOptions,
+  CompositionImportResult,
+  CostEstimateOptions,
+  CreatePriceCatalogItemRequest,
+  CreatePriceListRequest,
+  PriceCatalogFilters,
+  PriceCatalogItem,
+  PriceList,
+  PriceListEntry,
+  ReferenceComposition,
+  UpdatePriceCatalogItemRequest,
+  UpdatePriceListRequest
+} from '../types/cost';
+import {
+  CompositionCost,
+  calculateCompositionCosts,
+  parseCompositionsCsv,
+  parseInputsCsv
+} from './composition-import';
+
+const DEFAULT_CURRENCY = 'BRL';
+const MAX_IMPORT_WARNINGS = 50;
+
+function roundPrice(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Preço da tabela a partir do custo da composição: mão de obra e equipamento viram custo horário;
+ * sem horas (insumos fora de "H"/"CHP"/"CHI"), o custo entra como material
+ */
+function compositionPrice(itemId: string, cost: CompositionCost): PriceListEntry {
+  const laborAsMaterial = cost.labor_hours > 0 ? 0 : cost.labor_cost;
+  const equipmentAsMaterial = cost.equipment_hours > 0 ? 0 : cost.equipment_cost;
+
+  return {
+    item_id: itemId,
+    material_cost: roundPrice(cost.material_cost + laborAsMaterial + equipmentAsMaterial),
+    labor_rate: cost.labor_hours > 0 ? roundPrice(cost.labor_cost / cost.labor_hours) : 0,
+    equipment_rate: cost.equipment_hours > 0 ? roundPrice(cost.equipment_cost / cost.equipment_hours) : 0
+  };
+}
+
+export class PriceCatalogService {
+  private items: Repository<PriceCatalogItem>;
+  private priceLists: Repository<PriceList>;
+
+  constructor() {
+    this.items = getRepository<PriceCatalogItem>('price_catalog_items', { indexes: ['code'] });
+    this.priceLists = getRepository<PriceList>('price_lists', { indexes: ['region'] });
+
+    log.info('PriceCatalogService inicializado');
+  }
+
+  // ============================================================================
+  // ITENS
+  // ============================================================================
+
+  /**
+   * Criar item do catálogo (código único)
+   */
+  async createItem(data: CreatePriceCatalogItemRequest, createdBy: string): Promise<PriceCatalogItem> {
+    await this.assertCodeAvailable(data.code);
+
+    const now = new Date().toISOString();
+    const item: PriceCatalogItem = {
+      id: uuidv4(),
+      code: data.code,
+      description: data.description,
+      unit: data.unit,
+      ...(data.category && { category: data.category }),
+      labor_hours_per_unit: data.labor_hours_per_unit || 0,
+      equipment_hours_per_unit: data.equipment_hours_per_unit || 0,
+      mappings: data.mappings || [],
+      created_at: now,
+      updated_at: now,
+      created_by: createdBy
+    };
+
+    await this.items.save(item);
+
+    log.info('Item do catálogo criado', { id: item.id, code: item.code });
+
+    return item;
+  }
+
+  async getItemById(id: string): Promise<PriceCatalogItem | null> {
+    return this.items.findById(id);
+  }
+
+  /**
+   * Listar itens do catálogo (ordem: código)
+   */
+  async listItems(filters: PriceCatalogFilters = {}): Promise<PriceCatalogItem[]> {
+    let items = await this.items.find({ where: { category: filters.category }, orderBy: 'code' });
+
+    if (filters.search) {
+      const search = filters.search.toLowerCase();
+      items = items.filter(item =>
+        item.code.toLowerCase().includes(search) ||
+        item.description.toLowerCase().includes(search)
+      );
+    }
+
+    return items;
+  }
+
+  /**
+   * Atualizar item do catálogo
+   */
+  async updateItem(id: string, update: UpdatePriceCatalogItemRequest): Promise<PriceCatalogItem | null> {
+    const item = await this.getItemById(id);
+
+    if (!item) {
+      return null;
+    }
+
+    if (update.code && update.code !== item.code) {
+      await this.assertCodeAvailable(update.code);
+      item.code = update.code;
+    }
+    if (update.description) item.description = update.description;
+    if (update.unit) item.unit = update.unit;
+    if (update.category !== undefined) item.category = update.category;
+    if (update.labor_hours_per_unit !== undefined) item.labor_hours_per_unit = update.labor_hours_per_unit;
+    if (update.equipment_hours_per_unit !== undefined) item.equipment_hours_per_unit = update.equipment_hours_per_unit;
+    if (update.mappings) item.mappings = update.mappings;
+
+    item.updated_at = new Date().toISOString();
+    await this.items.save(item);
+
+    log.info('Item do catálogo atualizado', { id });
+
+    return item;
+  }
+
+  /**
+   * Deletar item (preços nas tabelas que o referenciam deixam de ser usados)
+   */
+  async deleteItem(id: string): Promise<boolean> {
+    if (!(await this.items.delete(id))) {
+      return false;
+    }
+
+    log.info('Item do catálogo deletado', { id });
+
+    return true;
+  }
+
+  // ============================================================================
+  // TABELAS DE PREÇOS
+  // ============================================================================
+
+  /**
+   * Criar tabela de preços regional
+   */
+  async createPriceList(data: CreatePriceListRequest, createdBy: string): Promise<PriceList> {
+    const prices = await this.normalizePrices(data.prices || []);
+    const now = new Date().toISOString();
+
+    const priceList: PriceList = {
+      id: uuidv4(),
+      name: data.name,
+      region: data.region,
+      effective_date: data.effective_date,
+      currency: data.currency || DEFAULT_CURRENCY,
+      prices,
+      created_at: now,
+      updated_at: now,
+      created_by: createdBy
+    };
+
+    await this.priceLists.save(priceList);
+
+    log.info('Tabela de preços criada', { id: priceList.id, region: priceList.region });
+
+    return priceList;
+  }
+
+  async getPriceListById(id: string): Promise<PriceList | null> {
+    return this.priceLists.findById(id);
+  }
+
+  /**
+   * Listar tabelas de preços (ordem: região e data-base mais recente)
+   */
+  async listPriceLists(filters: PriceCatalogFilters = {}): Promise<PriceList[]> {
+    let priceLists = await this.priceLists.find({ where: { region: filters.region } });
+
+    if (filters.search) {
+      const search = filters.search.toLowerCase();
+      priceLists = priceLists.filter(list => list.name.toLowerCase().includes(search));
+    }
+
+    return priceLists.sort((a, b) =>
+      a.region.localeCompare(b.region, 'pt-BR') || b.effective_date.localeCompare(a.effective_date)
+    );
+  }
+
+  /**
+   * Atualizar tabela de preços; prices substitui a lista inteira
+   */
+  async updatePriceList(id: string, update: UpdatePriceListRequest): Promise<PriceList | null> {
+    const priceList = await this.getPriceListById(id);
+
+    if (!priceList) {
+      return null;
+    }
+
+    if (update.name) priceList.name = update.name;
+    if (update.region) priceList.region = update.region;
+    if (update.effective_date) priceList.effective_date = update.effective_date;
+    if (update.currency) priceList.currency = update.currency;
+    if (update.prices) priceList.prices = await this.normalizePrices(update.prices);
+
+    priceList.updated_at = new Date().toISOString();
+    await this.priceLists.save(priceList);
+
+    log.info('Tabela de preços atualizada', { id });
+
+    return priceList;
+  }
+
+  async deletePriceList(id: string): Promise<boolean> {
+    if (!(await this.priceLists.delete(id))) {
+      return false;
+    }
+
+    log.info('Tabela de preços deletada', { id });
+
+    return true;
+  }
+
+  /**
+   * Tabela usada no orçamento: a indicada ou a da região com maior data-base até a data
+   */
+  async resolvePriceList(options: CostEstimateOptions): Promise<PriceList> {
+    if (options.price_list_id) {
+      const priceList = await this.getPriceListById(options.price_list_id);
+      if (!priceList) {
+        throw new NotFoundError('Tabela de preços não encontrada');
+      }
+      return priceList;
+    }
+
+    if (!options.region) {
+      throw new ValidationError('Informe price_list_id ou region');
+    }
+
+    const date = options.date || new Date().toISOString().slice(0, 10);
+    const candidates = (await this.priceLists.find({ where: { region: options.region } }))
+      .filter(list => list.effective_date <= date)
+      .sort((a, b) => b.effective_date.localeCompare(a.effective_date));
+
+    if (candidates.length === 0) {
+      throw new NotFoundError(`Nenhuma tabela de preços para a região ${options.region} com data-base até ${date}`);
+    }
+
+    return candidates[0];
+  }
+
+  // ============================================================================
+  // COMPOSIÇÕES DE REFERÊNCIA (SINAPI/TCPO)
+  // ============================================================================
+
+  /**
+   * Importar composições a partir dos CSVs de insumos e composições analíticas.
+   * Cada composição vira (ou atualiza) um item do catálogo com o próprio código, e cada UF
+   * ganha uma tabela de preços com data-base no mês de referência. Reimportar o mesmo mês
+   * substitui os preços da tabela; itens cadastrados manualmente com o mesmo código não são alterados.
+   */
+  async importCompositions(
+    inputsCsv: string,
+    compositionsCsv: string,
+    options: CompositionImportOptions,
+    createdBy: string
+  ): Promise<CompositionImportResult> {
+    const { inputs, states: available } = parseInputsCsv(inputsCsv);
+    const compositions = parseCompositionsCsv(compositionsCsv);
+    const warnings: string[] = [];
+
+    const states = options.states?.length ? options.states.map(state => state.toUpperCase()) : available;
+    for (const state of states.filter(state => !available.includes(state))) {
+      warnings.push(`UF ${state} sem preços no arquivo de insumos`);
+    }
+
+    // Custos por UF; as horas por unidade vêm dos coeficientes e não dependem da UF
+    const costsByState = new Map<string, Map<string, CompositionCost>>();
+    const hours = new Map<string, CompositionCost>();
+    for (const state of states.filter(state => available.includes(state))) {
+      const { costs, errors } = calculateCompositionCosts(compositions, inputs, state);
+      costsByState.set(state, costs);
+      for (const [code, cost] of costs) {
+        if (!hours.has(code)) hours.set(code, cost);
+      }
+      warnings.push(...Array.from(errors.values()).map(error => `${state}: ${error}`));
+    }
+
+    // Itens do catálogo: um por composição com custo em pelo menos uma UF
+    const now = new Date().toISOString();
+    const existing = new Map((await this.items.find()).map(item => [item.code, item]));
+    const itemIds = new Map<string, string>();
+    let created = 0;
+    let updated = 0;
+
+    for (const [code, cost] of hours) {
+      const composition = compositions.get(code) as ReferenceComposition;
+      const current = existing.get(code);
+
+      if (current && !current.composition) {
+        warnings.push(`Composição ${code}: já existe item manual com este código`);
+        continue;
+      }
+
+      const item: PriceCatalogItem = {
+        ...(current || {
+          id: uuidv4(),
+          code,
+          category: options.source,
+          mappings: [],
+          created_at: now,
+          created_by: createdBy
+        }),
+        description: composition.description,
+        unit: composition.unit,
+        labor_hours_per_unit: roundPrice(cost.labor_hours),
+        equipment_hours_per_unit: roundPrice(cost.equipment_hours),
+        composition: { source: options.source, reference_date: options.reference_date, items: composition.items },
+        updated_at: now
+      };
+
+      await this.items.save(item);
+      itemIds.set(code, item.id);
+      if (current) {
+        updated++;
+      } else {
+        created++;
+      }
+    }
+
+    // Tabelas de preços por UF (uma por fonte, UF e mês de referência)
+    const effectiveDate = `${options.reference_date}-01`;
+    const priceLists: CompositionImportResult['price_lists'] = [];
+
+    for (const [state, costs] of costsByState) {
+      const name = `${options.source} ${state} ${options.reference_date}`;
+      const prices = Array.from(costs.entries())
+        .filter(([code]) => itemIds.has(code))
+        .map(([code, cost]) => compositionPrice(itemIds.get(code) as string, cost));
+
+      const current = (await this.priceLists.find({ where: { region: state, effective_date: effectiveDate } }))
+        .find(list => list.name === name);
+      const priceList: PriceList = {
+        ...(current || {
+          id: uuidv4(),
+          name,
+          region: state,
+          effective_date: effectiveDate,
+          currency: DEFAULT_CURRENCY,
+          created_at: now,
+          created_by: createdBy
+        }),
+        prices,
+        updated_at: now
+      };
+
+      await this.priceLists.save(priceList);
+      priceLists.push({ id: priceList.id, name, region: state, prices: prices.length });
+    }
+
+    log.info('Composições de referência importadas', {
+      source: options.source,
+      reference_date: options.reference_date,
+      created,
+      updated,
+      states: priceLists.length
+    });
+
+    return {
+      source: options.source,
+      reference_date: options.reference_date,
+      inputs: inputs.size,
+      compositions: compositions.size,
+      catalog_items: { created, updated },
+      price_lists: priceLists,
+      warnings: warnings.length > MAX_IMPORT_WARNINGS
+        ? [...warnings.slice(0, MAX_IMPORT_WARNINGS), `... e mais ${warnings.length - MAX_IMPORT_WARNINGS} aviso(s)`]
+        : warnings
+    };
+  }
+
+  /**
+   * Validar itens referenciados e manter um preço por item (o último informado)
+   */
+  private async normalizePrices(prices: PriceListEntry[]): Promise<PriceListEntry[]> {
+    const byItem = new Map<string, PriceListEntry>();
+
+    for (const entry of prices) {
+      if (!byItem.has(entry.item_id) && !(await this.getItemById(entry.item_id))) {
+        throw new ValidationError(`Item do catálogo não encontrado: ${entry.item_id}`);
+      }
+      byItem.set(entry.item_id, {
+        item_id: entry.item_id,
+        material_cost: entry.material_cost || 0,
+        labor_rate: entry.labor_rate || 0,
+        equipment_rate: entry.equipment_rate || 0
+      });
+    }
+
+    return Array.from(byItem.values());
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    if ((await this.items.count({ code })) > 0) {
+      throw new ConflictError(`Já existe um item com o código ${code}`);
+    }
+  }
+}
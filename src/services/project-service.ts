@@ -1,52 +1,83 @@
 // ============================================================================
 // SERVIÇO PARA GERENCIAR PROJETOS
+// Único ponto de escrita em data/projects (inclusive listas de medições)
 // ============================================================================
 
-import * as fs from 'fs';
-import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { log } from '../utils/winstonLogger';
-// Project interface for storage (simplified)
-interface Project {
-  id: string;
-  name: string;
-  description?: string;
-  pdfUrl: string;
-  pdfId: string;
-  scale: string;
-  measurements: string[];
-  createdAt: Date;
-  updatedAt: Date;
+import { getRepository, Repository } from '../repositories';
+import { projectLock } from '../utils/keyed-mutex';
+import {
+  Project,
+  ProjectMember,
+  ProjectMemberRole,
+  ProjectMeasurementList,
+  CreateProjectRequest,
+  UpdateProjectRequest
+} from '../types/project';
+
+/**
+ * Converter data armazenada (Date serializado, string ou timestamp) para ISO8601
+ */
+function toIsoDate(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const date = new Date(value as string | number);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Converter registro legado para o modelo canônico.
+ * Cobre o formato antigo do ProjectService (createdAt/updatedAt) e o
+ * formato ProjectStorage dos serviços de medição (created_at/updated_at).
+ */
+function normalizeProject(raw: any): Project {
+  const now = new Date().toISOString();
+  const created = toIsoDate(raw.created_at) || toIsoDate(raw.createdAt);
+  // Os dois formatos atualizavam campos diferentes: vale o mais recente
+  const updated = [toIsoDate(raw.updated_at), toIsoDate(raw.updatedAt)]
+    .filter((value): value is string => value !== null)
+    .sort()
+    .pop();
+
+  const project: Project = {
+    id: raw.id,
+    name: raw.name || 'Projeto sem nome',
+    ...(raw.description !== undefined && { description: raw.description }),
+    pdfUrl: raw.pdfUrl || '',
+    pdfId: raw.pdfId || '',
+    scale: raw.scale || '',
+    measurements: Array.isArray(raw.measurements) ? Array.from(new Set<string>(raw.measurements)) : [],
+    civil_measurements: Array.isArray(raw.civil_measurements) ? Array.from(new Set<string>(raw.civil_measurements)) : [],
+    members: Array.isArray(raw.members) ? raw.members : [],
+    ...(raw.created_by && { created_by: raw.created_by }),
+    created_at: created || updated || now,
+    updated_at: updated || created || now,
+    ...(raw.deleted_at && { deleted_at: raw.deleted_at }),
+    ...(raw.deleted_by && { deleted_by: raw.deleted_by })
+  };
+
+  return project;
 }
 
 export class ProjectService {
-  private projectsDir: string;
+  private projects: Repository<Project>;
 
   constructor() {
-    this.projectsDir = path.join(process.cwd(), 'data', 'projects');
-    
-    if (!fs.existsSync(this.projectsDir)) {
-      fs.mkdirSync(this.projectsDir, { recursive: true });
-      log.info(`Diretório criado: ${this.projectsDir}`);
-    }
-    
+    this.projects = getRepository<Project>('projects');
+
     log.info('ProjectService inicializado');
   }
 
   /**
-   * Criar novo projeto
+   * Criar novo projeto (o criador, se informado, torna-se owner)
    */
-  async createProject(data: {
-    name: string;
-    description?: string;
-    pdfUrl: string;
-    pdfId: string;
-    scale: string;
-  }): Promise<Project> {
+  async createProject(data: CreateProjectRequest, ownerId?: string): Promise<Project> {
     try {
       const projectId = uuidv4();
-      const now = new Date();
-      
+      const now = new Date().toISOString();
+
       const project: Project = {
         id: projectId,
         name: data.name,
@@ -55,15 +86,17 @@ export class ProjectService {
         pdfId: data.pdfId,
         scale: data.scale,
         measurements: [],
-        createdAt: now,
-        updatedAt: now
+        civil_measurements: [],
+        members: ownerId ? [{ user_id: ownerId, role: 'owner', added_at: now }] : [],
+        ...(ownerId && { created_by: ownerId }),
+        created_at: now,
+        updated_at: now
       };
-      
-      const projectPath = path.join(this.projectsDir, `${projectId}.json`);
-      fs.writeFileSync(projectPath, JSON.stringify(project, null, 2));
-      
+
+      await this.projects.save(project);
+
       log.info('Projeto criado', { projectId, name: data.name });
-      
+
       return project;
     } catch (error) {
       log.error('Erro ao criar projeto', error);
@@ -72,18 +105,17 @@ export class ProjectService {
   }
 
   /**
-   * Obter projeto por ID
+   * Obter projeto por ID (projetos na lixeira só com includeDeleted)
    */
-  async getProjectById(id: string): Promise<Project | null> {
+  async getProjectById(id: string, includeDeleted: boolean = false): Promise<Project | null> {
     try {
-      const projectPath = path.join(this.projectsDir, `${id}.json`);
-      
-      if (!fs.existsSync(projectPath)) {
+      const project = await this.projects.findById(id);
+
+      if (project?.deleted_at && !includeDeleted) {
         return null;
       }
-      
-      const content = fs.readFileSync(projectPath, 'utf-8');
-      return JSON.parse(content);
+
+      return project;
     } catch (error) {
       log.error('Erro ao obter projeto', error);
       return null;
@@ -91,29 +123,15 @@ export class ProjectService {
   }
 
   /**
-   * Listar todos os projetos
+   * Listar todos os projetos (fora da lixeira, salvo includeDeleted)
    */
-  async listProjects(): Promise<Project[]> {
+  async listProjects(includeDeleted: boolean = false): Promise<Project[]> {
     try {
-      const files = fs.readdirSync(this.projectsDir);
-      const projects: Project[] = [];
-
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          try {
-            const projectPath = path.join(this.projectsDir, file);
-            const content = fs.readFileSync(projectPath, 'utf-8');
-            const project = JSON.parse(content);
-            projects.push(project);
-          } catch (error) {
-            log.warn(`Erro ao ler projeto ${file}`, error);
-          }
-        }
-      }
-
-      return projects.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
+      return await this.projects.find({
+        ...(!includeDeleted && { where: { deleted_at: null } }),
+        orderBy: 'created_at',
+        order: 'desc'
+      });
     } catch (error) {
       log.error('Erro ao listar projetos', error);
       return [];
@@ -121,32 +139,148 @@ export class ProjectService {
   }
 
   /**
-   * Atualizar projeto
+   * Listar projetos na lixeira (excluídos mais recentemente primeiro)
    */
-  async updateProject(id: string, update: {
-    name?: string;
-    description?: string;
-    scale?: string;
-  }): Promise<Project | null> {
-    try {
-      const project = await this.getProjectById(id);
-      
+  async listDeletedProjects(): Promise<Project[]> {
+    const projects = await this.projects.find({ orderBy: 'deleted_at', order: 'desc' });
+    return projects.filter(p => p.deleted_at);
+  }
+
+  /**
+   * Listar projetos dos quais o usuário é membro
+   */
+  async listProjectsForUser(userId: string): Promise<Project[]> {
+    const projects = await this.listProjects();
+    return projects.filter(p => p.members.some(m => m.user_id === userId));
+  }
+
+  /**
+   * Obter papel do usuário no projeto (null se não for membro)
+   */
+  getMemberRole(project: Project, userId: string): ProjectMemberRole | null {
+    const member = project.members.find(m => m.user_id === userId);
+    return member ? member.role : null;
+  }
+
+  /**
+   * Adicionar membro ao projeto ou alterar seu papel
+   */
+  async setMember(projectId: string, userId: string, role: ProjectMemberRole): Promise<Project | null> {
+    return projectLock.runExclusive(projectId, async () => {
+      const project = await this.getProjectById(projectId);
+
+      if (!project) {
+        return null;
+      }
+
+      const existing = project.members.find(m => m.user_id === userId);
+
+      if (existing) {
+        if (existing.role === 'owner' && role !== 'owner') {
+          this.assertRemainingOwner(project.members, userId);
+        }
+        existing.role = role;
+      } else {
+        project.members.push({ user_id: userId, role, added_at: new Date().toISOString() });
+      }
+
+      project.updated_at = new Date().toISOString();
+      await this.projects.save(project);
+
+      log.info('Membro do projeto atualizado', { projectId, userId, role });
+
+      return project;
+    });
+  }
+
+  /**
+   * Remover membro do projeto
+   */
+  async removeMember(projectId: string, userId: string): Promise<Project | null> {
+    return projectLock.runExclusive(projectId, async () => {
+      const project = await this.getProjectById(projectId);
+
       if (!project) {
         return null;
       }
-      
-      if (update.name) project.name = update.name;
-      if (update.description !== undefined) project.description = update.description;
-      if (update.scale) project.scale = update.scale;
-      
-      project.updatedAt = new Date();
-      
-      const projectPath = path.join(this.projectsDir, `${id}.json`);
-      fs.writeFileSync(projectPath, JSON.stringify(project, null, 2));
-      
-      log.info('Projeto atualizado', { id });
-      
+
+      const existing = project.members.find(m => m.user_id === userId);
+
+      if (existing?.role === 'owner') {
+        this.assertRemainingOwner(project.members, userId);
+      }
+
+      project.members = project.members.filter(m => m.user_id !== userId);
+      project.updated_at = new Date().toISOString();
+      await this.projects.save(project);
+
+      log.info('Membro removido do projeto', { projectId, userId });
+
       return project;
+    });
+  }
+
+  /**
+   * Registrar medição no projeto (lança erro se o projeto não existe)
+   */
+  async addMeasurement(projectId: string, measurementId: string, list: ProjectMeasurementList = 'measurements'): Promise<void> {
+    await projectLock.runExclusive(projectId, async () => {
+      const project = await this.getProjectById(projectId);
+
+      if (!project) {
+        throw new Error(`Projeto ${projectId} não encontrado`);
+      }
+
+      if (!project[list].includes(measurementId)) {
+        project[list].push(measurementId);
+      }
+
+      project.updated_at = new Date().toISOString();
+      await this.projects.save(project);
+    });
+  }
+
+  /**
+   * Remover medição da lista do projeto (ignora projeto inexistente)
+   */
+  async removeMeasurement(projectId: string, measurementId: string, list: ProjectMeasurementList = 'measurements'): Promise<void> {
+    await projectLock.runExclusive(projectId, async () => {
+      const project = await this.getProjectById(projectId);
+
+      if (!project) {
+        return;
+      }
+
+      project[list] = project[list].filter(id => id !== measurementId);
+      project.updated_at = new Date().toISOString();
+      await this.projects.save(project);
+    });
+  }
+
+  /**
+   * Atualizar projeto
+   */
+  async updateProject(id: string, update: UpdateProjectRequest): Promise<Project | null> {
+    try {
+      return await projectLock.runExclusive(id, async () => {
+        const project = await this.getProjectById(id);
+
+        if (!project) {
+          return null;
+        }
+
+        if (update.name) project.name = update.name;
+        if (update.description !== undefined) project.description = update.description;
+        if (update.scale) project.scale = update.scale;
+
+        project.updated_at = new Date().toISOString();
+
+        await this.projects.save(project);
+
+        log.info('Projeto atualizado', { id });
+
+        return project;
+      });
     } catch (error) {
       log.error('Erro ao atualizar projeto', error);
       throw error;
@@ -154,25 +288,100 @@ export class ProjectService {
   }
 
   /**
-   * Deletar projeto
+   * Mover projeto para a lixeira
+   */
+  async moveToTrash(id: string, deletedBy?: string): Promise<Project | null> {
+    return projectLock.runExclusive(id, async () => {
+      const project = await this.getProjectById(id);
+
+      if (!project) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      project.deleted_at = now;
+      if (deletedBy) project.deleted_by = deletedBy;
+      project.updated_at = now;
+      await this.projects.save(project);
+
+      log.info('Projeto movido para a lixeira', { id, deletedBy });
+
+      return project;
+    });
+  }
+
+  /**
+   * Retirar projeto da lixeira
+   */
+  async restoreFromTrash(id: string): Promise<Project | null> {
+    return projectLock.runExclusive(id, async () => {
+      const project = await this.getProjectById(id, true);
+
+      if (!project || !project.deleted_at) {
+        return null;
+      }
+
+      delete project.deleted_at;
+      delete project.deleted_by;
+      project.updated_at = new Date().toISOString();
+      await this.projects.save(project);
+
+      log.info('Projeto restaurado da lixeira', { id });
+
+      return project;
+    });
+  }
+
+  /**
+   * Deletar o registro do projeto (a remoção em cascata fica no ProjectTrashService)
    */
   async deleteProject(id: string): Promise<boolean> {
     try {
-      const projectPath = path.join(this.projectsDir, `${id}.json`);
-      
-      if (!fs.existsSync(projectPath)) {
+      const deleted = await this.projects.delete(id);
+
+      if (!deleted) {
         return false;
       }
-      
-      fs.unlinkSync(projectPath);
-      
+
       log.info('Projeto deletado', { id });
-      
+
       return true;
     } catch (error) {
       log.error('Erro ao deletar projeto', error);
       return false;
     }
   }
-}
 
+  /**
+   * Migrar registros gravados nos formatos antigos para o modelo canônico
+   * (executado na inicialização; registros já migrados não são regravados)
+   */
+  async migrateProjects(): Promise<number> {
+    let migrated = 0;
+
+    for (const stored of await this.projects.find()) {
+      await projectLock.runExclusive(stored.id, async () => {
+        const raw = await this.projects.findById(stored.id);
+        if (!raw) return;
+
+        const project = normalizeProject(raw);
+        if (JSON.stringify(project) === JSON.stringify(raw)) return;
+
+        await this.projects.save(project);
+        migrated++;
+      });
+    }
+
+    if (migrated > 0) {
+      log.info('Projetos migrados para o modelo canônico', { migrated });
+    }
+
+    return migrated;
+  }
+
+  private assertRemainingOwner(members: ProjectMember[], userId: string): void {
+    if (!members.some(m => m.role === 'owner' && m.user_id !== userId)) {
+      throw new Error('O projeto deve ter pelo menos um owner');
+    }
+  }
+}
@@ -0,0 +1,227 @@
+// ============================================================================
+// LIXEIRA E EXCLUSÃO EM CASCATA DE PROJETOS
+// Aplica a exclusão a todos os serviços que referenciam project_id
+// ============================================================================
+
+import { config } from '../config/app';
+import { log } from '../utils/winstonLogger';
+import { CustomError } from '../middleware/errorHandler';
+import { Project, ProjectCascadeSummary, TrashedProject } from '../types/project';
+import { ProjectService } from './project-service';
+import { MeasurementService } from './measurement-service';
+import { CivilMeasurementService } from './civil-measurement-service';
+import { TakeoffUnifiedService } from './takeoff-unified-service';
+import { PlantsUnifiedService } from './plants-unified-service';
+import { BudgetService } from './budget-service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ProjectTrashService {
+  private projectService: ProjectService;
+  private measurementService: MeasurementService;
+  private civilMeasurementService: CivilMeasurementService;
+  private takeoffService: TakeoffUnifiedService;
+  private plantsService: PlantsUnifiedService;
+  private budgetService: BudgetService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+    this.measurementService = new MeasurementService();
+    this.civilMeasurementService = new CivilMeasurementService();
+    this.takeoffService = new TakeoffUnifiedService();
+    this.plantsService = new PlantsUnifiedService();
+    this.budgetService = new BudgetService();
+  }
+
+  /**
+   * Mover projeto e seus registros para a lixeira
+   */
+  async trashProject(id: string, deletedBy?: string): Promise<ProjectCascadeSummary | null> {
+    const project = await this.projectService.moveToTrash(id, deletedBy);
+
+    if (!project || !project.deleted_at) {
+      return null;
+    }
+
+    const deletedAt = project.deleted_at;
+    const measurements = await this.measurementService.trashMeasurementsByProject(id, deletedAt);
+    const civilMeasurements = await this.civilMeasurementService.trashMeasurementsByProject(id, deletedAt);
+    const takeoffs = await this.takeoffService.trashTakeoffsByProject(id, deletedAt);
+
+    if (!takeoffs.success) {
+      throw new Error(takeoffs.error || takeoffs.message);
+    }
+
+    const budgets = await this.budgetService.trashBudgetsByProject(id, deletedAt);
+
+    const summary: ProjectCascadeSummary = {
+      project_id: id,
+      measurements,
+      civil_measurements: civilMeasurements,
+      takeoffs: takeoffs.data?.trashed || 0,
+      budgets,
+      plants: 0,
+      pdf_deleted: false
+    };
+
+    log.audit('project_trash', deletedBy || 'system', summary);
+
+    return summary;
+  }
+
+  /**
+   * Restaurar projeto da lixeira (dentro do prazo de TRASH_RETENTION_DAYS)
+   */
+  async restoreProject(id: string, restoredBy: string = 'system'): Promise<ProjectCascadeSummary | null> {
+    const project = await this.projectService.getProjectById(id, true);
+
+    if (!project || !project.deleted_at) {
+      return null;
+    }
+
+    if (this.isExpired(project)) {
+      throw new CustomError('Prazo de restauração expirado: o projeto será removido definitivamente', 410);
+    }
+
+    // Registros primeiro: se algo falhar, o projeto continua na lixeira e a restauração pode ser repetida
+    const measurements = await this.measurementService.restoreMeasurementsByProject(id);
+    const civilMeasurements = await this.civilMeasurementService.restoreMeasurementsByProject(id);
+    const takeoffs = await this.takeoffService.restoreTakeoffsByProject(id);
+
+    if (!takeoffs.success) {
+      throw new Error(takeoffs.error || takeoffs.message);
+    }
+
+    const budgets = await this.budgetService.restoreBudgetsByProject(id);
+
+    await this.projectService.restoreFromTrash(id);
+
+    const summary: ProjectCascadeSummary = {
+      project_id: id,
+      measurements,
+      civil_measurements: civilMeasurements,
+      takeoffs: takeoffs.data?.restored || 0,
+      budgets,
+      plants: 0,
+      pdf_deleted: false
+    };
+
+    log.audit('project_restore', restoredBy, summary);
+
+    return summary;
+  }
+
+  /**
+   * Remover definitivamente o projeto e tudo que o referencia
+   * (medições, medições civis, takeoffs, orçamentos e plantas; o PDF só se nenhum outro projeto o usa)
+   */
+  async purgeProject(id: string, userId: string = 'system'): Promise<ProjectCascadeSummary | null> {
+    const project = await this.projectService.getProjectById(id, true);
+
+    if (!project) {
+      return null;
+    }
+
+    const measurements = await this.measurementService.deleteMeasurementsByProject(id);
+    const civilMeasurements = await this.civilMeasurementService.deleteMeasurementsByProject(id);
+    const takeoffs = await this.takeoffService.deleteTakeoffsByProject(id, userId);
+
+    if (!takeoffs.success) {
+      throw new Error(takeoffs.error || takeoffs.message);
+    }
+
+    const budgets = await this.budgetService.deleteBudgetsByProject(id);
+    const plants = await this.deleteProjectPlants(project);
+
+    // Projeto por último: uma falha acima deixa o projeto disponível para nova tentativa
+    await this.projectService.deleteProject(id);
+
+    const summary: ProjectCascadeSummary = {
+      project_id: id,
+      measurements,
+      civil_measurements: civilMeasurements,
+      takeoffs: takeoffs.data?.deleted || 0,
+      budgets,
+      plants: plants.deleted,
+      pdf_deleted: plants.pdfDeleted
+    };
+
+    log.audit('project_purge', userId, summary);
+
+    return summary;
+  }
+
+  /**
+   * Listar projetos na lixeira com a data de remoção definitiva
+   */
+  async listTrash(): Promise<TrashedProject[]> {
+    const projects = await this.projectService.listDeletedProjects();
+
+    return projects.map(project => ({
+      ...project,
+      deleted_at: project.deleted_at as string,
+      purge_after: this.purgeDate(project).toISOString()
+    }));
+  }
+
+  /**
+   * Remover definitivamente os projetos cujo prazo na lixeira expirou
+   */
+  async purgeExpired(): Promise<number> {
+    let purged = 0;
+
+    for (const project of await this.projectService.listDeletedProjects()) {
+      if (!this.isExpired(project)) continue;
+
+      try {
+        if (await this.purgeProject(project.id)) {
+          purged++;
+        }
+      } catch (error) {
+        log.error(`Erro ao remover projeto expirado ${project.id}`, error);
+      }
+    }
+
+    if (purged > 0) {
+      log.info('Lixeira de projetos esvaziada', { purged, retentionDays: config.TRASH_RETENTION_DAYS });
+    }
+
+    return purged;
+  }
+
+  /**
+   * Deletar as plantas do projeto (project_id) e a usada como PDF, exceto as que
+   * outro projeto ainda usa como PDF
+   */
+  private async deleteProjectPlants(project: Project): Promise<{ deleted: number; pdfDeleted: boolean }> {
+    const projects = await this.projectService.listProjects(true);
+    const sharedPdfIds = new Set(projects.filter(p => p.id !== project.id && p.pdfId).map(p => p.pdfId));
+
+    const plantIds = new Set((await this.plantsService.listPlantsByProject(project.id)).map(plant => plant.id));
+    if (project.pdfId) {
+      plantIds.add(project.pdfId);
+    }
+
+    let deleted = 0;
+    let pdfDeleted = false;
+
+    for (const plantId of plantIds) {
+      if (sharedPdfIds.has(plantId)) continue;
+
+      if (await this.plantsService.deletePlant(plantId)) {
+        deleted++;
+        pdfDeleted = pdfDeleted || plantId === project.pdfId;
+      }
+    }
+
+    return { deleted, pdfDeleted };
+  }
+
+  private purgeDate(project: Project): Date {
+    return new Date(new Date(project.deleted_at as string).getTime() + config.TRASH_RETENTION_DAYS * DAY_MS);
+  }
+
+  private isExpired(project: Project): boolean {
+    return this.purgeDate(project).getTime() <= Date.now();
+  }
+}
@@ -0,0 +1,305 @@
+// ============================================================================
+// RENDERIZAÇÃO DO RELATÓRIO DE QUANTITATIVOS (HTML E PDF)
+// ============================================================================
+
+import PDFDocument from 'pdfkit';
+import { QuantityReport, QuantityReportDiscipline } from '../types/report';
+
+const DISCIPLINE_TITLES: Record<QuantityReportDiscipline, string> = {
+  infrastructure: 'Infraestrutura',
+  civil: 'Civil predial'
+};
+
+// Títulos e grandezas dos resumos (MeasurementSummary e CivilMeasurementSummary)
+const SUMMARY_TITLES: Record<QuantityReportDiscipline, Record<string, string>> = {
+  infrastructure: {
+    trench: 'Trincheiras',
+    'bore-shot': 'Perfurações HDD',
+    'hydro-excavation': 'Hidroescavações',
+    conduit: 'Condutos',
+    vault: 'Câmaras',
+    area: 'Áreas'
+  },
+  civil: {
+    layout: 'Planta / eixos',
+    wall: 'Paredes',
+    area: 'Ambientes',
+    opening: 'Vãos e esquadrias',
+    slab: 'Lajes e pisos',
+    foundation: 'Fundações',
+    structure: 'Estrutura de concreto',
+    finishing: 'Acabamentos',
+    roof: 'Cobertura',
+    note: 'Notas'
+  }
+};
+
+const SUMMARY_FIELDS: Record<string, [string, string]> = {
+  total_length_m: ['Comprimento', 'm'],
+  total_area_m2: ['Área', 'm²'],
+  total_net_area_m2: ['Área líquida', 'm²'],
+  total_area_with_losses_m2: ['Área com perdas', 'm²'],
+  total_opening_area_m2: ['Área de vãos', 'm²'],
+  total_real_area_m2: ['Área real', 'm²'],
+  total_projected_area_m2: ['Área projetada', 'm²'],
+  total_volume_m3: ['Volume', 'm³'],
+  total_blocks: ['Blocos', 'un'],
+  total_mortar_m3: ['Argamassa', 'm³'],
+  total_rebar_kg: ['Armadura', 'kg']
+};
+
+interface SummaryRow {
+  title: string;
+  count: number;
+  totals: string;
+}
+
+// ============================================================================
+// FORMATAÇÃO
+// ============================================================================
+
+function formatQuantity(value: number, unit: string): string {
+  const decimals = unit === 'un' ? 0 : 2;
+  return value.toLocaleString('pt-BR', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('pt-BR');
+}
+
+function summaryRows(report: QuantityReport): SummaryRow[] {
+  const byDiscipline: Array<[QuantityReportDiscipline, object]> = [
+    ['infrastructure', report.summary.totals],
+    ['civil', report.civil_summary.totals]
+  ];
+
+  return byDiscipline.flatMap(([discipline, totals]) =>
+    Object.entries(totals as Record<string, Record<string, number> | undefined>).flatMap(([type, values]) => {
+      if (!values) return [];
+
+      const fields = Object.entries(SUMMARY_FIELDS)
+        .filter(([key]) => values[key] !== undefined)
+        .map(([key, [label, unit]]) => `${label}: ${formatQuantity(values[key], unit)} ${unit}`);
+
+      return [{ title: SUMMARY_TITLES[discipline][type] || type, count: values.count, totals: fields.join('; ') }];
+    })
+  );
+}
+
+function headerLines(report: QuantityReport): Array<[string, string]> {
+  return [
+    ['Projeto', report.project.name],
+    ...(report.project.description ? [['Descrição', report.project.description] as [string, string]] : []),
+    ['Escala', report.scales.join(', ') || report.project.scale || '-'],
+    ['Data de revisão', formatDate(report.revision_date)],
+    ['Emitido em', formatDate(report.generated_at)]
+  ];
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Gerar HTML autocontido (estilos embutidos, pronto para impressão)
+ */
+export function renderQuantityReportHtml(report: QuantityReport): string {
+  const header = headerLines(report)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+
+  const summary = summaryRows(report)
+    .map(row => `<tr><td>${escapeHtml(row.title)}</td><td class="num">${row.count}</td><td>${escapeHtml(row.totals)}</td></tr>`)
+    .join('\n');
+
+  const sections = report.sections.map(section => {
+    const rows = section.groups.flatMap(group => {
+      const items = group.items.length > 0 ? group.items : [null];
+      return items.map((item, index) => `<tr>${index === 0
+        ? `<td rowspan="${items.length}">${escapeHtml(group.layer || '-')}</td>` +
+          `<td rowspan="${items.length}">${escapeHtml(group.label)}</td>` +
+          `<td rowspan="${items.length}" class="num">${group.count}</td>`
+        : ''}<td>${item ? escapeHtml(item.description) : '-'}</td>` +
+        `<td>${item ? escapeHtml(item.unit) : ''}</td><td class="num">${item ? formatQuantity(item.quantity, item.unit) : ''}</td></tr>`);
+    });
+
+    const totals = section.totals
+      .map(item => `<tr class="total"><td colspan="3">Total</td><td>${escapeHtml(item.description)}</td>` +
+        `<td>${escapeHtml(item.unit)}</td><td class="num">${formatQuantity(item.quantity, item.unit)}</td></tr>`);
+
+    return `<h2>${escapeHtml(DISCIPLINE_TITLES[section.discipline])} - ${escapeHtml(section.title)}</h2>
+<table>
+<thead><tr><th>Camada</th><th>Identificação</th><th>Medições</th><th>Descrição</th><th>Unidade</th><th>Quantidade</th></tr></thead>
+<tbody>
+${[...rows, ...totals].join('\n')}
+</tbody>
+</table>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>Planilha de Quantitativos - ${escapeHtml(report.project.name)}</title>
+<style>
+body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; color: #222; margin: 32px; }
+h1 { font-size: 20px; margin-bottom: 8px; }
+h2 { font-size: 14px; margin-top: 24px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #bbb; padding: 4px 6px; text-align: left; vertical-align: top; }
+thead th { background: #eee; }
+.header th { width: 140px; background: #f6f6f6; }
+.num { text-align: right; }
+tr.total td { font-weight: bold; background: #f6f6f6; }
+</style>
+</head>
+<body>
+<h1>Planilha de Quantitativos</h1>
+<table class="header">
+${header}
+</table>
+<h2>Resumo</h2>
+<table>
+<thead><tr><th>Tipo</th><th>Medições</th><th>Totais</th></tr></thead>
+<tbody>
+${summary || '<tr><td colspan="3">Nenhuma medição no projeto</td></tr>'}
+</tbody>
+</table>
+${sections}
+</body>
+</html>
+`;
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const PDF_MARGIN = 40;
+const ROW_HEIGHT = 16;
+
+/**
+ * Gerar PDF (A4) com cabeçalho do projeto, resumo e uma tabela por tipo
+ */
+export function renderQuantityReportPdf(report: QuantityReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PDF_MARGIN, bufferPages: true });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const width = doc.page.width - PDF_MARGIN * 2;
+    let y = PDF_MARGIN;
+
+    const ensureSpace = (height: number): void => {
+      if (y + height > doc.page.height - PDF_MARGIN) {
+        doc.addPage();
+        y = PDF_MARGIN;
+      }
+    };
+
+    // Linha de tabela: colunas com largura fixa, texto truncado com reticências
+    const row = (cells: string[], widths: number[], options: { bold?: boolean; fill?: string; align?: Array<'left' | 'right'> } = {}): void => {
+      ensureSpace(ROW_HEIGHT);
+      if (options.fill) {
+        doc.rect(PDF_MARGIN, y, width, ROW_HEIGHT).fill(options.fill);
+      }
+      doc.fillColor('#222').font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+
+      let x = PDF_MARGIN;
+      cells.forEach((cell, index) => {
+        doc.text(cell, x + 3, y + 4, {
+          width: widths[index] - 6,
+          height: ROW_HEIGHT,
+          lineBreak: false,
+          ellipsis: true,
+          align: options.align?.[index] || 'left'
+        });
+        x += widths[index];
+      });
+
+      doc.moveTo(PDF_MARGIN, y + ROW_HEIGHT).lineTo(PDF_MARGIN + width, y + ROW_HEIGHT).strokeColor('#ccc').stroke();
+      y += ROW_HEIGHT;
+    };
+
+    const heading = (text: string, size: number): void => {
+      ensureSpace(size + ROW_HEIGHT * 2);
+      doc.fillColor('#222').font('Helvetica-Bold').fontSize(size).text(text, PDF_MARGIN, y, { width });
+      y += size + 8;
+    };
+
+    heading('Planilha de Quantitativos', 16);
+    for (const [label, value] of headerLines(report)) {
+      row([label, value], [110, width - 110], { align: ['left', 'left'] });
+    }
+    y += 12;
+
+    heading('Resumo', 12);
+    const summaryWidths = [120, 60, width - 180];
+    row(['Tipo', 'Medições', 'Totais'], summaryWidths, { bold: true, fill: '#eee', align: ['left', 'right', 'left'] });
+    const summary = summaryRows(report);
+    if (summary.length === 0) {
+      row(['Nenhuma medição no projeto', '', ''], summaryWidths);
+    }
+    for (const item of summary) {
+      row([item.title, String(item.count), item.totals], summaryWidths, { align: ['left', 'right', 'left'] });
+    }
+    y += 12;
+
+    const widths = [80, 135, 45, 130, 40, width - 430];
+    const align: Array<'left' | 'right'> = ['left', 'left', 'right', 'left', 'left', 'right'];
+
+    for (const section of report.sections) {
+      heading(`${DISCIPLINE_TITLES[section.discipline]} - ${section.title}`, 11);
+      row(['Camada', 'Identificação', 'Medições', 'Descrição', 'Unidade', 'Quantidade'], widths, { bold: true, fill: '#eee', align });
+
+      for (const group of section.groups) {
+        const items = group.items.length > 0 ? group.items : [null];
+        items.forEach((item, index) => {
+          row([
+            index === 0 ? group.layer || '-' : '',
+            index === 0 ? group.label : '',
+            index === 0 ? String(group.count) : '',
+            item ? item.description : '-',
+            item ? item.unit : '',
+            item ? formatQuantity(item.quantity, item.unit) : ''
+          ], widths, { align });
+        });
+      }
+
+      for (const item of section.totals) {
+        row(['Total', '', '', item.description, item.unit, formatQuantity(item.quantity, item.unit)], widths, {
+          bold: true,
+          fill: '#f6f6f6',
+          align
+        });
+      }
+      y += 12;
+    }
+
+    // Rodapé com numeração de páginas
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.page.margins.bottom = 0;
+      doc.font('Helvetica').fontSize(7).fillColor('#666').text(
+        `${report.project.name} - revisão ${formatDate(report.revision_date)} - página ${i + 1} de ${range.count}`,
+        PDF_MARGIN,
+        doc.page.height - PDF_MARGIN / 2,
+        { width, align: 'center', lineBreak: false }
+      );
+    }
+
+    doc.end();
+  });
+}
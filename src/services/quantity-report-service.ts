@@ -0,0 +1,318 @@
+// ============================================================================
+// RELATÓRIO DE QUANTITATIVOS DO PROJETO (PLANILHA DE QUANTIDADES)
+// Agrupa medições de infraestrutura e civis por tipo, camada e label
+// ============================================================================
+
+import { NotFoundError } from '../middleware/errorHandler';
+import {
+  Measurement,
+  MeasurementType,
+  MeasurementExportFile,
+  TrenchMeasurement,
+  BoreShotMeasurement,
+  HydroExcavationMeasurement,
+  ConduitMeasurement,
+  VaultMeasurement,
+  AreaMeasurement
+} from '../types/measurement';
+import {
+  CivilMeasurement,
+  CivilMeasurementType,
+  LayoutMeasurement,
+  WallMeasurement,
+  AreaMeasurement as CivilAreaMeasurement,
+  OpeningMeasurement,
+  SlabMeasurement,
+  FoundationMeasurement,
+  StructureMeasurement,
+  FinishingMeasurement,
+  RoofMeasurement
+} from '../types/civil-measurement';
+import {
+  QuantityReport,
+  QuantityReportDiscipline,
+  QuantityReportFormat,
+  QuantityReportGroup,
+  QuantityReportItem,
+  QuantityReportSection
+} from '../types/report';
+import { ProjectService } from './project-service';
+import { MeasurementService } from './measurement-service';
+import { CivilMeasurementService } from './civil-measurement-service';
+import { renderQuantityReportHtml, renderQuantityReportPdf } from './quantity-report-render';
+
+// [descrição, unidade, quantidade] - quantidades ausentes ou inválidas são ignoradas
+type QuantityCandidate = [string, string, number | undefined];
+
+interface QuantityDefinition {
+  title: string;
+  items: (data: unknown) => QuantityCandidate[];
+}
+
+/**
+ * Criar definição tipada das quantidades de um tipo de medição
+ */
+function quantities<T>(title: string, items: (data: T) => QuantityCandidate[]): QuantityDefinition {
+  return { title, items: data => items(data as T) };
+}
+
+// Tipos sem quantitativo (notas, seleções) ficam fora do relatório.
+// A ordem das chaves define a ordem das seções.
+const INFRASTRUCTURE_QUANTITIES: Partial<Record<MeasurementType, QuantityDefinition>> = {
+  trench: quantities<TrenchMeasurement>('Trincheiras', d => [
+    ['Comprimento de vala', 'm', d.length],
+    ['Escavação', 'm³', d.volume_m3],
+    ['Remoção de asfalto', 'm³', d.asphalt_removal?.volume_m3],
+    ['Remoção de concreto', 'm³', d.concrete_removal?.volume_m3],
+    ['Reaterro', 'm³', d.backfill?.volume_m3]
+  ]),
+  'bore-shot': quantities<BoreShotMeasurement>('Perfurações HDD', d => [
+    ['Perfuração direcional', 'm', d.length_m]
+  ]),
+  'hydro-excavation': quantities<HydroExcavationMeasurement>('Hidroescavações', d => [
+    ['Volume removido', 'm³', d.volume_removed_m3]
+  ]),
+  conduit: quantities<ConduitMeasurement>('Condutos', d => [
+    ['Comprimento de conduto', 'm', d.total_length_m],
+    ['Peso estimado', 'kg', d.estimated_weight_kg]
+  ]),
+  // Volumes da câmara são por unidade: multiplicados pela quantidade, como no balanço de terraplenagem
+  vault: quantities<VaultMeasurement>('Câmaras', d => {
+    const quantity = d.quantity || 1;
+    return [
+      ['Câmaras', 'un', quantity],
+      ['Escavação', 'm³', d.volumes?.excavation_m3 !== undefined ? d.volumes.excavation_m3 * quantity : undefined],
+      ['Reaterro', 'm³', d.volumes?.backfill_m3 !== undefined ? d.volumes.backfill_m3 * quantity : undefined]
+    ];
+  }),
+  area: quantities<AreaMeasurement>('Áreas', d => [
+    ['Área', 'm²', d.area_m2],
+    ['Volume', 'm³', d.volume_m3]
+  ])
+};
+
+const CIVIL_QUANTITIES: Partial<Record<CivilMeasurementType, QuantityDefinition>> = {
+  layout: quantities<LayoutMeasurement>('Planta / eixos', d => [
+    ['Comprimento de linhas', 'm', d.output?.total_length_m]
+  ]),
+  foundation: quantities<FoundationMeasurement>('Fundações', d => [
+    ['Elementos', 'un', d.calculations?.quantity],
+    ['Concreto', 'm³', d.calculations?.volume_m3]
+  ]),
+  structure: quantities<StructureMeasurement>('Estrutura de concreto', d => [
+    ['Concreto', 'm³', d.calculations?.volume_m3],
+    ['Fôrma / área', 'm²', d.calculations?.area_m2],
+    ['Armadura estimada', 'kg', d.calculations?.estimated_rebar_kg]
+  ]),
+  slab: quantities<SlabMeasurement>('Lajes e pisos', d => [
+    ['Área', 'm²', d.calculations?.area_m2],
+    ['Concreto', 'm³', d.calculations?.volume_m3]
+  ]),
+  wall: quantities<WallMeasurement>('Paredes', d => [
+    ['Comprimento', 'm', d.calculations?.length_m],
+    ['Alvenaria (área líquida)', 'm²', d.calculations?.net_area_m2],
+    ['Volume de alvenaria', 'm³', d.calculations?.volume_m3],
+    ['Blocos', 'un', d.calculations?.estimated_blocks],
+    ['Argamassa', 'm³', d.calculations?.estimated_mortar_m3]
+  ]),
+  opening: quantities<OpeningMeasurement>('Vãos e esquadrias', d => [
+    ['Vãos', 'un', d.calculations?.quantity],
+    ['Área de vãos', 'm²', d.calculations?.opening_area_m2]
+  ]),
+  area: quantities<CivilAreaMeasurement>('Ambientes', d => [
+    ['Área', 'm²', d.calculations?.total_area_m2],
+    ['Perímetro', 'm', d.calculations?.perimeter_m]
+  ]),
+  finishing: quantities<FinishingMeasurement>('Acabamentos', d => [
+    ['Área líquida', 'm²', d.calculations?.net_area_m2],
+    ['Consumo estimado', d.calculations?.estimated_consumption_unit || d.attributes?.material_unit || 'un', d.calculations?.estimated_consumption]
+  ]),
+  roof: quantities<RoofMeasurement>('Cobertura', d => [
+    ['Área real', 'm²', d.calculations?.real_area_m2],
+    ['Área projetada', 'm²', d.calculations?.projected_area_m2]
+  ])
+};
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function toIso(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+/**
+ * Somar quantidades por descrição + unidade (mantendo a ordem da definição)
+ */
+function addItems(target: Map<string, QuantityReportItem>, candidates: QuantityCandidate[]): void {
+  for (const [description, unit, quantity] of candidates) {
+    if (quantity === undefined || quantity === null || !isFinite(quantity) || quantity < 0) continue;
+
+    const key = `${description}|${unit}`;
+    const item = target.get(key) || { description, unit, quantity: 0 };
+    item.quantity += quantity;
+    target.set(key, item);
+  }
+}
+
+/**
+ * Quantidades de uma medição, nas mesmas linhas do relatório (usadas também no orçamento)
+ */
+export function getMeasurementQuantities(discipline: QuantityReportDiscipline, type: string, data: unknown): QuantityReportItem[] {
+  const definitions: Partial<Record<string, QuantityDefinition>> = discipline === 'civil' ? CIVIL_QUANTITIES : INFRASTRUCTURE_QUANTITIES;
+  const definition = definitions[type];
+  if (!definition) return [];
+
+  const items = new Map<string, QuantityReportItem>();
+  addItems(items, definition.items(data));
+  return Array.from(items.values());
+}
+
+function roundItems(items: Map<string, QuantityReportItem>): QuantityReportItem[] {
+  return Array.from(items.values()).map(item => ({ ...item, quantity: round(item.quantity) }));
+}
+
+/**
+ * Montar a seção de um tipo: uma linha por camada + label e o total do tipo
+ */
+function buildSection(
+  discipline: QuantityReportDiscipline,
+  type: string,
+  definition: QuantityDefinition,
+  records: Array<{ data: unknown }>
+): QuantityReportSection {
+  const groups = new Map<string, { layer: string | null; label: string; count: number; items: Map<string, QuantityReportItem> }>();
+  const totals = new Map<string, QuantityReportItem>();
+
+  for (const record of records) {
+    const data = record.data as any;
+    const layer: string | null = data?.attributes?.layer || data?.layer || null;
+    const label: string = data?.label || 'Sem identificação';
+    const key = `${layer ?? ''}\u0000${label}`;
+
+    const group = groups.get(key) || { layer, label, count: 0, items: new Map<string, QuantityReportItem>() };
+    const candidates = definition.items(data);
+
+    group.count++;
+    addItems(group.items, candidates);
+    addItems(totals, candidates);
+    groups.set(key, group);
+  }
+
+  const sortedGroups: QuantityReportGroup[] = Array.from(groups.values())
+    .sort((a, b) => (a.layer || '').localeCompare(b.layer || '', 'pt-BR') || a.label.localeCompare(b.label, 'pt-BR'))
+    .map(group => ({ layer: group.layer, label: group.label, count: group.count, items: roundItems(group.items) }));
+
+  return {
+    discipline,
+    type,
+    title: definition.title,
+    groups: sortedGroups,
+    totals: roundItems(totals)
+  };
+}
+
+export class QuantityReportService {
+  private projectService: ProjectService;
+  private measurementService: MeasurementService;
+  private civilMeasurementService: CivilMeasurementService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+    this.measurementService = new MeasurementService();
+    this.civilMeasurementService = new CivilMeasurementService();
+  }
+
+  /**
+   * Montar relatório de quantitativos do projeto (medições de infraestrutura e civis)
+   */
+  async buildReport(projectId: string): Promise<QuantityReport> {
+    const project = await this.projectService.getProjectById(projectId);
+
+    if (!project) {
+      throw new NotFoundError('Projeto não encontrado');
+    }
+
+    const measurements = await this.measurementService.listMeasurements({ project_id: projectId, limit: Number.MAX_SAFE_INTEGER });
+    const civilMeasurements = await this.civilMeasurementService.listMeasurements(projectId);
+    const summary = await this.measurementService.getProjectSummary(projectId);
+    const civilSummary = await this.civilMeasurementService.getProjectSummary(projectId);
+
+    const sections: QuantityReportSection[] = [
+      ...this.buildSections('infrastructure', INFRASTRUCTURE_QUANTITIES, measurements),
+      ...this.buildSections('civil', CIVIL_QUANTITIES, civilMeasurements)
+    ];
+
+    // Escalas informadas nas medições (medições civis guardam a escala usada no cálculo)
+    const scales = new Set<string>(project.scale ? [project.scale] : []);
+    for (const record of [...measurements, ...civilMeasurements]) {
+      const scale = (record.data as any)?.scale;
+      if (typeof scale === 'string' && scale) scales.add(scale);
+    }
+
+    const revisionDate = [project.updated_at, ...[...measurements, ...civilMeasurements].map(m => toIso(m.updated_at))]
+      .sort()
+      .pop() as string;
+
+    return {
+      project: {
+        id: project.id,
+        name: project.name,
+        ...(project.description && { description: project.description }),
+        scale: project.scale
+      },
+      scales: Array.from(scales),
+      revision_date: revisionDate,
+      generated_at: new Date().toISOString(),
+      summary,
+      civil_summary: civilSummary,
+      sections
+    };
+  }
+
+  /**
+   * Gerar o relatório no formato pedido (JSON, HTML ou PDF)
+   */
+  async generateReport(projectId: string, format: QuantityReportFormat = 'html'): Promise<MeasurementExportFile> {
+    const report = await this.buildReport(projectId);
+    const basename = `quantitativos-${projectId}`;
+
+    switch (format) {
+      case 'pdf':
+        return {
+          filename: `${basename}.pdf`,
+          content_type: 'application/pdf',
+          content: await renderQuantityReportPdf(report)
+        };
+      case 'json':
+        return {
+          filename: `${basename}.json`,
+          content_type: 'application/json',
+          content: JSON.stringify(report, null, 2)
+        };
+      default:
+        return {
+          filename: `${basename}.html`,
+          content_type: 'text/html; charset=utf-8',
+          content: renderQuantityReportHtml(report)
+        };
+    }
+  }
+
+  private buildSections<T extends string>(
+    discipline: QuantityReportDiscipline,
+    definitions: Partial<Record<T, QuantityDefinition>>,
+    records: Array<Measurement | CivilMeasurement>
+  ): QuantityReportSection[] {
+    const sections: QuantityReportSection[] = [];
+
+    for (const [type, definition] of Object.entries(definitions) as Array<[T, QuantityDefinition]>) {
+      const ofType = records.filter(record => record.type === type);
+      if (ofType.length === 0) continue;
+
+      sections.push(buildSection(discipline, type, definition, ofType));
+    }
+
+    return sections;
+  }
+}
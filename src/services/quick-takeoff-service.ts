@@ -1,8 +1,32 @@
 import { TakeoffUnifiedService, TakeoffCreationData } from './takeoff-unified-service';
 import { CreateOperation, DeleteOperation } from '../types/unified';
+import { QuickTakeoffPagesJobPayload } from '../types/job';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { PdfRenderer } from './pdf-renderer';
+import { jobQueue } from './job-queue-service';
 import path from 'path';
 import fs from 'fs';
 
+// DPI das imagens de página quando não informado
+const PAGE_IMAGE_DEFAULT_DPI = 150;
+
+/**
+ * Caminho do PDF em uploads/takeoff. Só nomes simples de arquivo são aceitos:
+ * um nome que muda com path.basename (ex.: "../x.pdf") retorna null
+ */
+export function takeoffFilePath(fileName: unknown): string | null {
+  if (typeof fileName !== 'string' || !fileName || fileName === '.' || fileName === '..' ||
+    path.basename(fileName) !== fileName || fileName.includes('\\')) {
+    return null;
+  }
+  return path.join(process.cwd(), 'uploads', 'takeoff', fileName);
+}
+
+// Imagem de página guardada em thumbnails/takeoff/<takeoffId>
+function pageImagePath(takeoffId: string, pageNumber: number, dpi: number): string {
+  return path.join(process.cwd(), 'thumbnails', 'takeoff', takeoffId, `page-${pageNumber}@${dpi}dpi.png`);
+}
+
 export interface QuickTakeoffRequest {
   projectId: string;
   fileName: string;
@@ -25,15 +49,24 @@ export class QuickTakeoffService {
   }
 
   /**
-   * Processa um PDF existente para Quick Takeoff
+   * Processa um PDF existente para Quick Takeoff. O takeoff é criado na hora;
+   * as imagens das páginas são geradas por um job ("quick-takeoff-pages")
    */
   async processExistingPDF(request: QuickTakeoffRequest): Promise<QuickTakeoffResponse> {
     try {
       const { projectId, fileName, scale = 1.0, userId } = request;
 
       // Verificar se o arquivo existe
-      const filePath = path.join(process.cwd(), 'uploads', 'takeoff', fileName);
-      
+      const filePath = takeoffFilePath(fileName);
+
+      if (!filePath) {
+        return {
+          success: false,
+          message: 'Nome de arquivo inválido',
+          error: 'fileName deve ser apenas o nome de um arquivo em uploads/takeoff'
+        };
+      }
+
       if (!fs.existsSync(filePath)) {
         return {
           success: false,
@@ -69,14 +102,21 @@ export class QuickTakeoffService {
         };
       }
 
+      const takeoffId = (result.data as any)?.id;
+      const job = await jobQueue.enqueue<QuickTakeoffPagesJobPayload>('quick-takeoff-pages', {
+        takeoff_id: takeoffId,
+        file_name: fileName
+      }, { created_by: userId });
+
       return {
         success: true,
         message: 'Quick Takeoff criado com sucesso',
         data: {
-          takeoffId: (result.data as any)?.id,
+          takeoffId,
           fileName: fileName,
           scale: scale,
-          projectId: projectId
+          projectId: projectId,
+          jobId: job.id
         }
       };
 
@@ -161,6 +201,121 @@ export class QuickTakeoffService {
     }
   }
 
+  /**
+   * Imagem PNG de uma página do PDF do takeoff, guardada em thumbnails/takeoff/<takeoffId>.
+   * Sem imagem pronta no DPI pedido, a renderização vai para a fila e a resposta
+   * traz o job (error "PENDING"); a requisição nunca renderiza.
+   */
+  async getPageImage(takeoffId: string, userId: string, pageNumber: number, dpi = PAGE_IMAGE_DEFAULT_DPI): Promise<QuickTakeoffResponse> {
+    try {
+      const result = await this.takeoffService.getTakeoffById(takeoffId, userId);
+      const fileName = (result.data?.metadata as any)?.fileName;
+
+      if (!result.success || !fileName) {
+        return {
+          success: false,
+          message: result.success ? 'Takeoff sem PDF associado' : 'Takeoff não encontrado',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const pdfPath = takeoffFilePath(fileName);
+      if (!pdfPath || !fs.existsSync(pdfPath)) {
+        return {
+          success: false,
+          message: 'Arquivo não encontrado',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      const imagePath = pageImagePath(takeoffId, pageNumber, dpi);
+
+      if (!fs.existsSync(imagePath)) {
+        // Só a leitura do PDF, para não enfileirar páginas inexistentes
+        const renderer = await PdfRenderer.open(pdfPath);
+        const pageCount = renderer.pageCount;
+        await renderer.close();
+
+        if (pageNumber > pageCount) {
+          throw new ValidationError(`Página ${pageNumber} não existe (o PDF tem ${pageCount})`);
+        }
+
+        const job = await jobQueue.findPending<QuickTakeoffPagesJobPayload>('quick-takeoff-pages', payload =>
+          payload.takeoff_id === takeoffId && (payload.dpi || PAGE_IMAGE_DEFAULT_DPI) === dpi,
+          userId
+        ) || await jobQueue.enqueue<QuickTakeoffPagesJobPayload>('quick-takeoff-pages', {
+          takeoff_id: takeoffId,
+          file_name: fileName,
+          dpi
+        }, { created_by: userId });
+
+        return {
+          success: false,
+          message: 'Imagem da página em processamento',
+          error: 'PENDING',
+          data: { jobId: job.id, pageNumber, dpi }
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Imagem da página obtida com sucesso',
+        data: { filePath: imagePath, pageNumber, dpi }
+      };
+
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.statusCode === 400 ? error.message : 'Erro ao renderizar página',
+        error: error.statusCode === 400 ? 'VALIDATION_ERROR' : error.message
+      };
+    }
+  }
+
+  /**
+   * Renderizar todas as páginas do PDF no DPI pedido (job "quick-takeoff-pages").
+   * Páginas já guardadas não são renderizadas de novo.
+   */
+  async renderPageImages(
+    takeoffId: string,
+    fileName: string,
+    onProgress?: (percent: number) => Promise<void>,
+    dpi = PAGE_IMAGE_DEFAULT_DPI
+  ): Promise<{ pages: number; dpi: number }> {
+    // Takeoff removido enquanto o job esperava na fila: nada a renderizar
+    const takeoff = await this.takeoffService.getTakeoffById(takeoffId, '');
+    if (!takeoff.success) {
+      throw new NotFoundError('Takeoff não encontrado');
+    }
+
+    const pdfPath = takeoffFilePath(fileName);
+    if (!pdfPath) {
+      throw new ValidationError('Nome de arquivo inválido');
+    }
+
+    const renderer = await PdfRenderer.open(pdfPath);
+
+    try {
+      for (let pageNumber = 1; pageNumber <= renderer.pageCount; pageNumber++) {
+        const imagePath = pageImagePath(takeoffId, pageNumber, dpi);
+
+        if (!fs.existsSync(imagePath)) {
+          const image = await renderer.render(pageNumber, dpi);
+          fs.mkdirSync(path.dirname(imagePath), { recursive: true });
+          fs.writeFileSync(imagePath, image.png);
+        }
+
+        if (onProgress) {
+          await onProgress((pageNumber / renderer.pageCount) * 100);
+        }
+      }
+
+      return { pages: renderer.pageCount, dpi };
+    } finally {
+      await renderer.close();
+    }
+  }
+
   /**
    * Atualiza um takeoff rápido
    */
@@ -210,6 +365,9 @@ export class QuickTakeoffService {
         };
       }
 
+      // Imagens de página renderizadas para o takeoff
+      fs.rmSync(path.join(process.cwd(), 'thumbnails', 'takeoff', takeoffId), { recursive: true, force: true });
+
       return {
         success: true,
         message: 'Takeoff removido com sucesso'
@@ -0,0 +1,185 @@
+// ============================================================================
+// VERIFICAÇÃO DE INTEGRIDADE DO ARMAZENAMENTO (EXECUTADA NA INICIALIZAÇÃO)
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from '../utils/winstonLogger';
+import { Entity, getRepository, listRepositories } from '../repositories';
+import { ProjectMeasurementList } from '../types/project';
+import { ProjectService } from './project-service';
+
+interface StoredMeasurement extends Entity {
+  project_id: string;
+}
+
+// Coleção de medições e o campo do projeto que guarda seus IDs
+const MEASUREMENT_COLLECTIONS: Array<{ collection: string; field: ProjectMeasurementList }> = [
+  { collection: 'measurements', field: 'measurements' },
+  { collection: 'civil-measurements', field: 'civil_measurements' }
+];
+
+export interface IntegrityReport {
+  repaired: boolean;
+  corrupted_files: string[];
+  temporary_files: string[];
+  // Medições ausentes da lista do projeto (project_exists=false: projeto inexistente).
+  // project_quarantined: o JSON do projeto está isolado como .corrupted; a medição
+  // não é removida no reparo e precisa de atenção manual
+  orphaned_measurements: Array<{
+    collection: string;
+    id: string;
+    project_id: string;
+    project_exists: boolean;
+    project_quarantined: boolean;
+  }>;
+  // IDs listados no projeto sem medição correspondente. measurement_quarantined: o JSON
+  // da medição está isolado como .corrupted; o ID é mantido no projeto no reparo
+  dangling_ids: Array<{
+    project_id: string;
+    field: ProjectMeasurementList;
+    id: string;
+    measurement_quarantined: boolean;
+  }>;
+}
+
+export class StorageIntegrityService {
+  private projectService: ProjectService;
+
+  constructor() {
+    this.projectService = new ProjectService();
+  }
+
+  /**
+   * Verificar arquivos e referências projeto <-> medições.
+   * Deve rodar depois que os serviços abriram seus repositórios (índices/diretórios já configurados).
+   *
+   * Com repair: arquivos corrompidos são isolados, temporários removidos, medições
+   * órfãs religadas ao projeto (ou removidas se o projeto não existe) e IDs pendentes descartados
+   * (exceto os de medições isoladas como corrompidas).
+   */
+  async run(repair: boolean = false): Promise<IntegrityReport> {
+    const report: IntegrityReport = {
+      repaired: repair,
+      corrupted_files: [],
+      temporary_files: [],
+      orphaned_measurements: [],
+      dangling_ids: []
+    };
+
+    // 1. Armazenamento físico (JSON truncado, escritas interrompidas)
+    // IDs isolados por coleção: "<dir>/<id>.json" (JSON) ou "<coleção>/<id>" (SQLite)
+    const quarantined = new Map<string, Set<string>>();
+    for (const repository of listRepositories()) {
+      const result = await repository.checkStorage(repair);
+      report.corrupted_files.push(...result.corrupted);
+      report.temporary_files.push(...result.temporary);
+      quarantined.set(repository.collection, new Set(result.corrupted.map(entry => path.basename(entry).replace(/\.json$/, ''))));
+    }
+
+    // 2. Referências entre projetos e medições
+    // Projetos na lixeira contam como existentes, mas suas referências só são verificadas após restaurados
+    const projectsById = new Map((await this.projectService.listProjects(true)).map(p => [p.id, p]));
+
+    for (const { collection, field } of MEASUREMENT_COLLECTIONS) {
+      const measurements = getRepository<StoredMeasurement>(collection);
+      const stored = await measurements.find();
+      const existingIds = new Set(stored.map(m => m.id));
+
+      for (const measurement of stored) {
+        const project = projectsById.get(measurement.project_id);
+        if (project && (project.deleted_at || project[field].includes(measurement.id))) continue;
+
+        report.orphaned_measurements.push({
+          collection,
+          id: measurement.id,
+          project_id: measurement.project_id,
+          project_exists: !!project,
+          project_quarantined: !project && this.isQuarantined('projects', measurement.project_id, quarantined)
+        });
+      }
+
+      for (const project of projectsById.values()) {
+        if (project.deleted_at) continue;
+        for (const id of project[field]) {
+          if (!existingIds.has(id)) {
+            report.dangling_ids.push({
+              project_id: project.id,
+              field,
+              id,
+              measurement_quarantined: this.isQuarantined(collection, id, quarantined)
+            });
+          }
+        }
+      }
+
+      if (repair) {
+        await this.repairReferences(collection, field, report);
+      }
+    }
+
+    this.logReport(report);
+
+    return report;
+  }
+
+  private async repairReferences(
+    collection: string,
+    field: ProjectMeasurementList,
+    report: IntegrityReport
+  ): Promise<void> {
+    const measurements = getRepository<StoredMeasurement>(collection);
+
+    for (const dangling of report.dangling_ids.filter(d => d.field === field)) {
+      if (dangling.measurement_quarantined) {
+        // A medição só está ilegível: o vínculo é mantido para quando for recuperada
+        log.warn('Vínculo com medição corrompida mantido para recuperação manual', dangling);
+        continue;
+      }
+      await this.projectService.removeMeasurement(dangling.project_id, dangling.id, field);
+    }
+
+    for (const orphan of report.orphaned_measurements.filter(o => o.collection === collection)) {
+      if (orphan.project_exists) {
+        await this.projectService.addMeasurement(orphan.project_id, orphan.id, field);
+      } else if (orphan.project_quarantined) {
+        // O projeto só está ilegível: remover as medições tornaria a perda definitiva
+        log.warn('Medição de projeto corrompido mantida para recuperação manual', orphan);
+      } else {
+        // Sem projeto não há como alcançar a medição pela API de projetos
+        await measurements.delete(orphan.id);
+        log.warn('Medição órfã removida', orphan);
+      }
+    }
+  }
+
+  /**
+   * Registro isolado nesta verificação ou em uma anterior (arquivo <id>.json.corrupted)
+   */
+  private isQuarantined(collection: string, id: string, quarantinedNow: Map<string, Set<string>>): boolean {
+    return !!quarantinedNow.get(collection)?.has(id) ||
+      fs.existsSync(path.join(process.cwd(), 'data', collection, `${path.basename(id)}.json.corrupted`));
+  }
+
+  private logReport(report: IntegrityReport): void {
+    const summary = {
+      repaired: report.repaired,
+      corrupted_files: report.corrupted_files.length,
+      temporary_files: report.temporary_files.length,
+      orphaned_measurements: report.orphaned_measurements.length,
+      needs_attention: report.orphaned_measurements.filter(o => o.project_quarantined).length +
+        report.dangling_ids.filter(d => d.measurement_quarantined).length,
+      dangling_ids: report.dangling_ids.length
+    };
+
+    const hasIssues = summary.corrupted_files + summary.temporary_files +
+      summary.orphaned_measurements + summary.dangling_ids > 0;
+
+    if (!hasIssues) {
+      log.info('Verificação de integridade concluída sem problemas');
+      return;
+    }
+
+    log.warn('Verificação de integridade encontrou problemas', { ...summary, details: report });
+  }
+}
@@ -1,5 +1,5 @@
 // ============================================================================
-// TAKEOFF UNIFIED SERVICE - SERVICE LAYER PARA TAKEOFFS (FILE-BASED)
+// TAKEOFF UNIFIED SERVICE - SERVICE LAYER PARA TAKEOFFS (REPOSITÓRIO)
 // ============================================================================
 
 import * as fs from 'fs';
@@ -16,6 +16,7 @@ import {
   BaseEntityWithProject
 } from '../types/unified';
 import { log } from '../utils/winstonLogger';
+import { getRepository, Repository } from '../repositories';
 
 // Interfaces específicas para takeoffs
 export interface Takeoff extends BaseEntityWithProject {
@@ -39,6 +40,7 @@ export interface Takeoff extends BaseEntityWithProject {
   approved_at?: string;
   settings?: any;
   metadata?: any;
+  deleted_at?: string; // ISO8601 - na lixeira junto com o projeto
 }
 
 export interface TakeoffCreationData {
@@ -117,33 +119,36 @@ export interface TakeoffItemUpdateData extends Partial<TakeoffItemCreationData>
   id: string;
 }
 
+// Arquivo enviado por /takeoff/upload/:projectId (o id é o nome gerado no upload)
+export interface TakeoffFile extends BaseEntity {
+  project_id: string;
+  original_name: string;
+  size: number;
+}
+
 export class TakeoffUnifiedService {
-  private takeoffsDir: string;
+  private takeoffs: Repository<Takeoff>;
+  private items: Repository<TakeoffItem>;
+  private files: Repository<TakeoffFile>;
 
   constructor() {
-    // Define o diretório de dados para takeoffs
-    this.takeoffsDir = path.join(process.cwd(), 'data', 'takeoffs');
-    
-    // Cria o diretório se não existir
-    if (!fs.existsSync(this.takeoffsDir)) {
-      fs.mkdirSync(this.takeoffsDir, { recursive: true });
-      log.info(`Diretório criado: ${this.takeoffsDir}`);
-    }
+    this.takeoffs = getRepository<Takeoff>('takeoffs', { indexes: ['project_id', 'status'] });
+    this.items = getRepository<TakeoffItem>('takeoff_items', { indexes: ['takeoff_id'] });
+    this.files = getRepository<TakeoffFile>('takeoff_files', { indexes: ['project_id'] });
     
-    log.info('TakeoffUnifiedService inicializado (modo arquivo)');
+    log.info('TakeoffUnifiedService inicializado');
   }
 
   /**
-   * Helper para ler um arquivo JSON com segurança
+   * Helper para ler um takeoff com segurança
    */
-  private readTakeoffFile(id: string): Takeoff | null {
+  private async readTakeoff(id: string): Promise<Takeoff | null> {
     try {
-      const filePath = path.join(this.takeoffsDir, `${id}.json`);
-      if (!fs.existsSync(filePath)) return null;
-      const content = fs.readFileSync(filePath, 'utf-8');
-      return JSON.parse(content);
+      const takeoff = await this.takeoffs.findById(id);
+      // Takeoffs na lixeira (junto com o projeto) não são acessíveis
+      return takeoff && !takeoff.deleted_at ? takeoff : null;
     } catch (error) {
-      log.error(`Erro ao ler arquivo de takeoff ${id}`, error);
+      log.error(`Erro ao ler takeoff ${id}`, error);
       return null;
     }
   }
@@ -166,8 +171,7 @@ export class TakeoffUnifiedService {
         progress: 0
       };
 
-      const filePath = path.join(this.takeoffsDir, `${id}.json`);
-      fs.writeFileSync(filePath, JSON.stringify(newTakeoff, null, 2));
+      await this.takeoffs.save(newTakeoff);
 
       log.info('Takeoff criado', { id, name: newTakeoff.name });
 
@@ -191,31 +195,13 @@ export class TakeoffUnifiedService {
    */
   async listTakeoffs(filters: TakeoffFilters = {}, _userId: string): Promise<ApiResponse<PaginatedResponse<Takeoff>>> {
     try {
-      const files = fs.readdirSync(this.takeoffsDir);
-      let takeoffs: Takeoff[] = [];
-
-      // Ler todos os arquivos
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.takeoffsDir, file);
-          try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const takeoff = JSON.parse(content);
-            takeoffs.push(takeoff);
-          } catch (e) {
-            log.warn(`Arquivo corrompido ignorado: ${file}`);
-            continue; // Pular arquivos corrompidos
-          }
-        }
-      }
+      // Filtros por projeto e status resolvidos pelo repositório (ordem: mais recente primeiro)
+      let takeoffs = await this.takeoffs.find({
+        where: { project_id: filters.project_id, status: filters.status, deleted_at: null },
+        orderBy: 'created_at',
+        order: 'desc'
+      });
 
-      // Aplicar Filtros
-      if (filters.project_id) {
-        takeoffs = takeoffs.filter(t => t.project_id === filters.project_id);
-      }
-      if (filters.status) {
-        takeoffs = takeoffs.filter(t => t.status === filters.status);
-      }
       if (filters.search) {
         const searchLower = filters.search.toLowerCase();
         takeoffs = takeoffs.filter(t => 
@@ -224,9 +210,6 @@ export class TakeoffUnifiedService {
         );
       }
 
-      // Ordenação (padrão: mais recente primeiro)
-      takeoffs.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-
       // Paginação
       const total = takeoffs.length;
       const limit = filters.limit || 20;
@@ -258,11 +241,45 @@ export class TakeoffUnifiedService {
     }
   }
 
+  /**
+   * Registrar o projeto dono de um arquivo enviado
+   */
+  async registerFile(fileName: string, projectId: string, originalName: string, size: number, userId: string): Promise<TakeoffFile> {
+    const now = new Date().toISOString();
+    const file: TakeoffFile = {
+      id: fileName,
+      project_id: projectId,
+      original_name: originalName,
+      size,
+      created_by: userId,
+      created_at: now,
+      updated_at: now
+    };
+
+    await this.files.save(file);
+    return file;
+  }
+
+  /**
+   * Projeto dono do arquivo enviado. Arquivos anteriores ao registro de uploads
+   * são resolvidos pelo desenho (takeoff) que os referencia.
+   */
+  async getFileProject(fileName: string): Promise<string | null> {
+    const file = await this.files.findById(fileName);
+    if (file) {
+      return file.project_id;
+    }
+
+    const takeoffs = await this.takeoffs.find({ where: { deleted_at: null }, orderBy: 'created_at' });
+    const drawing = takeoffs.find(takeoff => takeoff.metadata?.fileName === fileName);
+    return drawing ? drawing.project_id : null;
+  }
+
   /**
    * Obter takeoff por ID
    */
   async getTakeoffById(id: string, _userId: string): Promise<ApiResponse<Takeoff>> {
-    const takeoff = this.readTakeoffFile(id);
+    const takeoff = await this.readTakeoff(id);
     
     if (!takeoff) {
       return {
@@ -283,7 +300,7 @@ export class TakeoffUnifiedService {
    * Atualizar takeoff
    */
   async updateTakeoff(id: string, updateData: TakeoffUpdateData, _userId: string): Promise<ApiResponse<Takeoff>> {
-    const takeoff = this.readTakeoffFile(id);
+    const takeoff = await this.readTakeoff(id);
     
     if (!takeoff) {
       return {
@@ -322,8 +339,7 @@ export class TakeoffUnifiedService {
     };
 
     try {
-      const filePath = path.join(this.takeoffsDir, `${id}.json`);
-      fs.writeFileSync(filePath, JSON.stringify(updatedTakeoff, null, 2));
+      await this.takeoffs.save(updatedTakeoff);
       
       log.info('Takeoff atualizado', { id });
       
@@ -347,18 +363,20 @@ export class TakeoffUnifiedService {
    */
   async deleteTakeoff(deleteData: DeleteOperation): Promise<ApiResponse<void>> {
     const { id } = deleteData;
-    const filePath = path.join(this.takeoffsDir, `${id}.json`);
-
-    if (!fs.existsSync(filePath)) {
-      return {
-        success: false,
-        message: 'Takeoff não encontrado',
-        error: 'NOT_FOUND'
-      };
-    }
 
     try {
-      fs.unlinkSync(filePath);
+      const deleted = await this.takeoffs.delete(id);
+
+      if (!deleted) {
+        return {
+          success: false,
+          message: 'Takeoff não encontrado',
+          error: 'NOT_FOUND'
+        };
+      }
+
+      await this.deleteItemsOf(id);
+
       log.info('Takeoff deletado', { id });
       
       return {
@@ -369,7 +387,7 @@ export class TakeoffUnifiedService {
       log.error('Erro ao deletar takeoff', error);
       return {
         success: false,
-        message: 'Erro ao deletar arquivo',
+        message: 'Erro ao deletar takeoff',
         error: error.message
       };
     }
@@ -380,30 +398,31 @@ export class TakeoffUnifiedService {
    */
   async deleteTakeoffsByProject(projectId: string, _userId: string): Promise<ApiResponse<{ deleted: number }>> {
     try {
-      const files = fs.readdirSync(this.takeoffsDir);
+      const takeoffs = await this.takeoffs.find({ where: { project_id: projectId } });
       let deleted = 0;
       const errors: string[] = [];
 
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.takeoffsDir, file);
-          try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const takeoff = JSON.parse(content);
-            
-            // Verificar se pertence ao projeto
-            if (takeoff.project_id === projectId) {
-              fs.unlinkSync(filePath);
-              deleted++;
-              log.info('Takeoff deletado por projeto', { id: takeoff.id, projectId });
-            }
-          } catch (e: any) {
-            errors.push(`Erro ao processar arquivo ${file}: ${e.message}`);
-            log.warn(`Erro ao processar arquivo ${file}`, e);
+      for (const takeoff of takeoffs) {
+        try {
+          if (await this.takeoffs.delete(takeoff.id)) {
+            await this.deleteItemsOf(takeoff.id);
+            // Imagens de página renderizadas pelo quick takeoff
+            fs.rmSync(path.join(process.cwd(), 'thumbnails', 'takeoff', takeoff.id), { recursive: true, force: true });
+            deleted++;
+            log.info('Takeoff deletado por projeto', { id: takeoff.id, projectId });
           }
+        } catch (e: any) {
+          errors.push(`Erro ao deletar takeoff ${takeoff.id}: ${e.message}`);
+          log.warn(`Erro ao deletar takeoff ${takeoff.id}`, e);
         }
       }
 
+      // PDFs enviados para o projeto
+      for (const file of await this.files.find({ where: { project_id: projectId } })) {
+        fs.rmSync(path.join(process.cwd(), 'uploads', 'takeoff', path.basename(file.id)), { force: true });
+        await this.files.delete(file.id);
+      }
+
       if (errors.length > 0 && deleted === 0) {
         return {
           success: false,
@@ -427,33 +446,140 @@ export class TakeoffUnifiedService {
     }
   }
 
+  /**
+   * Mover para a lixeira todos os takeoffs de um projeto
+   */
+  async trashTakeoffsByProject(projectId: string, deletedAt: string): Promise<ApiResponse<{ trashed: number }>> {
+    try {
+      const takeoffs = await this.takeoffs.find({ where: { project_id: projectId, deleted_at: null } });
+
+      for (const takeoff of takeoffs) {
+        await this.takeoffs.save({ ...takeoff, deleted_at: deletedAt });
+      }
+
+      return {
+        success: true,
+        message: `${takeoffs.length} takeoff(s) movido(s) para a lixeira`,
+        data: { trashed: takeoffs.length }
+      };
+    } catch (error: any) {
+      log.error('Erro ao mover takeoffs para a lixeira', error);
+      return {
+        success: false,
+        message: 'Erro ao mover takeoffs para a lixeira',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Restaurar os takeoffs de um projeto que estavam na lixeira
+   */
+  async restoreTakeoffsByProject(projectId: string): Promise<ApiResponse<{ restored: number }>> {
+    try {
+      const takeoffs = (await this.takeoffs.find({ where: { project_id: projectId } }))
+        .filter(t => t.deleted_at);
+
+      for (const takeoff of takeoffs) {
+        delete takeoff.deleted_at;
+        await this.takeoffs.save(takeoff);
+      }
+
+      return {
+        success: true,
+        message: `${takeoffs.length} takeoff(s) restaurado(s)`,
+        data: { restored: takeoffs.length }
+      };
+    } catch (error: any) {
+      log.error('Erro ao restaurar takeoffs', error);
+      return {
+        success: false,
+        message: 'Erro ao restaurar takeoffs',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Listar itens de um takeoff
+   */
+  async listTakeoffItems(takeoffId: string): Promise<ApiResponse<TakeoffItem[]>> {
+    try {
+      const items = await this.items.find({ where: { takeoff_id: takeoffId }, orderBy: 'created_at' });
+
+      return {
+        success: true,
+        data: items,
+        message: 'Itens do takeoff listados com sucesso'
+      };
+    } catch (error: any) {
+      log.error('Erro ao listar itens do takeoff', error);
+      return {
+        success: false,
+        message: 'Erro ao listar itens do takeoff',
+        error: error.message
+      };
+    }
+  }
+
+  /**
+   * Substituir os itens de um takeoff (ex: ao recalcular o orçamento)
+   */
+  async replaceTakeoffItems(takeoffId: string, items: TakeoffItemCreationData[], userId: string): Promise<ApiResponse<TakeoffItem[]>> {
+    try {
+      await this.deleteItemsOf(takeoffId);
+
+      const now = new Date().toISOString();
+      const saved: TakeoffItem[] = [];
+
+      for (const data of items) {
+        const item: TakeoffItem = {
+          id: uuidv4(),
+          ...data,
+          takeoff_id: takeoffId,
+          total_cost: Math.round(data.quantity * data.unit_cost * 100) / 100,
+          created_by: userId,
+          created_at: now,
+          updated_at: now
+        };
+        await this.items.save(item);
+        saved.push(item);
+      }
+
+      log.info('Itens do takeoff substituídos', { takeoffId, count: saved.length });
+
+      return {
+        success: true,
+        data: saved,
+        message: 'Itens do takeoff salvos com sucesso'
+      };
+    } catch (error: any) {
+      log.error('Erro ao salvar itens do takeoff', error);
+      return {
+        success: false,
+        message: 'Erro ao salvar itens do takeoff',
+        error: error.message
+      };
+    }
+  }
+
+  private async deleteItemsOf(takeoffId: string): Promise<void> {
+    for (const item of await this.items.find({ where: { takeoff_id: takeoffId } })) {
+      await this.items.delete(item.id);
+    }
+  }
+
   /**
    * Obter estatísticas de takeoffs
    */
   async getTakeoffStats(_userId: string): Promise<ApiResponse<BaseStats>> {
     try {
-      const files = fs.readdirSync(this.takeoffsDir);
-      let total = 0;
-      let active = 0;
-      let inactive = 0;
-      let archived = 0;
-
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.takeoffsDir, file);
-          try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const takeoff = JSON.parse(content);
-            total++;
-            
-            if (takeoff.status === 'active') active++;
-            else if (takeoff.status === 'inactive') inactive++;
-            else if (takeoff.status === 'archived') archived++;
-          } catch (e) {
-            continue;
-          }
-        }
-      }
+      const [total, active, inactive, archived] = await Promise.all([
+        this.takeoffs.count({ deleted_at: null }),
+        this.takeoffs.count({ status: 'active', deleted_at: null }),
+        this.takeoffs.count({ status: 'inactive', deleted_at: null }),
+        this.takeoffs.count({ status: 'archived', deleted_at: null })
+      ]);
 
       return {
         success: true,
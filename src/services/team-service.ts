@@ -0,0 +1,278 @@
+// ============================================================================
+// SERVIÇO PARA GERENCIAR EQUIPES
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { log } from '../utils/winstonLogger';
+import { getRepository, Repository } from '../repositories';
+import { NotFoundError } from '../middleware/errorHandler';
+import { TeamFilters, TeamStats } from '../types/unified';
+import {
+  Team,
+  TeamMemberRole,
+  CreateTeamRequest,
+  UpdateTeamRequest
+} from '../types/user';
+import { UserService } from './user-service';
+
+export class TeamService {
+  private teams: Repository<Team>;
+  private userService: UserService;
+
+  constructor() {
+    this.teams = getRepository<Team>('teams');
+    this.userService = new UserService();
+
+    log.info('TeamService inicializado');
+  }
+
+  /**
+   * Criar nova equipe
+   */
+  async createTeam(data: CreateTeamRequest, createdBy: string): Promise<Team> {
+    try {
+      const teamId = uuidv4();
+      const now = new Date().toISOString();
+
+      const members = [];
+      for (const member of data.members || []) {
+        await this.assertUserExists(member.user_id);
+        members.push({ user_id: member.user_id, role: member.role || 'member', joined_at: now });
+      }
+
+      const team: Team = {
+        id: teamId,
+        name: data.name,
+        ...(data.description && { description: data.description }),
+        ...(data.department && { department: data.department }),
+        ...(data.role && { role: data.role }),
+        is_active: true,
+        members,
+        created_at: now,
+        updated_at: now,
+        created_by: createdBy
+      };
+
+      await this.teams.save(team);
+
+      log.info('Equipe criada', { teamId, name: data.name });
+
+      return team;
+    } catch (error) {
+      log.error('Erro ao criar equipe', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obter equipe por ID
+   */
+  async getTeamById(id: string): Promise<Team | null> {
+    try {
+      return await this.teams.findById(id);
+    } catch (error) {
+      log.error('Erro ao obter equipe', error);
+      return null;
+    }
+  }
+
+  /**
+   * Listar equipes com filtros e paginação
+   */
+  async listTeams(filters: TeamFilters = {}): Promise<{ teams: Team[]; total: number }> {
+    try {
+      let teams = await this.teams.find({
+        where: {
+          department: filters.department,
+          role: filters.role,
+          is_active: filters.isActive
+        }
+      });
+
+      if (filters.search) {
+        const search = filters.search.toLowerCase();
+        teams = teams.filter(t =>
+          t.name.toLowerCase().includes(search) ||
+          (t.description && t.description.toLowerCase().includes(search))
+        );
+      }
+
+      const direction = filters.sortOrder === 'asc' ? 1 : -1;
+      teams.sort((a, b) =>
+        (new Date(a.created_at).getTime() - new Date(b.created_at).getTime()) * direction
+      );
+
+      const total = teams.length;
+      const limit = filters.limit || 50;
+      const offset = filters.offset ?? ((filters.page || 1) - 1) * limit;
+
+      return { teams: teams.slice(offset, offset + limit), total };
+    } catch (error) {
+      log.error('Erro ao listar equipes', error);
+      return { teams: [], total: 0 };
+    }
+  }
+
+  /**
+   * Listar equipes das quais um usuário participa
+   */
+  async getTeamsForUser(userId: string): Promise<Team[]> {
+    const teams = await this.teams.find();
+    return teams.filter(t => t.members.some(m => m.user_id === userId));
+  }
+
+  /**
+   * Atualizar equipe
+   */
+  async updateTeam(id: string, update: UpdateTeamRequest): Promise<Team | null> {
+    try {
+      const team = await this.getTeamById(id);
+
+      if (!team) {
+        return null;
+      }
+
+      if (update.name) team.name = update.name;
+      if (update.description !== undefined) team.description = update.description;
+      if (update.department !== undefined) team.department = update.department;
+      if (update.role !== undefined) team.role = update.role;
+      if (update.is_active !== undefined) team.is_active = update.is_active;
+      if (update.total_hours !== undefined) team.total_hours = update.total_hours;
+      if (update.efficiency !== undefined) team.efficiency = update.efficiency;
+
+      team.updated_at = new Date().toISOString();
+      await this.teams.save(team);
+
+      log.info('Equipe atualizada', { id });
+
+      return team;
+    } catch (error) {
+      log.error('Erro ao atualizar equipe', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletar equipe
+   */
+  async deleteTeam(id: string): Promise<boolean> {
+    try {
+      if (!(await this.teams.delete(id))) {
+        return false;
+      }
+
+      log.info('Equipe deletada', { id });
+
+      return true;
+    } catch (error) {
+      log.error('Erro ao deletar equipe', error);
+      return false;
+    }
+  }
+
+  /**
+   * Adicionar (ou atualizar papel de) membro na equipe
+   */
+  async addMember(teamId: string, userId: string, role: TeamMemberRole = 'member'): Promise<Team | null> {
+    const team = await this.getTeamById(teamId);
+
+    if (!team) {
+      return null;
+    }
+
+    await this.assertUserExists(userId);
+
+    const existing = team.members.find(m => m.user_id === userId);
+    if (existing) {
+      existing.role = role;
+    } else {
+      team.members.push({ user_id: userId, role, joined_at: new Date().toISOString() });
+    }
+
+    team.updated_at = new Date().toISOString();
+    await this.teams.save(team);
+
+    log.info('Membro adicionado à equipe', { teamId, userId, role });
+
+    return team;
+  }
+
+  /**
+   * Remover membro da equipe
+   */
+  async removeMember(teamId: string, userId: string): Promise<Team | null> {
+    const team = await this.getTeamById(teamId);
+
+    if (!team) {
+      return null;
+    }
+
+    team.members = team.members.filter(m => m.user_id !== userId);
+    team.updated_at = new Date().toISOString();
+    await this.teams.save(team);
+
+    log.info('Membro removido da equipe', { teamId, userId });
+
+    return team;
+  }
+
+  /**
+   * Remover usuário de todas as equipes (usado ao deletar usuário)
+   */
+  async removeUserFromAllTeams(userId: string): Promise<number> {
+    let updated = 0;
+
+    for (const team of await this.getTeamsForUser(userId)) {
+      await this.removeMember(team.id, userId);
+      updated++;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Obter estatísticas de equipes
+   */
+  async getTeamStats(): Promise<TeamStats> {
+    const teams = await this.teams.find();
+
+    const byDepartment: Record<string, number> = {};
+    const byRole: Record<string, number> = {};
+    let active = 0;
+    let totalHours = 0;
+    let efficiencySum = 0;
+    let efficiencyCount = 0;
+
+    for (const team of teams) {
+      const department = team.department || 'sem_departamento';
+      byDepartment[department] = (byDepartment[department] || 0) + 1;
+      const role = team.role || 'geral';
+      byRole[role] = (byRole[role] || 0) + 1;
+
+      if (team.is_active) active++;
+      totalHours += team.total_hours || 0;
+
+      if (team.efficiency !== undefined) {
+        efficiencySum += team.efficiency;
+        efficiencyCount++;
+      }
+    }
+
+    return {
+      total: teams.length,
+      active,
+      inactive: teams.length - active,
+      archived: 0,
+      byDepartment,
+      byRole,
+      totalHours,
+      averageEfficiency: efficiencyCount > 0 ? efficiencySum / efficiencyCount : 0
+    };
+  }
+
+  private async assertUserExists(userId: string): Promise<void> {
+    if (!(await this.userService.getUserById(userId))) {
+      throw new NotFoundError(`Usuário ${userId} não encontrado`);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+// ============================================================================
+// SERVIÇO DE REVOGAÇÃO DE TOKENS JWT
+// ============================================================================
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from '../utils/winstonLogger';
+
+// jti -> expiração do token (epoch em segundos)
+type RevocationList = Record<string, number>;
+
+// userId -> corte: tokens emitidos até issued_before (epoch em segundos) são inválidos
+type UserRevocationList = Record<string, { issued_before: number; expires_at: number }>;
+
+export class TokenRevocationService {
+  private filePath: string;
+  private usersFilePath: string;
+  private revoked: RevocationList = {};
+  private revokedUsers: UserRevocationList = {};
+
+  constructor() {
+    const authDir = path.join(process.cwd(), 'data', 'auth');
+    this.filePath = path.join(authDir, 'revoked-tokens.json');
+    this.usersFilePath = path.join(authDir, 'revoked-users.json');
+
+    if (!fs.existsSync(authDir)) {
+      fs.mkdirSync(authDir, { recursive: true });
+      log.info(`Diretório criado: ${authDir}`);
+    }
+
+    this.load();
+    log.info('TokenRevocationService inicializado');
+  }
+
+  /**
+   * Revogar token até sua expiração
+   */
+  revoke(jti: string, expiresAt: number): void {
+    this.revoked[jti] = expiresAt;
+    this.pruneExpired();
+    this.persist();
+  }
+
+  /**
+   * Verificar se um token foi revogado
+   */
+  isRevoked(jti: string): boolean {
+    return jti in this.revoked;
+  }
+
+  /**
+   * Revogar todos os tokens do usuário emitidos até agora (desativação/exclusão).
+   * expiresAt: quando o último desses tokens expira
+   */
+  revokeUser(userId: string, expiresAt: number): void {
+    this.revokedUsers[userId] = { issued_before: Math.floor(Date.now() / 1000), expires_at: expiresAt };
+    this.pruneExpired();
+    this.persistUsers();
+  }
+
+  /**
+   * Verificar se o token do usuário, emitido em issuedAt, caiu numa revogação por usuário
+   */
+  isUserRevoked(userId: string, issuedAt: number): boolean {
+    const entry = this.revokedUsers[userId];
+    return !!entry && issuedAt <= entry.issued_before;
+  }
+
+  /**
+   * Último segundo de emissão revogado para o usuário (0 se nenhum)
+   */
+  userRevokedUntil(userId: string): number {
+    return this.revokedUsers[userId]?.issued_before || 0;
+  }
+
+  /**
+   * Remover entradas de tokens que já expiraram (não precisam mais ser lembradas)
+   */
+  pruneExpired(): number {
+    const now = Math.floor(Date.now() / 1000);
+    let removed = 0;
+
+    for (const [jti, expiresAt] of Object.entries(this.revoked)) {
+      if (expiresAt <= now) {
+        delete this.revoked[jti];
+        removed++;
+      }
+    }
+
+    for (const [userId, entry] of Object.entries(this.revokedUsers)) {
+      if (entry.expires_at <= now) {
+        delete this.revokedUsers[userId];
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  private load(): void {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.revoked = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        this.pruneExpired();
+      }
+    } catch (error) {
+      log.warn('Erro ao carregar lista de tokens revogados, iniciando vazia', error);
+      this.revoked = {};
+    }
+
+    try {
+      if (fs.existsSync(this.usersFilePath)) {
+        this.revokedUsers = JSON.parse(fs.readFileSync(this.usersFilePath, 'utf-8'));
+        this.pruneExpired();
+      }
+    } catch (error) {
+      log.warn('Erro ao carregar lista de usuários revogados, iniciando vazia', error);
+      this.revokedUsers = {};
+    }
+  }
+
+  private persist(): void {
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.revoked, null, 2));
+    } catch (error) {
+      log.error('Erro ao salvar lista de tokens revogados', error);
+    }
+  }
+
+  private persistUsers(): void {
+    try {
+      fs.writeFileSync(this.usersFilePath, JSON.stringify(this.revokedUsers, null, 2));
+    } catch (error) {
+      log.error('Erro ao salvar lista de usuários revogados', error);
+    }
+  }
+}
+
+// Instância singleton
+export const tokenRevocationService = new TokenRevocationService();
@@ -0,0 +1,302 @@
+// ============================================================================
+// SERVIÇO PARA GERENCIAR USUÁRIOS
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { log } from '../utils/winstonLogger';
+import { getRepository, Repository } from '../repositories';
+import { hashPassword, verifyPassword } from '../utils/password';
+import { JWTUtils } from '../utils/jwt';
+import { UserRole } from '../middleware/auth';
+import { ConflictError } from '../middleware/errorHandler';
+import { UserFilters, UserStats } from '../types/unified';
+import {
+  User,
+  PublicUser,
+  CreateUserRequest,
+  UpdateUserRequest
+} from '../types/user';
+
+export class UserService {
+  private users: Repository<User>;
+
+  constructor() {
+    this.users = getRepository<User>('users', { indexes: ['email'] });
+
+    log.info('UserService inicializado');
+  }
+
+  /**
+   * Remover dados sensíveis do usuário
+   */
+  static toPublicUser(user: User): PublicUser {
+    const { password_hash: _, ...publicUser } = user;
+    return publicUser;
+  }
+
+  /**
+   * Criar novo usuário
+   */
+  async createUser(data: CreateUserRequest, createdBy: string = 'system'): Promise<PublicUser> {
+    try {
+      const email = data.email.trim().toLowerCase();
+
+      if (await this.findUserByEmail(email)) {
+        throw new ConflictError(`Email ${email} já está em uso`);
+      }
+
+      const userId = uuidv4();
+      const now = new Date().toISOString();
+
+      const user: User = {
+        id: userId,
+        email,
+        username: data.username,
+        ...(data.full_name && { full_name: data.full_name }),
+        role: data.role || UserRole.VIEWER,
+        ...(data.department && { department: data.department }),
+        is_active: true,
+        password_hash: await hashPassword(data.password),
+        created_at: now,
+        updated_at: now,
+        created_by: createdBy
+      };
+
+      await this.users.save(user);
+
+      log.info('Usuário criado', { userId, email, role: user.role });
+
+      return UserService.toPublicUser(user);
+    } catch (error) {
+      log.error('Erro ao criar usuário', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Obter usuário por ID
+   */
+  async getUserById(id: string): Promise<PublicUser | null> {
+    const user = await this.users.findById(id);
+    return user ? UserService.toPublicUser(user) : null;
+  }
+
+  /**
+   * Listar usuários com filtros e paginação
+   */
+  async listUsers(filters: UserFilters = {}): Promise<{ users: PublicUser[]; total: number }> {
+    try {
+      let users = await this.users.find({
+        where: {
+          role: filters.role,
+          is_active: filters.isActive,
+          department: filters.department
+        }
+      });
+
+      if (filters.createdAfter) {
+        const after = new Date(filters.createdAfter).getTime();
+        users = users.filter(u => new Date(u.created_at).getTime() >= after);
+      }
+
+      if (filters.createdBefore) {
+        const before = new Date(filters.createdBefore).getTime();
+        users = users.filter(u => new Date(u.created_at).getTime() <= before);
+      }
+
+      if (filters.search) {
+        const search = filters.search.toLowerCase();
+        users = users.filter(u =>
+          u.email.includes(search) ||
+          u.username.toLowerCase().includes(search) ||
+          (u.full_name && u.full_name.toLowerCase().includes(search))
+        );
+      }
+
+      const sortBy = (filters.sortBy || 'created_at') as keyof User;
+      const direction = filters.sortOrder === 'asc' ? 1 : -1;
+      users.sort((a, b) => String(a[sortBy] ?? '').localeCompare(String(b[sortBy] ?? '')) * direction);
+
+      const total = users.length;
+      const limit = filters.limit || 50;
+      const offset = filters.offset ?? ((filters.page || 1) - 1) * limit;
+
+      return {
+        users: users.slice(offset, offset + limit).map(UserService.toPublicUser),
+        total
+      };
+    } catch (error) {
+      log.error('Erro ao listar usuários', error);
+      return { users: [], total: 0 };
+    }
+  }
+
+  /**
+   * Atualizar usuário
+   */
+  async updateUser(id: string, update: UpdateUserRequest): Promise<PublicUser | null> {
+    try {
+      const user = await this.users.findById(id);
+
+      if (!user) {
+        return null;
+      }
+
+      const wasActive = user.is_active;
+      const previousRole = user.role;
+
+      if (update.username) user.username = update.username;
+      if (update.full_name !== undefined) user.full_name = update.full_name;
+      if (update.role) user.role = update.role;
+      if (update.department !== undefined) user.department = update.department;
+      if (update.is_active !== undefined) user.is_active = update.is_active;
+
+      user.updated_at = new Date().toISOString();
+      await this.users.save(user);
+
+      // Tokens emitidos antes da desativação ou da troca de papel não podem continuar valendo até expirar
+      if (wasActive && !user.is_active) {
+        JWTUtils.revokeUserTokens(id);
+        log.audit('user_tokens_revoked', id, { reason: 'deactivated' });
+      } else if (user.role !== previousRole) {
+        JWTUtils.revokeUserTokens(id);
+        log.audit('user_tokens_revoked', id, { reason: 'role_change', from: previousRole, to: user.role });
+      }
+
+      log.info('Usuário atualizado', { id });
+
+      return UserService.toPublicUser(user);
+    } catch (error) {
+      log.error('Erro ao atualizar usuário', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Alterar senha (exige a senha atual, exceto quando feita por administrador)
+   */
+  async changePassword(id: string, newPassword: string, currentPassword?: string): Promise<boolean> {
+    const user = await this.users.findById(id);
+
+    if (!user) {
+      return false;
+    }
+
+    if (currentPassword !== undefined && !(await verifyPassword(currentPassword, user.password_hash))) {
+      throw new Error('Senha atual incorreta');
+    }
+
+    user.password_hash = await hashPassword(newPassword);
+    user.updated_at = new Date().toISOString();
+    await this.users.save(user);
+
+    log.audit('password_change', id);
+
+    // Sessões abertas com a senha antiga (inclusive de quem a comprometeu) são encerradas
+    JWTUtils.revokeUserTokens(id);
+    log.audit('user_tokens_revoked', id, { reason: 'password_change' });
+
+    return true;
+  }
+
+  /**
+   * Deletar usuário
+   */
+  async deleteUser(id: string): Promise<boolean> {
+    try {
+      if (!(await this.users.delete(id))) {
+        return false;
+      }
+
+      JWTUtils.revokeUserTokens(id);
+
+      log.info('Usuário deletado', { id });
+
+      return true;
+    } catch (error) {
+      log.error('Erro ao deletar usuário', error);
+      return false;
+    }
+  }
+
+  /**
+   * Verificar credenciais; retorna o usuário ativo ou null
+   */
+  async authenticate(email: string, password: string): Promise<PublicUser | null> {
+    const user = await this.findUserByEmail(email.trim().toLowerCase());
+
+    if (!user || !user.is_active) {
+      return null;
+    }
+
+    if (!(await verifyPassword(password, user.password_hash))) {
+      return null;
+    }
+
+    user.last_login_at = new Date().toISOString();
+    await this.users.save(user);
+
+    return UserService.toPublicUser(user);
+  }
+
+  /**
+   * Obter estatísticas de usuários
+   */
+  async getUserStats(): Promise<UserStats> {
+    const users = await this.users.find();
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
+
+    const byRole: Record<string, number> = {};
+    const byDepartment: Record<string, number> = {};
+    let active = 0;
+    let newUsersThisMonth = 0;
+
+    for (const user of users) {
+      byRole[user.role] = (byRole[user.role] || 0) + 1;
+      const department = user.department || 'sem_departamento';
+      byDepartment[department] = (byDepartment[department] || 0) + 1;
+
+      if (user.is_active) active++;
+      if (new Date(user.created_at) >= monthStart) newUsersThisMonth++;
+    }
+
+    return {
+      total: users.length,
+      active,
+      inactive: users.length - active,
+      archived: 0,
+      byRole,
+      byDepartment,
+      activeUsers: active,
+      newUsersThisMonth
+    };
+  }
+
+  /**
+   * Criar administrador inicial a partir do ambiente quando não há usuários
+   */
+  async ensureBootstrapAdmin(): Promise<void> {
+    const email = process.env.AUTH_ADMIN_EMAIL;
+    const password = process.env.AUTH_ADMIN_PASSWORD;
+
+    if (!email || !password || (await this.users.count()) > 0) {
+      return;
+    }
+
+    await this.createUser({
+      email,
+      username: email.split('@')[0],
+      password,
+      role: UserRole.ADMIN
+    });
+
+    log.info('Administrador inicial criado a partir de AUTH_ADMIN_EMAIL', { email });
+  }
+
+  private async findUserByEmail(email: string): Promise<User | null> {
+    const [user] = await this.users.find({ where: { email }, limit: 1 });
+    return user || null;
+  }
+}
@@ -0,0 +1,86 @@
+// ============================================================================
+// TIPOS E INTERFACES PARA ORÇAMENTOS DE PROJETO
+// ============================================================================
+
+// Fluxo: rascunho -> enviado ao cliente -> aprovado (ou devolvido para rascunho)
+export type BudgetStatus = 'draft' | 'submitted' | 'approved';
+
+export interface BudgetLine {
+  id: string;
+  description: string;
+  code?: string; // Código do item do catálogo ou da composição
+  category?: string;
+  unit: string;
+  quantity: number;
+  unit_cost: number;
+  total_cost: number; // quantity × unit_cost
+  labor_hours?: number;
+  takeoff_id?: string; // Linha gerada a partir de um takeoff orçado
+  measurement_id?: string; // Medição (infraestrutura ou civil) de origem
+}
+
+export interface BudgetStatusChange {
+  from: BudgetStatus;
+  to: BudgetStatus;
+  changed_at: string; // ISO8601
+  changed_by: string;
+  comment?: string;
+}
+
+// Estado de uma revisão anterior, guardado ao abrir a revisão seguinte
+export interface BudgetRevision {
+  revision: number;
+  status: BudgetStatus;
+  lines: BudgetLine[];
+  total_amount: number;
+  closed_at: string; // ISO8601
+  closed_by: string;
+  note?: string;
+}
+
+export interface Budget {
+  id: string;
+  project_id: string;
+  name: string;
+  description?: string;
+  category?: string;
+  currency: string;
+  status: BudgetStatus;
+  revision: number; // Começa em 1
+  lines: BudgetLine[];
+  total_amount: number;
+  status_history: BudgetStatusChange[];
+  revisions: BudgetRevision[];
+  submitted_at?: string; // ISO8601
+  approved_at?: string; // ISO8601
+  approved_by?: string;
+  deleted_at?: string; // ISO8601 - na lixeira junto com o projeto
+  created_at: string; // ISO8601
+  updated_at: string; // ISO8601
+  created_by: string;
+}
+
+export type BudgetLineInput = Omit<BudgetLine, 'id' | 'total_cost'>;
+
+export interface CreateBudgetRequest {
+  project_id: string;
+  name: string;
+  description?: string;
+  category?: string;
+  currency?: string;
+  lines?: BudgetLineInput[];
+  takeoff_ids?: string[]; // Itens gravados pelo orçamento de cada takeoff viram linhas
+}
+
+/**
+ * Alteração de orçamento em rascunho.
+ * lines substitui todas as linhas; takeoff_ids substitui as linhas dos takeoffs indicados.
+ */
+export interface UpdateBudgetRequest {
+  name?: string;
+  description?: string;
+  category?: string;
+  currency?: string;
+  lines?: BudgetLineInput[];
+  takeoff_ids?: string[];
+}
@@ -31,6 +31,7 @@ export interface BaseCivilMeasurement {
   project_id: string;
   label: string;
   scale?: string; // Escala no formato "1:100" para conversão de pixels para metros
+  composition_code?: string; // Composição de referência (ex: SINAPI) usada no orçamento
   created_at: string; // ISO8601
   updated_at: string; // ISO8601
   created_by?: string;
@@ -283,6 +284,35 @@ export interface StructuralSection {
   area_m2?: number;
 }
 
+/**
+ * Flecha admissível (vão / limite): L/250 para aceitabilidade visual,
+ * L/350 para vigas que suportam alvenarias e elementos frágeis
+ */
+export type BeamDeflectionLimit = 250 | 350;
+
+// Cargas da viga (simplesmente apoiada, carga pontual no centro do vão)
+export interface BeamLoads {
+  point_load_n: number; // Carga pontual P (N)
+  elastic_modulus_pa?: number; // Módulo E (Pa) - padrão: Ecs do fck_mpa (NBR 6118)
+  moment_of_inertia_m4?: number; // Momento de inércia (m⁴) - obrigatório para seção custom
+  deflection_limit?: BeamDeflectionLimit; // padrão: 250
+}
+
+export interface BeamCheck {
+  passed: boolean; // Flecha máxima dentro da admissível
+  span_m: number; // Vão L (m)
+  point_load_n: number;
+  elastic_modulus_pa: number;
+  moment_of_inertia_m4: number;
+  max_moment_n_m: number; // M_max = P × L / 4
+  max_shear_n: number; // V_max = P / 2
+  max_deflection_m: number; // v_max = P × L³ / (48 × E × I)
+  support_rotation_rad: number; // θ = P × L² / (16 × E × I)
+  deflection_limit: BeamDeflectionLimit;
+  allowable_deflection_m: number; // L / limite
+  utilization: number; // v_max / v_admissível
+}
+
 export interface StructureMeasurement extends BaseCivilMeasurement {
   type: 'structure';
   geometry: {
@@ -302,11 +332,13 @@ export interface StructureMeasurement extends BaseCivilMeasurement {
     custom_material?: string;
     fck_mpa?: number; // Resistência do concreto (MPa)
     rebar_rate_kg_m3?: number; // Taxa de armadura (kg/m³) - padrão: 80-120
+    loads?: BeamLoads; // Apenas vigas: ativa a verificação estrutural
   };
   calculations: {
     volume_m3: number; // Volume (m³)
     area_m2?: number; // Área (para lajes)
     estimated_rebar_kg?: number; // Estimativa de armadura kg_aco = V × taxa_kg/m3
+    beam_check?: BeamCheck; // Verificação da viga quando há cargas
   };
 }
 
@@ -423,6 +455,8 @@ export interface CreateCivilMeasurementRequest {
   type: CivilMeasurementType;
   data: Partial<CivilMeasurementData>;
   label: string;
+  plant_id?: string;
+  plant_version_id?: string;
 }
 
 export interface UpdateCivilMeasurementRequest {
@@ -445,6 +479,66 @@ export interface CivilMeasurement {
   created_at: Date;
   updated_at: Date;
   created_by?: string;
+  deleted_at?: string; // ISO8601 - na lixeira junto com o projeto
+  plant_id?: string; // Planta em que a medição foi feita
+  plant_version_id?: string; // Revisão do desenho (padrão: versão atual da planta na criação)
+  carried_from?: string; // Medição de origem, quando copiada de outra revisão
+  outside_sheet?: boolean; // Após o re-baseline, algum ponto ficou fora da folha da nova revisão
+}
+
+// Totais por tipo de medição civil do projeto
+export interface CivilMeasurementSummary {
+  project_id: string;
+  totals: {
+    layout?: {
+      count: number;
+      total_length_m: number;
+    };
+    wall?: {
+      count: number;
+      total_length_m: number;
+      total_net_area_m2: number; // Alvenaria descontados os vãos
+      total_volume_m3: number;
+      total_blocks: number;
+      total_mortar_m3: number;
+    };
+    area?: {
+      count: number;
+      total_area_m2: number;
+    };
+    opening?: {
+      count: number; // Soma das quantidades de cada vão
+      total_opening_area_m2: number;
+    };
+    slab?: {
+      count: number;
+      total_area_m2: number;
+      total_volume_m3: number; // Concreto
+    };
+    foundation?: {
+      count: number; // Soma das quantidades (blocos/sapatas)
+      total_volume_m3: number; // Concreto
+    };
+    structure?: {
+      count: number;
+      total_volume_m3: number; // Concreto
+      total_rebar_kg: number;
+    };
+    finishing?: {
+      count: number;
+      total_net_area_m2: number;
+      total_area_with_losses_m2: number; // Área líquida × (1 + perda padrão)
+    };
+    roof?: {
+      count: number;
+      total_real_area_m2: number;
+      total_projected_area_m2: number;
+    };
+    note?: {
+      count: number;
+    };
+  };
+  generated_at: string; // ISO8601
 }
 
 // ============================================================================
@@ -0,0 +1,52 @@
+// ============================================================================
+// TIPOS E INTERFACES PARA DETECÇÃO DE INTERFERÊNCIAS ENTRE REDES
+// ============================================================================
+
+export type ClashMeasurementType = 'trench' | 'bore-shot' | 'conduit' | 'vault';
+
+// 'horizontal': redes paralelas/próximas; 'vertical': cruzamento sem afastamento vertical
+export type ClashKind = 'horizontal' | 'vertical';
+
+// Afastamentos mínimos entre dois tipos (bordas externas, em metros)
+export interface ClashRule {
+  types: [ClashMeasurementType, ClashMeasurementType];
+  horizontal_m: number;
+  vertical_m: number;
+  ignore?: boolean; // Ignorar o par sempre
+  ignore_linked?: boolean; // Ignorar só redes ligadas: conduto na própria vala/perfuração ou terminando na câmara
+}
+
+export interface ClashAnalysisOptions {
+  scale?: string; // Escala das medições sem escala própria (padrão: escala do projeto)
+  zoom?: number; // Zoom das medições sem zoom próprio
+  default_rule?: { horizontal_m: number; vertical_m: number };
+  rules?: ClashRule[]; // Sobrepõem as regras padrão do mesmo par de tipos
+}
+
+export interface ClashMeasurementRef {
+  id: string;
+  type: ClashMeasurementType;
+  label: string;
+}
+
+export interface Clash {
+  kind: ClashKind;
+  measurement_a: ClashMeasurementRef;
+  measurement_b: ClashMeasurementRef;
+  point: { x: number; y: number }; // Coordenadas do desenho (mesmo espaço das medições)
+  distance_m: number; // Distância livre entre as redes (0 quando se sobrepõem)
+  horizontal_clearance_m: number; // Negativo quando as projeções em planta se sobrepõem
+  vertical_clearance_m: number | null; // null quando a profundidade de uma das redes é desconhecida
+  required_horizontal_m: number;
+  required_vertical_m: number;
+}
+
+export interface ClashReport {
+  project_id: string;
+  scale: string | null; // Escala usada nas medições sem escala própria
+  rules: ClashRule[];
+  default_rule: { horizontal_m: number; vertical_m: number };
+  checked_measurements: number;
+  clashes: Clash[];
+  generated_at: string; // ISO8601
+}
@@ -0,0 +1,228 @@
+// ============================================================================
+// TIPOS E INTERFACES PARA CATÁLOGO DE PREÇOS E ORÇAMENTO
+// ============================================================================
+
+import { QuantityReportDiscipline } from './report';
+
+// ============================================================================
+// CATÁLOGO DE PREÇOS
+// ============================================================================
+
+// Origem da quantidade: medições (infraestrutura/civis) ou takeoffs
+export type CostSource = QuantityReportDiscipline | 'takeoff';
+
+/**
+ * Vínculo entre uma quantidade medida e um item do catálogo.
+ * quantity é a descrição da linha no relatório de quantitativos (ex: "Escavação")
+ * ou, para takeoffs, "Comprimento", "Área" ou "Volume".
+ */
+export interface CostMapping {
+  source: CostSource;
+  type: string; // Tipo da medição ou do takeoff (ex: "trench", "wall")
+  quantity: string;
+  factor?: number; // Quantidade do item por unidade medida (padrão: 1)
+}
+
+export interface PriceCatalogItem {
+  id: string;
+  code: string; // Código único (ex: "ESC-001" ou o código da composição SINAPI)
+  description: string;
+  unit: string; // Deve coincidir com a unidade da quantidade vinculada
+  category?: string;
+  labor_hours_per_unit: number;
+  equipment_hours_per_unit: number;
+  mappings: CostMapping[];
+  composition?: ItemComposition; // Itens importados de composições de referência
+  created_at: string; // ISO8601
+  updated_at: string; // ISO8601
+  created_by: string;
+}
+
+export interface CreatePriceCatalogItemRequest {
+  code: string;
+  description: string;
+  unit: string;
+  category?: string;
+  labor_hours_per_unit?: number;
+  equipment_hours_per_unit?: number;
+  mappings?: CostMapping[];
+}
+
+export type UpdatePriceCatalogItemRequest = Partial<CreatePriceCatalogItemRequest>;
+
+// Preço de um item na tabela: material por unidade, mão de obra e equipamento por hora
+export interface PriceListEntry {
+  item_id: string;
+  material_cost: number;
+  labor_rate: number;
+  equipment_rate: number;
+}
+
+/**
+ * Tabela de preços regional com data-base.
+ * Para uma região e data, vale a tabela com a maior data-base até a data.
+ */
+export interface PriceList {
+  id: string;
+  name: string;
+  region: string; // Ex: "SP", "sudeste"
+  effective_date: string; // YYYY-MM-DD
+  currency: string;
+  prices: PriceListEntry[];
+  created_at: string; // ISO8601
+  updated_at: string; // ISO8601
+  created_by: string;
+}
+
+export interface CreatePriceListRequest {
+  name: string;
+  region: string;
+  effective_date: string;
+  currency?: string;
+  prices?: PriceListEntry[];
+}
+
+export type UpdatePriceListRequest = Partial<CreatePriceListRequest>;
+
+export interface PriceCatalogFilters {
+  search?: string;
+  category?: string;
+  region?: string;
+}
+
+// ============================================================================
+// COMPOSIÇÕES DE REFERÊNCIA (SINAPI/TCPO)
+// ============================================================================
+
+export type CompositionSource = 'SINAPI' | 'TCPO';
+
+export type CompositionInputType = 'material' | 'mao_de_obra' | 'equipamento';
+
+// Insumo com preço por estado (UF)
+export interface CompositionInput {
+  code: string;
+  description: string;
+  unit: string;
+  type: CompositionInputType;
+  prices: Record<string, number>;
+}
+
+// Item da composição: insumo ou composição auxiliar, com coeficiente por unidade
+export interface CompositionItem {
+  kind: 'insumo' | 'composicao';
+  code: string;
+  coefficient: number;
+}
+
+export interface ReferenceComposition {
+  code: string;
+  description: string;
+  unit: string;
+  items: CompositionItem[];
+}
+
+export interface ItemComposition {
+  source: CompositionSource;
+  reference_date: string; // YYYY-MM
+  items: CompositionItem[];
+}
+
+export interface CompositionImportOptions {
+  source: CompositionSource;
+  reference_date: string; // YYYY-MM
+  states?: string[]; // Padrão: todas as UFs com preço no arquivo de insumos
+}
+
+export interface CompositionImportResult {
+  source: CompositionSource;
+  reference_date: string;
+  inputs: number;
+  compositions: number;
+  catalog_items: { created: number; updated: number };
+  price_lists: Array<{ id: string; name: string; region: string; prices: number }>;
+  warnings: string[];
+}
+
+// ============================================================================
+// ORÇAMENTO
+// ============================================================================
+
+// Tabela explícita ou região + data (padrão: hoje)
+export interface CostEstimateOptions {
+  price_list_id?: string;
+  region?: string;
+  date?: string; // YYYY-MM-DD
+}
+
+export interface CostTotals {
+  material_cost: number;
+  labor_cost: number;
+  equipment_cost: number;
+  total_cost: number;
+  labor_hours: number;
+  equipment_hours: number;
+}
+
+export interface CostLine extends CostTotals {
+  item_id: string;
+  code: string;
+  description: string;
+  category?: string;
+  unit: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+// Quantidade medida sem item do catálogo vinculado
+export interface UnmappedQuantity {
+  source: CostSource;
+  type: string;
+  description: string;
+  unit: string;
+  quantity: number;
+}
+
+export interface CostEstimatePriceList {
+  id: string;
+  name: string;
+  region: string;
+  effective_date: string;
+  currency: string;
+}
+
+export interface TakeoffCostEstimate {
+  takeoff_id: string;
+  project_id: string;
+  price_list: CostEstimatePriceList;
+  lines: CostLine[];
+  totals: CostTotals;
+  unmapped: UnmappedQuantity[];
+  unpriced: string[]; // Códigos vinculados sem preço na tabela ou composições fora do catálogo
+  generated_at: string; // ISO8601
+}
+
+export interface MeasurementCostEstimate {
+  measurement_id: string;
+  project_id: string;
+  type: string;
+  label: string;
+  composition_code: string | null;
+  price_list: CostEstimatePriceList;
+  lines: CostLine[];
+  totals: CostTotals;
+  unmapped: UnmappedQuantity[];
+  unpriced: string[];
+  generated_at: string; // ISO8601
+}
+
+export interface ProjectCostEstimate {
+  project_id: string;
+  price_list: CostEstimatePriceList;
+  lines: CostLine[]; // Itens somados no projeto
+  by_source: Partial<Record<CostSource, CostTotals>>;
+  takeoffs: Array<{ takeoff_id: string; name: string; type: string; totals: CostTotals }>;
+  totals: CostTotals;
+  unmapped: UnmappedQuantity[];
+  unpriced: string[];
+  generated_at: string; // ISO8601
+}
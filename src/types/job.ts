@@ -0,0 +1,44 @@
+// ============================================================================
+// TIPOS E INTERFACES PARA JOBS EM SEGUNDO PLANO
+// ============================================================================
+
+// Tipos de trabalho pesado processados pela fila
+export type JobType = 'plant-pages' | 'quick-takeoff-pages';
+
+// Fluxo: na fila -> executando -> concluído (ou de volta à fila para nova tentativa, ou falhou)
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job<P = any, R = any> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: P;
+  progress: number; // Percentual (0-100)
+  attempts: number; // Tentativas iniciadas
+  max_attempts: number;
+  result?: R;
+  error?: string; // Erro da última tentativa
+  created_by?: string;
+  run_after: string; // ISO8601; nova tentativa só depois desse instante
+  started_at?: string;
+  finished_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnqueueJobOptions {
+  max_attempts?: number;
+  created_by?: string;
+}
+
+// Dados do job "plant-pages"
+export interface PlantPagesJobPayload {
+  plant_id: string;
+}
+
+// Dados do job "quick-takeoff-pages"
+export interface QuickTakeoffPagesJobPayload {
+  takeoff_id: string;
+  file_name: string;
+  dpi?: number; // Padrão: PAGE_IMAGE_DEFAULT_DPI
+}
@@ -32,6 +32,8 @@ export interface BaseMeasurement {
   type: MeasurementType;
   project_id: string;
   label: string;
+  scale?: string; // Escala do desenho usada nos cálculos ("1:100"); sem escala, coordenadas em metros
+  zoom?: number; // Zoom do desenho na medição
   created_at: string; // ISO8601
   updated_at: string; // ISO8601
 }
@@ -179,6 +181,55 @@ export interface BoreShotMeasurement extends BaseMeasurement {
   validation: BoreShotValidation;
 }
 
+// Projeto de perfuração (gerador de perfil a partir de entrada/saída)
+export interface BoreObstacle {
+  label?: string;
+  station_m: number; // Distância horizontal a partir da entrada (m)
+  length_m?: number; // Extensão do obstáculo ao longo do eixo (m)
+  depth_m: number; // Profundidade da base do obstáculo (m)
+}
+
+export interface BorePlanOptions {
+  entry: Coordinate; // Ponto de entrada (x, y em metros; z = profundidade, padrão 0)
+  exit: Coordinate; // Ponto de saída
+  entry_angle_degrees: number; // Ângulo de entrada com a horizontal
+  exit_angle_degrees: number; // Ângulo de saída com a horizontal
+  min_depth_m?: number; // Profundidade mínima do trecho horizontal (padrão: 2.44 m)
+  cover_m?: number; // Cobertura exigida abaixo dos obstáculos (m)
+  obstacles?: BoreObstacle[];
+  conduits?: ConduitSpec[]; // O maior raio mínimo entre os condutos governa
+  min_curvature_radius_m?: number; // Sobrepõe o raio dos condutos
+  step_m?: number; // Espaçamento dos pontos nas curvas (padrão: 3 m)
+}
+
+export type BorePlanSegmentType = 'tangent' | 'arc' | 'horizontal';
+
+export interface BorePlanSegment {
+  type: BorePlanSegmentType;
+  start_station_m: number;
+  end_station_m: number;
+  length_m: number; // Comprimento perfurado do trecho
+}
+
+export interface BoreObstacleCheck extends BoreObstacle {
+  required_depth_m: number; // Base do obstáculo + cobertura
+  bore_depth_m: number; // Menor profundidade do furo sob o obstáculo
+  passed: boolean;
+}
+
+export interface BorePlan {
+  coordinates: Coordinate[]; // Perfil 3D (z = profundidade), pronto para BoreShotMeasurement
+  length_m: number; // Comprimento perfurado
+  horizontal_distance_m: number; // Distância em planta entre entrada e saída
+  depth_m: number; // Profundidade do trecho horizontal
+  min_curvature_radius_m: number;
+  entry_angle_degrees: number;
+  exit_angle_degrees: number;
+  segments: BorePlanSegment[];
+  obstacle_checks: BoreObstacleCheck[];
+  radius_check: RadiusCheck;
+}
+
 // ============================================================================
 // 4. HIDROESCAVAÇÃO
 // ============================================================================
@@ -230,6 +281,50 @@ export interface CompatibilityCheck {
   direct_bury: boolean;
 }
 
+// Cabos passados no conduto (ocupação e tração de puxamento)
+export interface ConduitCable {
+  label?: string;
+  outer_diameter_mm: number;
+  count?: number; // padrão: 1
+  weight_kg_m?: number; // Peso linear do cabo (kg/m) para a tração
+  max_tension_n?: number; // Tração máxima admissível do cabo (N)
+}
+
+export interface CablePullingParameters {
+  friction_coefficient?: number; // Coeficiente de atrito cabo/duto (padrão: 0.5)
+  max_bend_degrees?: number; // Soma máxima de curvas entre pontos de puxamento (padrão: 360°)
+  max_tension_n?: number; // Sobrepõe a soma das trações admissíveis dos cabos
+}
+
+export interface ConduitBend {
+  position_m: number;
+  angle_degrees: number;
+  source: 'path' | 'elbow'; // Vértice do traçado ou cotovelo declarado em connections
+}
+
+export interface ConduitCableCheck {
+  conduit_index: number;
+  cable_count: number;
+  inner_diameter_mm: number;
+  fill_percent: number;
+  max_fill_percent: number; // 53% (1 cabo), 31% (2 cabos), 40% (3 ou mais)
+  fill_passed: boolean;
+  estimated_tension_n: number; // Tração estimada no fim do puxamento
+  max_tension_n?: number;
+  tension_passed: boolean;
+}
+
+// Verificações de cabos no formato de CompatibilityCheck, com o detalhamento por conduto
+export interface CableCheck {
+  fill: boolean;
+  bends: boolean;
+  tension: boolean;
+  total_bend_degrees: number;
+  max_bend_degrees: number;
+  bends_detail: ConduitBend[];
+  conduits: ConduitCableCheck[];
+}
+
 export interface ConduitMeasurement extends BaseMeasurement {
   type: 'conduit';
   coordinates: Coordinate[]; // Polilinha 3D (x, y, z)
@@ -242,6 +337,7 @@ export interface ConduitMeasurement extends BaseMeasurement {
     outer_diameter_mm: number;
     wall_thickness_mm: number;
     length_m: number;
+    cables?: ConduitCable[];
   }>;
   connections?: ConduitConnection[];
   total_length_m: number;
@@ -249,6 +345,8 @@ export interface ConduitMeasurement extends BaseMeasurement {
   estimated_weight_kg?: number; // Peso estimado em quilogramas
   installation_method?: InstallationMethod;
   compatibility_check?: CompatibilityCheck;
+  cable_pulling?: CablePullingParameters;
+  cable_check?: CableCheck; // Calculado quando algum conduto tem cabos
 }
 
 // ============================================================================
@@ -347,6 +445,11 @@ export interface Measurement {
   created_at: Date;
   updated_at: Date;
   created_by?: string;
+  deleted_at?: string; // ISO8601 - na lixeira junto com o projeto
+  plant_id?: string; // Planta em que a medição foi feita
+  plant_version_id?: string; // Revisão do desenho (padrão: versão atual da planta na criação)
+  carried_from?: string; // Medição de origem, quando copiada de outra revisão
+  outside_sheet?: boolean; // Após o re-baseline, algum ponto ficou fora da folha da nova revisão
 }
 
 // ============================================================================
@@ -358,6 +461,8 @@ export interface CreateMeasurementRequest {
   type: MeasurementType;
   data: Partial<MeasurementData>;
   label: string;
+  plant_id?: string;
+  plant_version_id?: string;
 }
 
 export interface UpdateMeasurementRequest {
@@ -411,6 +516,8 @@ export interface MeasurementSummary {
 export interface MeasurementFilters {
   project_id?: string;
   type?: MeasurementType;
+  plant_id?: string;
+  plant_version_id?: string;
   date_from?: string; // ISO8601
   date_to?: string; // ISO8601
   limit?: number;
@@ -429,3 +536,64 @@ export interface BatchUpdateRequest {
 export interface BatchDeleteRequest {
   measurement_ids: string[];
 }
+
+// ============================================================================
+// EXPORTAÇÃO
+// ============================================================================
+
+export type MeasurementExportFormat = 'json' | 'csv' | 'xlsx';
+
+export interface MeasurementExportFile {
+  filename: string;
+  content_type: string;
+  content: string | Buffer;
+}
+
+// ============================================================================
+// TERRAPLENAGEM (BALANÇO CORTE/ATERRO)
+// ============================================================================
+
+// Medições que movimentam terra no balanço do projeto
+export type EarthworkMeasurementType = 'trench' | 'vault' | 'hydro-excavation';
+
+export interface EarthworkBalanceItem {
+  measurement_id: string;
+  type: EarthworkMeasurementType;
+  label: string;
+  soil_type: SoilType;
+  expansion_rate: number;
+  contraction_rate: number;
+  cut_m3: number; // Volume de corte (no corte, antes do empolamento)
+  native_fill_m3: number; // Reaterro compactado com solo da própria escavação
+  imported_fill_m3: number; // Reaterro compactado com material de jazida/comprado
+  surplus_loose_m3: number; // Sobra (+) ou falta (-) de solo nativo, em volume solto
+}
+
+export interface EarthworkBalance {
+  project_id: string;
+  truck_capacity_m3: number;
+  totals: {
+    count: number;
+    cut_m3: number;
+    native_fill_m3: number;
+    imported_fill_m3: number;
+    cut_for_native_fill_m3: number; // Corte necessário para o reaterro nativo (contração)
+  };
+  by_type: Partial<Record<EarthworkMeasurementType, {
+    count: number;
+    cut_m3: number;
+    native_fill_m3: number;
+    imported_fill_m3: number;
+    surplus_loose_m3: number;
+  }>>;
+  export_loose_m3: number; // Bota-fora (volume solto)
+  import_loose_m3: number; // Solo faltante + material importado (volume solto)
+  net_loose_m3: number; // export - import (positivo: projeto exporta)
+  truck_loads: {
+    export: number;
+    import: number;
+    total: number;
+  };
+  items: EarthworkBalanceItem[];
+  generated_at: string; // ISO8601
+}
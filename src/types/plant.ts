@@ -78,6 +78,9 @@ export interface PlantListOptions {
   offset: number;
 }
 
+// Fluxo de status das versões: draft -> review -> approved -> archived
+export type VersionStatus = 'draft' | 'review' | 'approved' | 'archived' | 'deprecated';
+
 // Interface para versionamento
 export interface PlantVersion {
   id: string;
@@ -89,13 +92,12 @@ export interface PlantVersion {
   thumbnail_path?: string;
   file_size: number;
   file_type: string;
-  checksum?: string;
-  status: 'draft' | 'review' | 'approved' | 'archived' | 'deprecated';
+  checksum?: string; // SHA-256 do arquivo
+  status: VersionStatus;
   created_by: string;
   approved_by?: string;
   approved_at?: string;
-  parent_id?: string;
-  children: PlantVersion[];
+  parent_id?: string; // Filhos: versões com parent_id igual (árvore montada em VersionNode)
   depth: number;
   is_current: boolean;
   created_at: string;
@@ -117,11 +119,11 @@ export interface PlantVersion {
   change_log: VersionChange[];
 }
 
-// Interface para criação de versões
+// Interface para criação de versões (número padrão: próximo inteiro livre; pai padrão: versão atual)
 export interface CreateVersionRequest {
   plant_id: string;
-  version_number: string;
-  version_name: string;
+  version_number?: string;
+  version_name?: string;
   description?: string;
   file_path: string;
   thumbnail_path?: string;
@@ -151,7 +153,7 @@ export interface VersionNode {
   id: string;
   version_number: string;
   version_name: string;
-  status: 'draft' | 'review' | 'approved' | 'archived' | 'deprecated';
+  status: VersionStatus;
   created_at: string;
   parent_id?: string | null;
   children: VersionNode[];
@@ -159,15 +161,27 @@ export interface VersionNode {
   is_current: boolean;
 }
 
+// Imagem de uma página renderizada em um DPI
+export interface PlantPageRender {
+  dpi: number;
+  file_path: string;
+  file_url: string;
+  width: number; // Pixels
+  height: number;
+}
+
 // Interface para páginas das plantas
 export interface PlantPage {
   id: string;
   plant_id: string;
   page_number: number;
-  file_path: string;
+  file_path: string; // PDF só com a página (o próprio arquivo da planta quando tem uma página)
   thumbnail_path?: string;
-  width: number;
+  thumbnail_url?: string;
+  width: number; // Pontos (1/72 de polegada)
   height: number;
+  renders?: PlantPageRender[];
+  version_id?: string; // Versão da planta de onde a página foi gerada
   metadata?: any;
   created_at: string;
   updated_at: string;
@@ -229,6 +243,76 @@ export interface VersionComparison {
     new_value: any;
     type: 'added' | 'removed' | 'modified';
   }[];
+  visual?: VisualComparison;
+}
+
+// Opções da comparação visual (mesma página rasterizada nas duas versões)
+export interface VisualComparisonOptions {
+  page: number;
+  dpi: number;
+  threshold: number; // Diferença mínima de tom (0-255) para contar o pixel como alterado
+}
+
+// Resultado da comparação visual; a sobreposição é servida em overlay_url
+export interface VisualComparison extends VisualComparisonOptions {
+  rendered_dpi: number; // Menor que dpi quando a página é grande demais para comparar no DPI pedido
+  width: number;
+  height: number;
+  changed_pixels: number;
+  added_pixels: number;
+  removed_pixels: number;
+  changed_percentage: number;
+  bounding_box: { x: number; y: number; width: number; height: number } | null;
+  overlay_url: string;
+}
+
+// ============================================================================
+// RE-BASELINE DE MEDIÇÕES ENTRE REVISÕES
+// ============================================================================
+
+// copy: cria cópias na nova revisão (originais ficam na anterior); link: move as medições
+export type RebaselineMode = 'copy' | 'link';
+
+// Mesmo ponto do desenho na revisão de origem (from) e na nova revisão (to)
+export interface ReferencePoint {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+}
+
+// x' = a·x + b·y + c; y' = d·x + e·y + f
+export interface AffineTransform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export interface RebaselineRequest {
+  from_version_id?: string; // Padrão: versão pai da revisão de destino
+  mode: RebaselineMode;
+  reference_points?: ReferencePoint[]; // 2 pontos: translação, rotação e escala uniforme; 3 pontos: afim completa
+  sheet?: { width: number; height: number }; // Padrão: metadata.dimensions da revisão de destino
+}
+
+export interface RebaselineResult {
+  plant_id: string;
+  from_version_id: string;
+  to_version_id: string;
+  mode: RebaselineMode;
+  transform: AffineTransform | null;
+  sheet: { width: number; height: number } | null;
+  carried: number;
+  measurement_ids: string[]; // Medições na nova revisão (cópias ou as próprias, em link)
+  civil_measurement_ids: string[]; // O mesmo para as medições civis
+  outside_sheet: Array<{
+    measurement_id: string;
+    collection: 'measurements' | 'civil_measurements';
+    label: string;
+    type: string;
+    points_outside: number;
+  }>;
 }
 
 // Interface para histórico de versões
@@ -244,7 +328,7 @@ export interface VersionAnalytics {
   total_versions: number;
   versions_by_status: Record<string, number>;
   versions_by_user: Record<string, number>;
-  average_approval_time: number;
+  average_approval_time: number; // Horas entre criação e aprovação
   most_active_plants: Array<{
     plant_id: string;
     plant_name: string;
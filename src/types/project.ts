@@ -0,0 +1,64 @@
+// ============================================================================
+// TIPOS E INTERFACES PARA PROJETOS
+// Modelo único gravado em data/projects (ou tabela projects no SQLite)
+// ============================================================================
+
+// Papel do usuário dentro de um projeto
+export type ProjectMemberRole = 'owner' | 'editor' | 'viewer';
+
+export interface ProjectMember {
+  user_id: string;
+  role: ProjectMemberRole;
+  added_at: string; // ISO8601
+}
+
+// Listas de IDs de medições mantidas no projeto
+export type ProjectMeasurementList = 'measurements' | 'civil_measurements';
+
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  pdfUrl: string;
+  pdfId: string;
+  scale: string;
+  measurements: string[]; // IDs das medições de infraestrutura
+  civil_measurements: string[]; // IDs das medições civis prediais
+  members: ProjectMember[]; // Vazio em projetos antigos (acesso apenas admin/manager)
+  created_by?: string;
+  created_at: string; // ISO8601
+  updated_at: string; // ISO8601
+  deleted_at?: string; // ISO8601 - presente enquanto o projeto está na lixeira
+  deleted_by?: string;
+}
+
+export interface CreateProjectRequest {
+  name: string;
+  description?: string;
+  pdfUrl: string;
+  pdfId: string;
+  scale: string;
+}
+
+export interface UpdateProjectRequest {
+  name?: string;
+  description?: string;
+  scale?: string;
+}
+
+// Projeto na lixeira, com a data a partir da qual será removido definitivamente
+export interface TrashedProject extends Project {
+  deleted_at: string;
+  purge_after: string; // ISO8601
+}
+
+// Registros afetados ao mover, restaurar ou remover um projeto em cascata
+export interface ProjectCascadeSummary {
+  project_id: string;
+  measurements: number;
+  civil_measurements: number;
+  takeoffs: number;
+  budgets: number;
+  plants: number; // Plantas removidas (inclusive a do PDF)
+  pdf_deleted: boolean;
+}
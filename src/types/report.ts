@@ -0,0 +1,48 @@
+// ============================================================================
+// TIPOS E INTERFACES PARA O RELATÓRIO DE QUANTITATIVOS (PLANILHA DE QUANTIDADES)
+// ============================================================================
+
+import { MeasurementSummary } from './measurement';
+import { CivilMeasurementSummary } from './civil-measurement';
+
+export type QuantityReportFormat = 'json' | 'html' | 'pdf';
+
+// Origem das medições agrupadas na seção
+export type QuantityReportDiscipline = 'infrastructure' | 'civil';
+
+export interface QuantityReportItem {
+  description: string; // Ex.: "Volume de corte"
+  unit: string; // m, m², m³, kg, un...
+  quantity: number;
+}
+
+// Medições do mesmo tipo, camada e label somadas em uma linha
+export interface QuantityReportGroup {
+  layer: string | null;
+  label: string;
+  count: number;
+  items: QuantityReportItem[];
+}
+
+export interface QuantityReportSection {
+  discipline: QuantityReportDiscipline;
+  type: string; // MeasurementType ou CivilMeasurementType
+  title: string;
+  groups: QuantityReportGroup[];
+  totals: QuantityReportItem[];
+}
+
+export interface QuantityReport {
+  project: {
+    id: string;
+    name: string;
+    description?: string;
+    scale: string;
+  };
+  scales: string[]; // Escalas usadas nas medições (além da escala do projeto)
+  revision_date: string; // ISO8601 - alteração mais recente do projeto ou de suas medições
+  generated_at: string; // ISO8601
+  summary: MeasurementSummary;
+  civil_summary: CivilMeasurementSummary;
+  sections: QuantityReportSection[];
+}
@@ -0,0 +1,89 @@
+// ============================================================================
+// TIPOS E INTERFACES PARA USUÁRIOS E EQUIPES
+// ============================================================================
+
+import { UserRole } from '../middleware/auth';
+
+// ============================================================================
+// USUÁRIOS
+// ============================================================================
+
+export interface User {
+  id: string;
+  email: string;
+  username: string;
+  full_name?: string;
+  role: UserRole;
+  department?: string;
+  is_active: boolean;
+  password_hash: string;
+  last_login_at?: string; // ISO8601
+  created_at: string; // ISO8601
+  updated_at: string; // ISO8601
+  created_by: string;
+}
+
+// Usuário sem dados sensíveis (retornado pela API)
+export type PublicUser = Omit<User, 'password_hash'>;
+
+export interface CreateUserRequest {
+  email: string;
+  username: string;
+  password: string;
+  full_name?: string;
+  role?: UserRole;
+  department?: string;
+}
+
+export interface UpdateUserRequest {
+  username?: string;
+  full_name?: string;
+  role?: UserRole;
+  department?: string;
+  is_active?: boolean;
+}
+
+// ============================================================================
+// EQUIPES
+// ============================================================================
+
+export type TeamMemberRole = 'leader' | 'member';
+
+export interface TeamMember {
+  user_id: string;
+  role: TeamMemberRole;
+  joined_at: string; // ISO8601
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description?: string;
+  department?: string;
+  role?: string; // Especialidade da equipe (ex: "escavação", "orçamento")
+  is_active: boolean;
+  members: TeamMember[];
+  total_hours?: number;
+  efficiency?: number; // 0-1
+  created_at: string; // ISO8601
+  updated_at: string; // ISO8601
+  created_by: string;
+}
+
+export interface CreateTeamRequest {
+  name: string;
+  description?: string;
+  department?: string;
+  role?: string;
+  members?: Array<{ user_id: string; role?: TeamMemberRole }>;
+}
+
+export interface UpdateTeamRequest {
+  name?: string;
+  description?: string;
+  department?: string;
+  role?: string;
+  is_active?: boolean;
+  total_hours?: number;
+  efficiency?: number;
+}
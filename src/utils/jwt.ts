@@ -0,0 +1,237 @@
+// ============================================================================
+// UTILITÁRIOS JWT - EMISSÃO E VERIFICAÇÃO DE TOKENS (HS256)
+// ============================================================================
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getSecurityConfig } from '../config/security';
+import { tokenRevocationService } from '../services/token-revocation-service';
+
+export type TokenType = 'access' | 'refresh';
+
+// Dados do usuário gravados no token
+export interface TokenSubject {
+  userId: string;
+  email: string;
+  username: string;
+  role: string;
+}
+
+export interface TokenPayload extends TokenSubject {
+  type: TokenType;
+  jti: string;
+  iat: number;
+  exp: number;
+  iss: string;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number; // segundos
+  refreshExpiresIn: number; // segundos
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60
+};
+
+/**
+ * Codificar buffer/string em base64url (sem padding)
+ */
+function base64UrlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function base64UrlDecode(input: string): string {
+  return Buffer.from(input, 'base64url').toString('utf-8');
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+export class JWTUtils {
+  /**
+   * Converter duração ("15m", "24h", "7d" ou segundos) em segundos
+   */
+  static parseDuration(value: string): number {
+    const trimmed = value.trim();
+
+    if (/^\d+$/.test(trimmed)) {
+      return parseInt(trimmed, 10);
+    }
+
+    const match = trimmed.match(/^(\d+)\s*([smhd])$/i);
+    if (!match) {
+      throw new Error(`Duração de token inválida: ${value}`);
+    }
+
+    return parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+  }
+
+  /**
+   * Gerar token de acesso
+   */
+  static generateAccessToken(subject: TokenSubject): string {
+    const config = getSecurityConfig();
+    return this.signToken(subject, 'access', this.parseDuration(config.jwtExpiration));
+  }
+
+  /**
+   * Gerar token de refresh
+   */
+  static generateRefreshToken(subject: TokenSubject): string {
+    const config = getSecurityConfig();
+    return this.signToken(subject, 'refresh', this.parseDuration(config.jwtRefreshExpiration));
+  }
+
+  /**
+   * Gerar par de tokens (acesso + refresh)
+   */
+  static generateTokenPair(subject: TokenSubject): TokenPair {
+    const config = getSecurityConfig();
+
+    return {
+      accessToken: this.generateAccessToken(subject),
+      refreshToken: this.generateRefreshToken(subject),
+      tokenType: 'Bearer',
+      expiresIn: this.parseDuration(config.jwtExpiration),
+      refreshExpiresIn: this.parseDuration(config.jwtRefreshExpiration)
+    };
+  }
+
+  /**
+   * Verificar token de acesso
+   */
+  static verifyAccessToken(token: string): TokenPayload {
+    return this.verifyToken(token, 'access');
+  }
+
+  /**
+   * Verificar token de refresh
+   */
+  static verifyRefreshToken(token: string): TokenPayload {
+    return this.verifyToken(token, 'refresh');
+  }
+
+  /**
+   * Decodificar payload sem verificar assinatura (apenas para inspeção)
+   */
+  static decode(token: string): TokenPayload | null {
+    try {
+      const parts = token.split('.');
+      if (parts.length !== 3) {
+        return null;
+      }
+      return JSON.parse(base64UrlDecode(parts[1]));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Revogar token (adiciona o jti à lista de revogação até sua expiração)
+   */
+  static revokeToken(token: string): boolean {
+    const payload = this.decode(token);
+
+    if (!payload?.jti || !payload.exp) {
+      return false;
+    }
+
+    tokenRevocationService.revoke(payload.jti, payload.exp);
+    return true;
+  }
+
+  /**
+   * Revogar todos os tokens já emitidos para o usuário (acesso e refresh)
+   */
+  static revokeUserTokens(userId: string): void {
+    const config = getSecurityConfig();
+    const longestTtl = Math.max(this.parseDuration(config.jwtExpiration), this.parseDuration(config.jwtRefreshExpiration));
+
+    tokenRevocationService.revokeUser(userId, Math.floor(Date.now() / 1000) + longestTtl);
+  }
+
+  private static signToken(subject: TokenSubject, type: TokenType, ttlSeconds: number): string {
+    const config = getSecurityConfig();
+    // Tokens emitidos no mesmo segundo de uma revogação por usuário (ex.: login logo após
+    // trocar a senha) seriam rejeitados: a emissão passa para o segundo seguinte
+    const now = Math.max(Math.floor(Date.now() / 1000), tokenRevocationService.userRevokedUntil(subject.userId) + 1);
+
+    const header = { alg: 'HS256', typ: 'JWT' };
+    const payload: TokenPayload = {
+      userId: subject.userId,
+      email: subject.email,
+      username: subject.username,
+      role: subject.role,
+      type,
+      jti: uuidv4(),
+      iat: now,
+      exp: now + ttlSeconds,
+      iss: config.jwtIssuer
+    };
+
+    const unsigned = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+    return `${unsigned}.${sign(unsigned, config.jwtSecret)}`;
+  }
+
+  private static verifyToken(token: string, expectedType: TokenType): TokenPayload {
+    const config = getSecurityConfig();
+    const parts = token.split('.');
+
+    if (parts.length !== 3) {
+      throw new Error('Token inválido: formato incorreto');
+    }
+
+    const [encodedHeader, encodedPayload, signature] = parts;
+    const expected = sign(`${encodedHeader}.${encodedPayload}`, config.jwtSecret);
+
+    const expectedBuffer = Buffer.from(expected);
+    const signatureBuffer = Buffer.from(signature);
+    if (
+      expectedBuffer.length !== signatureBuffer.length ||
+      !crypto.timingSafeEqual(expectedBuffer, signatureBuffer)
+    ) {
+      throw new Error('Token inválido: assinatura não confere');
+    }
+
+    let header: { alg?: string };
+    let payload: TokenPayload;
+    try {
+      header = JSON.parse(base64UrlDecode(encodedHeader));
+      payload = JSON.parse(base64UrlDecode(encodedPayload));
+    } catch {
+      throw new Error('Token inválido: conteúdo corrompido');
+    }
+
+    if (header.alg !== 'HS256') {
+      throw new Error('Token inválido: algoritmo não suportado');
+    }
+
+    if (payload.iss !== config.jwtIssuer) {
+      throw new Error('Token inválido: emissor incorreto');
+    }
+
+    if (payload.type !== expectedType) {
+      throw new Error(`Token inválido: esperado token de ${expectedType}`);
+    }
+
+    if (!payload.exp || payload.exp <= Math.floor(Date.now() / 1000)) {
+      throw new Error('Token expirado');
+    }
+
+    if (tokenRevocationService.isRevoked(payload.jti) || tokenRevocationService.isUserRevoked(payload.userId, payload.iat)) {
+      throw new Error('Token revogado');
+    }
+
+    return payload;
+  }
+}
+
+export default JWTUtils;
@@ -0,0 +1,43 @@
+// ============================================================================
+// MUTEX POR CHAVE - SERIALIZA OPERAÇÕES LER-MODIFICAR-GRAVAR
+// ============================================================================
+
+/**
+ * Mutex assíncrono por chave: operações com a mesma chave rodam em fila,
+ * chaves diferentes rodam em paralelo.
+ */
+export class KeyedMutex {
+  private tails = new Map<string, Promise<void>>();
+
+  /**
+   * Executar a função com exclusividade sobre a chave
+   */
+  async runExclusive<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+
+    let release!: () => void;
+    const current = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    await previous;
+
+    try {
+      return await fn();
+    } finally {
+      release();
+      // Ninguém entrou na fila depois de nós: liberar a chave
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
+
+// Lock compartilhado pelos serviços que alteram o registro de um projeto
+export const projectLock = new KeyedMutex();
+
+// Lock das operações que alteram o conjunto de versões de uma planta (chave: id da planta)
+export const plantLock = new KeyedMutex();
@@ -0,0 +1,45 @@
+// ============================================================================
+// UTILITÁRIOS DE SENHA - HASH COM SCRYPT
+// ============================================================================
+
+import crypto from 'crypto';
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+function scrypt(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+}
+
+/**
+ * Gerar hash de senha no formato "scrypt$<salt>$<hash>" (base64)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(password, salt);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+/**
+ * Verificar senha contra hash armazenado (comparação em tempo constante)
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, saltB64, hashB64] = storedHash.split('$');
+
+  if (algorithm !== 'scrypt' || !saltB64 || !hashB64) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = await scrypt(password, Buffer.from(saltB64, 'base64'));
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}